@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "phase_reached" VARCHAR(30),
+ADD COLUMN     "plan_steps_completed" INTEGER,
+ADD COLUMN     "plan_steps_total" INTEGER,
+ADD COLUMN     "planned_competencies" VARCHAR(30)[] DEFAULT ARRAY[]::VARCHAR(30)[],
+ADD COLUMN     "questions_asked" JSONB;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "question_template_id" UUID;
+
+-- CreateTable
+CREATE TABLE "interview_question_templates" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "instructions" TEXT,
+    "questions" VARCHAR(300)[],
+    "required_skills" VARCHAR(60)[] DEFAULT ARRAY[]::VARCHAR(60)[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "interview_question_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "interview_question_templates_user_id_idx" ON "interview_question_templates"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "interviews" ADD CONSTRAINT "interviews_question_template_id_fkey" FOREIGN KEY ("question_template_id") REFERENCES "interview_question_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interview_question_templates" ADD CONSTRAINT "interview_question_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
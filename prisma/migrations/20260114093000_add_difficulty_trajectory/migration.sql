@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "difficulty_trajectory" JSONB;
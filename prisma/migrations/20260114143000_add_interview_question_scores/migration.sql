@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "interview_question_scores" (
+    "id" UUID NOT NULL,
+    "interview_id" UUID NOT NULL,
+    "step_index" INTEGER NOT NULL,
+    "phase" VARCHAR(30) NOT NULL,
+    "question_text" TEXT NOT NULL,
+    "asked_at_sec" INTEGER NOT NULL,
+    "answer_start_sec" INTEGER,
+    "answer_end_sec" INTEGER,
+    "competency_tags" VARCHAR(30)[] DEFAULT ARRAY[]::VARCHAR(30)[],
+    "preliminary_score" INTEGER,
+    "evidence" TEXT,
+    "difficulty_level" VARCHAR(20),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "interview_question_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "interview_question_scores_interview_id_idx" ON "interview_question_scores"("interview_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "interview_question_scores_interview_id_step_index_key" ON "interview_question_scores"("interview_id", "step_index");
+
+-- AddForeignKey
+ALTER TABLE "interview_question_scores" ADD CONSTRAINT "interview_question_scores_interview_id_fkey" FOREIGN KEY ("interview_id") REFERENCES "interviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "InterviewMode" AS ENUM ('STANDARD', 'BEHAVIORAL', 'TECHNICAL_DEEP_DIVE', 'CASE', 'SALARY_NEGOTIATION');
+
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "interview_mode" "InterviewMode" NOT NULL DEFAULT 'STANDARD';
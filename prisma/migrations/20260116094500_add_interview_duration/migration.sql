@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "credit_cost" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "duration_minutes" INTEGER,
+ADD COLUMN     "timer_checkpoints" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "control_events" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "panel_personas" VARCHAR(30)[] DEFAULT ARRAY[]::VARCHAR(30)[];
+
+-- AlterTable
+ALTER TABLE "interview_question_scores" ADD COLUMN     "asked_by" VARCHAR(30);
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "company_profiles" (
+    "id" UUID NOT NULL,
+    "slug" VARCHAR(60) NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "aliases" VARCHAR(120)[] DEFAULT ARRAY[]::VARCHAR(120)[],
+    "values" VARCHAR(200)[] DEFAULT ARRAY[]::VARCHAR(200)[],
+    "interview_format" TEXT,
+    "leadership_principles" VARCHAR(200)[] DEFAULT ARRAY[]::VARCHAR(200)[],
+    "question_themes" VARCHAR(200)[] DEFAULT ARRAY[]::VARCHAR(200)[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "company_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_profiles_slug_key" ON "company_profiles"("slug");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "InterviewChannel" AS ENUM ('VOICE', 'TEXT');
+
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "channel" "InterviewChannel" NOT NULL DEFAULT 'VOICE';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "region" VARCHAR(40),
+ADD COLUMN     "turn_latencies" JSONB;
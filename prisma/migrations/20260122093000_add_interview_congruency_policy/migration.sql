@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "CongruencyPolicy" AS ENUM ('OFF', 'WARN', 'ADAPT', 'END');
+
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN     "congruency_analysis" JSONB,
+ADD COLUMN     "congruency_policy" "CongruencyPolicy" NOT NULL DEFAULT 'END';
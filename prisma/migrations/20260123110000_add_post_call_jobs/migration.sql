@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "PostCallJobType" AS ENUM ('TRANSCRIPT', 'METRICS', 'STUDY_PLAN', 'FEEDBACK', 'PDF', 'EMAIL');
+
+-- CreateEnum
+CREATE TYPE "PostCallJobStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "post_call_jobs" (
+    "id" UUID NOT NULL,
+    "interview_id" UUID NOT NULL,
+    "type" "PostCallJobType" NOT NULL,
+    "status" "PostCallJobStatus" NOT NULL DEFAULT 'PENDING',
+    "payload" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "locked_by" VARCHAR(100),
+    "last_error" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_call_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_call_jobs_status_run_at_idx" ON "post_call_jobs"("status", "run_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_call_jobs_interview_id_type_key" ON "post_call_jobs"("interview_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "post_call_jobs" ADD CONSTRAINT "post_call_jobs_interview_id_fkey" FOREIGN KEY ("interview_id") REFERENCES "interviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "feedback_documents" ADD COLUMN "active_version" INTEGER;
+
+-- CreateTable
+CREATE TABLE "feedback_versions" (
+    "id" UUID NOT NULL,
+    "feedback_document_id" UUID NOT NULL,
+    "interview_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content_json" JSONB,
+    "overall_score" DOUBLE PRECISION,
+    "schema_version" VARCHAR(20),
+    "prompt_version" VARCHAR(50),
+    "model" VARCHAR(100),
+    "pdf_storage_key" VARCHAR(500),
+    "reason" VARCHAR(500),
+    "generated_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "feedback_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feedback_versions_feedback_document_id_idx" ON "feedback_versions"("feedback_document_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feedback_versions_interview_id_version_key" ON "feedback_versions"("interview_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "feedback_versions" ADD CONSTRAINT "feedback_versions_feedback_document_id_fkey" FOREIGN KEY ("feedback_document_id") REFERENCES "feedback_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing structured feedback becomes version 1
+INSERT INTO "feedback_versions" (
+    "id", "feedback_document_id", "interview_id", "version", "content_json", "overall_score",
+    "schema_version", "prompt_version", "model", "pdf_storage_key", "reason", "generated_at"
+)
+SELECT
+    gen_random_uuid(), "id", "interview_id", 1, "content_json", "overall_score",
+    "schema_version", "prompt_version", "model", "pdf_storage_key", 'initial', "generated_at"
+FROM "feedback_documents"
+WHERE "content_json" IS NOT NULL;
+
+UPDATE "feedback_documents" SET "active_version" = 1 WHERE "content_json" IS NOT NULL;
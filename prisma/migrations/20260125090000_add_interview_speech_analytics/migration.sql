@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "interviews" ADD COLUMN "speech_analytics" JSONB;
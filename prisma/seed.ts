@@ -0,0 +1,20 @@
+/**
+ * Database seed (npm run db:seed / prisma db seed)
+ *
+ * Idempotent: only inserts reference data that is missing.
+ */
+
+import { prisma } from '../src/services/databaseService';
+import { seedCompanyProfiles } from '../src/services/companyProfileService';
+
+async function main() {
+  const companyProfiles = await seedCompanyProfiles();
+  console.log(`Seeded ${companyProfiles} company profile(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Seed failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
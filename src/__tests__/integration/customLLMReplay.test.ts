@@ -0,0 +1,510 @@
+/**
+ * Custom LLM WebSocket Replay Tests
+ *
+ * Replays recorded Retell message sequences (fixtures/retell/*.json) through
+ * CustomLLMWebSocketHandler over a fake socket, with the local stub LLM, and
+ * asserts on the CustomLLMResponse frames the handler emits for each event.
+ *
+ * Fixture format:
+ * - callContext: what /register-call stored for the call (storeCallContext metadata)
+ * - events[]: either a Retell `request` or `advanceSeconds` of (fake) wall-clock time,
+ *   each with the frames expected in response. Streamed chunks of one response are
+ *   merged into a single frame; `contains` matches a substring of its content.
+ * - llmCalls (optional): how many LLM turns the whole replay should take
+ *
+ * Also covers resuming a reconnecting socket from its checkpoint and the
+ * deferred finalization of a dropped call.
+ *
+ * @module __tests__/integration/customLLMReplay.test
+ */
+
+import fs from 'fs';
+import path from 'path';
+import WebSocket from 'ws';
+import type OpenAI from 'openai';
+
+// ============================================
+// MOCKS
+// ============================================
+
+const cacheStore = new Map<string, unknown>();
+const cacheExpiry = new Map<string, number>();
+
+jest.mock('../../providers/cacheProvider', () => ({
+  cacheProvider: {
+    getName: () => 'test',
+    get: jest.fn(async (key: string) => {
+      if ((cacheExpiry.get(key) ?? Infinity) <= Date.now()) {
+        cacheStore.delete(key);
+      }
+      return cacheStore.get(key) ?? null;
+    }),
+    set: jest.fn(async (key: string, value: unknown, ttlSeconds?: number) => {
+      cacheStore.set(key, JSON.parse(JSON.stringify(value)));
+      cacheExpiry.set(key, ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity);
+    }),
+    del: jest.fn(async (key: string) => {
+      cacheStore.delete(key);
+    }),
+    exists: jest.fn(async (key: string) => cacheStore.has(key)),
+    keys: jest.fn(async () => [...cacheStore.keys()]),
+  },
+}));
+
+jest.mock('../../config/env', () => ({
+  config: {
+    callContext: { encryptionKey: 'test-call-context-encryption-key-0123456789' },
+  },
+}));
+
+// Session metrics, per-question records and post-call processing write to the database
+jest.mock('../../services/interviewSessionService', () => {
+  const noop = jest.fn(async () => null);
+  return {
+    createInterviewSession: noop,
+    recordFirstAgentUtterance: noop,
+    updateSessionTokens: noop,
+    finalizeSession: jest.fn(async () => null),
+    incrementClarificationTurns: noop,
+    updateSessionPlanProgress: noop,
+    updateSessionLanguageEvents: noop,
+    updateSessionControlEvents: noop,
+    updateSessionSilenceEvents: noop,
+    updateSessionGuardrailEvents: noop,
+    incrementSilenceCount: noop,
+    updateSessionTurnLatencies: noop,
+    recordCongruencyOutcome: noop,
+  };
+});
+
+jest.mock('../../services/questionScoreService', () => ({
+  upsertQuestionScore: jest.fn(async () => null),
+}));
+
+jest.mock('../../services/postCallJobQueue', () => ({
+  enqueuePostCallProcessing: jest.fn(async () => undefined),
+}));
+
+// Live answer scoring would consume stub LLM turns; replies are what is under test
+jest.mock('../../services/answerEvaluationService', () => ({
+  evaluateAnswer: jest.fn(async () => null),
+}));
+
+import { CustomLLMWebSocketHandler } from '../../services/customLLMWebSocket';
+import { storeCallContext } from '../../services/callContextService';
+import { finalizeSession } from '../../services/interviewSessionService';
+import { RESUME_GRACE_MS } from '../../services/interviewCheckpointService';
+import { evaluateAnswer } from '../../services/answerEvaluationService';
+import { upsertQuestionScore } from '../../services/questionScoreService';
+import { LocalChatProvider, type ChatMessage, type ChatStreamChunk } from '../../providers/chatProvider';
+
+// ============================================
+// HARNESS
+// ============================================
+
+type Frame = Record<string, any>;
+
+interface ReplayEvent {
+  request?: Record<string, any>;
+  advanceSeconds?: number;
+  expect: Array<Frame & { contains?: string }>;
+}
+
+interface ReplayFixture {
+  description: string;
+  callId: string;
+  callContext: Parameters<typeof storeCallContext>[1];
+  events: ReplayEvent[];
+  llmCalls?: number;
+}
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'retell');
+
+function loadFixtures(): Array<[string, ReplayFixture]> {
+  return fs
+    .readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => [file.replace(/\.json$/, ''), JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'))]);
+}
+
+/**
+ * Stands in for the Retell socket: open, and records every frame sent
+ */
+class FakeRetellSocket {
+  readyState: number = WebSocket.OPEN;
+  frames: Frame[] = [];
+
+  send(data: string) {
+    this.frames.push(JSON.parse(data));
+  }
+
+  /**
+   * Frames sent since the last call, with streamed chunks of each response merged
+   */
+  takeFrames(): Frame[] {
+    const sent = this.frames;
+    this.frames = [];
+
+    const merged: Frame[] = [];
+    let open: Frame | null = null;
+    for (const frame of sent) {
+      if (frame.response_type !== 'response') {
+        merged.push(frame);
+        continue;
+      }
+      if (open && open.response_id === frame.response_id) {
+        Object.assign(open, frame, { content: open.content + (frame.content || '') });
+      } else {
+        open = { ...frame, content: frame.content || '' };
+        merged.push(open);
+      }
+      if (frame.content_complete) {
+        open = null;
+      }
+    }
+    return merged;
+  }
+}
+
+/**
+ * Local stub LLM that also records the prompt of every turn
+ */
+class RecordingChatProvider extends LocalChatProvider {
+  calls: ChatMessage[][] = [];
+
+  streamChat(messages: ChatMessage[]) {
+    this.calls.push(messages);
+    return super.streamChat(messages);
+  }
+}
+
+/**
+ * Streams the given chunks, then drops like a failed vendor connection
+ */
+class FailingChatProvider extends LocalChatProvider {
+  calls = 0;
+
+  constructor(private chunks: string[]) {
+    super();
+  }
+
+  async *streamChat(): AsyncIterable<ChatStreamChunk> {
+    this.calls++;
+    for (const content of this.chunks) {
+      yield { content, done: false };
+    }
+    throw new Error('socket hang up');
+  }
+}
+
+function toMatcher({ contains, ...frame }: Frame & { contains?: string }): Frame {
+  return contains ? { ...frame, content: expect.stringContaining(contains) } : frame;
+}
+
+async function replay(fixture: ReplayFixture) {
+  await storeCallContext(fixture.callId, fixture.callContext);
+
+  const socket = new FakeRetellSocket();
+  const llm = new RecordingChatProvider();
+  const handler = new CustomLLMWebSocketHandler(
+    socket as unknown as WebSocket,
+    {} as OpenAI,
+    fixture.callId,
+    { chatProvider: llm, fallbackChatProvider: null }
+  );
+  const configFrames = socket.takeFrames();
+
+  for (const [index, event] of fixture.events.entries()) {
+    if (event.request) {
+      await handler.handleMessage(JSON.stringify(event.request));
+    }
+    if (event.advanceSeconds) {
+      await jest.advanceTimersByTimeAsync(event.advanceSeconds * 1000);
+    }
+
+    const frames = socket.takeFrames();
+    const label = `event ${index} (${event.request?.interaction_type || `+${event.advanceSeconds}s`})`;
+    expect({ label, frames }).toMatchObject({ label, frames: event.expect.map(toMatcher) });
+    expect({ label, count: frames.length }).toEqual({ label, count: event.expect.length });
+  }
+
+  handler.handleClose();
+  return { configFrames, llm };
+}
+
+/**
+ * Open a socket for the happy-path call and send call_details; the frames sent
+ * in reply (the greeting, or the repeated last question on a resume) are returned
+ */
+async function connect(chatProvider: LocalChatProvider, fallbackChatProvider: LocalChatProvider | null = null) {
+  const fixture = loadFixtures().find(([name]) => name === 'happy-path')![1];
+
+  const socket = new FakeRetellSocket();
+  const handler = new CustomLLMWebSocketHandler(
+    socket as unknown as WebSocket,
+    {} as OpenAI,
+    fixture.callId,
+    { chatProvider, fallbackChatProvider }
+  );
+  socket.takeFrames();
+  await handler.handleMessage(JSON.stringify(fixture.events[0].request));
+  const opening = socket.takeFrames();
+
+  const answer = (responseId: number) => handler.handleMessage(JSON.stringify({
+    ...fixture.events.find((e) => e.request?.interaction_type === 'response_required')!.request,
+    response_id: responseId,
+  }));
+  return { socket, handler, answer, opening };
+}
+
+/**
+ * Greeted happy-path call with the given providers, ready for the first answer
+ */
+async function startCall(
+  chatProvider: LocalChatProvider,
+  fallbackChatProvider: LocalChatProvider | null,
+  callContext: Partial<ReplayFixture['callContext']> = {}
+) {
+  const fixture = loadFixtures().find(([name]) => name === 'happy-path')![1];
+  await storeCallContext(fixture.callId, { ...fixture.callContext, ...callContext });
+  return connect(chatProvider, fallbackChatProvider);
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('CustomLLMWebSocketHandler replay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    cacheStore.clear();
+    cacheExpiry.clear();
+    jest.mocked(finalizeSession).mockClear();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it.each(loadFixtures())('%s', async (_name, fixture) => {
+    const { configFrames, llm } = await replay(fixture);
+
+    expect(configFrames).toEqual([
+      { response_type: 'config', config: { auto_reconnect: true, call_details: true } },
+    ]);
+    if (fixture.llmCalls !== undefined) {
+      expect(llm.calls).toHaveLength(fixture.llmCalls);
+    }
+  });
+
+  it('sends the interview system prompt and the candidate answer to the LLM', async () => {
+    const fixture = loadFixtures().find(([name]) => name === 'happy-path')![1];
+    const { llm } = await replay(fixture);
+
+    const [firstTurn] = llm.calls;
+    expect(firstTurn[0]).toMatchObject({ role: 'system', content: expect.stringContaining('<company>Acme</company>') });
+    expect(firstTurn).toContainEqual(
+      expect.objectContaining({ role: 'user', content: expect.stringContaining('payment APIs in Node.js') })
+    );
+  });
+
+  it('fails over to the fallback provider when the primary fails before streaming', async () => {
+    const primary = new FailingChatProvider([]);
+    const fallback = new RecordingChatProvider();
+    const { socket, handler, answer } = await startCall(primary, fallback);
+
+    await answer(1);
+
+    expect(socket.takeFrames()).toEqual([
+      expect.objectContaining({ response_id: 1, content_complete: true, content: expect.stringContaining('recent project') }),
+    ]);
+    expect(primary.calls).toBe(1);
+    expect(fallback.calls).toHaveLength(1);
+    handler.handleClose();
+  });
+
+  it('closes a partly streamed reply instead of restarting it on the fallback', async () => {
+    const primary = new FailingChatProvider(['Thanks for that answer. ', 'How did you']);
+    const fallback = new RecordingChatProvider();
+    const { socket, handler, answer } = await startCall(primary, fallback);
+
+    await answer(1);
+
+    // Only what was already spoken, once, then the completion frame
+    expect(socket.takeFrames()).toEqual([
+      expect.objectContaining({ response_id: 1, content: 'Thanks for that answer.', content_complete: true }),
+    ]);
+    expect(fallback.calls).toHaveLength(0);
+
+    // The next turn goes to the fallback
+    await answer(2);
+    expect(socket.takeFrames()).toEqual([expect.objectContaining({ response_id: 2, content_complete: true })]);
+    expect(primary.calls).toBe(1);
+    expect(fallback.calls).toHaveLength(1);
+    handler.handleClose();
+  });
+
+  it('speaks a due time checkpoint as the start of the reply the request asked for', async () => {
+    const llm = new RecordingChatProvider();
+    const { socket, handler, answer } = await startCall(llm, null, {
+      duration_minutes: 10,
+      timer_checkpoints: ['halfway'],
+    });
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000 + 1000);
+    socket.takeFrames();
+
+    await answer(1);
+
+    const frames = socket.frames;
+    expect(frames.length).toBeGreaterThan(1);
+    expect(frames.every((frame) => frame.response_id === 1)).toBe(true);
+    expect(frames[0]).toMatchObject({ content_complete: false, content: expect.stringMatching(/halfway/i) });
+    expect(frames.filter((frame) => frame.content_complete)).toHaveLength(1);
+    expect(frames[frames.length - 1].content_complete).toBe(true);
+
+    // The notice is part of the agent's reply, after the candidate's answer
+    await answer(2);
+    const history = llm.calls[1].map((m) => `${m.role}: ${m.content}`);
+    const answerAt = history.findIndex((line) => line.includes('payment APIs in Node.js'));
+    const noticeAt = history.findIndex((line) => line.startsWith('assistant:') && /halfway/i.test(line));
+    expect(answerAt).toBeGreaterThan(-1);
+    expect(noticeAt).toBeGreaterThan(answerAt);
+    handler.handleClose();
+  });
+
+  it('replies without waiting for the answer score and adapts the next question once it lands', async () => {
+    let score: (result: Awaited<ReturnType<typeof evaluateAnswer>>) => void = () => undefined;
+    jest.mocked(evaluateAnswer).mockImplementationOnce(() => new Promise((resolve) => { score = resolve; }));
+    const llm = new RecordingChatProvider();
+    const { socket, handler, answer } = await startCall(llm, null);
+    const difficultyOf = (messages: ChatMessage[]) =>
+      messages.map((m) => m.content).join('\n').match(/<difficulty level="(\w+)">/)?.[1];
+
+    // Answer until a competency question has been answered and sent for scoring
+    let responseId = 0;
+    while (jest.mocked(evaluateAnswer).mock.calls.length === 0) {
+      await answer(++responseId);
+    }
+
+    expect(socket.takeFrames()).toContainEqual(
+      expect.objectContaining({ response_id: responseId, content_complete: true })
+    );
+    expect(difficultyOf(llm.calls[llm.calls.length - 1])).toBe('intermediate');
+
+    score({
+      score: 5,
+      evidence: 'Moved forty million rows with dual writes and no downtime',
+      usage: { promptTokens: 100, completionTokens: 20, model: 'local', provider: 'local' },
+    });
+    await answer(++responseId);
+
+    expect(difficultyOf(llm.calls[llm.calls.length - 1])).toBe('advanced');
+    handler.handleClose();
+  });
+
+  it('records answer spans in interview time, leaving out a pause', async () => {
+    const { handler, answer } = await startCall(new RecordingChatProvider(), null, { interview_id: 'interview_spans' });
+    const fixture = loadFixtures().find(([name]) => name === 'happy-path')![1];
+    const started = fixture.events.find((e) => e.request?.interaction_type === 'update_only')!.request!;
+
+    await jest.advanceTimersByTimeAsync(15 * 1000);
+    await handler.handleMessage(JSON.stringify(started));
+    await jest.advanceTimersByTimeAsync(5 * 1000);
+    await handler.handleMessage(JSON.stringify({
+      interaction_type: 'response_required',
+      response_id: 1,
+      transcript: [{ role: 'user', content: 'Could we pause for a minute?' }],
+    }));
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    // Any utterance during the pause resumes it; this one answers the intro
+    await answer(2);
+
+    expect(upsertQuestionScore).toHaveBeenCalledWith(
+      'interview_spans',
+      expect.objectContaining({ stepIndex: 0, askedAtSec: 0, answerStartSec: 15, answerEndSec: 20 })
+    );
+    handler.handleClose();
+  });
+
+  describe('checkpoint resume', () => {
+    const checkpointKey = 'interview:checkpoint:call_replay_happy_path';
+
+    it('checkpoints each conversation event, encrypted, with the call-length TTL', async () => {
+      const { handler, answer } = await startCall(new RecordingChatProvider(), null);
+      await answer(1);
+
+      const { cacheProvider } = jest.requireMock('../../providers/cacheProvider');
+      expect(cacheProvider.set).toHaveBeenLastCalledWith(
+        checkpointKey,
+        { version: 2, savedAt: expect.any(Number), payload: expect.any(String) },
+        2 * 60 * 60
+      );
+
+      // Neither the prompt (with its resume excerpt) nor the answers are readable in the cache
+      const raw = JSON.stringify(cacheStore.get(checkpointKey));
+      expect(raw).not.toContain('payment APIs in Node.js');
+      expect(raw).not.toContain('<company>Acme</company>');
+      handler.handleClose();
+    });
+
+    it('resumes a reconnecting socket where the interview left off instead of greeting again', async () => {
+      const first = await startCall(new RecordingChatProvider(), null, { interview_id: 'interview_resume' });
+      await first.answer(1);
+      const [lastQuestion] = first.socket.takeFrames();
+      first.handler.handleClose();
+
+      const llm = new RecordingChatProvider();
+      const second = await connect(llm);
+
+      expect(second.opening).toEqual([
+        expect.objectContaining({ content: lastQuestion.content }),
+      ]);
+      expect(second.opening[0].content).not.toContain('Welcome to your mock interview');
+
+      // The earlier answer is still in the conversation sent to the LLM
+      await second.answer(2);
+      expect(llm.calls[0]).toContainEqual(
+        expect.objectContaining({ role: 'user', content: expect.stringContaining('payment APIs in Node.js') })
+      );
+
+      // The dropped socket's deferred finalization does not end the resumed call
+      await jest.advanceTimersByTimeAsync(RESUME_GRACE_MS);
+      expect(finalizeSession).not.toHaveBeenCalled();
+      expect(cacheStore.has(checkpointKey)).toBe(true);
+
+      second.handler.handleClose();
+    });
+
+    it('finalizes a dropped call once the resume grace window passes', async () => {
+      const { handler, answer } = await startCall(new RecordingChatProvider(), null, { interview_id: 'interview_dropped' });
+      await answer(1);
+      handler.handleClose();
+
+      await jest.advanceTimersByTimeAsync(RESUME_GRACE_MS - 1000);
+      expect(finalizeSession).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(finalizeSession).toHaveBeenCalledTimes(1);
+      expect(finalizeSession).toHaveBeenCalledWith('interview_dropped', expect.objectContaining({ endReason: 'COMPLETED' }));
+      expect(cacheStore.has(checkpointKey)).toBe(false);
+    });
+
+    it('greets again once the checkpoint has expired', async () => {
+      const first = await startCall(new RecordingChatProvider(), null);
+      await first.answer(1);
+
+      // Past the checkpoint TTL without running the call's timers
+      jest.setSystemTime(Date.now() + 2 * 60 * 60 * 1000 + 1000);
+
+      const second = await connect(new RecordingChatProvider());
+      expect(second.opening).toEqual([
+        expect.objectContaining({ content: expect.stringContaining('Welcome to your mock interview') }),
+      ]);
+      first.handler.handleClose();
+      second.handler.handleClose();
+    });
+  });
+});
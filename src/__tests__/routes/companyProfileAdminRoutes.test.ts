@@ -0,0 +1,181 @@
+/**
+ * Company Profile Admin Routes Tests
+ *
+ * Admin auth, validation and slug conflicts for /api/admin/company-profiles,
+ * plus company name matching and the prompt block the interviewer receives.
+ */
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger', () => {
+  const childLogger: any = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+  childLogger.child = jest.fn(() => childLogger);
+  return {
+    __esModule: true,
+    default: childLogger,
+  };
+});
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: {
+    companyProfile: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import companyProfileAdminRoutes from '../../routes/companyProfileAdminRoutes';
+import { prisma } from '../../services/databaseService';
+import { matchCompanyProfile, normalizeCompanyName } from '../../services/companyProfileService';
+import { generateInterviewAlignedPrompt } from '../../prompts/multilingualPrompts';
+import { COMPANY_PROFILE_SEEDS } from '../../prompts/companyProfiles';
+
+const ADMIN_SECRET = 'test-admin-secret';
+const PROFILE_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin/company-profiles', companyProfileAdminRoutes);
+  return app;
+}
+
+const validBody = {
+  slug: 'acme',
+  name: 'Acme Corp',
+  aliases: ['ACME Inc.', 'acme.com'],
+  values: ['Customer first'],
+  questionThemes: ['Shipping under pressure'],
+};
+
+describe('Company Profile Admin Routes', () => {
+  const originalSecret = process.env.ADMIN_SECRET_KEY;
+
+  beforeAll(() => {
+    process.env.ADMIN_SECRET_KEY = ADMIN_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_SECRET_KEY = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns 401 without the admin secret', async () => {
+    await request(createApp()).get('/api/admin/company-profiles').expect(401);
+    expect(prisma.companyProfile.findMany).not.toHaveBeenCalled();
+  });
+
+  it('creates a profile with normalized aliases', async () => {
+    (prisma.companyProfile.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.companyProfile.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: PROFILE_ID, ...data }));
+
+    const response = await request(createApp())
+      .post('/api/admin/company-profiles')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .send(validBody)
+      .expect(201);
+
+    // "Acme Corp", "ACME Inc." and "acme.com" all normalize to the same alias
+    expect(response.body.data.aliases).toEqual(['acme']);
+    expect(response.body.data.isActive).toBe(true);
+  });
+
+  it('rejects a slug that is already taken', async () => {
+    (prisma.companyProfile.findUnique as jest.Mock).mockResolvedValue({ id: 'other', slug: 'acme' });
+
+    await request(createApp())
+      .post('/api/admin/company-profiles')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .send(validBody)
+      .expect(409);
+
+    expect(prisma.companyProfile.create).not.toHaveBeenCalled();
+  });
+
+  it('validates the slug format', async () => {
+    await request(createApp())
+      .post('/api/admin/company-profiles')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .send({ ...validBody, slug: 'Acme Corp' })
+      .expect(400);
+  });
+
+  it('returns 404 when updating a missing profile', async () => {
+    (prisma.companyProfile.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await request(createApp())
+      .put(`/api/admin/company-profiles/${PROFILE_ID}`)
+      .set('x-admin-secret', ADMIN_SECRET)
+      .send(validBody)
+      .expect(404);
+
+    expect(prisma.companyProfile.update).not.toHaveBeenCalled();
+  });
+
+  it('seeds only the missing profiles', async () => {
+    (prisma.companyProfile.findUnique as jest.Mock).mockImplementation(async ({ where }) =>
+      where.slug === 'amazon' ? { id: PROFILE_ID, slug: 'amazon' } : null
+    );
+    (prisma.companyProfile.create as jest.Mock).mockResolvedValue({});
+
+    const response = await request(createApp())
+      .post('/api/admin/company-profiles/seed')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+
+    expect(response.body.data.inserted).toBe(COMPANY_PROFILE_SEEDS.length - 1);
+  });
+});
+
+describe('Company profile matching', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('normalizes legal suffixes, domains and accents', () => {
+    expect(normalizeCompanyName('Amazon.com, Inc.')).toBe('amazon');
+    expect(normalizeCompanyName('Mercado Livre Ltda')).toBe('mercado livre');
+    expect(normalizeCompanyName('Société Générale S.A.')).toBe('societe generale');
+  });
+
+  it('looks up active profiles by normalized alias and survives lookup errors', async () => {
+    (prisma.companyProfile.findFirst as jest.Mock).mockResolvedValueOnce({ slug: 'amazon' });
+    await expect(matchCompanyProfile('AWS')).resolves.toEqual({ slug: 'amazon' });
+    expect(prisma.companyProfile.findFirst).toHaveBeenCalledWith({
+      where: { isActive: true, aliases: { has: 'aws' } },
+    });
+
+    (prisma.companyProfile.findFirst as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+    await expect(matchCompanyProfile('Amazon')).resolves.toBeNull();
+    await expect(matchCompanyProfile('  ')).resolves.toBeNull();
+  });
+
+  it('injects the profile into the interviewer prompt', () => {
+    const amazon = COMPANY_PROFILE_SEEDS.find((p) => p.slug === 'amazon')!;
+    const prompt = generateInterviewAlignedPrompt({
+      language: 'en-US',
+      roleTitle: 'Software Engineer',
+      companyName: 'Amazon',
+      companyProfile: amazon,
+    });
+
+    expect(prompt).toContain('<company_interview_style company="Amazon">');
+    expect(prompt).toContain('- Customer Obsession');
+    expect(generateInterviewAlignedPrompt({ language: 'en-US', roleTitle: 'Software Engineer' }))
+      .not.toContain('<company_interview_style');
+  });
+});
@@ -71,6 +71,12 @@ jest.mock('../../services/interviewService', () => ({
   getSuggestedRetakes: jest.fn(),
   getInterviewHistory: jest.fn(),
   createInterviewFromResume: jest.fn(),
+  MIN_INTERVIEW_DURATION_MINUTES: 5,
+  MAX_INTERVIEW_DURATION_MINUTES: 45,
+}));
+
+jest.mock('../../services/questionTemplateService', () => ({
+  getQuestionTemplate: jest.fn(),
 }));
 
 jest.mock('../../services/postCallProcessingService', () => ({
@@ -79,10 +85,29 @@ jest.mock('../../services/postCallProcessingService', () => ({
   },
 }));
 
+jest.mock('../../services/textChatService', () => ({
+  startTextChat: jest.fn(),
+}));
+
+jest.mock('../../services/feedbackDocumentService', () => ({
+  listFeedbackVersions: jest.fn(),
+  selectFeedbackVersion: jest.fn(),
+  diffFeedbackVersions: jest.fn(),
+  MAX_FEEDBACK_VERSIONS: 3,
+}));
+
+jest.mock('../../services/postCallJobQueue', () => ({
+  requestFeedbackRegeneration: jest.fn(),
+}));
+
 import interviewRoutes from '../../routes/interviewRoutes';
 import { prisma } from '../../services/databaseService';
 import * as interviewService from '../../services/interviewService';
 import { postCallProcessingService } from '../../services/postCallProcessingService';
+import { getQuestionTemplate } from '../../services/questionTemplateService';
+import { startTextChat } from '../../services/textChatService';
+import { listFeedbackVersions, selectFeedbackVersion, diffFeedbackVersions } from '../../services/feedbackDocumentService';
+import { requestFeedbackRegeneration } from '../../services/postCallJobQueue';
 import logger from '../../utils/logger';
 
 function createApp() {
@@ -143,6 +168,217 @@ describe('Interview Routes', () => {
         })
       );
     });
+
+    it('attaches an owned question template', async () => {
+      const app = createApp();
+      const templateId = '550e8400-e29b-41d4-a716-446655440002';
+
+      (getQuestionTemplate as jest.Mock).mockResolvedValue({ id: templateId, userId: 'user_1' });
+      (interviewService.createInterview as jest.Mock).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        questionTemplateId: templateId,
+      });
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          questionTemplateId: templateId,
+        })
+        .expect(200);
+
+      expect(getQuestionTemplate).toHaveBeenCalledWith(templateId, 'user_1');
+      expect(interviewService.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({ questionTemplateId: templateId })
+      );
+    });
+
+    it('returns 404 when the question template is not owned by the user', async () => {
+      const app = createApp();
+      (getQuestionTemplate as jest.Mock).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          questionTemplateId: '550e8400-e29b-41d4-a716-446655440002',
+        })
+        .expect(404);
+
+      expect(interviewService.createInterview).not.toHaveBeenCalled();
+    });
+
+    it('passes the selected interview mode', async () => {
+      const app = createApp();
+      (interviewService.createInterview as jest.Mock).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        interviewMode: 'CASE',
+      });
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Strategy Consultant',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          interviewMode: 'CASE',
+        })
+        .expect(200);
+
+      expect(interviewService.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({ interviewMode: 'CASE' })
+      );
+    });
+
+    it('rejects an unknown interview mode', async () => {
+      const app = createApp();
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          interviewMode: 'WHITEBOARD',
+        })
+        .expect(400);
+
+      expect(interviewService.createInterview).not.toHaveBeenCalled();
+    });
+
+    it('passes the chosen duration and timer checkpoints', async () => {
+      const app = createApp();
+      (interviewService.createInterview as jest.Mock).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        durationMinutes: 30,
+        creditCost: 2,
+      });
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          durationMinutes: 30,
+          timerCheckpoints: ['halfway', 5, 1],
+        })
+        .expect(200);
+
+      expect(interviewService.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({ durationMinutes: 30, timerCheckpoints: ['halfway', 5, 1] })
+      );
+    });
+
+    it('rejects a duration outside the allowed range', async () => {
+      const app = createApp();
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          durationMinutes: 90,
+        })
+        .expect(400);
+
+      expect(interviewService.createInterview).not.toHaveBeenCalled();
+    });
+
+    it('passes the panel personas and voice', async () => {
+      const app = createApp();
+      (interviewService.createInterview as jest.Mock).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        panelPersonas: ['hiring_manager', 'senior_engineer'],
+      });
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({
+          jobTitle: 'Software Engineer',
+          companyName: 'Acme',
+          jobDescription: 'A'.repeat(60),
+          resumeId: '550e8400-e29b-41d4-a716-446655440001',
+          panelPersonas: ['hiring_manager', 'senior_engineer'],
+          voiceId: 'voice_123',
+        })
+        .expect(200);
+
+      expect(interviewService.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({ panelPersonas: ['hiring_manager', 'senior_engineer'], voiceId: 'voice_123' })
+      );
+    });
+
+    it('rejects a panel with one persona or repeated personas', async () => {
+      const app = createApp();
+      const base = {
+        jobTitle: 'Software Engineer',
+        companyName: 'Acme',
+        jobDescription: 'A'.repeat(60),
+        resumeId: '550e8400-e29b-41d4-a716-446655440001',
+      };
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({ ...base, panelPersonas: ['hiring_manager'] })
+        .expect(400);
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({ ...base, panelPersonas: ['hr_partner', 'hr_partner'] })
+        .expect(400);
+
+      expect(interviewService.createInterview).not.toHaveBeenCalled();
+    });
+
+    it('passes the congruency policy and rejects unknown ones', async () => {
+      const app = createApp();
+      (interviewService.createInterview as jest.Mock).mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        congruencyPolicy: 'ADAPT',
+      });
+      const base = {
+        jobTitle: 'Software Engineer',
+        companyName: 'Acme',
+        jobDescription: 'A'.repeat(60),
+        resumeId: '550e8400-e29b-41d4-a716-446655440001',
+      };
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({ ...base, congruencyPolicy: 'SKIP' })
+        .expect(400);
+      expect(interviewService.createInterview).not.toHaveBeenCalled();
+
+      await request(app)
+        .post('/api/interviews')
+        .set('x-test-user', 'user_1')
+        .send({ ...base, congruencyPolicy: 'ADAPT' })
+        .expect(200);
+      expect(interviewService.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({ congruencyPolicy: 'ADAPT' })
+      );
+    });
   });
 
   describe('PATCH /api/interviews/:id', () => {
@@ -200,6 +436,7 @@ describe('Interview Routes', () => {
         hasMetrics: false,
         hasStudyPlan: false,
         overallScore: 72,
+        steps: [{ type: 'TRANSCRIPT', status: 'SUCCEEDED', completedAt: null }],
       });
       (prisma.interview.findUnique as jest.Mock).mockResolvedValue({
         status: 'COMPLETED',
@@ -222,8 +459,100 @@ describe('Interview Routes', () => {
           hasFeedback: true,
           overallScore: 72,
           interviewStatus: 'COMPLETED',
+          steps: [{ type: 'TRANSCRIPT', status: 'SUCCEEDED', completedAt: null }],
         })
       );
+      expect(response.body.data.jobs).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/interviews/:id/text-session', () => {
+    it('returns the chat id and socket path', async () => {
+      (startTextChat as jest.Mock).mockResolvedValue({ ok: true, chatId: 'chat_abc123' });
+
+      const response = await request(createApp())
+        .post('/api/interviews/550e8400-e29b-41d4-a716-446655440000/text-session')
+        .set('x-test-user', 'user_1')
+        .expect(201);
+
+      expect(response.body.data).toEqual({ chatId: 'chat_abc123', websocketPath: '/chat-websocket/chat_abc123' });
+      expect(startTextChat).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440000', 'user_1');
+    });
+
+    it('passes through registration failures', async () => {
+      (startTextChat as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 409,
+        message: 'Interview has already been started',
+      });
+
+      await request(createApp())
+        .post('/api/interviews/550e8400-e29b-41d4-a716-446655440000/text-session')
+        .set('x-test-user', 'user_1')
+        .expect(409);
+    });
+  });
+
+  describe('feedback versions', () => {
+    const base = '/api/interviews/550e8400-e29b-41d4-a716-446655440000/feedback';
+    const version = (n: number) => ({ version: n, promptVersion: 'v1.0.0', isActive: false });
+
+    beforeEach(() => {
+      (prisma.interview.findFirst as jest.Mock).mockResolvedValue({ id: '550e8400-e29b-41d4-a716-446655440000' });
+    });
+
+    it('queues a regeneration with the reason given', async () => {
+      (listFeedbackVersions as jest.Mock).mockResolvedValue([version(1)]);
+      (requestFeedbackRegeneration as jest.Mock).mockResolvedValue({ ok: true, jobs: 1 });
+
+      await request(createApp())
+        .post(`${base}/regenerate`)
+        .set('x-test-user', 'user_1')
+        .send({ reason: 'Scores look too low' })
+        .expect(202);
+
+      expect(requestFeedbackRegeneration).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        'Scores look too low'
+      );
+    });
+
+    it('stops regenerating at the version limit', async () => {
+      (listFeedbackVersions as jest.Mock).mockResolvedValue([version(1), version(2), version(3)]);
+
+      await request(createApp()).post(`${base}/regenerate`).set('x-test-user', 'user_1').expect(409);
+      expect(requestFeedbackRegeneration).not.toHaveBeenCalled();
+    });
+
+    it('switches the displayed version and 404s on unknown versions', async () => {
+      (selectFeedbackVersion as jest.Mock)
+        .mockResolvedValueOnce({ ...version(1), isActive: true })
+        .mockResolvedValueOnce(null);
+      const app = createApp();
+
+      const response = await request(app)
+        .put(`${base}/active-version`)
+        .set('x-test-user', 'user_1')
+        .send({ version: 1 })
+        .expect(200);
+      expect(response.body.data.isActive).toBe(true);
+
+      await request(app).put(`${base}/active-version`).set('x-test-user', 'user_1').send({ version: 7 }).expect(404);
+    });
+
+    it('diffs scores between two versions of an owned interview', async () => {
+      (diffFeedbackVersions as jest.Mock).mockResolvedValue({ overallDelta: 6, competencies: [] });
+
+      const response = await request(createApp())
+        .get(`${base}/diff?from=1&to=2`)
+        .set('x-test-user', 'user_1')
+        .expect(200);
+
+      expect(response.body.data.overallDelta).toBe(6);
+      expect(diffFeedbackVersions).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440000', 1, 2);
+
+      (prisma.interview.findFirst as jest.Mock).mockResolvedValue(null);
+      await request(createApp()).get(`${base}/diff?from=1&to=2`).set('x-test-user', 'user_2').expect(404);
     });
   });
 });
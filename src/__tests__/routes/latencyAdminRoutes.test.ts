@@ -0,0 +1,170 @@
+/**
+ * Latency Admin Routes Tests
+ *
+ * Per-turn timing from the tracker the live handler uses, and the
+ * /api/admin/latency percentile report grouped by model, language and region.
+ */
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger', () => {
+  const childLogger: any = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+  childLogger.child = jest.fn(() => childLogger);
+  return {
+    __esModule: true,
+    default: childLogger,
+  };
+});
+
+jest.mock('@prisma/client', () => ({
+  Prisma: { DbNull: 'DbNull' },
+}));
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: {
+    interviewSession: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+import latencyAdminRoutes from '../../routes/latencyAdminRoutes';
+import { prisma } from '../../services/databaseService';
+import { percentile, TurnLatencyTracker, type TurnLatency } from '../../utils/turnLatency';
+
+const ADMIN_SECRET = 'test-admin-secret';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin/latency', latencyAdminRoutes);
+  return app;
+}
+
+function turn(firstTokenMs: number, model = 'gpt-4o'): TurnLatency {
+  return { atSec: 10, responseId: 1, firstTokenMs, lastTokenMs: firstTokenMs + 900, bytesSent: 400, model };
+}
+
+describe('TurnLatencyTracker', () => {
+  it('times request -> first and last token and counts bytes sent', () => {
+    const tracker = new TurnLatencyTracker();
+    tracker.begin(3, 42, 1000);
+    tracker.markToken(1350);
+    tracker.markToken(1500);
+    tracker.addBytes(120);
+    tracker.addBytes(80);
+
+    expect(tracker.complete(3, 'gpt-4o', 2200)).toEqual({
+      atSec: 42,
+      responseId: 3,
+      firstTokenMs: 350,
+      lastTokenMs: 1200,
+      bytesSent: 200,
+      model: 'gpt-4o',
+    });
+    expect(tracker.getAverageResponseMs()).toBe(1200);
+  });
+
+  it('skips turns that never reached the LLM and survives a checkpoint', () => {
+    const tracker = new TurnLatencyTracker();
+    tracker.begin(1, 5, 0);
+    tracker.discard();
+    expect(tracker.complete(1, 'gpt-4o', 100)).toBeNull();
+
+    tracker.begin(2, 8, 0);
+    expect(tracker.complete(2, 'gpt-4o', 100)).toBeNull(); // no token arrived
+
+    tracker.begin(3, 12, 0);
+    tracker.markToken(200);
+    tracker.complete(3, 'gpt-4o', 600);
+
+    const restored = TurnLatencyTracker.fromState(JSON.parse(JSON.stringify(tracker.toState())));
+    expect(restored.getTurns()).toEqual(tracker.getTurns());
+    expect(restored.getTurns()).toHaveLength(1);
+  });
+
+  it('uses nearest-rank percentiles', () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('Latency Admin Routes', () => {
+  const originalSecret = process.env.ADMIN_SECRET_KEY;
+
+  beforeAll(() => {
+    process.env.ADMIN_SECRET_KEY = ADMIN_SECRET;
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_SECRET_KEY = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns 401 without the admin secret', async () => {
+    await request(createApp()).get('/api/admin/latency').expect(401);
+    expect(prisma.interviewSession.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects report windows over 90 days', async () => {
+    await request(createApp())
+      .get('/api/admin/latency?days=365')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(400);
+  });
+
+  it('reports percentiles grouped by model, language and region', async () => {
+    (prisma.interviewSession.findMany as jest.Mock).mockResolvedValue([
+      { language: 'en-US', region: 'eastus', turnLatencies: [turn(300), turn(500), turn(700, 'gpt-4o-mini')] },
+      { language: 'pt-BR', region: null, turnLatencies: [turn(1100), { malformed: true }] },
+    ]);
+
+    const res = await request(createApp())
+      .get('/api/admin/latency?days=14')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+
+    const report = res.body.data;
+    expect(report.sessions).toBe(2);
+    expect(report.overall).toMatchObject({
+      turns: 4,
+      firstTokenMs: { p50: 500, p95: 1100, p99: 1100 },
+      avgBytesSent: 400,
+    });
+    expect(report.byModel.map((g: any) => [g.key, g.turns])).toEqual([['gpt-4o', 3], ['gpt-4o-mini', 1]]);
+    expect(report.byLanguage.map((g: any) => g.key)).toEqual(['en-US', 'pt-BR']);
+    expect(report.byRegion).toEqual(expect.arrayContaining([
+      expect.objectContaining({ key: 'unknown', turns: 1, lastTokenMs: { p50: 2000, p95: 2000, p99: 2000 } }),
+    ]));
+
+    const [query] = (prisma.interviewSession.findMany as jest.Mock).mock.calls[0];
+    const windowMs = Date.now() - query.where.callStartedAt.gte.getTime();
+    expect(Math.round(windowMs / 86_400_000)).toBe(14);
+  });
+
+  it('filters turns by model', async () => {
+    (prisma.interviewSession.findMany as jest.Mock).mockResolvedValue([
+      { language: 'en-US', region: 'eastus', turnLatencies: [turn(300), turn(700, 'gpt-4o-mini')] },
+    ]);
+
+    const res = await request(createApp())
+      .get('/api/admin/latency?model=gpt-4o-mini')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+
+    expect(res.body.data.overall.turns).toBe(1);
+    expect(res.body.data.byModel).toEqual([expect.objectContaining({ key: 'gpt-4o-mini' })]);
+  });
+});
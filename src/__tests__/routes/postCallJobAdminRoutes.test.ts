@@ -0,0 +1,106 @@
+/**
+ * Post-Call Job Admin Routes Tests
+ *
+ * Listing the post-call queue and re-running jobs through /api/admin/post-call-jobs.
+ */
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger', () => {
+  const childLogger: any = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+  childLogger.child = jest.fn(() => childLogger);
+  return {
+    __esModule: true,
+    default: childLogger,
+  };
+});
+
+jest.mock('../../services/postCallJobQueue', () => ({
+  listPostCallJobs: jest.fn(),
+  retryPostCallJob: jest.fn(),
+  rerunInterviewJobs: jest.fn(),
+}));
+
+import postCallJobAdminRoutes from '../../routes/postCallJobAdminRoutes';
+import { listPostCallJobs, retryPostCallJob, rerunInterviewJobs } from '../../services/postCallJobQueue';
+
+const ADMIN_SECRET = 'test-admin-secret';
+const JOB_ID = '550e8400-e29b-41d4-a716-446655440001';
+const INTERVIEW_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin/post-call-jobs', postCallJobAdminRoutes);
+  return app;
+}
+
+describe('Post-Call Job Admin Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.ADMIN_SECRET_KEY = ADMIN_SECRET;
+  });
+
+  it('requires the admin secret', async () => {
+    await request(createApp()).get('/api/admin/post-call-jobs').expect(401);
+    expect(listPostCallJobs).not.toHaveBeenCalled();
+  });
+
+  it('lists jobs filtered by status and type', async () => {
+    (listPostCallJobs as jest.Mock).mockResolvedValue({ jobs: [], total: 0, byStatus: { DEAD: 2 } });
+
+    const response = await request(createApp())
+      .get('/api/admin/post-call-jobs?status=DEAD&type=PDF&limit=20')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+
+    expect(response.body.data.byStatus).toEqual({ DEAD: 2 });
+    expect(listPostCallJobs).toHaveBeenCalledWith({ status: 'DEAD', type: 'PDF', limit: 20 });
+  });
+
+  it('rejects unknown statuses', async () => {
+    const response = await request(createApp())
+      .get('/api/admin/post-call-jobs?status=FAILED')
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(400);
+
+    expect(response.body.message).toBe('Validation failed');
+  });
+
+  it('retries a job and passes through conflicts', async () => {
+    (retryPostCallJob as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, jobs: 1 })
+      .mockResolvedValueOnce({ ok: false, status: 409, message: 'Job is running' });
+    const app = createApp();
+
+    const ok = await request(app)
+      .post(`/api/admin/post-call-jobs/${JOB_ID}/retry`)
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+    expect(ok.body.data).toEqual({ requeued: 1 });
+
+    const conflict = await request(app)
+      .post(`/api/admin/post-call-jobs/${JOB_ID}/retry`)
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(409);
+    expect(conflict.body.message).toBe('Job is running');
+  });
+
+  it("re-runs an interview's pipeline", async () => {
+    (rerunInterviewJobs as jest.Mock).mockResolvedValue({ ok: true, jobs: 6 });
+
+    const response = await request(createApp())
+      .post(`/api/admin/post-call-jobs/interviews/${INTERVIEW_ID}/rerun`)
+      .set('x-admin-secret', ADMIN_SECRET)
+      .expect(200);
+
+    expect(response.body.data).toEqual({ requeued: 6 });
+    expect(rerunInterviewJobs).toHaveBeenCalledWith(INTERVIEW_ID);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Question Template Routes Tests
+ *
+ * CRUD for /api/question-templates through the real service, against a mocked
+ * Prisma client: validation of sanitized input and per-user ownership.
+ */
+
+import request from 'supertest';
+import express from 'express';
+
+jest.mock('../../utils/logger', () => {
+  const childLogger: any = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+  childLogger.child = jest.fn(() => childLogger);
+  return {
+    __esModule: true,
+    default: childLogger,
+  };
+});
+
+jest.mock('../../middleware/sessionAuthMiddleware', () => ({
+  requireSession: (req: any, res: any, next: any) => {
+    const userId = req.header('x-test-user');
+    if (!userId) {
+      return res.status(401).json({ status: 'error', message: 'Authentication required' });
+    }
+    req.userId = userId;
+    next();
+  },
+}));
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: {
+    interviewQuestionTemplate: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import questionTemplateRoutes from '../../routes/questionTemplateRoutes';
+import { prisma } from '../../services/databaseService';
+
+const templates = prisma.interviewQuestionTemplate as unknown as Record<string, jest.Mock>;
+const TEMPLATE_ID = '550e8400-e29b-41d4-a716-446655440010';
+
+const validBody = {
+  name: 'Platform team screen',
+  instructions: 'Focus on on-call experience.',
+  questions: ['Are you comfortable with a weekly on-call rotation?'],
+  requiredSkills: ['Kubernetes'],
+};
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/question-templates', questionTemplateRoutes);
+  return app;
+}
+
+describe('Question Template Routes', () => {
+  beforeEach(() => {
+    templates.create.mockImplementation(async ({ data }: any) => ({ id: TEMPLATE_ID, ...data }));
+    templates.update.mockImplementation(async ({ where, data }: any) => ({ id: where.id, userId: 'user_1', ...data }));
+  });
+
+  describe('POST /api/question-templates', () => {
+    it('returns 401 when unauthenticated', async () => {
+      await request(createApp()).post('/api/question-templates').send(validBody).expect(401);
+    });
+
+    it('stores the sanitized template for the user', async () => {
+      const response = await request(createApp())
+        .post('/api/question-templates')
+        .set('x-test-user', 'user_1')
+        .send({
+          ...validBody,
+          name: '  <b>Platform</b>   team screen ',
+          questions: [...validBody.questions, 'are you comfortable with a weekly on-call rotation?'],
+        })
+        .expect(201);
+
+      expect(templates.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user_1',
+          name: 'Platform team screen',
+          instructions: 'Focus on on-call experience.',
+          questions: ['Are you comfortable with a weekly on-call rotation?'],
+          requiredSkills: ['Kubernetes'],
+        },
+      });
+      expect(response.body.data).toMatchObject({ id: TEMPLATE_ID, name: 'Platform team screen' });
+    });
+
+    it('rejects a name made only of markup', async () => {
+      const response = await request(createApp())
+        .post('/api/question-templates')
+        .set('x-test-user', 'user_1')
+        .send({ ...validBody, name: '<b></b>' })
+        .expect(400);
+
+      expect(response.body.errors).toContainEqual(expect.objectContaining({ path: ['name'] }));
+      expect(templates.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects questions that are empty once control characters and markup are stripped', async () => {
+      await request(createApp())
+        .post('/api/question-templates')
+        .set('x-test-user', 'user_1')
+        .send({ ...validBody, questions: ['<i>\u0007\u0007\u0007</i>'] })
+        .expect(400);
+
+      expect(templates.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/question-templates/:id', () => {
+    it('updates a template the user owns', async () => {
+      templates.findFirst.mockResolvedValue({ id: TEMPLATE_ID, userId: 'user_1' });
+
+      const response = await request(createApp())
+        .put(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_1')
+        .send({ ...validBody, name: 'Renamed screen' })
+        .expect(200);
+
+      expect(templates.findFirst).toHaveBeenCalledWith({ where: { id: TEMPLATE_ID, userId: 'user_1' } });
+      expect(response.body.data).toMatchObject({ id: TEMPLATE_ID, name: 'Renamed screen' });
+    });
+
+    it("returns 404 for another user's template without changing it", async () => {
+      templates.findFirst.mockResolvedValue(null);
+
+      await request(createApp())
+        .put(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_2')
+        .send(validBody)
+        .expect(404);
+
+      expect(templates.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects an update whose questions are all stripped away', async () => {
+      await request(createApp())
+        .put(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_1')
+        .send({ ...validBody, questions: ['<br/><br/><br/>'] })
+        .expect(400);
+
+      expect(templates.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/question-templates/:id', () => {
+    it('deletes only within the user\'s own templates', async () => {
+      templates.deleteMany.mockResolvedValue({ count: 1 });
+
+      await request(createApp())
+        .delete(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_1')
+        .expect(200);
+
+      expect(templates.deleteMany).toHaveBeenCalledWith({ where: { id: TEMPLATE_ID, userId: 'user_1' } });
+    });
+
+    it("returns 404 for another user's template", async () => {
+      templates.deleteMany.mockResolvedValue({ count: 0 });
+
+      await request(createApp())
+        .delete(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_2')
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/question-templates/:id', () => {
+    it("returns 404 for another user's template", async () => {
+      templates.findFirst.mockResolvedValue(null);
+
+      await request(createApp())
+        .get(`/api/question-templates/${TEMPLATE_ID}`)
+        .set('x-test-user', 'user_2')
+        .expect(404);
+
+      expect(templates.findFirst).toHaveBeenCalledWith({ where: { id: TEMPLATE_ID, userId: 'user_2' } });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Answer Evaluation & Adaptive Difficulty Tests
+ *
+ * Live anchor scoring of candidate answers and the difficulty level it drives.
+ */
+
+import { evaluateAnswer } from '../../services/answerEvaluationService';
+import { DifficultyTracker } from '../../utils/adaptiveDifficulty';
+import type { ChatMessage, ChatProvider } from '../../providers/chatProvider';
+
+function fakeProvider(reply: string): ChatProvider & { calls: ChatMessage[][] } {
+  const calls: ChatMessage[][] = [];
+  return {
+    name: 'local',
+    defaultModel: 'local-test',
+    calls,
+    isAvailable: () => true,
+    async *streamChat(messages: ChatMessage[]) {
+      calls.push(messages);
+      yield { content: reply, done: false };
+      yield { content: '', done: true, usage: { promptTokens: 120, completionTokens: 20 } };
+    },
+  };
+}
+
+const input = {
+  competency: 'problem_solving' as const,
+  question: 'How would you debug a memory leak in production?',
+  answer: 'I would take heap snapshots over time and compare retained objects.',
+  roleTitle: 'Backend Engineer',
+};
+
+describe('evaluateAnswer', () => {
+  it('scores an answer against the competency anchors', async () => {
+    const provider = fakeProvider('```json\n{"score": 4, "evidence": "compares heap snapshots"}\n```');
+    const result = await evaluateAnswer(provider, input);
+
+    expect(result).toEqual({
+      score: 4,
+      evidence: 'compares heap snapshots',
+      usage: { promptTokens: 120, completionTokens: 20, model: 'local-test', provider: 'local' },
+    });
+    expect(provider.calls[0][0].content).toContain('problem_solving');
+  });
+
+  it('returns null for unusable output', async () => {
+    expect(await evaluateAnswer(fakeProvider('Great answer!'), input)).toBeNull();
+    expect(await evaluateAnswer(fakeProvider('{"score": 9}'), input)).toBeNull();
+  });
+});
+
+describe('DifficultyTracker', () => {
+  const answer = { competency: 'problem_solving' as const, question: 'q', evidence: 'e' };
+
+  it('raises the level after strong answers and lowers it after weak ones', () => {
+    const tracker = new DifficultyTracker('intermediate');
+
+    expect(tracker.recordScore({ ...answer, step: 2, score: 5 }).nextLevel).toBe('advanced');
+    expect(tracker.recordScore({ ...answer, step: 3, score: 4 }).nextLevel).toBe('expert');
+    expect(tracker.recordScore({ ...answer, step: 4, score: 5 }).nextLevel).toBe('expert');
+    expect(tracker.recordScore({ ...answer, step: 5, score: 1 }).nextLevel).toBe('advanced');
+    expect(tracker.recordScore({ ...answer, step: 6, score: 3 }).nextLevel).toBe('advanced');
+    expect(tracker.getGuidance()).toContain('level="advanced"');
+  });
+
+  it('records each step once and survives checkpointing', () => {
+    const tracker = new DifficultyTracker('basic');
+    tracker.recordScore({ ...answer, step: 2, score: 4 });
+    tracker.recordScore({ ...answer, step: 2, score: 1 });
+
+    const restored = DifficultyTracker.fromState(tracker.toState());
+    expect(restored.getTrajectory()).toHaveLength(1);
+    expect(restored.getCurrentLevel()).toBe('intermediate');
+  });
+});
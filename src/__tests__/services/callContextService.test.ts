@@ -0,0 +1,115 @@
+/**
+ * Call Context Service Tests
+ *
+ * Call contexts are shared through the CacheProvider (so any instance can pick
+ * up the Retell WebSocket) with the resume encrypted at rest.
+ */
+
+const cacheStore = new Map<string, unknown>();
+
+jest.mock('../../providers/cacheProvider', () => ({
+  cacheProvider: {
+    getName: () => 'test',
+    get: jest.fn(async (key: string) => cacheStore.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      // Round-trip through JSON like Redis does
+      cacheStore.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+    del: jest.fn(async (key: string) => {
+      cacheStore.delete(key);
+    }),
+    exists: jest.fn(async (key: string) => cacheStore.has(key)),
+    keys: jest.fn(async () => [...cacheStore.keys()]),
+  },
+}));
+
+jest.mock('../../config/env', () => ({
+  config: {
+    callContext: { encryptionKey: 'test-call-context-encryption-key-0123456789' },
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  wsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { cacheProvider } from '../../providers/cacheProvider';
+import {
+  storeCallContext,
+  getCallContext,
+  getCallLanguage,
+  cleanupCallContext,
+} from '../../services/callContextService';
+
+const RESUME = 'JVBERi0xLjQKJcfsj6IKNSAwIG9iago8PC9MZW5ndGggNiAwIFI+PgpzdHJlYW0K';
+
+describe('callContextService', () => {
+  beforeEach(() => {
+    cacheStore.clear();
+  });
+
+  it('stores the context in the cache with a 2 hour TTL and reads it back', async () => {
+    await storeCallContext('call_1', {
+      preferredLanguage: 'pt-BR',
+      first_name: 'Ana',
+      last_name: 'Silva',
+      job_title: 'Backend Engineer',
+      company_name: 'Acme',
+      job_description: 'Build APIs',
+      interviewee_cv: RESUME,
+      interview_id: 'interview_1',
+      interview_mode: 'BEHAVIORAL',
+      duration_minutes: 45,
+      seniority: 'senior',
+    });
+
+    expect(cacheProvider.set).toHaveBeenCalledWith('call:context:call_1', expect.any(Object), 7200);
+
+    const context = await getCallContext('call_1');
+    expect(context).toMatchObject({
+      callId: 'call_1',
+      interviewId: 'interview_1',
+      preferredLanguage: 'pt-BR',
+      candidateName: 'Ana Silva',
+      jobDescription: 'Build APIs',
+      intervieweeCV: RESUME,
+      interviewMode: 'BEHAVIORAL',
+      durationMinutes: 45,
+      seniority: 'senior',
+    });
+    expect(context?.createdAt).toBeInstanceOf(Date);
+    expect(await getCallLanguage('call_1')).toBe('pt-BR');
+  });
+
+  it('never writes the resume to the cache in plaintext', async () => {
+    await storeCallContext('call_2', { interviewee_cv: RESUME });
+
+    const raw = JSON.stringify(cacheStore.get('call:context:call_2'));
+    expect(raw).not.toContain(RESUME);
+    expect(raw).toContain('encryptedCV');
+  });
+
+  it('returns null (and en-US) for unknown contexts', async () => {
+    expect(await getCallContext('missing')).toBeNull();
+    expect(await getCallLanguage('missing')).toBe('en-US');
+  });
+
+  it('drops only the resume when it cannot be decrypted', async () => {
+    await storeCallContext('call_3', { preferredLanguage: 'es-ES', job_title: 'Data Engineer', interviewee_cv: RESUME });
+    const stored = cacheStore.get('call:context:call_3') as { encryptedCV: string };
+    const [iv, tag] = stored.encryptedCV.split('.');
+    stored.encryptedCV = [iv, tag, Buffer.from('tampered').toString('base64')].join('.');
+
+    const context = await getCallContext('call_3');
+    expect(context).toMatchObject({ callId: 'call_3', preferredLanguage: 'es-ES', jobTitle: 'Data Engineer' });
+    expect(context?.intervieweeCV).toBeUndefined();
+  });
+
+  it('removes the context on cleanup', async () => {
+    await storeCallContext('call_4', { preferredLanguage: 'en-US' });
+
+    expect(await cleanupCallContext('call_4')).toBe(true);
+    expect(await cleanupCallContext('call_4')).toBe(false);
+    expect(await getCallContext('call_4')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Candidate Controls Tests
+ *
+ * Spoken control commands (repeat, rephrase, skip, pause, end) are detected in
+ * short utterances only, in the interview language or in English.
+ */
+
+import { detectCandidateControl } from '../../utils/candidateControls';
+
+describe('detectCandidateControl', () => {
+  it('detects each English command', () => {
+    expect(detectCandidateControl('Sorry, can you repeat the question?', 'en-US')).toBe('repeat');
+    expect(detectCandidateControl("I don't understand the question", 'en-US')).toBe('rephrase');
+    expect(detectCandidateControl("Can we skip this one? I'd rather not answer.", 'en-US')).toBe('skip');
+    expect(detectCandidateControl('Can we pause for a minute?', 'en-US')).toBe('pause');
+    expect(detectCandidateControl('I want to end the interview now', 'en-GB')).toBe('end');
+  });
+
+  it('detects commands in the interview language and falls back to English', () => {
+    expect(detectCandidateControl('Pode repetir a pergunta, por favor?', 'pt-BR')).toBe('repeat');
+    expect(detectCandidateControl('Podemos hacer una pausa?', 'es-MX')).toBe('pause');
+    expect(detectCandidateControl('Question suivante, s\'il vous plaît', 'fr-FR')).toBe('skip');
+    expect(detectCandidateControl('跳过这个问题', 'zh-CN')).toBe('skip');
+    expect(detectCandidateControl('Sorry, say that again?', 'pt-BR')).toBe('repeat');
+  });
+
+  it('ignores long answers that only mention a command word', () => {
+    const answer =
+      'In my last project we decided to skip this step of the release checklist because the ' +
+      'integration tests already covered it, and I had to repeat the question to the team lead.';
+    expect(detectCandidateControl(answer, 'en-US')).toBeNull();
+    expect(detectCandidateControl('I led a team of five engineers', 'en-US')).toBeNull();
+  });
+
+  it('prefers ending over the other commands', () => {
+    expect(detectCandidateControl("Let's skip it, actually I'd like to end the interview", 'en-US')).toBe('end');
+  });
+
+  it('only reports resume while paused', () => {
+    expect(detectCandidateControl("OK, I'm ready", 'en-US')).toBeNull();
+    expect(detectCandidateControl("OK, I'm ready", 'en-US', { paused: true })).toBe('resume');
+    expect(detectCandidateControl('Estou pronta, podemos continuar', 'pt-BR', { paused: true })).toBe('resume');
+  });
+});
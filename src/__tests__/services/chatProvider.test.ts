@@ -0,0 +1,71 @@
+/**
+ * Chat Provider Tests
+ *
+ * Choosing the live interviewer's primary/fallback providers when some have
+ * no API key, and when the local stub may stand in for them.
+ */
+
+jest.mock('../../utils/logger', () => ({
+  wsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import type OpenAI from 'openai';
+import { createChatProviderChain } from '../../providers/chatProvider';
+import { wsLogger } from '../../utils/logger';
+
+const ENV_KEYS = ['NODE_ENV', 'LLM_ALLOW_LOCAL_FALLBACK', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GEMINI_API_KEY'];
+
+describe('createChatProviderChain', () => {
+  const savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+  beforeEach(() => {
+    ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  afterAll(() => {
+    ENV_KEYS.forEach((key) => {
+      if (savedEnv[key] !== undefined) {
+        process.env[key] = savedEnv[key];
+      }
+    });
+  });
+
+  it('moves an available fallback into the primary slot', () => {
+    const chain = createChatProviderChain('anthropic', 'openai', { openai: {} as OpenAI });
+
+    expect(chain.primary.name).toBe('openai');
+    expect(chain.fallback).toBeNull();
+  });
+
+  it('uses the local stub outside production when nothing is configured', () => {
+    process.env.NODE_ENV = 'development';
+
+    const chain = createChatProviderChain('openai', 'gemini');
+
+    expect(chain.primary.name).toBe('local');
+    expect(wsLogger.error).not.toHaveBeenCalled();
+  });
+
+  it('logs an error and keeps the unconfigured primary in production', () => {
+    process.env.NODE_ENV = 'production';
+
+    const chain = createChatProviderChain('openai', 'gemini');
+
+    expect(chain.primary.name).toBe('openai');
+    expect(chain.primary.isAvailable()).toBe(false);
+    expect(chain.fallback).toBeNull();
+    expect(wsLogger.error).toHaveBeenCalledWith(
+      expect.stringContaining('No chat provider configured'),
+      { primary: 'openai', fallback: 'gemini' }
+    );
+  });
+
+  it('uses the local stub in production once explicitly allowed', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.LLM_ALLOW_LOCAL_FALLBACK = 'true';
+
+    const chain = createChatProviderChain('openai', undefined);
+
+    expect(chain.primary.name).toBe('local');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Congruency Policy Tests
+ *
+ * What each per-interview congruency policy does with a resume/job fit check,
+ * and the credit given back when the interview is ended for a mismatch.
+ */
+
+const ledger = {
+  findUnique: jest.fn(),
+  create: jest.fn(async () => ({ id: 'ledger_restore' })),
+};
+const tx = {
+  creditsWallet: {
+    findUnique: jest.fn(async () => ({ userId: 'user_1', balance: 2 })),
+    update: jest.fn(async () => ({ balance: 4 })),
+  },
+  creditLedger: ledger,
+  user: { update: jest.fn(async () => ({})) },
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    creditLedger: ledger,
+    $transaction: jest.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+  })),
+  Prisma: { JsonNull: 'JsonNull' },
+}));
+
+jest.mock('../../services/databaseService', () => ({
+  dbLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  buildTransferableSkillsGuidance,
+  decideCongruencyAction,
+  resolveCongruencyPolicy,
+  type CongruencyAnalysis,
+} from '../../utils/congruencyAnalyzer';
+import { restoreInterviewCredit } from '../../services/creditsWalletService';
+
+function analysis(overrides: Partial<CongruencyAnalysis> = {}): CongruencyAnalysis {
+  return {
+    isCongruent: false,
+    confidence: 0.8,
+    reasons: ['No backend experience'],
+    recommendation: 'continue',
+    isExtremelyIncompatible: false,
+    skillsMatch: { matched: [], missing: ['Node.js', 'SQL'], transferable: ['Stakeholder management'] },
+    ...overrides,
+  };
+}
+
+describe('decideCongruencyAction', () => {
+  const extreme = analysis({ isExtremelyIncompatible: true, confidence: 0.97 });
+
+  it('only ends END interviews, and only for extreme mismatches', () => {
+    expect(decideCongruencyAction(extreme, 'END', 'quick')).toBe('ended');
+    expect(decideCongruencyAction(extreme, 'END', 'full')).toBe('ended');
+    expect(decideCongruencyAction(analysis(), 'END', 'full')).toBe('none');
+    expect(decideCongruencyAction(analysis({ isExtremelyIncompatible: true, confidence: 0.9 }), 'END', 'quick')).toBe('none');
+  });
+
+  it('adapts or warns on any mismatch instead of ending', () => {
+    expect(decideCongruencyAction(extreme, 'ADAPT', 'quick')).toBe('adapted');
+    expect(decideCongruencyAction(analysis(), 'ADAPT', 'full')).toBe('adapted');
+    expect(decideCongruencyAction(analysis(), 'WARN', 'full')).toBe('warned');
+    expect(decideCongruencyAction(extreme, 'OFF', 'full')).toBe('none');
+  });
+
+  it('leaves congruent candidates alone', () => {
+    const fit = analysis({ isCongruent: true, confidence: 0.9 });
+    expect(decideCongruencyAction(fit, 'ADAPT', 'full')).toBe('none');
+    expect(decideCongruencyAction(fit, 'WARN', 'full')).toBe('none');
+  });
+
+  it('defaults unknown policies to END', () => {
+    expect(resolveCongruencyPolicy('adapt')).toBe('ADAPT');
+    expect(resolveCongruencyPolicy(undefined)).toBe('END');
+    expect(resolveCongruencyPolicy('skip')).toBe('END');
+  });
+
+  it('steers ADAPT interviews toward transferable skills', () => {
+    const guidance = buildTransferableSkillsGuidance(analysis());
+    expect(guidance).toContain('Stakeholder management');
+    expect(guidance).toContain('Node.js, SQL');
+  });
+});
+
+describe('restoreInterviewCredit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('restores what the call spent under the shared restore key', async () => {
+    ledger.findUnique.mockResolvedValueOnce({ userId: 'user_1', amount: -2 }).mockResolvedValueOnce(null);
+
+    const result = await restoreInterviewCredit('call_123', 'Interview ended early');
+
+    expect(result.success).toBe(true);
+    expect(ledger.findUnique).toHaveBeenNthCalledWith(1, { where: { idempotencyKey: 'interview_call_123' } });
+    expect(ledger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user_1',
+        type: 'RESTORE',
+        amount: 2,
+        idempotencyKey: 'restore_call_call_123',
+      }),
+    });
+  });
+
+  it('does nothing when the call never spent a credit', async () => {
+    ledger.findUnique.mockResolvedValueOnce(null);
+
+    const result = await restoreInterviewCredit('call_free', 'Interview ended early');
+
+    expect(result.success).toBe(false);
+    expect(ledger.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Conversation Memory Tests
+ *
+ * History pruning and the rolling "candidate facts" summary used by the
+ * live interviewer.
+ */
+
+import { ConversationMemory } from '../../utils/conversationMemory';
+import type { ChatMessage, ChatProvider } from '../../providers/chatProvider';
+
+function buildHistory(turns: number): ChatMessage[] {
+  const history: ChatMessage[] = [{ role: 'system', content: 'system prompt' }];
+  for (let i = 0; i < turns; i++) {
+    history.push({ role: 'assistant', content: `question ${i}` });
+    history.push({ role: 'user', content: `answer ${i}` });
+  }
+  return history;
+}
+
+function fakeProvider(reply: string | Error): ChatProvider & { calls: ChatMessage[][] } {
+  const calls: ChatMessage[][] = [];
+  return {
+    name: 'local',
+    defaultModel: 'local-test',
+    calls,
+    isAvailable: () => true,
+    async *streamChat(messages: ChatMessage[]) {
+      calls.push(messages);
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      yield { content: reply, done: false };
+      yield { content: '', done: true, usage: { promptTokens: 50, completionTokens: 10 } };
+    },
+  };
+}
+
+describe('ConversationMemory', () => {
+  it('keeps the system prompt and the most recent messages', () => {
+    const memory = new ConversationMemory('truncate');
+    const pruned = memory.prune(buildHistory(15), 20);
+
+    expect(pruned).toHaveLength(20);
+    expect(pruned[0].content).toBe('system prompt');
+    expect(pruned[pruned.length - 1].content).toBe('answer 14');
+  });
+
+  it('forgets dropped turns in truncate mode', () => {
+    const memory = new ConversationMemory('truncate');
+    memory.prune(buildHistory(15), 20);
+
+    expect(memory.hasPending()).toBe(false);
+    expect(memory.getMemoryMessage()).toBeNull();
+  });
+
+  it('keeps dropped turns verbatim until they are summarized', () => {
+    const memory = new ConversationMemory('rolling_summary');
+    memory.prune(buildHistory(15), 20);
+
+    const message = memory.getMemoryMessage();
+    expect(message?.role).toBe('system');
+    expect(message?.content).toContain('Candidate: answer 0');
+  });
+
+  it('folds dropped turns into the facts block', async () => {
+    const memory = new ConversationMemory('rolling_summary');
+    memory.prune(buildHistory(15), 20);
+
+    const provider = fakeProvider('- Led a payments migration at Acme');
+    const usage = await memory.summarizePending(provider);
+
+    expect(usage).toEqual({ promptTokens: 50, completionTokens: 10, model: 'local-test', provider: 'local' });
+    expect(provider.calls[0][1].content).toContain('Candidate: answer 0');
+    expect(memory.hasPending()).toBe(false);
+
+    const message = memory.getMemoryMessage();
+    expect(message?.content).toContain('Led a payments migration at Acme');
+    expect(message?.content).not.toContain('answer 0');
+  });
+
+  it('re-queues turns when summarization fails', async () => {
+    const memory = new ConversationMemory('rolling_summary');
+    memory.prune(buildHistory(15), 20);
+
+    await expect(memory.summarizePending(fakeProvider(new Error('provider down')))).rejects.toThrow('provider down');
+    expect(memory.hasPending()).toBe(true);
+  });
+
+  it('round-trips through checkpoint state', async () => {
+    const memory = new ConversationMemory('rolling_summary');
+    memory.prune(buildHistory(15), 20);
+    await memory.summarizePending(fakeProvider('- Knows Kafka'));
+
+    const restored = ConversationMemory.fromState(memory.toState());
+    expect(restored.getMode()).toBe('rolling_summary');
+    expect(restored.getMemoryMessage()?.content).toContain('Knows Kafka');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Evidence Verifier Tests
+ *
+ * Quotes cited in generated feedback are matched against the transcript:
+ * matched ones jump to the real segment, invented ones are removed.
+ */
+
+import { quoteSimilarity, tokenizeForMatch, verifyFeedbackEvidence } from '../../utils/evidenceVerifier';
+import type { StructuredFeedback, TranscriptEvidence } from '../../types/feedback';
+
+const transcript = [
+  { role: 'agent' as const, content: 'Tell me about a time you improved a slow system.', timestamp: 4.2 },
+  {
+    role: 'user' as const,
+    content: 'Sure. At Acme we moved billing to event sourcing, and that cut invoice latency from 24 hours to under two minutes.',
+    timestamp: 9.8,
+  },
+  { role: 'agent' as const, content: 'How did you convince the team?', timestamp: 41 },
+  { role: 'user' as const, content: "Honestly, I didn't. My manager drove the change.", timestamp: 44.5 },
+];
+
+function evidence(quote: string, timestamp = 0): TranscriptEvidence {
+  return { quote, timestamp, speaker: 'candidate' };
+}
+
+function feedbackWith(items: TranscriptEvidence[]): StructuredFeedback {
+  return {
+    competencies: [{ key: 'problem_solving', name: 'Problem solving', score: 4, evidence: items }],
+    strengths: [],
+    improvements: [],
+    highlights: [],
+    warnings: [],
+  } as unknown as StructuredFeedback;
+}
+
+describe('quoteSimilarity', () => {
+  it('tolerates punctuation, case and small wording slips but not short partial matches', () => {
+    const segment = tokenizeForMatch(transcript[1].content);
+
+    expect(quoteSimilarity(tokenizeForMatch('cut invoice latency from 24 hours to under two minutes'), segment)).toBe(1);
+    expect(quoteSimilarity(tokenizeForMatch('We moved billing to event-sourcing and it cut invoice latency'), segment))
+      .toBeGreaterThanOrEqual(0.8);
+    expect(quoteSimilarity(tokenizeForMatch('billing was slow'), segment)).toBe(0);
+    expect(tokenizeForMatch('Résumé – “didn’t”')).toEqual(['resume', "didn't"]);
+  });
+});
+
+describe('verifyFeedbackEvidence', () => {
+  it('snaps matched quotes to the segment start and removes invented ones', () => {
+    const feedback = feedbackWith([
+      evidence('that cut invoice latency from 24 hours to under two minutes', 75),
+      { quote: 'my manager drove the change', timestamp: 40, speaker: 'interviewer' },
+      evidence('I rewrote the whole billing service in Rust over a weekend', 30),
+    ]);
+
+    const check = verifyFeedbackEvidence(feedback, transcript);
+
+    expect(check).toEqual({ total: 3, verified: 2, dropped: 1 });
+    expect(feedback.competencies[0].evidence).toEqual([
+      evidence('that cut invoice latency from 24 hours to under two minutes', 9.8),
+      evidence('my manager drove the change', 44.5),
+    ]);
+    expect(feedback.evidenceCheck).toEqual(check);
+    // One invented quote out of three is below the warning threshold
+    expect(feedback.warnings).toEqual([]);
+  });
+
+  it('warns when too much of the evidence is unverifiable', () => {
+    const feedback = feedbackWith([
+      evidence('my manager drove the change'),
+      evidence('I mentored four junior engineers through the migration'),
+      evidence('we had zero incidents in production that year'),
+      evidence('I presented the design to the CTO'),
+    ]);
+
+    verifyFeedbackEvidence(feedback, transcript);
+
+    expect(feedback.evidenceCheck).toEqual({ total: 4, verified: 1, dropped: 3 });
+    expect(feedback.warnings).toEqual([
+      expect.objectContaining({ code: 'unverified_evidence', severity: 'warning' }),
+    ]);
+  });
+});
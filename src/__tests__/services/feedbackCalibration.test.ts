@@ -0,0 +1,82 @@
+/**
+ * Feedback Calibration Tests
+ *
+ * The reference fixtures replayed through the feedback generator must stay
+ * inside their score bands, and production scores are grouped by prompt
+ * version and model to flag drift.
+ */
+
+jest.mock('../../utils/logger', () => {
+  const childLogger: any = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+  childLogger.child = jest.fn(() => childLogger);
+  return {
+    __esModule: true,
+    default: childLogger,
+  };
+});
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: {
+    feedbackVersion: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../services/databaseService';
+import {
+  formatCalibrationReport,
+  getScoreDriftReport,
+  loadCalibrationFixtures,
+  runCalibration,
+} from '../../services/feedbackCalibrationService';
+
+describe('feedback calibration', () => {
+  it('keeps every reference fixture inside its expected bands', async () => {
+    const fixtures = loadCalibrationFixtures();
+    expect(fixtures.length).toBeGreaterThanOrEqual(4);
+
+    const report = await runCalibration(fixtures, { mode: 'stub' });
+
+    expect(report.cases.filter((c) => !c.passed).map((c) => c.fixtureId)).toEqual([]);
+    // Recorded responses quote their transcripts verbatim
+    expect(report.cases.filter((c) => c.evidence?.dropped !== 0).map((c) => c.fixtureId)).toEqual([]);
+    expect(report.promptVersion).toBeTruthy();
+  });
+
+  it('reports how far a score lands outside its band', async () => {
+    const [fixture] = loadCalibrationFixtures(undefined, ['backend-senior-strong']);
+    const tightened = { ...fixture, expected: { overallScore: { min: 40, max: 60 } } };
+
+    const report = await runCalibration([tightened], { mode: 'stub' });
+
+    expect(report.failed).toBe(1);
+    expect(report.cases[0].overall).toMatchObject({ score: 84, deviation: 24, withinBand: false });
+    expect(formatCalibrationReport(report)).toContain('FAIL  backend-senior-strong: overall 84 (expected 40-60, off by 24)');
+  });
+});
+
+describe('getScoreDriftReport', () => {
+  it('compares each prompt/model group with the largest one', async () => {
+    const rows = [
+      ...Array.from({ length: 30 }, (_, i) => ({ overallScore: 60 + (i % 10), promptVersion: 'v1.0.0', model: 'gpt-4o' })),
+      ...Array.from({ length: 25 }, (_, i) => ({ overallScore: 72 + (i % 10), promptVersion: 'v1.1.0', model: 'gpt-4o' })),
+      ...Array.from({ length: 3 }, () => ({ overallScore: 90, promptVersion: 'v1.1.0', model: 'gpt-4o-mini' })),
+    ];
+    (prisma.feedbackVersion.findMany as jest.Mock).mockResolvedValue(rows);
+
+    const report = await getScoreDriftReport({ days: 14 });
+
+    expect(report.samples).toBe(58);
+    expect(report.baseline).toEqual({ promptVersion: 'v1.0.0', model: 'gpt-4o' });
+    const [baseline, upgraded, small] = report.groups;
+    expect(baseline).toMatchObject({ samples: 30, mean: 64.5, meanDelta: null, drifted: false });
+    expect(baseline.histogram[6]).toBe(30);
+    expect(upgraded).toMatchObject({ promptVersion: 'v1.1.0', samples: 25, meanDelta: 11.5, drifted: true });
+    // Too few samples to call it drift
+    expect(small).toMatchObject({ model: 'gpt-4o-mini', samples: 3, drifted: false });
+  });
+});
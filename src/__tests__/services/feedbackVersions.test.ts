@@ -0,0 +1,140 @@
+/**
+ * Feedback Version Tests
+ *
+ * Recording regenerated feedback as new versions, switching the displayed
+ * version and comparing scores between versions.
+ */
+
+const tx = {
+  feedbackDocument: {
+    upsert: jest.fn(async (_args: any) => ({ id: 'doc_1' })),
+    update: jest.fn(async (args: any) => ({
+      id: 'doc_1',
+      interviewId: 'interview_1',
+      userId: 'user_1',
+      transcriptionText: null,
+      feedbackText: null,
+      generatedAt: new Date(),
+      ...args.data,
+    })),
+  },
+  feedbackVersion: {
+    findFirst: jest.fn(async (_args: any): Promise<any> => ({ version: 2 })),
+    create: jest.fn(async (_args: any) => ({})),
+  },
+};
+
+const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: {
+    $transaction: jest.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    interview: { updateMany: jest.fn(async () => ({ count: 0 })) },
+    feedbackDocument: { update: jest.fn(async () => ({})) },
+    feedbackVersion: { findUnique: jest.fn() },
+  },
+  dbLogger: { child: () => logger },
+}));
+
+import { prisma } from '../../services/databaseService';
+import {
+  diffFeedbackScores,
+  recordFeedbackVersion,
+  selectFeedbackVersion,
+} from '../../services/feedbackDocumentService';
+import type { StructuredFeedback } from '../../types/feedback';
+
+function feedback(overallScore: number, scores: Record<string, number>, promptVersion = 'v1.0.0') {
+  return {
+    schemaVersion: '1.0',
+    promptVersion,
+    model: 'gpt-4o',
+    overallScore,
+    competencies: Object.entries(scores).map(([key, score]) => ({ key, name: key, score })),
+  } as unknown as StructuredFeedback;
+}
+
+describe('feedback versions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('stores regenerated feedback as the next version and displays it', async () => {
+    const result = await recordFeedbackVersion({
+      interviewId: 'interview_1',
+      userId: 'user_1',
+      feedback: feedback(74, { communication: 4 }, 'v1.1.0'),
+      reason: 'Scores look too low',
+    });
+
+    expect(result.version).toBe(3);
+    expect(tx.feedbackVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        feedbackDocumentId: 'doc_1',
+        version: 3,
+        promptVersion: 'v1.1.0',
+        overallScore: 74,
+        reason: 'Scores look too low',
+      }),
+    });
+    // The old PDF shows the old version
+    expect(tx.feedbackDocument.update).toHaveBeenCalledWith({
+      where: { id: 'doc_1' },
+      data: expect.objectContaining({ activeVersion: 3, pdfStorageKey: null, promptVersion: 'v1.1.0' }),
+    });
+  });
+
+  it('records the first generation as the initial version', async () => {
+    tx.feedbackVersion.findFirst.mockResolvedValueOnce(null);
+
+    const result = await recordFeedbackVersion({
+      interviewId: 'interview_1',
+      userId: 'user_1',
+      feedback: feedback(68, {}),
+    });
+
+    expect(result.version).toBe(1);
+    expect(tx.feedbackVersion.create.mock.calls[0][0].data.reason).toBe('initial');
+  });
+
+  it("switches the document to a stored version's content and PDF", async () => {
+    (prisma.feedbackVersion.findUnique as jest.Mock).mockResolvedValueOnce({
+      version: 1,
+      feedbackDocumentId: 'doc_1',
+      contentJson: { overallScore: 68 },
+      overallScore: 68,
+      schemaVersion: '1.0',
+      promptVersion: 'v1.0.0',
+      model: 'gpt-4o',
+      pdfStorageKey: 'feedback/v1.pdf',
+      reason: 'initial',
+      generatedAt: new Date(),
+    });
+
+    const selected = await selectFeedbackVersion('interview_1', 1);
+
+    expect(selected).toMatchObject({ version: 1, isActive: true, hasPdf: true });
+    expect(prisma.feedbackDocument.update).toHaveBeenCalledWith({
+      where: { id: 'doc_1' },
+      data: expect.objectContaining({ activeVersion: 1, overallScore: 68, pdfStorageKey: 'feedback/v1.pdf' }),
+    });
+
+    (prisma.feedbackVersion.findUnique as jest.Mock).mockResolvedValueOnce(null);
+    await expect(selectFeedbackVersion('interview_1', 9)).resolves.toBeNull();
+  });
+
+  it('diffs overall and per-competency scores, including competencies only one version has', () => {
+    const diff = diffFeedbackScores(
+      { version: 1, contentJson: feedback(68, { communication: 3, problem_solving: 4 }), promptVersion: 'v1.0.0', model: 'gpt-4o' },
+      { version: 2, contentJson: feedback(74, { communication: 4, leadership: 3 }), promptVersion: 'v1.1.0', model: 'gpt-4o' }
+    );
+
+    expect(diff.overallDelta).toBe(6);
+    expect(diff.to.promptVersion).toBe('v1.1.0');
+    expect(diff.competencies).toEqual([
+      { key: 'communication', name: 'communication', from: 3, to: 4, delta: 1 },
+      { key: 'problem_solving', name: 'problem_solving', from: 4, to: null, delta: null },
+      { key: 'leadership', name: 'leadership', from: null, to: 3, delta: null },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Interview Plan Tests
+ *
+ * Step order, advancing on answers, the open-ended candidate questions step
+ * and the closing phases of the live interviewer's plan.
+ */
+
+import { InterviewPlan, type InterviewPhase } from '../../utils/interviewPlan';
+
+function phases(plan: InterviewPlan): InterviewPhase[] {
+  return plan.toState().steps.map((s) => s.phase);
+}
+
+/**
+ * Answer steps until the plan reaches the given phase
+ */
+function answerUntil(plan: InterviewPlan, phase: InterviewPhase) {
+  while (plan.getCurrentPhase() !== phase && !plan.isComplete()) {
+    plan.recordQuestion(`Question for ${plan.getCurrentPhase()}`, 0);
+    expect(plan.recordAnswer('Here is my answer.', 0)).toBe(true);
+  }
+}
+
+describe('InterviewPlan', () => {
+  it('orders intro, background, recruiter questions, competencies, candidate questions and wrap-up', () => {
+    const plan = new InterviewPlan('Backend Engineer', {
+      targetCompetencyQuestions: 3,
+      customQuestions: ['Are you open to on-call?'],
+    });
+
+    expect(phases(plan)).toEqual([
+      'intro',
+      'background',
+      'recruiter_question',
+      'competency',
+      'competency',
+      'candidate_questions',
+      'wrap_up',
+    ]);
+    expect(plan.toState().steps[2].question).toBe('Are you open to on-call?');
+    expect(phases(new InterviewPlan('Backend Engineer', {
+      competencyQuestionCount: 1,
+      includeBackground: false,
+      includeCandidateQuestions: false,
+    }))).toEqual(['intro', 'competency', 'wrap_up']);
+  });
+
+  it('moves one step per answer and records coverage', () => {
+    const plan = new InterviewPlan('Backend Engineer', { competencyQuestionCount: 2 });
+    plan.recordQuestion('Tell me about yourself.', 0);
+
+    expect(plan.recordAnswer('I build payment APIs.', 0)).toBe(true);
+
+    expect(plan.getCurrentPhase()).toBe('background');
+    expect(plan.getAskedQuestion(0)).toMatchObject({ phase: 'intro', answered: true });
+    expect(plan.getSnapshot()).toMatchObject({ stepsCompleted: 1, totalSteps: 6 });
+  });
+
+  it('records the answer span in the interview seconds it is given', () => {
+    const plan = new InterviewPlan('Backend Engineer', { competencyQuestionCount: 1 });
+    plan.recordQuestion('Tell me about yourself.', 5);
+    plan.markAnswerStarted(12);
+    plan.markAnswerStarted(20);
+    plan.recordAnswer('I build payment APIs.', 41);
+
+    expect(plan.getAskedQuestion(0)).toMatchObject({ askedAtSec: 5, answerStartSec: 12, answerEndSec: 41 });
+  });
+
+  it('keeps answering candidate questions until they have none left', () => {
+    const plan = new InterviewPlan('Backend Engineer', { competencyQuestionCount: 1 });
+    answerUntil(plan, 'candidate_questions');
+    plan.recordQuestion('Do you have any questions for me?', 0);
+
+    expect(plan.recordAnswer('Yes - what does the on-call rotation look like?', 0)).toBe(false);
+    expect(plan.recordAnswer('Is there anything else about the team I should know?', 0)).toBe(false);
+    expect(plan.isWrappingUp()).toBe(false);
+
+    expect(plan.recordAnswer("No, that's all from me. Thanks!", 0)).toBe(true);
+    expect(plan.isWrappingUp()).toBe(true);
+  });
+
+  it('wraps up after a bounded number of candidate question turns', () => {
+    const plan = new InterviewPlan('Backend Engineer', { competencyQuestionCount: 1 });
+    answerUntil(plan, 'candidate_questions');
+
+    expect(plan.recordAnswer('How big is the team?', 0)).toBe(false);
+    expect(plan.recordAnswer('And how do you deploy?', 0)).toBe(false);
+    expect(plan.recordAnswer('What about the roadmap?', 0)).toBe(true);
+    expect(plan.isWrappingUp()).toBe(true);
+
+    // Answering the closing turn completes the plan
+    plan.advance(0);
+    expect(plan.isComplete()).toBe(true);
+    expect(plan.recordAnswer('Bye!', 0)).toBe(false);
+  });
+
+  it('skips remaining competency questions but keeps recruiter questions when closing early', () => {
+    const plan = new InterviewPlan('Backend Engineer', {
+      competencyQuestionCount: 3,
+      customQuestions: ['Why this company?'],
+    });
+    answerUntil(plan, 'background');
+
+    plan.skipToClosing();
+
+    expect(phases(plan)).toEqual(['intro', 'recruiter_question', 'candidate_questions', 'wrap_up']);
+  });
+
+  it('resumes mid-step from its checkpoint state', () => {
+    const plan = new InterviewPlan('Backend Engineer', { competencyQuestionCount: 1 });
+    answerUntil(plan, 'candidate_questions');
+    plan.recordAnswer('What does a typical week look like?', 0);
+
+    const restored = InterviewPlan.fromState(JSON.parse(JSON.stringify(plan.toState())));
+
+    expect(restored.getCurrentPhase()).toBe('candidate_questions');
+    expect(restored.recordAnswer('How is performance reviewed?', 0)).toBe(false);
+    expect(restored.recordAnswer('And the interview process?', 0)).toBe(true);
+  });
+});
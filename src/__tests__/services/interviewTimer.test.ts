@@ -0,0 +1,137 @@
+/**
+ * Interview Timer Tests
+ *
+ * Per-interview duration, spoken time checkpoints, localized messages and the
+ * finish-your-answer grace period.
+ */
+
+import { InterviewTimer } from '../../utils/interviewTimer';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('InterviewTimer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-16T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('announces halfway, 5 minutes and 1 minute left in order', () => {
+    const timer = new InterviewTimer(20);
+
+    expect(timer.takeDueCheckpoint()).toBeNull();
+
+    jest.advanceTimersByTime(10 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 'halfway', remainingMinutes: 10 });
+    expect(timer.takeDueCheckpoint()).toBeNull();
+
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 5, remainingMinutes: 5 });
+
+    jest.advanceTimersByTime(4 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 1, remainingMinutes: 1 });
+  });
+
+  it('announces only the latest checkpoint after a long answer', () => {
+    const timer = new InterviewTimer(20);
+
+    jest.advanceTimersByTime(16 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 5, remainingMinutes: 4 });
+
+    jest.advanceTimersByTime(3 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 1, remainingMinutes: 1 });
+  });
+
+  it('drops checkpoints that collide in short interviews', () => {
+    // Halfway of a 10-minute interview is also the 5-minute mark
+    const timer = new InterviewTimer(10);
+
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 'halfway', remainingMinutes: 5 });
+
+    jest.advanceTimersByTime(4 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 1, remainingMinutes: 1 });
+  });
+
+  it('uses a custom checkpoint schedule', () => {
+    const timer = new InterviewTimer(30, { checkpoints: [10] });
+
+    jest.advanceTimersByTime(15 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toBeNull();
+
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    expect(timer.takeDueCheckpoint()).toEqual({ checkpoint: 10, remainingMinutes: 10 });
+  });
+
+  it('localizes checkpoint and time-up messages', () => {
+    const timer = new InterviewTimer(20);
+
+    expect(timer.getCheckpointMessage({ checkpoint: 5, remainingMinutes: 5 }, 'en-US')).toContain('5 minutes');
+    expect(timer.getCheckpointMessage({ checkpoint: 5, remainingMinutes: 5 }, 'pt-BR')).toContain('5 minutos');
+    expect(timer.getCheckpointMessage({ checkpoint: 'halfway', remainingMinutes: 10 }, 'fr-FR')).toContain('moitié');
+    expect(timer.getTimeUpMessage('es-ES')).toContain('Muchas gracias');
+  });
+
+  it('gives one grace announcement before the hard stop', () => {
+    const timer = new InterviewTimer(15, { graceSeconds: 60 });
+
+    jest.advanceTimersByTime(15 * MINUTE_MS);
+    expect(timer.hasExceededTime()).toBe(true);
+    expect(timer.shouldAnnounceGrace()).toBe(true);
+    expect(timer.shouldAnnounceGrace()).toBe(false);
+    expect(timer.hasExceededGracePeriod()).toBe(false);
+    expect(timer.getMsUntilHardStop()).toBe(MINUTE_MS);
+
+    jest.advanceTimersByTime(MINUTE_MS);
+    expect(timer.hasExceededGracePeriod()).toBe(true);
+  });
+
+  it('skips the grace announcement when it is disabled', () => {
+    const timer = new InterviewTimer(15, { graceSeconds: 0 });
+
+    jest.advanceTimersByTime(15 * MINUTE_MS);
+    expect(timer.shouldAnnounceGrace()).toBe(false);
+  });
+
+  it('stops the clock while paused', () => {
+    const timer = new InterviewTimer(15, { graceSeconds: 60 });
+
+    jest.advanceTimersByTime(5 * MINUTE_MS);
+    timer.pause();
+    expect(timer.isPaused()).toBe(true);
+
+    jest.advanceTimersByTime(3 * MINUTE_MS);
+    expect(timer.getElapsedMinutes()).toBe(5);
+    expect(timer.getPausedSeconds()).toBe(180);
+    expect(timer.resume()).toBe(180);
+    expect(timer.isPaused()).toBe(false);
+
+    jest.advanceTimersByTime(MINUTE_MS);
+    expect(timer.getRemainingMinutes()).toBe(9);
+    expect(timer.getMsUntilHardStop()).toBe(10 * MINUTE_MS);
+  });
+
+  it('stays paused across a checkpoint restore', () => {
+    const timer = new InterviewTimer(15);
+    jest.advanceTimersByTime(2 * MINUTE_MS);
+    timer.pause();
+
+    const restored = InterviewTimer.fromState(timer.toState());
+    jest.advanceTimersByTime(MINUTE_MS);
+    expect(restored.isPaused()).toBe(true);
+    expect(restored.getElapsedMinutes()).toBe(2);
+  });
+
+  it('keeps fired checkpoints across a checkpoint restore', () => {
+    const timer = new InterviewTimer(20);
+    jest.advanceTimersByTime(10 * MINUTE_MS);
+    timer.takeDueCheckpoint();
+
+    const restored = InterviewTimer.fromState(timer.toState());
+    expect(restored.takeDueCheckpoint()).toBeNull();
+    expect(restored.getMaxDurationMinutes()).toBe(20);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Language Mismatch Tests
+ *
+ * Answer language detection and the steer/switch policy used by the live
+ * interviewer when the candidate answers in another language.
+ */
+
+import { LanguageMismatchMonitor } from '../../utils/languageMismatch';
+import { detectLanguageFromText } from '../../services/multilingualRetellService';
+
+describe('detectLanguageFromText', () => {
+  it('detects languages from script or function words', () => {
+    expect(detectLanguageFromText('我在上一家公司负责后端开发')).toBe('zh-CN');
+    expect(detectLanguageFromText('Я работал в команде разработки')).toBe('ru-RU');
+    expect(detectLanguageFromText('Eu trabalhei com isso durante muito tempo')).toBe('pt-BR');
+    expect(detectLanguageFromText('Yo tengo experiencia pero fue muy difícil')).toBe('es-ES');
+    expect(detectLanguageFromText("Je pense que c'est très important pour nous")).toBe('fr-FR');
+    expect(detectLanguageFromText('I led the migration because it was slowing the team down')).toBe('en-US');
+  });
+
+  it('returns null for short or ambiguous answers', () => {
+    expect(detectLanguageFromText('Okay')).toBeNull();
+    expect(detectLanguageFromText('Kubernetes, Terraform, Postgres')).toBeNull();
+  });
+});
+
+describe('LanguageMismatchMonitor', () => {
+  it('steers after two consecutive answers in another language', () => {
+    const monitor = new LanguageMismatchMonitor('en-US', 'steer');
+
+    expect(monitor.observe('pt-BR')).toBeNull();
+    const event = monitor.observe('pt-BR');
+
+    expect(event).toMatchObject({ expectedLanguage: 'en-US', detectedLanguage: 'pt-BR', action: 'steer', turn: 1 });
+    expect(monitor.getSteeringGuidance('English')).toContain('continue in English');
+    expect(monitor.getExpectedLanguage()).toBe('en-US');
+
+    // Guidance applies to the next reply only
+    monitor.observe(null);
+    expect(monitor.getSteeringGuidance('English')).toBeNull();
+  });
+
+  it('ignores a single off-language answer and regional variants', () => {
+    const monitor = new LanguageMismatchMonitor('es-MX', 'steer');
+
+    expect(monitor.observe('en-US')).toBeNull();
+    expect(monitor.observe('es-ES')).toBeNull();
+    expect(monitor.observe('en-US')).toBeNull();
+    expect(monitor.getEvents()).toHaveLength(0);
+  });
+
+  it('switches the expected language under the switch policy', () => {
+    const monitor = new LanguageMismatchMonitor('en-US', 'switch');
+
+    monitor.observe('fr-FR');
+    const event = monitor.observe('fr-FR');
+
+    expect(event?.action).toBe('switch');
+    expect(monitor.getExpectedLanguage()).toBe('fr-FR');
+    expect(monitor.getSteeringGuidance('English')).toBeNull();
+    expect(monitor.observe('fr-FR')).toBeNull();
+  });
+
+  it('stops steering after the second attempt', () => {
+    const monitor = new LanguageMismatchMonitor('en-US', 'steer');
+
+    for (let i = 0; i < 8; i++) {
+      monitor.observe('pt-BR');
+    }
+
+    expect(monitor.getEvents()).toHaveLength(2);
+  });
+
+  it('restores from checkpointed state', () => {
+    const monitor = new LanguageMismatchMonitor('en-US', 'steer');
+    monitor.observe('pt-BR');
+
+    const restored = LanguageMismatchMonitor.fromState(monitor.toState());
+    expect(restored.observe('pt-BR')?.action).toBe('steer');
+  });
+});
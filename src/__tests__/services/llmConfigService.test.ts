@@ -0,0 +1,54 @@
+/**
+ * LLM Config Service Tests
+ *
+ * Memory mode and difficulty chosen from the interview's own length and the
+ * candidate's seniority as stored on the interview.
+ */
+
+jest.mock('../../services/databaseService', () => ({
+  dbLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { resolveLLMConfig, toSeniorityKey } from '../../services/llmConfigService';
+
+describe('resolveLLMConfig', () => {
+  const memoryModeEnv = process.env.LLM_MEMORY_MODE;
+
+  beforeEach(() => {
+    delete process.env.LLM_MEMORY_MODE;
+  });
+
+  afterAll(() => {
+    if (memoryModeEnv !== undefined) {
+      process.env.LLM_MEMORY_MODE = memoryModeEnv;
+    }
+  });
+
+  it('keeps truncation for a short interview at mid level', () => {
+    const config = resolveLLMConfig({ jobTitle: 'Backend Engineer', seniority: 'mid', language: 'en-US', durationMinutes: 15 });
+
+    expect(config.memoryMode).toBe('truncate');
+    expect(config.interviewDurationMinutes).toBe(15);
+  });
+
+  it('turns on rolling summary for a long interview', () => {
+    const config = resolveLLMConfig({ jobTitle: 'Backend Engineer', seniority: 'mid', language: 'en-US', durationMinutes: 45 });
+
+    expect(config.memoryMode).toBe('rolling_summary');
+    expect(config.interviewDurationMinutes).toBe(45);
+  });
+
+  it('turns on rolling summary for a senior candidate, read from the lowercase interview seniority', () => {
+    const config = resolveLLMConfig({ jobTitle: 'Backend Engineer', seniority: 'senior', language: 'en-US', durationMinutes: 15 });
+
+    expect(config.memoryMode).toBe('rolling_summary');
+    expect(config.complexityMultiplier).toBe(1.3);
+  });
+
+  it('maps stored seniority values to modifier keys', () => {
+    expect(toSeniorityKey('staff')).toBe('Staff');
+    expect(toSeniorityKey(' Principal ')).toBe('Principal');
+    expect(toSeniorityKey('wizard')).toBeUndefined();
+    expect(toSeniorityKey(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Panel Orchestrator Tests
+ *
+ * Panel resolution, speaker assignment per plan step, per-turn handoff and
+ * introduction guidance, and checkpoint round-trips.
+ */
+
+import { PanelOrchestrator } from '../../utils/panelOrchestrator';
+import { resolvePanel, buildPanelPrompt } from '../../prompts/panelPersonas';
+import type { PlanStep } from '../../utils/interviewPlan';
+
+const steps: PlanStep[] = [
+  { phase: 'intro' },
+  { phase: 'background' },
+  { phase: 'competency', competency: 'technical_knowledge' },
+  { phase: 'competency', competency: 'behavioral' },
+  { phase: 'competency', competency: 'problem_solving' },
+  { phase: 'wrap_up' },
+];
+
+describe('resolvePanel', () => {
+  it('keeps valid unique personas in order and needs at least two', () => {
+    expect(resolvePanel(['hr_partner', 'senior_engineer', 'hr_partner', 'cto']).map((p) => p.key))
+      .toEqual(['hr_partner', 'senior_engineer']);
+    expect(resolvePanel(['hiring_manager'])).toEqual([]);
+    expect(resolvePanel(undefined)).toEqual([]);
+  });
+
+  it('reads the persona voice from the environment', () => {
+    process.env.RETELL_VOICE_ID_PANEL_HIRING_MANAGER = 'voice-maya';
+    try {
+      expect(resolvePanel(['hiring_manager', 'hr_partner'])[0].voiceId).toBe('voice-maya');
+    } finally {
+      delete process.env.RETELL_VOICE_ID_PANEL_HIRING_MANAGER;
+    }
+  });
+
+  it('marks the lead in the panel prompt', () => {
+    const prompt = buildPanelPrompt(resolvePanel(['hiring_manager', 'senior_engineer']));
+    expect(prompt).toContain('<panelist name="Maya" title="Hiring Manager" lead="true">');
+    expect(prompt).toContain('<panelist name="Daniel" title="Senior Engineer">');
+  });
+});
+
+describe('PanelOrchestrator', () => {
+  const panel = () => new PanelOrchestrator(resolvePanel(['hiring_manager', 'senior_engineer', 'hr_partner']));
+
+  it('gives the lead the opening and closing and competency steps to the matching panelist', () => {
+    const orchestrator = panel();
+    const speakers = steps.map((step, i) => orchestrator.getSpeakerForStep(i, step).key);
+
+    expect(speakers).toEqual([
+      'hiring_manager',
+      'hiring_manager',
+      'senior_engineer',
+      'hr_partner',
+      'senior_engineer',
+      'hiring_manager',
+    ]);
+  });
+
+  it('keeps the assignment stable for follow-ups on the same step', () => {
+    const orchestrator = panel();
+    const first = orchestrator.getSpeakerForStep(4, steps[4]);
+    orchestrator.getSpeakerForStep(2, steps[2]);
+
+    expect(orchestrator.getSpeakerForStep(4, steps[4])).toBe(first);
+  });
+
+  it('asks for an introduction on a first turn and a handoff when the speaker changes', () => {
+    const orchestrator = panel();
+    orchestrator.getSpeakerForStep(0, steps[0]);
+
+    const leadTurn = orchestrator.getTurnGuidance(1, steps[1]);
+    expect(leadTurn).toContain('Speak only as Maya');
+    expect(leadTurn).toContain('<introduction>');
+    expect(leadTurn).not.toContain('<handoff>');
+    orchestrator.recordTurn(1, steps[1]);
+
+    const engineerTurn = orchestrator.getTurnGuidance(2, steps[2]);
+    expect(engineerTurn).toContain('Speak only as Daniel');
+    expect(engineerTurn).toContain('Maya just spoke');
+    orchestrator.recordTurn(2, steps[2]);
+
+    const followUp = orchestrator.getTurnGuidance(2, steps[2]);
+    expect(followUp).not.toContain('<handoff>');
+    expect(followUp).not.toContain('<introduction>');
+  });
+
+  it('restores assignments, introductions and the last speaker from state', () => {
+    const orchestrator = panel();
+    orchestrator.getSpeakerForStep(0, steps[0]);
+    orchestrator.recordTurn(1, steps[1]);
+    orchestrator.recordTurn(2, steps[2]);
+
+    const restored = PanelOrchestrator.fromState(JSON.parse(JSON.stringify(orchestrator.toState())));
+
+    expect(restored.toState()).toEqual(orchestrator.toState());
+    expect(restored.getTurnGuidance(3, steps[3])).toContain('Daniel just spoke');
+  });
+});
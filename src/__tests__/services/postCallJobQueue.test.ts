@@ -0,0 +1,215 @@
+/**
+ * Post-Call Job Queue Tests
+ *
+ * Enqueueing, chaining steps on success, exponential retry and dead-lettering,
+ * against a mocked Prisma client.
+ */
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(),
+  Prisma: { DbNull: 'DbNull' },
+}));
+
+const postCallJob = {
+  createMany: jest.fn(async (_args: any) => ({ count: 1 })),
+  updateMany: jest.fn(async (_args: any) => ({ count: 1 })),
+  update: jest.fn(async (_args: any) => ({})),
+  findUnique: jest.fn(async (_args: any): Promise<any> => null),
+};
+const prismaMock = {
+  postCallJob,
+  interview: { findUnique: jest.fn(async (_args: any): Promise<any> => ({ id: 'interview_1' })) },
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+};
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: prismaMock,
+  dbLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const runStep = jest.fn();
+jest.mock('../../services/postCallProcessingService', () => ({
+  postCallProcessingService: { runStep: (...args: unknown[]) => runStep(...args) },
+}));
+
+import {
+  enqueuePostCallProcessing,
+  getRetryDelayMs,
+  processDueJobs,
+  requestFeedbackRegeneration,
+  retryPostCallJob,
+  rerunInterviewJobs,
+} from '../../services/postCallJobQueue';
+
+function claimed(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job_1',
+    interviewId: 'interview_1',
+    type: 'TRANSCRIPT',
+    payload: { call_id: 'chat_1' },
+    attempts: 1,
+    maxAttempts: 5,
+    ...overrides,
+  };
+}
+
+describe('postCallJobQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prismaMock.$queryRaw.mockResolvedValue([]);
+  });
+
+  it('queues the transcript step once, keeping call data handed over later', async () => {
+    await enqueuePostCallProcessing('interview_1', { callData: { call_id: 'chat_1' } });
+
+    expect(postCallJob.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ interviewId: 'interview_1', type: 'TRANSCRIPT', payload: { call_id: 'chat_1' } })],
+      skipDuplicates: true,
+    });
+    expect(postCallJob.updateMany).not.toHaveBeenCalled();
+
+    postCallJob.createMany.mockResolvedValueOnce({ count: 0 });
+    await enqueuePostCallProcessing('interview_1', { callData: { call_id: 'call_9' } });
+
+    expect(postCallJob.updateMany).toHaveBeenCalledWith({
+      where: { interviewId: 'interview_1', type: 'TRANSCRIPT', status: 'PENDING', payload: { equals: 'DbNull' } },
+      data: { payload: { call_id: 'call_9' } },
+    });
+  });
+
+  it('re-runs a transcript step that finished without call data when the webhook delivers it', async () => {
+    postCallJob.createMany.mockResolvedValueOnce({ count: 0 });
+    postCallJob.updateMany.mockResolvedValueOnce({ count: 0 });
+    prismaMock.interview.findUnique.mockResolvedValueOnce({ transcript: null, _count: { transcriptSegments: 0 } });
+
+    await enqueuePostCallProcessing('interview_1', { callData: { call_id: 'call_9' } });
+
+    expect(postCallJob.updateMany).toHaveBeenLastCalledWith({
+      where: {
+        interviewId: 'interview_1',
+        type: 'TRANSCRIPT',
+        status: { in: ['SUCCEEDED', 'DEAD'] },
+        payload: { equals: 'DbNull' },
+      },
+      data: expect.objectContaining({ status: 'PENDING', attempts: 0, payload: { call_id: 'call_9' } }),
+    });
+
+    // A transcript already stored from the Retell API is kept
+    postCallJob.updateMany.mockClear();
+    postCallJob.createMany.mockResolvedValueOnce({ count: 0 });
+    postCallJob.updateMany.mockResolvedValueOnce({ count: 0 });
+    prismaMock.interview.findUnique.mockResolvedValueOnce({ transcript: 'Agent: Hi', _count: { transcriptSegments: 4 } });
+
+    await enqueuePostCallProcessing('interview_1', { callData: { call_id: 'call_9' } });
+
+    expect(postCallJob.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks a step done and queues the steps it unlocks with its output', async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([claimed()]).mockResolvedValueOnce([]);
+    runStep.mockResolvedValueOnce({ next: { interruptionReason: 'user_hangup' } });
+
+    const processed = await processDueJobs();
+
+    expect(processed).toBe(1);
+    expect(runStep).toHaveBeenCalledWith('TRANSCRIPT', 'interview_1', { call_id: 'chat_1' });
+    expect(postCallJob.update).toHaveBeenCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: 'SUCCEEDED', lockedAt: null }),
+    });
+    const successors = postCallJob.createMany.mock.calls[0][0].data;
+    expect(successors.map((j: any) => j.type)).toEqual(['METRICS', 'STUDY_PLAN', 'FEEDBACK']);
+    expect(successors[0].payload).toEqual({ interruptionReason: 'user_hangup' });
+    // Steps that already ran depend on this one's output, so they run again
+    expect(postCallJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        interviewId: 'interview_1',
+        type: { in: ['METRICS', 'STUDY_PLAN', 'FEEDBACK'] },
+        status: { in: ['SUCCEEDED', 'DEAD'] },
+      },
+      data: expect.objectContaining({ status: 'PENDING', attempts: 0, payload: { interruptionReason: 'user_hangup' } }),
+    });
+  });
+
+  it('retries failed steps with exponential backoff', async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([claimed({ type: 'PDF', attempts: 3 })]).mockResolvedValueOnce([]);
+    runStep.mockRejectedValueOnce(new Error('Blob upload failed'));
+    const before = Date.now();
+
+    await processDueJobs();
+
+    const { data } = postCallJob.update.mock.calls[0][0];
+    expect(data.status).toBe('PENDING');
+    expect(data.lastError).toBe('Blob upload failed');
+    expect(data.runAt.getTime() - before).toBeGreaterThanOrEqual(getRetryDelayMs(3));
+    expect(getRetryDelayMs(1)).toBe(30_000);
+    expect(getRetryDelayMs(3)).toBe(120_000);
+    expect(getRetryDelayMs(20)).toBe(30 * 60_000);
+  });
+
+  it('dead-letters a step that used its last attempt', async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([claimed({ type: 'EMAIL', attempts: 5 })]).mockResolvedValueOnce([]);
+    runStep.mockRejectedValueOnce(new Error('SMTP timeout'));
+
+    await processDueJobs();
+
+    expect(postCallJob.update).toHaveBeenCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: 'DEAD', runAt: undefined, lastError: 'SMTP timeout' }),
+    });
+    expect(postCallJob.createMany).not.toHaveBeenCalled();
+  });
+
+  it('re-runs jobs with fresh attempts unless they are running', async () => {
+    await expect(retryPostCallJob('job_1')).resolves.toEqual({ ok: true, jobs: 1 });
+    expect(postCallJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job_1', status: { not: 'RUNNING' } },
+      data: expect.objectContaining({ status: 'PENDING', attempts: 0 }),
+    });
+
+    postCallJob.updateMany.mockResolvedValueOnce({ count: 0 });
+    postCallJob.findUnique.mockResolvedValueOnce({ id: 'job_1' });
+    await expect(retryPostCallJob('job_1')).resolves.toMatchObject({ ok: false, status: 409 });
+
+    prismaMock.interview.findUnique.mockResolvedValueOnce(null);
+    await expect(rerunInterviewJobs('missing')).resolves.toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('regenerates feedback on top of the finished feedback step', async () => {
+    postCallJob.findUnique.mockResolvedValueOnce({
+      id: 'job_fb',
+      status: 'SUCCEEDED',
+      payload: { interruptionReason: 'user_hangup' },
+    });
+
+    await expect(requestFeedbackRegeneration('interview_1', 'Prompt upgrade')).resolves.toEqual({ ok: true, jobs: 1 });
+    expect(postCallJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job_fb', status: 'SUCCEEDED' },
+      data: expect.objectContaining({
+        status: 'PENDING',
+        payload: { interruptionReason: 'user_hangup', regenerate: true, reason: 'Prompt upgrade' },
+      }),
+    });
+
+    postCallJob.findUnique.mockResolvedValueOnce({ id: 'job_fb', status: 'RUNNING', payload: null });
+    await expect(requestFeedbackRegeneration('interview_1', 'again')).resolves.toMatchObject({ ok: false, status: 409 });
+  });
+
+  it('clears the regeneration request once the feedback step succeeds', async () => {
+    prismaMock.$queryRaw
+      .mockResolvedValueOnce([claimed({
+        type: 'FEEDBACK',
+        payload: { interruptionReason: 'user_hangup', regenerate: true, reason: 'Prompt upgrade' },
+      })])
+      .mockResolvedValueOnce([]);
+    runStep.mockResolvedValueOnce({});
+
+    await processDueJobs();
+
+    expect(postCallJob.update).toHaveBeenCalledWith({
+      where: { id: 'job_1' },
+      data: expect.objectContaining({ status: 'SUCCEEDED', payload: { interruptionReason: 'user_hangup' } }),
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Post-Call Processing Service Tests
+ *
+ * Processing status reported from the job queue, and from stored data for
+ * interviews processed before the queue existed.
+ */
+
+const prismaMock = {
+  interview: { findUnique: jest.fn() },
+  postCallJob: { findMany: jest.fn() },
+};
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: prismaMock,
+  dbLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('../../services/analyticsService', () => ({}));
+jest.mock('../../services/questionScoreService', () => ({}));
+jest.mock('../../services/feedbackGenerationService', () => ({ FeedbackGenerationService: jest.fn() }));
+jest.mock('../../services/pdfGenerationService', () => ({ PDFGenerationService: jest.fn() }));
+jest.mock('../../services/feedbackStorageService', () => ({}));
+jest.mock('../../services/azureBlobService', () => ({ isAzureBlobEnabled: jest.fn(() => false) }));
+jest.mock('../../services/transactionalEmailService', () => ({}));
+
+import { postCallProcessingService } from '../../services/postCallProcessingService';
+
+function storedInterview(counts: { transcriptSegments: number; metrics: number }, hasStudyPlan: boolean) {
+  return {
+    score: 72,
+    status: 'COMPLETED',
+    _count: counts,
+    studyRecommendation: hasStudyPlan ? { id: 'plan_1' } : null,
+  };
+}
+
+describe('postCallProcessingService.getProcessingStatus', () => {
+  it('judges interviews without jobs by their stored data', async () => {
+    prismaMock.interview.findUnique.mockResolvedValue(storedInterview({ transcriptSegments: 12, metrics: 5 }, true));
+    prismaMock.postCallJob.findMany.mockResolvedValue([]);
+
+    const status = await postCallProcessingService.getProcessingStatus('interview_1');
+
+    expect(status).toEqual({
+      status: 'completed',
+      hasTranscript: true,
+      hasMetrics: true,
+      hasStudyPlan: true,
+      overallScore: 72,
+      steps: [],
+    });
+  });
+
+  it('reports partial data for a pre-queue interview missing its study plan', async () => {
+    prismaMock.interview.findUnique.mockResolvedValue(storedInterview({ transcriptSegments: 12, metrics: 0 }, false));
+    prismaMock.postCallJob.findMany.mockResolvedValue([]);
+
+    const status = await postCallProcessingService.getProcessingStatus('interview_1');
+
+    expect(status.status).toBe('partial');
+    expect(status.hasTranscript).toBe(true);
+    expect(status.hasMetrics).toBe(false);
+  });
+
+  it('takes the flags from stored rows when a step succeeded without writing anything', async () => {
+    const completedAt = new Date('2026-10-01T10:00:00Z');
+    prismaMock.interview.findUnique.mockResolvedValue(storedInterview({ transcriptSegments: 0, metrics: 0 }, false));
+    prismaMock.postCallJob.findMany.mockResolvedValue([
+      { type: 'TRANSCRIPT', status: 'SUCCEEDED', completedAt },
+      { type: 'METRICS', status: 'SUCCEEDED', completedAt },
+      { type: 'STUDY_PLAN', status: 'SUCCEEDED', completedAt },
+    ]);
+
+    const status = await postCallProcessingService.getProcessingStatus('interview_1');
+
+    expect(status.status).toBe('completed');
+    expect(status.hasTranscript).toBe(false);
+    expect(status.hasMetrics).toBe(false);
+    expect(status.hasStudyPlan).toBe(false);
+  });
+
+  it('reports a dead step as failed without selecting its error', async () => {
+    prismaMock.interview.findUnique.mockResolvedValue(storedInterview({ transcriptSegments: 12, metrics: 0 }, false));
+    prismaMock.postCallJob.findMany.mockResolvedValue([
+      { type: 'TRANSCRIPT', status: 'SUCCEEDED', completedAt: new Date() },
+      { type: 'METRICS', status: 'DEAD', completedAt: null },
+    ]);
+
+    const status = await postCallProcessingService.getProcessingStatus('interview_1');
+
+    expect(status.status).toBe('failed');
+    expect(prismaMock.postCallJob.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ select: { type: true, status: true, completedAt: true } })
+    );
+  });
+});
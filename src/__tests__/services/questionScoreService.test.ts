@@ -0,0 +1,100 @@
+/**
+ * Question Score Service Tests
+ *
+ * Per-question records written during the call: one row per (interview, step),
+ * refreshed in place when a late score arrives.
+ */
+
+const rows = new Map<string, Record<string, unknown>>();
+const interviewQuestionScore = {
+  upsert: jest.fn(async ({ where, create, update }: any) => {
+    const key = `${where.interviewId_stepIndex.interviewId}:${where.interviewId_stepIndex.stepIndex}`;
+    const row = rows.has(key) ? { ...rows.get(key), ...update } : create;
+    rows.set(key, row);
+    return row;
+  }),
+  findMany: jest.fn(),
+};
+
+jest.mock('../../services/databaseService', () => ({
+  prisma: { interviewQuestionScore },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  wsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { upsertQuestionScore, type QuestionScoreRecord } from '../../services/questionScoreService';
+
+const answered: QuestionScoreRecord = {
+  stepIndex: 3,
+  phase: 'competency',
+  questionText: 'Tell me about a migration you led.',
+  askedAtSec: 95,
+  answerStartSec: 101,
+  answerEndSec: 164,
+  competencyTags: ['technical_depth'],
+  askedBy: 'lead',
+};
+
+describe('questionScoreService', () => {
+  beforeEach(() => {
+    rows.clear();
+  });
+
+  it('records the question with its answer span', async () => {
+    await upsertQuestionScore('interview_1', answered);
+
+    expect(interviewQuestionScore.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { interviewId_stepIndex: { interviewId: 'interview_1', stepIndex: 3 } },
+      create: expect.objectContaining({
+        interviewId: 'interview_1',
+        stepIndex: 3,
+        askedAtSec: 95,
+        answerStartSec: 101,
+        answerEndSec: 164,
+        preliminaryScore: null,
+      }),
+    }));
+  });
+
+  it('keeps one row per interview step and fills in a score that lands later', async () => {
+    await upsertQuestionScore('interview_1', answered);
+    await upsertQuestionScore('interview_1', {
+      ...answered,
+      preliminaryScore: 4,
+      evidence: 'Dual writes with nightly balance checks',
+      difficultyLevel: 'advanced',
+    });
+    await upsertQuestionScore('interview_2', answered);
+
+    expect(rows.size).toBe(2);
+    expect(rows.get('interview_1:3')).toMatchObject({
+      answerStartSec: 101,
+      answerEndSec: 164,
+      preliminaryScore: 4,
+      evidence: 'Dual writes with nightly balance checks',
+      difficultyLevel: 'advanced',
+    });
+    expect(rows.get('interview_2:3')).toMatchObject({ preliminaryScore: null });
+  });
+
+  it('stores missing optional fields as null', async () => {
+    const { answerStartSec: _start, answerEndSec: _end, askedBy: _askedBy, ...unanswered } = answered;
+
+    await upsertQuestionScore('interview_1', unanswered);
+
+    expect(rows.get('interview_1:3')).toMatchObject({
+      answerStartSec: null,
+      answerEndSec: null,
+      askedBy: null,
+      evidence: null,
+    });
+  });
+
+  it('does not throw when the write fails, so the live call carries on', async () => {
+    interviewQuestionScore.upsert.mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(upsertQuestionScore('interview_1', answered)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Silence Policy Tests
+ *
+ * Reminder escalation ladder, the silence timeline kept for feedback, and the
+ * localized reminder messages.
+ */
+
+import { SilencePolicyEngine, summarizeSilenceTimeline } from '../../utils/silencePolicy';
+import { getInterviewModePack } from '../../prompts/interviewModes';
+
+const at = (atSec: number) => ({ step: 2, phase: 'competency', atSec });
+
+describe('SilencePolicyEngine', () => {
+  it('escalates nudge, rephrase, offer to move on, then end', () => {
+    const engine = new SilencePolicyEngine();
+
+    expect(engine.escalate(at(60)).action).toBe('nudge');
+    expect(engine.escalate(at(70)).action).toBe('rephrase');
+    expect(engine.escalate(at(80)).action).toBe('offer_skip');
+    expect(engine.escalate(at(90))).toMatchObject({ action: 'end', level: 4 });
+    expect(engine.escalate(at(100)).action).toBe('end');
+  });
+
+  it('starts over after the candidate speaks and records the recovery', () => {
+    const engine = new SilencePolicyEngine();
+
+    expect(engine.recordResponse(at(30))).toBe(false);
+    engine.escalate(at(60));
+    engine.escalate(at(70));
+    expect(engine.recordResponse(at(75))).toBe(true);
+    expect(engine.escalate(at(200)).action).toBe('nudge');
+
+    expect(engine.getEvents().map((e) => e.action)).toEqual(['nudge', 'rephrase', 'recovered', 'nudge']);
+    expect(summarizeSilenceTimeline(engine.getEvents())).toEqual({
+      episodes: 2,
+      reminders: 3,
+      longestStreak: 2,
+      endedBySilence: false,
+    });
+  });
+
+  it('uses the mode ladder and always ends the call eventually', () => {
+    const caseSteps = getInterviewModePack('CASE').silencePolicy!;
+    expect(new SilencePolicyEngine(caseSteps).getSteps()).toEqual(['nudge', 'nudge', 'rephrase', 'offer_skip', 'end']);
+
+    expect(new SilencePolicyEngine(['nudge', 'rephrase']).getSteps()).toEqual(['nudge', 'rephrase', 'end']);
+    expect(new SilencePolicyEngine(['nudge', 'end', 'rephrase']).getSteps()).toEqual(['nudge', 'end']);
+  });
+
+  it('localizes the spoken reminders', () => {
+    const engine = new SilencePolicyEngine();
+
+    expect(engine.getMessage('offer_skip', 'en-US')).toContain('next question');
+    expect(engine.getMessage('offer_skip', 'pt-BR')).toContain('próxima pergunta');
+    expect(engine.getMessage('end', 'es-ES')).toContain('terminar la sesión');
+  });
+
+  it('keeps the streak across a checkpoint restore', () => {
+    const engine = new SilencePolicyEngine();
+    engine.escalate(at(60));
+
+    const restored = SilencePolicyEngine.fromState(engine.toState());
+    expect(restored.escalate(at(70)).action).toBe('rephrase');
+    expect(restored.getEvents()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Speech Analytics Tests
+ *
+ * Pace, filler words, pauses, talk time and interruptions measured from
+ * Retell word timings.
+ */
+
+import { analyzeSpeech, type TimedTurn } from '../../utils/speechAnalytics';
+import { buildSpeechTimeline } from '../../services/analyticsService';
+
+/**
+ * Turn whose words start at `start` and last `step` seconds each, with extra
+ * silence before the given word indexes
+ */
+function turn(
+  role: TimedTurn['role'],
+  text: string,
+  start: number,
+  step = 0.4,
+  pausesBefore: Record<number, number> = {}
+): TimedTurn {
+  let cursor = start;
+  const words = text.split(' ').map((word, i) => {
+    cursor += pausesBefore[i] || 0;
+    const timed = { word, start: cursor, end: cursor + step };
+    cursor += step;
+    return timed;
+  });
+  return { role, content: text, words };
+}
+
+describe('analyzeSpeech', () => {
+  it('measures pace, fillers, pauses, talk time and interruptions', () => {
+    const speech = analyzeSpeech(
+      [
+        turn('agent', 'Tell me about your last project', 0, 0.5),
+        turn('user', 'Um, so I, uh, well, led the billing migration at Acme', 4, 0.4, { 5: 2.5 }),
+        // Starts before the candidate finished
+        turn('agent', 'Great and what went wrong', 10.5),
+        turn(
+          'user',
+          'the cutover took two weekends because the legacy invoices had inconsistent currency codes that we had to clean up first',
+          13.3
+        ),
+      ],
+      'en'
+    );
+
+    expect(speech).toMatchObject({
+      candidateWords: 31,
+      candidateSpeakingSec: 14.9,
+      interviewerSpeakingSec: 5,
+      talkTimeRatio: 0.75,
+      wpmAverage: 125,
+      pace: 'good',
+      fillerWords: {
+        count: 2,
+        per100Words: 6.5,
+        frequency: 'high',
+        top: [{ filler: 'um', count: 1 }, { filler: 'uh', count: 1 }],
+      },
+      pauses: { count: 1, longCount: 0, averageSec: 2.5, longestSec: 2.5 },
+      responseDelay: { averageSec: 0.9, longestSec: 1 },
+      longestMonologue: { turn: 3, startSec: 13.3, durationSec: 8, words: 20 },
+      interruptions: { byCandidate: 0, byInterviewer: 1 },
+    });
+    expect(speech!.answers.map((a) => [a.turn, a.wpm, a.fillers, a.longestPauseSec])).toEqual([
+      [1, 96, 2, 2.5],
+      [3, 150, 0, 0],
+    ]);
+  });
+
+  it('uses the filler list of the interview language', () => {
+    const speech = analyzeSpeech([turn('user', 'Ähm, also ich habe das halt so gemacht', 0)], 'de');
+
+    expect(speech!.fillerWords.top).toEqual([{ filler: 'ähm', count: 1 }]);
+  });
+
+  it('does not count discourse markers that are often meant literally', () => {
+    const literal: Array<[string, Parameters<typeof analyzeSpeech>[1]]> = [
+      ['You know what I mean, basically the cache was the bottleneck', 'en'],
+      ['Pues tipo de cambio fijo, o sea sin riesgo', 'es'],
+      ['Ben, en fait le service était déjà prêt', 'fr'],
+      ['Cioè, praticamente abbiamo riscritto tutto', 'it'],
+      ['Er hat das halt sozusagen allein gebaut', 'de'],
+    ];
+
+    for (const [text, language] of literal) {
+      expect({ text, fillers: analyzeSpeech([turn('user', text, 0)], language)!.fillerWords.count })
+        .toEqual({ text, fillers: 0 });
+    }
+  });
+
+  it('returns nothing without timed candidate words', () => {
+    expect(analyzeSpeech([{ role: 'user', content: 'Typed answer from a text chat' }], 'en')).toBeNull();
+    expect(analyzeSpeech([turn('agent', 'Hello and welcome', 0)], 'en')).toBeNull();
+  });
+});
+
+describe('buildSpeechTimeline', () => {
+  it('stores one point per paced answer in the shape timeline readers expect', () => {
+    const turns = [
+      turn('agent', 'Tell me about your last project', 0, 0.5),
+      turn('user', 'Yes', 4),
+      turn('agent', 'Go on', 6),
+      turn('user', 'I led the billing migration at Acme last year', 8),
+    ];
+
+    const timeline = buildSpeechTimeline(analyzeSpeech(turns, 'en')!, [{}, {}, {}, { sentiment: 'positive' }]);
+
+    // The one-word answer is too short to pace; 150 wpm without fillers or long pauses
+    expect(timeline).toEqual([{ timestamp: 8, value: 87, tone: 80, pace: 58 }]);
+  });
+});
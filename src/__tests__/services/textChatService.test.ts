@@ -0,0 +1,257 @@
+/**
+ * Text Chat Service Tests
+ *
+ * Chat registration and the text bridge onto the Custom LLM handler: whole
+ * agent messages per reply, candidate-ended chats, and the transcript handed
+ * to post-call processing.
+ */
+
+import WebSocket from 'ws';
+import type OpenAI from 'openai';
+
+const cacheStore = new Map<string, unknown>();
+
+jest.mock('../../providers/cacheProvider', () => ({
+  cacheProvider: {
+    getName: () => 'test',
+    get: jest.fn(async (key: string) => cacheStore.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      cacheStore.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+    del: jest.fn(async (key: string) => {
+      cacheStore.delete(key);
+    }),
+    exists: jest.fn(async (key: string) => cacheStore.has(key)),
+    keys: jest.fn(async () => [...cacheStore.keys()]),
+  },
+}));
+
+jest.mock('../../config/env', () => ({
+  config: {
+    callContext: { encryptionKey: 'test-call-context-encryption-key-0123456789' },
+  },
+}));
+
+jest.mock('../../services/databaseService', () => ({
+  dbLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  prisma: {
+    interview: {
+      findFirst: jest.fn(),
+      update: jest.fn(async () => ({})),
+    },
+    companyProfile: {
+      findFirst: jest.fn(async () => null),
+    },
+  },
+}));
+
+jest.mock('../../services/azureBlobService', () => ({
+  downloadResume: jest.fn(async () => ({ success: true, data: Buffer.from('Resume: 5 years of Node.js') })),
+}));
+
+jest.mock('../../services/interviewSessionService', () => {
+  const noop = jest.fn(async () => null);
+  return {
+    createInterviewSession: noop,
+    recordFirstAgentUtterance: noop,
+    updateSessionTokens: noop,
+    finalizeSession: noop,
+    incrementClarificationTurns: noop,
+    updateSessionPlanProgress: noop,
+    updateSessionLanguageEvents: noop,
+    updateSessionControlEvents: noop,
+    updateSessionSilenceEvents: noop,
+    updateSessionGuardrailEvents: noop,
+    incrementSilenceCount: noop,
+    updateSessionTurnLatencies: noop,
+    recordCongruencyOutcome: noop,
+  };
+});
+
+jest.mock('../../services/questionScoreService', () => ({
+  upsertQuestionScore: jest.fn(async () => null),
+}));
+
+jest.mock('../../services/postCallJobQueue', () => ({
+  enqueuePostCallProcessing: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../services/answerEvaluationService', () => ({
+  evaluateAnswer: jest.fn(async () => null),
+}));
+
+import { startTextChat, TextChatSession } from '../../services/textChatService';
+import { storeCallContext } from '../../services/callContextService';
+import { prisma } from '../../services/databaseService';
+import { enqueuePostCallProcessing } from '../../services/postCallJobQueue';
+import { LocalChatProvider } from '../../providers/chatProvider';
+
+const INTERVIEW_ID = '550e8400-e29b-41d4-a716-446655440000';
+const USER_ID = '660e8400-e29b-41d4-a716-446655440000';
+const CHAT_ID = 'chat_0123456789abcdef0123456789abcdef';
+
+class FakeClientSocket {
+  readyState: number = WebSocket.OPEN;
+  messages: Array<Record<string, any>> = [];
+  close = jest.fn((code?: number) => {
+    this.readyState = WebSocket.CLOSED;
+    this.closeCode = code;
+  });
+  closeCode?: number;
+
+  send(data: string) {
+    this.messages.push(JSON.parse(data));
+  }
+
+  ofType(type: string) {
+    return this.messages.filter((m) => m.type === type);
+  }
+}
+
+function openSession(chatId = CHAT_ID) {
+  const client = new FakeClientSocket();
+  const session = new TextChatSession(client as unknown as WebSocket, {} as OpenAI, chatId, {
+    chatProvider: new LocalChatProvider(),
+    fallbackChatProvider: null,
+  });
+  return { client, session };
+}
+
+async function storeChatContext() {
+  await storeCallContext(CHAT_ID, {
+    preferredLanguage: 'en-US',
+    first_name: 'Ana',
+    job_title: 'Backend Engineer',
+    company_name: 'Acme',
+    job_description: 'Build payment APIs',
+    interviewee_cv: Buffer.from('Resume: 5 years of Node.js').toString('base64'),
+    interview_id: INTERVIEW_ID,
+  });
+}
+
+describe('startTextChat', () => {
+  beforeEach(() => {
+    cacheStore.clear();
+  });
+
+  it('stores the call context and marks the interview as a text interview in progress', async () => {
+    (prisma.interview.findFirst as jest.Mock).mockResolvedValue({
+      id: INTERVIEW_ID,
+      status: 'PENDING',
+      language: 'pt-BR',
+      jobTitle: 'Backend Engineer',
+      companyName: 'Acme',
+      jobDescription: 'Build payment APIs',
+      interviewMode: 'BEHAVIORAL',
+      durationMinutes: 20,
+      timerCheckpoints: null,
+      panelPersonas: [],
+      user: { firstName: 'Ana', lastName: 'Silva' },
+      resumeDocument: { storageKey: 'resumes/ana.pdf', fileName: 'ana.pdf', mimeType: 'application/pdf' },
+      questionTemplate: null,
+    });
+
+    const result = await startTextChat(INTERVIEW_ID, USER_ID);
+
+    expect(result.ok).toBe(true);
+    const chatId = (result as { chatId: string }).chatId;
+    expect(chatId).toMatch(/^chat_[0-9a-f]{32}$/);
+    expect(prisma.interview.update).toHaveBeenCalledWith({
+      where: { id: INTERVIEW_ID },
+      data: expect.objectContaining({ retellCallId: chatId, channel: 'TEXT', status: 'IN_PROGRESS' }),
+    });
+    expect([...cacheStore.keys()]).toContain(`call:context:${chatId}`);
+  });
+
+  it('refuses interviews that already started', async () => {
+    (prisma.interview.findFirst as jest.Mock).mockResolvedValue({ id: INTERVIEW_ID, status: 'COMPLETED' });
+
+    await expect(startTextChat(INTERVIEW_ID, USER_ID)).resolves.toMatchObject({ ok: false, status: 409 });
+    expect(prisma.interview.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('TextChatSession', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    cacheStore.clear();
+    await storeChatContext();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('greets on connect and answers each candidate message with one whole message', async () => {
+    const { client, session } = openSession();
+
+    await session.handleClientMessage(JSON.stringify({ type: 'ping' }));
+    expect(client.ofType('agent_message')).toEqual([
+      expect.objectContaining({ responseId: 0, content: expect.stringContaining('Welcome to your mock interview') }),
+    ]);
+    expect(client.ofType('pong')).toHaveLength(1);
+
+    await session.handleClientMessage(JSON.stringify({
+      type: 'message',
+      content: 'I built payment APIs in Node.js for five years.',
+    }));
+
+    const replies = client.ofType('agent_message');
+    expect(replies).toHaveLength(2);
+    expect(replies[1]).toMatchObject({ responseId: 1, content: expect.stringContaining('recent project') });
+
+    session.handleClose();
+  });
+
+  it('rejects empty messages without reaching the interviewer', async () => {
+    const { client, session } = openSession();
+
+    await session.handleClientMessage(JSON.stringify({ type: 'message', content: '   ' }));
+
+    expect(client.ofType('error')).toHaveLength(1);
+    expect(client.ofType('agent_message')).toHaveLength(1); // greeting only
+    session.handleClose();
+  });
+
+  it('ends on request and hands the chat transcript to post-call processing', async () => {
+    const { client, session } = openSession();
+    await session.handleClientMessage(JSON.stringify({ type: 'message', content: 'I led the billing migration.' }));
+
+    await session.handleClientMessage(JSON.stringify({ type: 'end' }));
+
+    expect(client.ofType('ended')).toEqual([{ type: 'ended', reason: 'user_request' }]);
+    expect(client.close).toHaveBeenCalledWith(1000, 'Interview ended');
+    expect(prisma.interview.update).toHaveBeenCalledWith({
+      where: { id: INTERVIEW_ID },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        transcript: expect.stringContaining('user: I led the billing migration.'),
+      }),
+    });
+
+    const [interviewId, options] = (enqueuePostCallProcessing as jest.Mock).mock.calls[0];
+    expect(interviewId).toBe(INTERVIEW_ID);
+    expect(options.callData).toMatchObject({
+      call_id: CHAT_ID,
+      disconnection_reason: 'user_request',
+      transcript_with_tool_calls: [
+        { role: 'agent', content: expect.stringContaining('Welcome') },
+        { role: 'user', content: 'I led the billing migration.' },
+        { role: 'agent', content: expect.any(String) },
+      ],
+    });
+
+    session.handleClose();
+    expect(enqueuePostCallProcessing).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes connections for unknown chats', async () => {
+    const { client, session } = openSession('chat_unknown');
+    await session.handleClientMessage(JSON.stringify({ type: 'ping' }));
+
+    expect(client.closeCode).toBe(4404);
+    expect(client.ofType('agent_message')).toHaveLength(0);
+    session.handleClose();
+  });
+});
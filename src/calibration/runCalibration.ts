@@ -0,0 +1,52 @@
+/**
+ * Feedback calibration command
+ *
+ * Usage:
+ *   npm run calibrate:feedback                      # replay recorded responses (no API calls)
+ *   npm run calibrate:feedback -- --live            # call the model (OPENAI_API_KEY)
+ *   npm run calibrate:feedback -- --live --model=gpt-4o --fixture=backend-senior-strong --json
+ *
+ * Exits with 1 when any fixture scores outside its expected band.
+ */
+
+import 'dotenv/config';
+import {
+  formatCalibrationReport,
+  loadCalibrationFixtures,
+  runCalibration,
+} from '../services/feedbackCalibrationService';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const live = args.includes('--live');
+  const fixtureIds = readFlag(args, 'fixture')?.split(',');
+
+  if (live && !process.env.OPENAI_API_KEY) {
+    console.error('--live needs OPENAI_API_KEY');
+    process.exit(2);
+  }
+
+  const fixtures = loadCalibrationFixtures(undefined, fixtureIds);
+  if (fixtures.length === 0) {
+    console.error('No calibration fixtures matched');
+    process.exit(2);
+  }
+
+  const report = await runCalibration(fixtures, {
+    mode: live ? 'live' : 'stub',
+    model: readFlag(args, 'model'),
+  });
+
+  console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : formatCalibrationReport(report));
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Calibration failed:', error);
+  process.exit(2);
+});
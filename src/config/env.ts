@@ -54,6 +54,9 @@ const envSchema = z.object({
   AZURE_REDIS_PASSWORD: z.string().optional(),
   AZURE_REDIS_TLS_ENABLED: z.string().transform((v) => v === 'true').default('true'),
 
+  // Call context (resume content encrypted at rest in the cache; shared by all instances)
+  CALL_CONTEXT_ENCRYPTION_KEY: z.string().min(32).optional(),
+
   // Azure Blob Storage (only required if ENABLE_BLOB_STORAGE=true)
   AZURE_STORAGE_CONNECTION_STRING: z.string().optional(),
   AZURE_STORAGE_ACCOUNT: z.string().optional(),
@@ -105,6 +108,19 @@ const envSchema = z.object({
   // Legacy (deprecated - use API Key auth instead)
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_MESSAGING_SERVICE_SID: z.string().optional(),
+}).superRefine((values, ctx) => {
+  // Call contexts and checkpoints written by one instance must be readable by the others
+  // (and after a restart), so a per-process key is only acceptable for a local in-memory cache
+  const sharedCache = values.ENABLE_REDIS_CACHE
+    || values.APP_ENV === 'production'
+    || values.NODE_ENV === 'production';
+  if (sharedCache && !values.CALL_CONTEXT_ENCRYPTION_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['CALL_CONTEXT_ENCRYPTION_KEY'],
+      message: 'CALL_CONTEXT_ENCRYPTION_KEY is required in production and when ENABLE_REDIS_CACHE=true',
+    });
+  }
 });
 
 // ========================================
@@ -188,6 +204,11 @@ export const config = {
     tlsEnabled: env.AZURE_REDIS_TLS_ENABLED,
   },
 
+  // Call context store
+  callContext: {
+    encryptionKey: env.CALL_CONTEXT_ENCRYPTION_KEY,
+  },
+
   // Azure Blob Storage
   blobStorage: {
     enabled: env.ENABLE_BLOB_STORAGE,
@@ -6,6 +6,7 @@
  * - Slow request detection (>3s threshold)
  * - OpenAI token usage aggregation
  * - Retell call latency tracking
+ * - Live interview turn latency (request -> first/last LLM token) percentiles
  * - Request deduplication detection
  * 
  * @module middleware/observabilityMiddleware
@@ -14,6 +15,7 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import logger, { httpLogger } from '../utils/logger';
+import { latencyPercentiles, type TurnLatency } from '../utils/turnLatency';
 
 // ============================================
 // TYPES
@@ -61,6 +63,7 @@ interface EndpointStats {
 const SLOW_REQUEST_THRESHOLD_MS = 3000;
 const DUPLICATE_WINDOW_MS = 1000; // Detect duplicate requests within 1 second
 const METRICS_REPORT_INTERVAL_MS = 60000; // Report metrics every minute
+const MAX_TURN_LATENCY_SAMPLES = 1000; // Most recent interview turns kept for percentiles
 
 // ============================================
 // IN-MEMORY METRICS STORE (for development/debugging)
@@ -81,6 +84,9 @@ const metrics: AggregatedMetrics = {
 // Track recent requests for duplicate detection
 const recentRequests = new Map<string, number>();
 
+// Recent live interview turns on this instance
+const turnLatencySamples: Array<TurnLatency & { language: string }> = [];
+
 // ============================================
 // METRICS HELPERS
 // ============================================
@@ -256,6 +262,40 @@ export function trackRetellLatency(durationMs: number, callId: string) {
   httpLogger.debug('Retell call tracked', { durationMs, callId, totalDuration: metrics.retellCallDuration });
 }
 
+// ============================================
+// INTERVIEW TURN LATENCY TRACKING
+// ============================================
+
+/**
+ * Track one timed interviewer turn (Custom LLM WebSocket)
+ */
+export function trackTurnLatency(sample: TurnLatency & { language: string }) {
+  turnLatencySamples.push(sample);
+  if (turnLatencySamples.length > MAX_TURN_LATENCY_SAMPLES) {
+    turnLatencySamples.shift();
+  }
+}
+
+function summarizeTurnSamples(samples: TurnLatency[]) {
+  return {
+    turns: samples.length,
+    firstTokenMs: latencyPercentiles(samples.map((s) => s.firstTokenMs)),
+    lastTokenMs: latencyPercentiles(samples.map((s) => s.lastTokenMs)),
+  };
+}
+
+function groupTurnSamples(key: 'model' | 'language') {
+  const groups = new Map<string, TurnLatency[]>();
+  for (const sample of turnLatencySamples) {
+    const group = groups.get(sample[key]) || [];
+    group.push(sample);
+    groups.set(sample[key], group);
+  }
+  return Object.fromEntries(
+    Array.from(groups.entries()).map(([value, samples]) => [value, summarizeTurnSamples(samples)])
+  );
+}
+
 // ============================================
 // METRICS REPORTING
 // ============================================
@@ -268,6 +308,7 @@ export function getMetricsSnapshot(): {
   topSlowEndpoints: Array<{ path: string; avgDuration: number; slowCount: number }>;
   topLargePayloads: Array<{ path: string; avgSize: number }>;
   duplicateRequests: Array<{ fingerprint: string; count: number }>;
+  turnLatency: Record<string, unknown>;
 } {
   const topSlowEndpoints = Array.from(metrics.endpointStats.entries())
     .map(([path, stats]) => ({ path, avgDuration: stats.avgDuration, slowCount: stats.slowCount }))
@@ -301,7 +342,12 @@ export function getMetricsSnapshot(): {
     },
     topSlowEndpoints,
     topLargePayloads,
-    duplicateRequests
+    duplicateRequests,
+    turnLatency: {
+      ...summarizeTurnSamples(turnLatencySamples),
+      byModel: groupTurnSamples('model'),
+      byLanguage: groupTurnSamples('language'),
+    }
   };
 }
 
@@ -325,6 +371,7 @@ export function resetMetrics() {
   metrics.endpointStats.clear();
   metrics.duplicateRequests.clear();
   recentRequests.clear();
+  turnLatencySamples.length = 0;
 }
 
 // Periodic metrics logging (in development)
@@ -337,7 +384,8 @@ if (process.env.NODE_ENV === 'development') {
   }, METRICS_REPORT_INTERVAL_MS);
 }
 
-// Clean up old request fingerprints periodically
+// Clean up old request fingerprints periodically (unref'd: the live WebSocket
+// handler imports this module for turn latency, and must not hold the process open)
 setInterval(() => {
   const now = Date.now();
   for (const [fingerprint, time] of recentRequests.entries()) {
@@ -345,6 +393,6 @@ setInterval(() => {
       recentRequests.delete(fingerprint);
     }
   }
-}, 30000);
+}, 30000).unref();
 
 export default observabilityMiddleware;
@@ -0,0 +1,172 @@
+/**
+ * Company Interview Style Profiles
+ *
+ * What a candidate can expect when interviewing at a specific employer: the
+ * values interviewers screen for, the usual interview format, leadership
+ * principles and typical question themes. Profiles live in the company_profiles
+ * table (admin-managed); this module holds the prompt block and the seeded set.
+ *
+ * @module prompts/companyProfiles
+ */
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * Profile content injected into the interviewer prompt
+ */
+export interface CompanyStyleProfile {
+  name: string;
+  values: string[];
+  interviewFormat?: string | null;
+  leadershipPrinciples: string[];
+  questionThemes: string[];
+}
+
+export interface CompanyProfileSeed extends CompanyStyleProfile {
+  slug: string;
+  aliases: string[];
+}
+
+// ========================================
+// PROMPT
+// ========================================
+
+/**
+ * Interviewer prompt block that makes the session feel like the employer's loop
+ */
+export function buildCompanyProfilePrompt(profile: CompanyStyleProfile): string {
+  const list = (tag: string, items: string[]) =>
+    items.length > 0 ? `\n  <${tag}>\n${items.map((item) => `    - ${item}`).join('\n')}\n  </${tag}>` : '';
+
+  return `
+<company_interview_style company="${profile.name}">${
+    profile.interviewFormat ? `\n  <format>${profile.interviewFormat}</format>` : ''
+  }${list('values', profile.values)}${list('leadership_principles', profile.leadershipPrinciples)}${list('question_themes', profile.questionThemes)}
+  <rule>Interview the way ${profile.name} interviewers do: draw competency questions from these themes and probe for these values and principles.</rule>
+  <rule>You may name a principle when asking about it, but never claim to work for ${profile.name} or share internal hiring details.</rule>
+</company_interview_style>`;
+}
+
+// ========================================
+// SEEDED PROFILES
+// Publicly documented interview styles; admins can edit or extend them
+// ========================================
+
+export const COMPANY_PROFILE_SEEDS: CompanyProfileSeed[] = [
+  {
+    slug: 'amazon',
+    name: 'Amazon',
+    aliases: ['amazon', 'aws', 'amazon web services'],
+    interviewFormat: 'Loop of behavioral and role-specific interviews; every interviewer owns some Leadership Principles and expects STAR stories with measurable results.',
+    values: ['Customer obsession', 'Ownership of outcomes', 'High bar for hiring and delivery'],
+    leadershipPrinciples: [
+      'Customer Obsession',
+      'Ownership',
+      'Invent and Simplify',
+      'Are Right, A Lot',
+      'Dive Deep',
+      'Have Backbone; Disagree and Commit',
+      'Deliver Results',
+      'Bias for Action',
+    ],
+    questionThemes: [
+      'A time you went above and beyond for a customer',
+      'A decision made with incomplete data',
+      'Disagreeing with your manager and what happened next',
+      'A project that failed and what you learned',
+    ],
+  },
+  {
+    slug: 'google',
+    name: 'Google',
+    aliases: ['google', 'alphabet'],
+    interviewFormat: 'Structured interviews scored on a shared rubric: role-related knowledge, general cognitive ability, leadership and "Googleyness".',
+    values: ['Intellectual humility', 'Comfort with ambiguity', 'Collaboration'],
+    leadershipPrinciples: ['Emergent leadership', 'Acting with the user in mind', 'Data-driven decisions'],
+    questionThemes: [
+      'Open-ended problems worked through out loud',
+      'Estimating or structuring an ambiguous problem',
+      'Helping a team succeed without formal authority',
+    ],
+  },
+  {
+    slug: 'meta',
+    name: 'Meta',
+    aliases: ['meta', 'facebook', 'meta platforms'],
+    interviewFormat: 'Technical or product rounds plus a behavioral round focused on impact, conflict and growth.',
+    values: ['Move fast', 'Focus on long-term impact', 'Be direct and respect your colleagues'],
+    leadershipPrinciples: ['Driving impact at scale', 'Handling conflict', 'Continuous growth'],
+    questionThemes: [
+      'The most impactful project you drove',
+      'Resolving a conflict with a peer',
+      'Feedback you received and how you acted on it',
+    ],
+  },
+  {
+    slug: 'microsoft',
+    name: 'Microsoft',
+    aliases: ['microsoft', 'msft'],
+    interviewFormat: 'Several rounds mixing technical depth and behavioral questions, often ending with an "as appropriate" interview with a senior leader.',
+    values: ['Growth mindset', 'Customer focus', 'Diversity and inclusion', 'One Microsoft'],
+    leadershipPrinciples: ['Create clarity', 'Generate energy', 'Deliver success'],
+    questionThemes: [
+      'Learning from a mistake',
+      'Collaborating across teams',
+      'Adapting to a change in direction',
+    ],
+  },
+  {
+    slug: 'apple',
+    name: 'Apple',
+    aliases: ['apple'],
+    interviewFormat: 'Team-specific interviews that go deep on past work and craft, with attention to detail and user experience.',
+    values: ['Attention to detail', 'Focus on the user experience', 'Confidentiality and discretion'],
+    leadershipPrinciples: ['Ownership of craft', 'Cross-functional collaboration'],
+    questionThemes: [
+      'A product detail you obsessed over',
+      'Explaining a complex project simply',
+      'Why this team and product',
+    ],
+  },
+  {
+    slug: 'netflix',
+    name: 'Netflix',
+    aliases: ['netflix'],
+    interviewFormat: 'Conversations anchored in the culture memo: judgment, candor and context over control.',
+    values: ['Freedom and responsibility', 'Candor', 'Judgment', 'Keeper test'],
+    leadershipPrinciples: ['Context, not control', 'Highly aligned, loosely coupled'],
+    questionThemes: [
+      'Giving or receiving difficult feedback',
+      'A high-stakes decision you made independently',
+      'How you keep your skills at the top of the market',
+    ],
+  },
+  {
+    slug: 'nubank',
+    name: 'Nubank',
+    aliases: ['nubank', 'nu', 'nu holdings', 'nu pagamentos'],
+    interviewFormat: 'Case or technical rounds plus a values interview around the customer and ownership.',
+    values: ['Customers love us fanatically', 'We think and act as owners', 'We challenge the status quo', 'We want hungry and nice people'],
+    leadershipPrinciples: ['Ownership', 'Customer focus', 'Efficiency'],
+    questionThemes: [
+      'Challenging a process that was not serving customers',
+      'Doing more with fewer resources',
+      'Owning a problem outside your scope',
+    ],
+  },
+  {
+    slug: 'mercado-libre',
+    name: 'Mercado Libre',
+    aliases: ['mercado libre', 'mercado livre', 'mercadolibre', 'mercado pago', 'meli'],
+    interviewFormat: 'Technical or case rounds plus a cultural interview built on the company\'s entrepreneurial DNA.',
+    values: ['Entrepreneurial spirit', 'Create value for users', 'Compete to win', 'Execute with excellence'],
+    leadershipPrinciples: ['Beta continuous', 'Risk-taking', 'Team work'],
+    questionThemes: [
+      'Launching something quickly and iterating',
+      'Taking a calculated risk',
+      'Delivering under pressure in a fast-growing market',
+    ],
+  },
+];
@@ -1,8 +1,8 @@
 /**
  * Field-specific prompts for different interview domains
  * 
- * NOTE: The initialMessage now includes {candidateName}, {jobTitle}, and {companyName}
- * placeholders that will be replaced with actual values at runtime.
+ * NOTE: The initialMessage now includes {candidateName}, {jobTitle}, {companyName} and
+ * {durationMinutes} placeholders that will be replaced with actual values at runtime.
  */
 
 export interface FieldPrompt {
@@ -45,7 +45,7 @@ EVALUATION FOCUS:
 - Communication of technical concepts`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your technical skills for the {jobTitle} position at {companyName}. 
 
-My goal is to help you prepare by asking questions tailored to your resume and the job requirements. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by asking questions tailored to your resume and the job requirements. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you give me a brief overview of your software engineering background and what drew you to this {jobTitle} role?`,
     keywords: ['programming', 'code', 'software', 'development', 'algorithm', 'system', 'architecture', 'technical', 'engineer', 'developer', 'backend', 'frontend', 'fullstack', 'devops']
@@ -83,7 +83,7 @@ EVALUATION FOCUS:
 - Creative thinking and innovation`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your marketing expertise for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your campaign experience, strategic thinking, and results-driven approach. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your campaign experience, strategic thinking, and results-driven approach. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you tell me about your marketing background and a campaign you're particularly proud of?`,
     keywords: ['marketing', 'campaign', 'brand', 'social media', 'strategy', 'customer', 'engagement', 'analytics', 'digital', 'seo', 'content', 'growth', 'acquisition']
@@ -121,7 +121,7 @@ EVALUATION FOCUS:
 - MLOps and model deployment experience`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your artificial intelligence and machine learning expertise for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your ML project experience, algorithm knowledge, and practical implementation skills. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your ML project experience, algorithm knowledge, and practical implementation skills. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you tell me about your AI/ML background and describe a machine learning project where you made significant model design decisions?`,
     keywords: ['ai', 'artificial intelligence', 'machine learning', 'ml', 'deep learning', 'neural network', 'nlp', 'model', 'algorithm', 'data science', 'tensorflow', 'pytorch', 'llm']
@@ -159,7 +159,7 @@ EVALUATION FOCUS:
 - Understanding of agricultural economics`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your agricultural expertise for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your farming experience, technical knowledge, and problem-solving abilities. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your farming experience, technical knowledge, and problem-solving abilities. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you tell me about your background in agriculture and what type of farming or agricultural operations you have the most experience with?`,
     keywords: ['agriculture', 'farming', 'crop', 'cultivation', 'soil', 'harvest', 'agritech', 'sustainable', 'livestock', 'irrigation', 'agronomy', 'farm']
@@ -197,7 +197,7 @@ EVALUATION FOCUS:
 - Communication of complex concepts`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your physics expertise for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your research experience, theoretical knowledge, and analytical abilities. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your research experience, theoretical knowledge, and analytical abilities. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you tell me about your physics background and describe a research project or problem that you found particularly challenging?`,
     keywords: ['physics', 'mechanics', 'quantum', 'thermodynamics', 'electromagnetic', 'research', 'experiment', 'theory', 'particle', 'optics', 'nuclear', 'astrophysics']
@@ -235,7 +235,7 @@ EVALUATION FOCUS:
 - Communication of insights to stakeholders`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your data science expertise for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your analytical experience, statistical knowledge, and ability to derive actionable insights. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your analytical experience, statistical knowledge, and ability to derive actionable insights. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you tell me about your data science background and describe a project where your analysis led to a significant business decision?`,
     keywords: ['data science', 'data scientist', 'analytics', 'statistics', 'sql', 'python', 'r programming', 'visualization', 'tableau', 'power bi', 'insights', 'analysis']
@@ -273,7 +273,7 @@ EVALUATION FOCUS:
 - Cultural fit and motivation`,
     initialMessage: `Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your qualifications for the {jobTitle} position at {companyName}.
 
-My goal is to help you prepare by exploring your professional experience, skills, and fit for this role. This interview will take about 15 minutes, and I'll provide feedback at the end.
+My goal is to help you prepare by exploring your professional experience, skills, and fit for this role. This interview will take about {durationMinutes} minutes, and I'll provide feedback at the end.
 
 Let's begin! Can you give me a brief overview of your professional background and what interests you about this {jobTitle} opportunity?`,
     keywords: []
@@ -312,12 +312,14 @@ export function formatInitialMessage(
   fieldPrompt: FieldPrompt, 
   candidateName: string, 
   jobTitle: string, 
-  companyName: string
+  companyName: string,
+  durationMinutes: number = 15
 ): string {
   return fieldPrompt.initialMessage
     .replace(/{candidateName}/g, candidateName || 'there')
     .replace(/{jobTitle}/g, jobTitle || 'this position')
-    .replace(/{companyName}/g, companyName || 'your target company');
+    .replace(/{companyName}/g, companyName || 'your target company')
+    .replace(/{durationMinutes}/g, String(durationMinutes));
 }
 
 /**
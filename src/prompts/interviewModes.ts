@@ -0,0 +1,225 @@
+/**
+ * Interview Mode Packs
+ *
+ * Each mode targets a specific interview round: it replaces the generic
+ * interview structure in the system prompt, shapes the interview plan,
+ * sets the default duration, and defines the round-specific feedback criteria.
+ * Competency weights per mode live in types/rubrics (MODE_COMPETENCY_WEIGHTS).
+ *
+ * @module prompts/interviewModes
+ */
+
+import type { InterviewMode } from '../types/feedback';
+import type { InterviewPhase } from '../utils/interviewPlan';
+import type { SilenceAction } from '../utils/silencePolicy';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ModeFeedbackCriterion {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export interface InterviewModePack {
+  mode: InterviewMode;
+  label: string;
+  /** Default call length; undefined keeps MAX_INTERVIEW_DURATION_MINUTES */
+  durationMinutes?: number;
+  /** Replaces the generic <interview_structure> block */
+  structurePrompt?: string;
+  /** Extra rules appended to the system prompt */
+  modeRules?: string;
+  /** Overrides for the per-turn plan guidance */
+  phaseGuidance?: Partial<Record<Exclude<InterviewPhase, 'complete'>, string>>;
+  includeBackground: boolean;
+  includeCandidateQuestions: boolean;
+  competencyQuestionCount?: number;
+  /** Reminder ladder when the candidate goes quiet; undefined keeps DEFAULT_SILENCE_POLICY */
+  silencePolicy?: SilenceAction[];
+  /** Round-specific feedback schema (empty for the standard mock) */
+  feedbackCriteria: ModeFeedbackCriterion[];
+}
+
+export const INTERVIEW_MODES: InterviewMode[] = [
+  'STANDARD',
+  'BEHAVIORAL',
+  'TECHNICAL_DEEP_DIVE',
+  'CASE',
+  'SALARY_NEGOTIATION',
+];
+
+// ========================================
+// MODE PACKS
+// ========================================
+
+const MODE_PACKS: Record<InterviewMode, InterviewModePack> = {
+  STANDARD: {
+    mode: 'STANDARD',
+    label: 'General mock interview',
+    includeBackground: true,
+    includeCandidateQuestions: true,
+    feedbackCriteria: [],
+  },
+
+  BEHAVIORAL: {
+    mode: 'BEHAVIORAL',
+    label: 'Behavioral (STAR)',
+    durationMinutes: 20,
+    structurePrompt: `
+<interview_structure mode="behavioral">
+  <phase name="opening" duration="1min">Brief introduction, explain this is a behavioral round</phase>
+  <phase name="behavioral_questions" duration="15min">
+    "Tell me about a time..." questions on conflict, failure, ownership, influence and teamwork
+  </phase>
+  <phase name="closing" duration="1-2min">Candidate questions, thank candidate</phase>
+</interview_structure>`,
+    modeRules: `
+<mode_rules mode="behavioral">
+  <rule>Every question must ask for a specific past situation, not a hypothetical.</rule>
+  <rule>Probe for missing STAR parts: "What was your role specifically?", "What was the result?"</rule>
+  <rule>Ask for measurable outcomes and what they would do differently.</rule>
+  <rule>Do NOT ask technical knowledge or coding questions.</rule>
+</mode_rules>`,
+    phaseGuidance: {
+      competency: 'Ask a "Tell me about a time when..." question that reveals the competency below. If the previous answer lacked a clear result or personal action, probe for it first.',
+    },
+    includeBackground: false,
+    includeCandidateQuestions: true,
+    competencyQuestionCount: 5,
+    feedbackCriteria: [
+      { key: 'situation', label: 'Situation', description: 'Sets concise, relevant context' },
+      { key: 'task', label: 'Task', description: 'States their own responsibility clearly' },
+      { key: 'action', label: 'Action', description: 'Describes specific personal actions ("I", not "we")' },
+      { key: 'result', label: 'Result', description: 'Quantifies outcomes and reflects on learnings' },
+    ],
+  },
+
+  TECHNICAL_DEEP_DIVE: {
+    mode: 'TECHNICAL_DEEP_DIVE',
+    label: 'Technical deep-dive / system design',
+    durationMinutes: 25,
+    structurePrompt: `
+<interview_structure mode="technical_deep_dive">
+  <phase name="opening" duration="1min">Brief introduction</phase>
+  <phase name="problem_statement" duration="2min">Present one system to design, relevant to the role</phase>
+  <phase name="walkthrough" duration="18min">
+    Requirements and scale, high-level components, data model, bottlenecks, trade-offs, failure modes
+  </phase>
+  <phase name="closing" duration="1-2min">Thank candidate</phase>
+</interview_structure>`,
+    modeRules: `
+<mode_rules mode="technical_deep_dive">
+  <rule>Stay on ONE design problem for the whole interview and go deeper each turn.</rule>
+  <rule>Make the candidate clarify requirements and estimate scale before designing.</rule>
+  <rule>Challenge decisions: "What happens if this component fails?", "Why this database?"</rule>
+  <rule>Do not draw or describe the solution yourself.</rule>
+</mode_rules>`,
+    phaseGuidance: {
+      background: 'Present a single system design problem relevant to the role and ask the candidate to clarify the requirements.',
+      competency: 'Continue the same design walkthrough. Push one level deeper on the area below (scale, data model, trade-offs, failures).',
+    },
+    includeBackground: true,
+    includeCandidateQuestions: false,
+    competencyQuestionCount: 5,
+    // Thinking out loud through a design takes longer pauses
+    silencePolicy: ['nudge', 'nudge', 'rephrase', 'offer_skip', 'end'],
+    feedbackCriteria: [
+      { key: 'requirements', label: 'Requirements gathering', description: 'Clarifies scope, users and scale before designing' },
+      { key: 'architecture', label: 'High-level architecture', description: 'Proposes coherent components and data flow' },
+      { key: 'trade_offs', label: 'Trade-offs', description: 'Compares options and justifies choices' },
+      { key: 'reliability', label: 'Scalability & reliability', description: 'Identifies bottlenecks and failure modes' },
+    ],
+  },
+
+  CASE: {
+    mode: 'CASE',
+    label: 'Case interview',
+    durationMinutes: 25,
+    structurePrompt: `
+<interview_structure mode="case">
+  <phase name="opening" duration="1min">Brief introduction, explain the case format</phase>
+  <phase name="case_prompt" duration="2min">Present a business case (market sizing, profitability, or market entry)</phase>
+  <phase name="analysis" duration="18min">
+    Structuring, hypothesis, data requests, quantitative analysis, synthesis
+  </phase>
+  <phase name="recommendation" duration="2min">Candidate gives a final recommendation</phase>
+</interview_structure>`,
+    modeRules: `
+<mode_rules mode="case">
+  <rule>Work through ONE case. Provide data only when the candidate asks for it or needs it to progress.</rule>
+  <rule>Ask the candidate to lay out their structure before diving in.</rule>
+  <rule>Ask them to do the math aloud and sanity-check results.</rule>
+  <rule>End by asking for a clear recommendation with risks and next steps.</rule>
+</mode_rules>`,
+    phaseGuidance: {
+      background: 'Present a short business case relevant to the company or industry and ask how they would structure the problem.',
+      competency: 'Continue the same case. Move it forward with a data point or a question that tests the area below.',
+      candidate_questions: 'Ask the candidate for their final recommendation, with key risks and next steps.',
+    },
+    includeBackground: true,
+    includeCandidateQuestions: true,
+    competencyQuestionCount: 4,
+    // Candidates do the math aloud and often go quiet while calculating
+    silencePolicy: ['nudge', 'nudge', 'rephrase', 'offer_skip', 'end'],
+    feedbackCriteria: [
+      { key: 'structure', label: 'Structuring', description: 'MECE framework tailored to the problem' },
+      { key: 'quantitative', label: 'Quantitative analysis', description: 'Accurate math and sanity checks' },
+      { key: 'insight', label: 'Business insight', description: 'Draws implications from the data' },
+      { key: 'synthesis', label: 'Synthesis', description: 'Clear, actionable recommendation with risks' },
+    ],
+  },
+
+  SALARY_NEGOTIATION: {
+    mode: 'SALARY_NEGOTIATION',
+    label: 'Offer negotiation role-play',
+    durationMinutes: 12,
+    structurePrompt: `
+<interview_structure mode="salary_negotiation">
+  <phase name="opening" duration="1min">You are the recruiter calling to extend a verbal offer</phase>
+  <phase name="offer" duration="2min">Present base salary, bonus, equity and start date for the role</phase>
+  <phase name="negotiation" duration="7min">
+    Respond realistically to counter-offers: push back, ask for justification, trade components
+  </phase>
+  <phase name="closing" duration="1min">Summarize the final offer and next steps</phase>
+</interview_structure>`,
+    modeRules: `
+<mode_rules mode="salary_negotiation">
+  <rule>Stay in character as the company's recruiter for the whole call. Do NOT coach the candidate.</rule>
+  <rule>Open with a realistic offer for the role, seniority and country, slightly below market.</rule>
+  <rule>Concede only when the candidate gives a reason (market data, competing offer, scope); never concede more than 10-15% in total.</rule>
+  <rule>Use realistic tactics: budget limits, exploding deadlines, offering non-salary components.</rule>
+</mode_rules>`,
+    phaseGuidance: {
+      background: 'Present the verbal offer (base, bonus, equity, start date) and ask what they think.',
+      competency: 'Respond to their last position as the recruiter, staying in character. Push back or trade, focusing on the area below.',
+      wrap_up: 'Summarize the final agreed (or open) terms and next steps, then close the call. Do not reopen negotiation.',
+    },
+    includeBackground: true,
+    includeCandidateQuestions: false,
+    competencyQuestionCount: 4,
+    feedbackCriteria: [
+      { key: 'anchoring', label: 'Anchoring', description: 'Sets a well-researched target before conceding' },
+      { key: 'justification', label: 'Justification', description: 'Backs requests with market data or value delivered' },
+      { key: 'total_compensation', label: 'Total compensation', description: 'Negotiates beyond base (equity, bonus, start date, perks)' },
+      { key: 'relationship', label: 'Relationship', description: 'Stays collaborative and professional under pressure' },
+    ],
+  },
+};
+
+// ========================================
+// ACCESSORS
+// ========================================
+
+export function isInterviewMode(value: unknown): value is InterviewMode {
+  return typeof value === 'string' && (INTERVIEW_MODES as string[]).includes(value);
+}
+
+/**
+ * Get the pack for a mode, falling back to the standard mock interview
+ */
+export function getInterviewModePack(mode?: string | null): InterviewModePack {
+  return isInterviewMode(mode) ? MODE_PACKS[mode] : MODE_PACKS.STANDARD;
+}
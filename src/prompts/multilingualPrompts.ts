@@ -14,6 +14,9 @@
  */
 
 import { SupportedLanguageCode, LANGUAGE_CONFIGS, getLanguageConfig } from '../types/multilingual';
+import { getInterviewModePack } from './interviewModes';
+import type { InterviewMode } from '../types/feedback';
+import { buildCompanyProfilePrompt, type CompanyStyleProfile } from './companyProfiles';
 
 // ========================================
 // TYPES
@@ -27,6 +30,15 @@ export interface MultilingualPrompt {
     silence: string;
     timeWarning: string;
     wrapUp: string;
+    halfway: string;
+    minutesLeft: string; // {minutes} placeholder
+    oneMinuteLeft: string;
+    finishAnswer: string;
+    timeUp: string;
+    pauseAck: string;
+    resumed: string;
+    offerSkip: string;
+    silenceFarewell: string;
   };
   transitions: {
     nextQuestion: string;
@@ -155,11 +167,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
 } {
   const phrases: Record<SupportedLanguageCode, ReturnType<typeof getLanguageSpecificPhrases>> = {
     'en-US': {
-      greeting: "Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your skills for the {jobTitle} position at {companyName}. This interview will take about 15 minutes. Let's begin!",
+      greeting: "Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be evaluating your skills for the {jobTitle} position at {companyName}. This interview will take about {durationMinutes} minutes. Let's begin!",
       reminders: {
         silence: "I'm still here. Take your time if you need a moment to think.",
         timeWarning: "We have about 5 minutes left in our interview.",
         wrapUp: "We're coming to the end of our time. Let me ask one final question.",
+        halfway: "We're about halfway through our interview.",
+        minutesLeft: "We have about {minutes} minutes left, so let's start moving toward the final questions.",
+        oneMinuteLeft: "We have about one minute left.",
+        finishAnswer: "We're at time, so please go ahead and finish your current answer, and then we'll wrap up.",
+        timeUp: "Thank you so much for your time today. We've reached the end of our scheduled interview time. It was great learning about your background and experience. We'll be in touch with next steps soon.",
+        pauseAck: "Of course, let's take a short break. Just say you're ready whenever you'd like to continue.",
+        resumed: "Welcome back, let's pick up where we left off.",
+        offerSkip: "No pressure at all. If you'd like, we can move on to the next question - just say \"next question\".",
+        silenceFarewell: "I notice you've been quiet for a while. That's completely okay - interviews can be challenging. I'm going to end our session here to save your time. Feel free to start a new interview whenever you're ready. Take care, and good luck with your job search!",
       },
       transitions: {
         nextQuestion: "Great, let's move on to the next topic.",
@@ -168,11 +189,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'en-GB': {
-      greeting: "Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be assessing your skills for the {jobTitle} role at {companyName}. This interview will take approximately 15 minutes. Shall we begin?",
+      greeting: "Hello {candidateName}! Welcome to your mock interview with Vocaid. I'm your AI interviewer, and today I'll be assessing your skills for the {jobTitle} role at {companyName}. This interview will take approximately {durationMinutes} minutes. Shall we begin?",
       reminders: {
         silence: "I'm still here. Do take your time if you need a moment.",
         timeWarning: "We've got about 5 minutes remaining.",
         wrapUp: "We're approaching the end of our session. One final question.",
+        halfway: "We're roughly halfway through the interview.",
+        minutesLeft: "We've got about {minutes} minutes left, so let's start heading towards the final questions.",
+        oneMinuteLeft: "We've got about one minute left.",
+        finishAnswer: "We're at time, so do finish your current answer and then we'll wrap up.",
+        timeUp: "Thank you very much for your time today. We've reached the end of our scheduled interview. It was lovely learning about your background and experience. We'll be in touch about next steps soon.",
+        pauseAck: "Of course, let's take a short break. Just say you're ready whenever you'd like to carry on.",
+        resumed: "Welcome back, let's pick up where we left off.",
+        offerSkip: "No pressure at all. If you'd prefer, we can move on to the next question - just say \"next question\".",
+        silenceFarewell: "I notice you've been quiet for a while. That's perfectly fine - interviews can be challenging. I'll end our session here to save your time. Do start a new interview whenever you're ready. Take care, and best of luck with your job search!",
       },
       transitions: {
         nextQuestion: "Lovely, let's move on to the next area.",
@@ -181,11 +211,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'pt-BR': {
-      greeting: "Olá {candidateName}! Bem-vindo à sua entrevista simulada com a Vocaid. Sou seu entrevistador de IA, e hoje vou avaliar suas habilidades para a posição de {jobTitle} na {companyName}. Esta entrevista durará cerca de 15 minutos. Vamos começar!",
+      greeting: "Olá {candidateName}! Bem-vindo à sua entrevista simulada com a Vocaid. Sou seu entrevistador de IA, e hoje vou avaliar suas habilidades para a posição de {jobTitle} na {companyName}. Esta entrevista durará cerca de {durationMinutes} minutos. Vamos começar!",
       reminders: {
         silence: "Ainda estou aqui. Pode pensar com calma se precisar de um momento.",
         timeWarning: "Temos cerca de 5 minutos restantes na nossa entrevista.",
         wrapUp: "Estamos chegando ao final do nosso tempo. Vou fazer uma última pergunta.",
+        halfway: "Estamos mais ou menos na metade da nossa entrevista.",
+        minutesLeft: "Temos cerca de {minutes} minutos restantes, então vamos caminhar para as perguntas finais.",
+        oneMinuteLeft: "Temos cerca de um minuto restante.",
+        finishAnswer: "Nosso tempo acabou, então pode terminar sua resposta atual e depois encerramos.",
+        timeUp: "Muito obrigado pelo seu tempo hoje. Chegamos ao fim do tempo previsto para a entrevista. Foi ótimo conhecer sua trajetória e experiência. Entraremos em contato em breve com os próximos passos.",
+        pauseAck: "Claro, vamos fazer uma pequena pausa. É só dizer que está pronto quando quiser continuar.",
+        resumed: "Bem-vindo de volta, vamos continuar de onde paramos.",
+        offerSkip: "Sem pressão. Se preferir, podemos seguir para a próxima pergunta - é só dizer \"próxima pergunta\".",
+        silenceFarewell: "Percebi que você está em silêncio há algum tempo. Tudo bem, entrevistas podem ser desafiadoras. Vou encerrar nossa sessão aqui para não tomar seu tempo. Você pode começar uma nova entrevista quando quiser. Cuide-se e boa sorte na sua busca!",
       },
       transitions: {
         nextQuestion: "Ótimo, vamos passar para o próximo tópico.",
@@ -194,11 +233,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'es-ES': {
-      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista simulada con Vocaid. Soy tu entrevistador de IA, y hoy evaluaré tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista durará unos 15 minutos. ¡Comencemos!",
+      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista simulada con Vocaid. Soy tu entrevistador de IA, y hoy evaluaré tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista durará unos {durationMinutes} minutos. ¡Comencemos!",
       reminders: {
         silence: "Sigo aquí. Tómate tu tiempo si necesitas un momento para pensar.",
         timeWarning: "Nos quedan unos 5 minutos de entrevista.",
         wrapUp: "Estamos llegando al final de nuestro tiempo. Una última pregunta.",
+        halfway: "Estamos aproximadamente a mitad de la entrevista.",
+        minutesLeft: "Nos quedan unos {minutes} minutos, así que vamos pasando a las preguntas finales.",
+        oneMinuteLeft: "Nos queda más o menos un minuto.",
+        finishAnswer: "Se nos ha acabado el tiempo, así que termina tu respuesta actual y después cerramos.",
+        timeUp: "Muchas gracias por tu tiempo hoy. Hemos llegado al final del tiempo previsto para la entrevista. Ha sido un placer conocer tu trayectoria y experiencia. Te contactaremos pronto con los próximos pasos.",
+        pauseAck: "Por supuesto, hagamos una breve pausa. Dime que estás listo cuando quieras continuar.",
+        resumed: "Bienvenido de nuevo, sigamos donde lo dejamos.",
+        offerSkip: "Sin presión. Si lo prefieres, podemos pasar a la siguiente pregunta; solo di \"siguiente pregunta\".",
+        silenceFarewell: "Veo que llevas un rato en silencio. No pasa nada, las entrevistas pueden ser exigentes. Voy a terminar la sesión aquí para no hacerte perder tiempo. Puedes empezar una nueva entrevista cuando quieras. ¡Cuídate y mucha suerte en tu búsqueda!",
       },
       transitions: {
         nextQuestion: "Muy bien, pasemos al siguiente tema.",
@@ -207,11 +255,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'es-MX': {
-      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista de práctica con Vocaid. Soy tu entrevistador de IA, y hoy evaluaré tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista tomará unos 15 minutos. ¡Empecemos!",
+      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista de práctica con Vocaid. Soy tu entrevistador de IA, y hoy evaluaré tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista tomará unos {durationMinutes} minutos. ¡Empecemos!",
       reminders: {
         silence: "Aquí sigo. Tómate tu tiempo si necesitas pensar un momento.",
         timeWarning: "Nos quedan como 5 minutos de entrevista.",
         wrapUp: "Ya casi terminamos. Te hago una última pregunta.",
+        halfway: "Vamos más o menos a la mitad de la entrevista.",
+        minutesLeft: "Nos quedan como {minutes} minutos, así que vamos pasando a las preguntas finales.",
+        oneMinuteLeft: "Nos queda como un minuto.",
+        finishAnswer: "Ya se nos acabó el tiempo, así que termina tu respuesta y después cerramos.",
+        timeUp: "Muchas gracias por tu tiempo hoy. Llegamos al final del tiempo de la entrevista. Fue un gusto conocer tu trayectoria y experiencia. Te contactaremos pronto con los siguientes pasos.",
+        pauseAck: "Claro, hagamos una pausa breve. Avísame que estás listo cuando quieras continuar.",
+        resumed: "Bienvenido de nuevo, sigamos donde nos quedamos.",
+        offerSkip: "Sin presión. Si prefieres, podemos pasar a la siguiente pregunta; nada más di \"siguiente pregunta\".",
+        silenceFarewell: "Noto que llevas un rato en silencio. Está bien, las entrevistas pueden ser difíciles. Voy a terminar la sesión aquí para no quitarte más tiempo. Puedes iniciar una nueva entrevista cuando quieras. ¡Cuídate y mucho éxito en tu búsqueda!",
       },
       transitions: {
         nextQuestion: "Muy bien, pasemos al siguiente tema.",
@@ -220,11 +277,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'es-AR': {
-      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista de práctica con Vocaid. Soy tu entrevistador de IA, y hoy voy a evaluar tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista va a durar unos 15 minutos. ¡Arranquemos!",
+      greeting: "¡Hola {candidateName}! Bienvenido a tu entrevista de práctica con Vocaid. Soy tu entrevistador de IA, y hoy voy a evaluar tus habilidades para el puesto de {jobTitle} en {companyName}. Esta entrevista va a durar unos {durationMinutes} minutos. ¡Arranquemos!",
       reminders: {
         silence: "Acá sigo. Tomate tu tiempo si necesitás pensar un momento.",
         timeWarning: "Nos quedan como 5 minutos de entrevista.",
         wrapUp: "Estamos llegando al final. Te hago una última pregunta.",
+        halfway: "Vamos más o menos por la mitad de la entrevista.",
+        minutesLeft: "Nos quedan como {minutes} minutos, así que vamos yendo a las preguntas finales.",
+        oneMinuteLeft: "Nos queda más o menos un minuto.",
+        finishAnswer: "Se nos terminó el tiempo, así que terminá tu respuesta y después cerramos.",
+        timeUp: "Muchas gracias por tu tiempo hoy. Llegamos al final del tiempo de la entrevista. Fue un gusto conocer tu trayectoria y experiencia. Te vamos a contactar pronto con los próximos pasos.",
+        pauseAck: "Claro, hagamos una pausa corta. Avisame que estás listo cuando quieras seguir.",
+        resumed: "Bienvenido de nuevo, sigamos donde quedamos.",
+        offerSkip: "Sin presión. Si preferís, podemos pasar a la siguiente pregunta; solo decí \"siguiente pregunta\".",
+        silenceFarewell: "Noto que hace un rato que estás en silencio. Está bien, las entrevistas pueden ser difíciles. Voy a terminar la sesión acá para no hacerte perder tiempo. Podés empezar una nueva entrevista cuando quieras. ¡Cuidate y mucha suerte en tu búsqueda!",
       },
       transitions: {
         nextQuestion: "Bárbaro, pasemos al siguiente tema.",
@@ -233,11 +299,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'fr-FR': {
-      greeting: "Bonjour {candidateName} ! Bienvenue à votre entretien simulé avec Vocaid. Je suis votre intervieweur IA, et aujourd'hui j'évaluerai vos compétences pour le poste de {jobTitle} chez {companyName}. Cet entretien durera environ 15 minutes. Commençons !",
+      greeting: "Bonjour {candidateName} ! Bienvenue à votre entretien simulé avec Vocaid. Je suis votre intervieweur IA, et aujourd'hui j'évaluerai vos compétences pour le poste de {jobTitle} chez {companyName}. Cet entretien durera environ {durationMinutes} minutes. Commençons !",
       reminders: {
         silence: "Je suis toujours là. Prenez votre temps si vous avez besoin de réfléchir.",
         timeWarning: "Il nous reste environ 5 minutes d'entretien.",
         wrapUp: "Nous arrivons à la fin de notre temps. Une dernière question.",
+        halfway: "Nous sommes à peu près à la moitié de l'entretien.",
+        minutesLeft: "Il nous reste environ {minutes} minutes, passons progressivement aux dernières questions.",
+        oneMinuteLeft: "Il nous reste environ une minute.",
+        finishAnswer: "Nous arrivons au bout du temps, terminez donc votre réponse et nous conclurons ensuite.",
+        timeUp: "Merci beaucoup pour votre temps aujourd'hui. Nous avons atteint la fin du temps prévu pour l'entretien. Ce fut un plaisir de découvrir votre parcours et votre expérience. Nous reviendrons vers vous très bientôt pour la suite.",
+        pauseAck: "Bien sûr, faisons une courte pause. Dites-moi simplement que vous êtes prêt quand vous voulez reprendre.",
+        resumed: "Bon retour, reprenons là où nous nous étions arrêtés.",
+        offerSkip: "Aucune pression. Si vous préférez, nous pouvons passer à la question suivante ; dites simplement « question suivante ».",
+        silenceFarewell: "Je remarque que vous êtes silencieux depuis un moment. Ce n'est pas grave, les entretiens peuvent être difficiles. Je vais mettre fin à la session ici pour ne pas vous faire perdre de temps. Vous pouvez commencer un nouvel entretien quand vous le souhaitez. Prenez soin de vous et bonne chance dans vos recherches !",
       },
       transitions: {
         nextQuestion: "Très bien, passons au sujet suivant.",
@@ -246,11 +321,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'ru-RU': {
-      greeting: "Здравствуйте, {candidateName}! Добро пожаловать на пробное собеседование с Vocaid. Я ваш ИИ-интервьюер, и сегодня я оценю ваши навыки для позиции {jobTitle} в компании {companyName}. Это собеседование продлится около 15 минут. Начнём!",
+      greeting: "Здравствуйте, {candidateName}! Добро пожаловать на пробное собеседование с Vocaid. Я ваш ИИ-интервьюер, и сегодня я оценю ваши навыки для позиции {jobTitle} в компании {companyName}. Это собеседование продлится около {durationMinutes} минут. Начнём!",
       reminders: {
         silence: "Я всё ещё здесь. Не торопитесь, если вам нужно подумать.",
         timeWarning: "У нас осталось около 5 минут.",
         wrapUp: "Мы подходим к концу. Последний вопрос.",
+        halfway: "Мы примерно на середине собеседования.",
+        minutesLeft: "У нас осталось около {minutes} минут, давайте переходить к заключительным вопросам.",
+        oneMinuteLeft: "У нас осталась примерно одна минута.",
+        finishAnswer: "Наше время вышло, пожалуйста, закончите свой ответ, и после этого мы завершим.",
+        timeUp: "Большое спасибо за уделённое время. Отведённое на собеседование время подошло к концу. Было очень интересно узнать о вашем опыте. Мы скоро свяжемся с вами по поводу следующих шагов.",
+        pauseAck: "Конечно, давайте сделаем небольшую паузу. Скажите, когда будете готовы продолжить.",
+        resumed: "С возвращением, продолжим с того места, где остановились.",
+        offerSkip: "Не торопитесь. Если хотите, можем перейти к следующему вопросу - просто скажите «следующий вопрос».",
+        silenceFarewell: "Я замечаю, что вы уже какое-то время молчите. Это нормально, собеседования бывают непростыми. Я завершу нашу сессию, чтобы не отнимать ваше время. Вы можете начать новое собеседование, когда будете готовы. Всего доброго и удачи в поиске работы!",
       },
       transitions: {
         nextQuestion: "Отлично, перейдём к следующей теме.",
@@ -259,11 +343,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
       },
     },
     'zh-CN': {
-      greeting: "您好 {candidateName}！欢迎参加 Vocaid 模拟面试。我是您的 AI 面试官，今天我将评估您申请 {companyName} 公司 {jobTitle} 职位的技能。这次面试大约需要15分钟。让我们开始吧！",
+      greeting: "您好 {candidateName}！欢迎参加 Vocaid 模拟面试。我是您的 AI 面试官，今天我将评估您申请 {companyName} 公司 {jobTitle} 职位的技能。这次面试大约需要{durationMinutes}分钟。让我们开始吧！",
       reminders: {
         silence: "我还在这里。如果需要思考一下，请不要着急。",
         timeWarning: "我们还剩大约5分钟的面试时间。",
         wrapUp: "我们快要结束了。最后一个问题。",
+        halfway: "我们的面试已经进行了大约一半。",
+        minutesLeft: "我们还剩大约{minutes}分钟，接下来进入最后几个问题。",
+        oneMinuteLeft: "我们还剩大约一分钟。",
+        finishAnswer: "时间到了，请先把您当前的回答说完，然后我们就结束。",
+        timeUp: "非常感谢您今天抽出时间。我们已经到了预定的面试时间。很高兴了解您的背景和经验。我们会尽快与您联系后续事宜。",
+        pauseAck: "当然，我们稍作休息。您准备好继续时告诉我就可以。",
+        resumed: "欢迎回来，我们从刚才停下的地方继续。",
+        offerSkip: "不用有压力。如果您愿意，我们可以进入下一个问题，只需说“下一个问题”。",
+        silenceFarewell: "我注意到您已经沉默了一段时间。没关系，面试本来就有挑战性。为了不占用您的时间，我们先在这里结束本次面试。您准备好后可以随时开始新的面试。祝您求职顺利！",
       },
       transitions: {
         nextQuestion: "好的，我们来谈谈下一个话题。",
@@ -273,11 +366,20 @@ export function getLanguageSpecificPhrases(language: SupportedLanguageCode): {
     },
     // Note: zh-TW (Cantonese/Traditional Chinese) is NOT supported
     'hi-IN': {
-      greeting: "नमस्ते {candidateName}! Vocaid के साथ आपके मॉक इंटरव्यू में आपका स्वागत है। मैं आपका AI इंटरव्यूअर हूं, और आज मैं {companyName} में {jobTitle} पद के लिए आपके कौशल का मूल्यांकन करूंगा। यह इंटरव्यू लगभग 15 मिनट का होगा। चलिए शुरू करते हैं!",
+      greeting: "नमस्ते {candidateName}! Vocaid के साथ आपके मॉक इंटरव्यू में आपका स्वागत है। मैं आपका AI इंटरव्यूअर हूं, और आज मैं {companyName} में {jobTitle} पद के लिए आपके कौशल का मूल्यांकन करूंगा। यह इंटरव्यू लगभग {durationMinutes} मिनट का होगा। चलिए शुरू करते हैं!",
       reminders: {
         silence: "मैं अभी भी यहां हूं। अगर आपको सोचने के लिए समय चाहिए तो आराम से लीजिए।",
         timeWarning: "हमारे इंटरव्यू में लगभग 5 मिनट बाकी हैं।",
         wrapUp: "हम समाप्त होने के करीब हैं। एक अंतिम प्रश्न।",
+        halfway: "हम अपने इंटरव्यू के लगभग आधे रास्ते पर हैं।",
+        minutesLeft: "हमारे पास लगभग {minutes} मिनट बाकी हैं, तो चलिए अंतिम प्रश्नों की ओर बढ़ते हैं।",
+        oneMinuteLeft: "हमारे पास लगभग एक मिनट बाकी है।",
+        finishAnswer: "हमारा समय पूरा हो गया है, कृपया अपना वर्तमान उत्तर पूरा कर लीजिए, फिर हम समाप्त करेंगे।",
+        timeUp: "आज अपना समय देने के लिए बहुत धन्यवाद। हमारे इंटरव्यू का निर्धारित समय पूरा हो गया है। आपके अनुभव के बारे में जानकर बहुत अच्छा लगा। हम जल्द ही अगले चरणों के बारे में आपसे संपर्क करेंगे।",
+        pauseAck: "ज़रूर, चलिए थोड़ा विराम लेते हैं। जब आप आगे बढ़ने के लिए तैयार हों तो बस बता दीजिए।",
+        resumed: "वापसी पर स्वागत है, चलिए वहीं से जारी रखते हैं जहाँ हम रुके थे।",
+        offerSkip: "कोई दबाव नहीं है। आप चाहें तो हम अगले सवाल पर चल सकते हैं - बस \"अगला सवाल\" कहिए।",
+        silenceFarewell: "मैंने देखा कि आप कुछ देर से चुप हैं। कोई बात नहीं, इंटरव्यू कभी-कभी कठिन होते हैं। आपका समय बचाने के लिए मैं यह सत्र यहीं समाप्त कर रहा हूँ। जब भी आप तैयार हों, नया इंटरव्यू शुरू कर सकते हैं। अपना ध्यान रखिए और नौकरी की तलाश के लिए शुभकामनाएँ!",
       },
       transitions: {
         nextQuestion: "बढ़िया, चलिए अगले विषय पर चलते हैं।",
@@ -628,14 +730,16 @@ export function generateInitialGreeting(
   language: SupportedLanguageCode,
   candidateName: string,
   jobTitle: string,
-  companyName: string
+  companyName: string,
+  durationMinutes: number = 15
 ): string {
   const phrases = getLanguageSpecificPhrases(language);
   
   return phrases.greeting
     .replace('{candidateName}', candidateName)
     .replace('{jobTitle}', jobTitle)
-    .replace('{companyName}', companyName);
+    .replace('{companyName}', companyName)
+    .replace('{durationMinutes}', String(durationMinutes));
 }
 
 /**
@@ -740,7 +844,7 @@ export interface DynamicPromptConfig {
 /**
  * Sanitize and limit custom prompt content
  */
-function sanitizeCustomPrompt(prompt: string, maxLength: number = 1000): string {
+export function sanitizeCustomPrompt(prompt: string, maxLength: number = 1000): string {
   if (!prompt) return '';
   
   // Remove potentially harmful content
@@ -758,6 +862,25 @@ function sanitizeCustomPrompt(prompt: string, maxLength: number = 1000): string
   return sanitized;
 }
 
+// Generic structure, replaced by interview mode packs (prompts/interviewModes)
+const DEFAULT_INTERVIEW_STRUCTURE = `<interview_structure>
+  <phase name="opening" duration="1-2min">
+    Brief introduction, confirm role understanding
+  </phase>
+  <phase name="background" duration="2-3min">
+    Relevant experience from resume, career journey
+  </phase>
+  <phase name="technical" duration="5-7min">
+    Role-specific technical or domain questions
+  </phase>
+  <phase name="behavioral" duration="3-4min">
+    Situational questions, teamwork, problem-solving
+  </phase>
+  <phase name="closing" duration="1min">
+    Brief wrap-up, thank candidate
+  </phase>
+</interview_structure>`;
+
 /**
  * Generate complete interview-aligned system prompt
  * This is the main prompt composition function
@@ -771,6 +894,8 @@ export function generateInterviewAlignedPrompt(params: {
   resumeContext?: string;
   roleCountry?: string;
   dynamicConfig?: DynamicPromptConfig;
+  interviewMode?: InterviewMode;
+  companyProfile?: CompanyStyleProfile;
 }): string {
   const {
     language,
@@ -781,12 +906,15 @@ export function generateInterviewAlignedPrompt(params: {
     resumeContext,
     roleCountry,
     dynamicConfig,
+    interviewMode,
+    companyProfile,
   } = params;
 
   const langConfig = getLanguageConfig(language);
   const field = detectFieldFromTitle(roleTitle);
   const fieldPrompt = getFieldPromptForLanguage(field, language);
   const seniorityFocus = SENIORITY_FOCUS[seniority.toLowerCase()] || SENIORITY_FOCUS['mid'];
+  const modePack = getInterviewModePack(interviewMode);
 
   // Base interview prompt with language enforcement
   let prompt = `
@@ -843,23 +971,8 @@ export function generateInterviewAlignedPrompt(params: {
   <rule id="no_repetition">Do NOT repeat yourself or the candidate's words verbatim.</rule>
 </core_interview_rules>
 
-<interview_structure>
-  <phase name="opening" duration="1-2min">
-    Brief introduction, confirm role understanding
-  </phase>
-  <phase name="background" duration="2-3min">
-    Relevant experience from resume, career journey
-  </phase>
-  <phase name="technical" duration="5-7min">
-    Role-specific technical or domain questions
-  </phase>
-  <phase name="behavioral" duration="3-4min">
-    Situational questions, teamwork, problem-solving
-  </phase>
-  <phase name="closing" duration="1min">
-    Brief wrap-up, thank candidate
-  </phase>
-</interview_structure>
+${modePack.structurePrompt?.trim() || DEFAULT_INTERVIEW_STRUCTURE}
+${modePack.modeRules || ''}
 
 ${fieldPrompt}
 
@@ -877,6 +990,11 @@ ${seniorityFocus}
   ${roleCountry ? `<role_country>${roleCountry}</role_country>` : ''}
 </context>`;
 
+  // Employer-specific interview style (matched from the company name)
+  if (companyProfile) {
+    prompt += `\n${buildCompanyProfilePrompt(companyProfile)}`;
+  }
+
   // Add job description context if provided
   if (jobDescription) {
     const truncated = jobDescription.length > 800 
@@ -934,7 +1052,21 @@ ${sanitizedInstructions}
 
 <recruiter_required_questions>
 ${questions}
-</recruiter_required_questions>`;
+</recruiter_required_questions>
+
+<note>Every recruiter question MUST be asked, using the exact wording. The interview plan tells you when to ask each one.</note>`;
+  }
+
+  // Skills the recruiter wants probed during the competency questions
+  if (dynamicConfig?.dynamicVariables?.required_skills?.length) {
+    const skills = dynamicConfig.dynamicVariables.required_skills
+      .slice(0, 10)
+      .map((skill) => sanitizeCustomPrompt(skill, 60))
+      .join(', ');
+
+    prompt += `
+
+<required_skills>${skills}</required_skills>`;
   }
 
   return prompt;
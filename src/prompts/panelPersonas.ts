@@ -0,0 +1,122 @@
+/**
+ * Panel Interview Personas
+ *
+ * A panel interview has two or three interviewer personas who take turns: each
+ * has a name, a title, the competencies they focus on and a short style prompt.
+ * The first persona leads the panel (greets, asks the background question and
+ * closes). Retell speaks a call in a single voice, so the call uses the
+ * interview's voiceId (else the lead persona's voice) and panelists are told
+ * apart by name and handoffs.
+ *
+ * @module prompts/panelPersonas
+ */
+
+import type { CompetencyKey } from '../types/feedback';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type PanelPersonaKey = 'hiring_manager' | 'senior_engineer' | 'hr_partner' | 'product_manager';
+
+export interface PanelPersona {
+  key: PanelPersonaKey;
+  name: string;
+  title: string;
+  /** Competency questions this persona asks when it is on the panel */
+  focus: CompetencyKey[];
+  /** How this persona asks questions */
+  style: string;
+  /** Retell voice for calls this persona leads (RETELL_VOICE_ID_PANEL_<KEY>) */
+  voiceId?: string;
+}
+
+export const PANEL_PERSONA_KEYS: PanelPersonaKey[] = [
+  'hiring_manager',
+  'senior_engineer',
+  'hr_partner',
+  'product_manager',
+];
+
+export const MIN_PANEL_SIZE = 2;
+export const MAX_PANEL_SIZE = 3;
+
+// ========================================
+// PERSONAS
+// ========================================
+
+const PANEL_PERSONAS: Record<PanelPersonaKey, Omit<PanelPersona, 'voiceId'>> = {
+  hiring_manager: {
+    key: 'hiring_manager',
+    name: 'Maya',
+    title: 'Hiring Manager',
+    focus: ['leadership', 'domain_expertise', 'problem_solving'],
+    style: 'Warm but direct. Cares about ownership, impact and how the candidate would fit the team\'s goals.',
+  },
+  senior_engineer: {
+    key: 'senior_engineer',
+    name: 'Daniel',
+    title: 'Senior Engineer',
+    focus: ['technical_knowledge', 'system_design', 'problem_solving'],
+    style: 'Precise and curious. Digs into implementation details, trade-offs and what the candidate personally built.',
+  },
+  hr_partner: {
+    key: 'hr_partner',
+    name: 'Sofia',
+    title: 'People Partner',
+    focus: ['behavioral', 'cultural_fit', 'communication'],
+    style: 'Friendly and attentive. Asks for specific situations about collaboration, conflict and values.',
+  },
+  product_manager: {
+    key: 'product_manager',
+    name: 'Lucas',
+    title: 'Product Manager',
+    focus: ['communication', 'problem_solving', 'domain_expertise'],
+    style: 'Pragmatic. Asks how the candidate works with stakeholders, prioritizes and measures outcomes.',
+  },
+};
+
+// ========================================
+// HELPERS
+// ========================================
+
+export function isPanelPersonaKey(value: unknown): value is PanelPersonaKey {
+  return typeof value === 'string' && (PANEL_PERSONA_KEYS as string[]).includes(value);
+}
+
+export function getPanelPersona(key: PanelPersonaKey): PanelPersona {
+  return {
+    ...PANEL_PERSONAS[key],
+    voiceId: process.env[`RETELL_VOICE_ID_PANEL_${key.toUpperCase()}`],
+  };
+}
+
+/**
+ * Personas for a panel, in speaking order (lead first). Unknown and duplicate
+ * keys are dropped; returns an empty list unless at least two remain.
+ */
+export function resolvePanel(keys: unknown): PanelPersona[] {
+  if (!Array.isArray(keys)) {
+    return [];
+  }
+  const unique = [...new Set(keys.filter(isPanelPersonaKey))].slice(0, MAX_PANEL_SIZE);
+  return unique.length >= MIN_PANEL_SIZE ? unique.map(getPanelPersona) : [];
+}
+
+/**
+ * System prompt block introducing the panel
+ */
+export function buildPanelPrompt(personas: PanelPersona[]): string {
+  const members = personas
+    .map((p, i) => `  <panelist name="${p.name}" title="${p.title}"${i === 0 ? ' lead="true"' : ''}>${p.style}</panelist>`)
+    .join('\n');
+
+  return `
+<panel_interview>
+${members}
+  <rule>This is a panel interview. You voice every panelist, one per turn, as directed in each turn's panel instruction.</rule>
+  <rule>Speak only as the current panelist, in their style. Never speak for two panelists in the same turn.</rule>
+  <rule>When the speaker changes, hand over naturally (e.g. "Thanks. ${personas[1]?.name || 'My colleague'} has the next question.").</rule>
+  <rule>The first time a panelist speaks, they introduce themselves with their name and title in one short sentence.</rule>
+</panel_interview>`;
+}
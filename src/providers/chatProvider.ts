@@ -0,0 +1,406 @@
+/**
+ * Chat Provider Abstraction
+ *
+ * Provides a unified streaming chat interface for the live interviewer,
+ * so the Custom LLM WebSocket is not tied to a single vendor:
+ * - OpenAIChatProvider (default, gpt-4o-mini)
+ * - AnthropicChatProvider (Claude)
+ * - GeminiChatProvider (Google Gemini)
+ * - LocalChatProvider (deterministic stub for development and tests)
+ *
+ * Usage:
+ *   import { createChatProvider } from './providers/chatProvider';
+ *   const provider = createChatProvider('anthropic');
+ *   for await (const chunk of provider.streamChat(messages)) { ... }
+ *
+ * @module providers/chatProvider
+ */
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { wsLogger } from '../utils/logger';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type ChatProviderName = 'openai' | 'anthropic' | 'gemini' | 'local';
+
+export const CHAT_PROVIDER_NAMES: ChatProviderName[] = ['openai', 'anthropic', 'gemini', 'local'];
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatStreamOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatStreamChunk {
+  /** Text delta for this chunk (may be empty) */
+  content: string;
+  /** True on the final chunk of the stream */
+  done: boolean;
+  /** Token usage, reported by most vendors on the final chunk */
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+// ========================================
+// CHAT PROVIDER INTERFACE
+// ========================================
+
+export interface ChatProvider {
+  /** Provider identifier (stored as InterviewSession.llmProvider) */
+  readonly name: ChatProviderName;
+
+  /** Model used when the caller does not specify one */
+  readonly defaultModel: string;
+
+  /** Check if provider is configured (API key present) */
+  isAvailable(): boolean;
+
+  /** Stream a chat completion */
+  streamChat(messages: ChatMessage[], options?: ChatStreamOptions): AsyncIterable<ChatStreamChunk>;
+}
+
+const DEFAULT_TEMPERATURE = 0.4;
+const DEFAULT_MAX_TOKENS = 100;
+
+export const DEFAULT_CHAT_MODELS: Record<ChatProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  gemini: 'gemini-1.5-flash',
+  local: 'local-stub',
+};
+
+// ========================================
+// MESSAGE NORMALIZATION
+// ========================================
+
+/**
+ * Split system messages out and merge consecutive turns from the same role.
+ * Anthropic and Gemini require strictly alternating turns that start with the user,
+ * while our history starts with the agent greeting.
+ */
+function toAlternatingTurns(messages: ChatMessage[]): {
+  system: string;
+  turns: Array<{ role: 'user' | 'assistant'; content: string }>;
+} {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const message of messages) {
+    if (message.role === 'system' || !message.content) continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: '(The candidate has joined the call.)' });
+  }
+
+  return { system, turns };
+}
+
+// ========================================
+// OPENAI CHAT PROVIDER
+// ========================================
+
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name: ChatProviderName = 'openai';
+  readonly defaultModel = DEFAULT_CHAT_MODELS.openai;
+  private client: OpenAI | null;
+
+  constructor(client?: OpenAI) {
+    this.client = client || (process.env.OPENAI_API_KEY
+      ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+      : null);
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatStreamOptions = {}): AsyncIterable<ChatStreamChunk> {
+    if (!this.client) {
+      throw new Error('OpenAI chat provider is not configured');
+    }
+
+    const stream = await this.client.chat.completions.create({
+      model: options.model || this.defaultModel,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      presence_penalty: 0.5,
+      frequency_penalty: 0.3,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let usage: ChatStreamChunk['usage'];
+    for await (const chunk of stream) {
+      // Usage arrives in a trailing chunk with no choices
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens || 0,
+          completionTokens: chunk.usage.completion_tokens || 0,
+        };
+      }
+
+      const content = chunk.choices[0]?.delta?.content || '';
+      if (content) {
+        yield { content, done: false };
+      }
+    }
+
+    yield { content: '', done: true, usage };
+  }
+}
+
+// ========================================
+// ANTHROPIC CHAT PROVIDER
+// ========================================
+
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name: ChatProviderName = 'anthropic';
+  readonly defaultModel = DEFAULT_CHAT_MODELS.anthropic;
+  private client: Anthropic | null;
+
+  constructor(client?: Anthropic) {
+    this.client = client || (process.env.ANTHROPIC_API_KEY
+      ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+      : null);
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatStreamOptions = {}): AsyncIterable<ChatStreamChunk> {
+    if (!this.client) {
+      throw new Error('Anthropic chat provider is not configured');
+    }
+
+    const { system, turns } = toAlternatingTurns(messages);
+
+    const stream = await this.client.messages.create({
+      model: options.model || this.defaultModel,
+      system: system || undefined,
+      messages: turns,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: true,
+    });
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        promptTokens = event.message.usage.input_tokens || 0;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        if (event.delta.text) {
+          yield { content: event.delta.text, done: false };
+        }
+      } else if (event.type === 'message_delta') {
+        completionTokens = event.usage.output_tokens || 0;
+      }
+    }
+
+    yield { content: '', done: true, usage: { promptTokens, completionTokens } };
+  }
+}
+
+// ========================================
+// GEMINI CHAT PROVIDER
+// ========================================
+
+export class GeminiChatProvider implements ChatProvider {
+  readonly name: ChatProviderName = 'gemini';
+  readonly defaultModel = DEFAULT_CHAT_MODELS.gemini;
+  private client: GoogleGenerativeAI | null;
+
+  constructor(client?: GoogleGenerativeAI) {
+    this.client = client || (process.env.GEMINI_API_KEY
+      ? new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+      : null);
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatStreamOptions = {}): AsyncIterable<ChatStreamChunk> {
+    if (!this.client) {
+      throw new Error('Gemini chat provider is not configured');
+    }
+
+    const { system, turns } = toAlternatingTurns(messages);
+
+    const model = this.client.getGenerativeModel({
+      model: options.model || this.defaultModel,
+      systemInstruction: system || undefined,
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    });
+
+    const result = await model.generateContentStream({
+      contents: turns.map((t) => ({
+        role: t.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: t.content }],
+      })),
+    });
+
+    let usage: ChatStreamChunk['usage'];
+    for await (const chunk of result.stream) {
+      if (chunk.usageMetadata) {
+        usage = {
+          promptTokens: chunk.usageMetadata.promptTokenCount || 0,
+          completionTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+        };
+      }
+
+      const content = chunk.text();
+      if (content) {
+        yield { content, done: false };
+      }
+    }
+
+    yield { content: '', done: true, usage };
+  }
+}
+
+// ========================================
+// LOCAL CHAT PROVIDER (DEV/TEST)
+// ========================================
+
+const LOCAL_STUB_QUESTIONS = [
+  'Thanks for sharing. Can you walk me through a recent project you are proud of?',
+  'What was the hardest technical decision on that project, and how did you make it?',
+  'Tell me about a time you disagreed with a teammate. How did you resolve it?',
+  'How do you make sure the quality of your work stays high under deadline pressure?',
+  'Do you have any questions for me about the role?',
+];
+
+/**
+ * Deterministic provider that never leaves the process.
+ * Picks the next canned question based on how many candidate turns exist,
+ * so the same transcript always produces the same reply.
+ */
+export class LocalChatProvider implements ChatProvider {
+  readonly name: ChatProviderName = 'local';
+  readonly defaultModel = DEFAULT_CHAT_MODELS.local;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async *streamChat(messages: ChatMessage[]): AsyncIterable<ChatStreamChunk> {
+    const userTurns = messages.filter((m) => m.role === 'user').length;
+    const reply = LOCAL_STUB_QUESTIONS[Math.max(0, userTurns - 1) % LOCAL_STUB_QUESTIONS.length];
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+
+    const words = reply.split(' ');
+    for (let i = 0; i < words.length; i++) {
+      yield { content: i === 0 ? words[i] : ` ${words[i]}`, done: false };
+    }
+
+    yield {
+      content: '',
+      done: true,
+      usage: { promptTokens, completionTokens: Math.ceil(reply.length / 4) },
+    };
+  }
+}
+
+// ========================================
+// PROVIDER FACTORY
+// ========================================
+
+export function isChatProviderName(value: unknown): value is ChatProviderName {
+  return typeof value === 'string' && (CHAT_PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Create a chat provider by name.
+ * An existing OpenAI client can be passed in to share the server-wide instance.
+ */
+export function createChatProvider(
+  name: ChatProviderName,
+  clients: { openai?: OpenAI } = {}
+): ChatProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicChatProvider();
+    case 'gemini':
+      return new GeminiChatProvider();
+    case 'local':
+      return new LocalChatProvider();
+    case 'openai':
+    default:
+      return new OpenAIChatProvider(clients.openai);
+  }
+}
+
+/**
+ * The local stub may stand in for a missing provider outside production, or
+ * when a deployment opts in with LLM_ALLOW_LOCAL_FALLBACK=true
+ */
+export function isLocalFallbackAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.LLM_ALLOW_LOCAL_FALLBACK === 'true';
+}
+
+/**
+ * Create the primary/fallback provider pair for an interview.
+ * Unconfigured providers are skipped so a missing key never takes an interview down.
+ * If nothing is configured the local stub keeps the call alive where allowed;
+ * otherwise the error is logged and the unconfigured primary is kept, so the call
+ * gets the handler's apology instead of scripted stub questions.
+ */
+export function createChatProviderChain(
+  primary: ChatProviderName,
+  fallback: ChatProviderName | undefined,
+  clients: { openai?: OpenAI } = {}
+): { primary: ChatProvider; fallback: ChatProvider | null } {
+  let primaryProvider = createChatProvider(primary, clients);
+  let fallbackProvider = fallback && fallback !== primary
+    ? createChatProvider(fallback, clients)
+    : null;
+
+  if (fallbackProvider && !fallbackProvider.isAvailable()) {
+    wsLogger.warn('Fallback chat provider not configured, failover disabled', { fallback });
+    fallbackProvider = null;
+  }
+
+  if (!primaryProvider.isAvailable()) {
+    if (fallbackProvider) {
+      wsLogger.warn('Primary chat provider not configured, using fallback', { primary, fallback });
+      primaryProvider = fallbackProvider;
+    } else if (isLocalFallbackAllowed()) {
+      wsLogger.warn('No chat provider configured, using the local stub', { primary, fallback });
+      primaryProvider = new LocalChatProvider();
+    } else {
+      wsLogger.error('No chat provider configured; set an API key or LLM_ALLOW_LOCAL_FALLBACK=true', { primary, fallback });
+    }
+    fallbackProvider = null;
+  }
+
+  return { primary: primaryProvider, fallback: fallbackProvider };
+}
+
+export default createChatProvider;
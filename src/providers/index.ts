@@ -10,3 +10,4 @@
 
 export { cacheProvider, type CacheProvider } from './cacheProvider';
 export { storageProvider, type StorageProvider, type FileMetadata, type UploadResult, type DownloadResult } from './storageProvider';
+export { createChatProvider, createChatProviderChain, type ChatProvider, type ChatProviderName, type ChatMessage, type ChatStreamChunk } from './chatProvider';
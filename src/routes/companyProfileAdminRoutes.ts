@@ -0,0 +1,271 @@
+/**
+ * Company Profile Admin Routes
+ *
+ * CRUD for the company interview style catalog. Interviews whose companyName
+ * matches a profile's name or aliases get that employer's interview style.
+ *
+ * Routes:
+ * - GET /api/admin/company-profiles (?includeInactive=true lists disabled profiles too)
+ * - GET /api/admin/company-profiles/:id
+ * - POST /api/admin/company-profiles
+ * - PUT /api/admin/company-profiles/:id
+ * - DELETE /api/admin/company-profiles/:id
+ * - POST /api/admin/company-profiles/seed (adds seeded profiles that are missing)
+ *
+ * All routes require the X-Admin-Secret header (ADMIN_SECRET_KEY).
+ *
+ * @module routes/companyProfileAdminRoutes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import * as companyProfileService from '../services/companyProfileService';
+import { COMPANY_PROFILE_LIMITS } from '../services/companyProfileService';
+
+const router = Router();
+const profileLogger = logger.child({ component: 'company-profile-admin' });
+
+const uuidSchema = z.string().uuid();
+
+const listItemsSchema = z
+  .array(z.string().trim().min(1).max(COMPANY_PROFILE_LIMITS.maxItemLength))
+  .max(COMPANY_PROFILE_LIMITS.maxListItems)
+  .optional();
+
+const companyProfileSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .min(2)
+    .max(COMPANY_PROFILE_LIMITS.maxSlugLength)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens'),
+  name: z.string().trim().min(1).max(COMPANY_PROFILE_LIMITS.maxNameLength),
+  aliases: z
+    .array(z.string().trim().min(1).max(COMPANY_PROFILE_LIMITS.maxNameLength))
+    .max(COMPANY_PROFILE_LIMITS.maxAliases)
+    .optional(),
+  values: listItemsSchema,
+  interviewFormat: z.string().max(COMPANY_PROFILE_LIMITS.maxFormatLength).optional().nullable(),
+  leadershipPrinciples: listItemsSchema,
+  questionThemes: listItemsSchema,
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Require the admin secret (X-Admin-Secret header)
+ */
+function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  const expectedSecret = process.env.ADMIN_SECRET_KEY;
+  if (!expectedSecret) {
+    profileLogger.error('ADMIN_SECRET_KEY not configured');
+    return res.status(500).json({
+      status: 'error',
+      message: 'Admin authentication not configured',
+    });
+  }
+
+  if (req.headers['x-admin-secret'] !== expectedSecret) {
+    profileLogger.warn('Unauthorized admin access attempt', { ip: req.ip, path: req.path });
+    return res.status(401).json({
+      status: 'error',
+      message: 'Invalid or missing admin credentials',
+    });
+  }
+
+  next();
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    status: 'error',
+    message: 'Validation failed',
+    errors: error.errors,
+  });
+}
+
+function sendSlugConflict(res: Response, slug: string) {
+  return res.status(409).json({
+    status: 'error',
+    message: `A company profile with slug "${slug}" already exists`,
+  });
+}
+
+router.use(requireAdminAuth);
+
+/**
+ * GET /api/admin/company-profiles
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const profiles = await companyProfileService.listCompanyProfiles({
+      includeInactive: req.query.includeInactive === 'true',
+    });
+
+    return res.json({
+      status: 'success',
+      data: profiles,
+    });
+  } catch (error: any) {
+    profileLogger.error('Error listing company profiles', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to list company profiles',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/company-profiles/seed
+ * Existing profiles (matched by slug) are not overwritten.
+ */
+router.post('/seed', async (_req: Request, res: Response) => {
+  try {
+    const inserted = await companyProfileService.seedCompanyProfiles();
+
+    return res.json({
+      status: 'success',
+      data: { inserted },
+    });
+  } catch (error: any) {
+    profileLogger.error('Error seeding company profiles', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to seed company profiles',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/company-profiles/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const profileId = uuidSchema.parse(req.params.id);
+    const profile = await companyProfileService.getCompanyProfile(profileId);
+
+    if (!profile) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Company profile not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: profile,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    profileLogger.error('Error getting company profile', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to get company profile',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/company-profiles
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = companyProfileSchema.parse(req.body);
+
+    if (await companyProfileService.getCompanyProfileBySlug(body.slug)) {
+      return sendSlugConflict(res, body.slug);
+    }
+
+    const profile = await companyProfileService.createCompanyProfile(body);
+
+    return res.status(201).json({
+      status: 'success',
+      data: profile,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    profileLogger.error('Error creating company profile', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create company profile',
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/company-profiles/:id
+ * Changes apply to calls registered after the update.
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const profileId = uuidSchema.parse(req.params.id);
+    const body = companyProfileSchema.parse(req.body);
+
+    const sameSlug = await companyProfileService.getCompanyProfileBySlug(body.slug);
+    if (sameSlug && sameSlug.id !== profileId) {
+      return sendSlugConflict(res, body.slug);
+    }
+
+    const profile = await companyProfileService.updateCompanyProfile(profileId, body);
+    if (!profile) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Company profile not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: profile,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    profileLogger.error('Error updating company profile', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update company profile',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/company-profiles/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const profileId = uuidSchema.parse(req.params.id);
+    const deleted = await companyProfileService.deleteCompanyProfile(profileId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Company profile not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    profileLogger.error('Error deleting company profile', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete company profile',
+    });
+  }
+});
+
+export default router;
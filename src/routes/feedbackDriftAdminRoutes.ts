@@ -0,0 +1,85 @@
+/**
+ * Feedback Drift Admin Routes
+ *
+ * Score distribution of generated feedback by prompt version and model, so a
+ * prompt or model change that shifts scores is caught before it skews
+ * percentiles and benchmarks. Offline checks: npm run calibrate:feedback.
+ *
+ * Routes:
+ * - GET /api/admin/feedback-drift (?days=30&promptVersion=&model=)
+ *
+ * All routes require the X-Admin-Secret header (ADMIN_SECRET_KEY).
+ *
+ * @module routes/feedbackDriftAdminRoutes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { getScoreDriftReport, DRIFT_REPORT_LIMITS } from '../services/feedbackCalibrationService';
+
+const router = Router();
+const driftLogger = logger.child({ component: 'feedback-drift-admin' });
+
+const driftQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(DRIFT_REPORT_LIMITS.maxDays).optional(),
+  promptVersion: z.string().trim().min(1).max(50).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+});
+
+/**
+ * Require the admin secret (X-Admin-Secret header)
+ */
+function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  const expectedSecret = process.env.ADMIN_SECRET_KEY;
+  if (!expectedSecret) {
+    driftLogger.error('ADMIN_SECRET_KEY not configured');
+    return res.status(500).json({
+      status: 'error',
+      message: 'Admin authentication not configured',
+    });
+  }
+
+  if (req.headers['x-admin-secret'] !== expectedSecret) {
+    driftLogger.warn('Unauthorized admin access attempt', { ip: req.ip, path: req.path });
+    return res.status(401).json({
+      status: 'error',
+      message: 'Invalid or missing admin credentials',
+    });
+  }
+
+  next();
+}
+
+router.use(requireAdminAuth);
+
+/**
+ * GET /api/admin/feedback-drift
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters = driftQuerySchema.parse(req.query);
+    const report = await getScoreDriftReport(filters);
+
+    return res.json({
+      status: 'success',
+      data: report,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    driftLogger.error('Error building feedback drift report', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to build feedback drift report',
+    });
+  }
+});
+
+export default router;
@@ -4,12 +4,22 @@
  * REST API endpoints for interview creation and management.
  *
  * Routes:
- * - POST /api/interviews
+ * - POST /api/interviews (optional questionTemplateId attaches a recruiter question bank;
+ *   optional interviewMode selects the round: STANDARD, BEHAVIORAL, TECHNICAL_DEEP_DIVE, CASE, SALARY_NEGOTIATION;
+ *   optional durationMinutes sets the call length and credit cost; optional timerCheckpoints
+ *   sets the spoken time notices, e.g. ["halfway", 5, 1]; optional panelPersonas seats a 2-3 persona
+ *   panel, lead first, e.g. ["hiring_manager", "senior_engineer"]; optional voiceId sets the Retell voice;
+ *   optional congruencyPolicy sets what the resume/job fit check may do: OFF, WARN, ADAPT, END (default))
  * - GET /api/interviews
  * - GET /api/interviews/:id
  * - PATCH /api/interviews/:id
  * - GET /api/interviews/:id/postcall-status
  * - POST /api/interviews/:id/clone
+ * - POST /api/interviews/:id/text-session (starts a text chat; connect to /chat-websocket/:chatId)
+ * - GET /api/interviews/:id/feedback/versions
+ * - POST /api/interviews/:id/feedback/regenerate (queues a new feedback version)
+ * - PUT /api/interviews/:id/feedback/active-version (chooses the version displayed)
+ * - GET /api/interviews/:id/feedback/diff?from=1&to=2 (score changes between versions)
  * - GET /api/interviews/suggested-retakes
  * - GET /api/interviews/history
  * - POST /api/interviews/from-resume
@@ -22,7 +32,10 @@ import logger from '../utils/logger';
 import { requireSession } from '../middleware/sessionAuthMiddleware';
 import { prisma } from '../services/databaseService';
 import * as interviewService from '../services/interviewService';
+import { getQuestionTemplate } from '../services/questionTemplateService';
+import { MIN_PANEL_SIZE, MAX_PANEL_SIZE } from '../prompts/panelPersonas';
 import { postCallProcessingService } from '../services/postCallProcessingService';
+import { startTextChat } from '../services/textChatService';
 
 const router = Router();
 const interviewLogger = logger.child({ component: 'interview-routes' });
@@ -37,6 +50,23 @@ const interviewStatusSchema = z.enum([
   'CANCELLED',
 ]);
 
+const interviewModeSchema = z.enum([
+  'STANDARD',
+  'BEHAVIORAL',
+  'TECHNICAL_DEEP_DIVE',
+  'CASE',
+  'SALARY_NEGOTIATION',
+]);
+
+const panelPersonaSchema = z.enum([
+  'hiring_manager',
+  'senior_engineer',
+  'hr_partner',
+  'product_manager',
+]);
+
+const congruencyPolicySchema = z.enum(['OFF', 'WARN', 'ADAPT', 'END']);
+
 const createInterviewSchema = z.object({
   jobTitle: z.string().min(1).max(255),
   seniority: z.string().min(1).max(30).optional(),
@@ -45,6 +75,27 @@ const createInterviewSchema = z.object({
   resumeId: uuidSchema,
   language: z.string().min(2).max(10).optional(),
   country: z.string().length(2).optional(),
+  questionTemplateId: uuidSchema.optional(),
+  interviewMode: interviewModeSchema.optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(interviewService.MIN_INTERVIEW_DURATION_MINUTES)
+    .max(interviewService.MAX_INTERVIEW_DURATION_MINUTES)
+    .optional(),
+  timerCheckpoints: z
+    .array(z.union([z.literal('halfway'), z.number().int().min(1).max(30)]))
+    .min(1)
+    .max(5)
+    .optional(),
+  panelPersonas: z
+    .array(panelPersonaSchema)
+    .min(MIN_PANEL_SIZE)
+    .max(MAX_PANEL_SIZE)
+    .refine((keys) => new Set(keys).size === keys.length, 'Panel personas must be unique')
+    .optional(),
+  voiceId: z.string().min(1).max(100).optional(),
+  congruencyPolicy: congruencyPolicySchema.optional(),
 });
 
 const updateInterviewSchema = z
@@ -110,6 +161,16 @@ router.post('/', requireSession, async (req: Request, res: Response) => {
     const userId = req.userId!;
     const body = createInterviewSchema.parse(req.body);
 
+    if (body.questionTemplateId) {
+      const template = await getQuestionTemplate(body.questionTemplateId, userId);
+      if (!template) {
+        return res.status(404).json({
+          status: 'error',
+          message: 'Question template not found',
+        });
+      }
+    }
+
     const interview = await interviewService.createInterview({
       userId,
       jobTitle: body.jobTitle,
@@ -119,12 +180,25 @@ router.post('/', requireSession, async (req: Request, res: Response) => {
       resumeId: body.resumeId,
       language: body.language,
       country: body.country,
+      questionTemplateId: body.questionTemplateId,
+      interviewMode: body.interviewMode,
+      durationMinutes: body.durationMinutes,
+      timerCheckpoints: body.timerCheckpoints,
+      panelPersonas: body.panelPersonas,
+      voiceId: body.voiceId,
+      congruencyPolicy: body.congruencyPolicy,
     });
 
     interviewLogger.info('Interview created', {
       userId: userId.slice(0, 12),
       interviewId: interview.id,
       language: interview.language,
+      hasQuestionTemplate: !!body.questionTemplateId,
+      interviewMode: interview.interviewMode,
+      durationMinutes: interview.durationMinutes,
+      creditCost: interview.creditCost,
+      panelSize: body.panelPersonas?.length ?? 0,
+      congruencyPolicy: interview.congruencyPolicy,
     });
 
     return res.json({
@@ -405,6 +479,7 @@ router.get('/:id/postcall-status', requireSession, async (req: Request, res: Res
         hasFeedback,
         overallScore: baseStatus.overallScore,
         interviewStatus: interview?.status || 'PENDING',
+        steps: baseStatus.steps,
       },
     });
   } catch (error: any) {
@@ -456,6 +531,264 @@ router.post('/:id/clone', requireSession, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * POST /api/interviews/:id/text-session
+ * Runs the interview over text instead of a Retell call. The returned chatId
+ * plays the role of the Retell call_id (credits, feedback lookup).
+ */
+router.post('/:id/text-session', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const interviewId = uuidSchema.parse(req.params.id);
+
+    const result = await startTextChat(interviewId, userId);
+    if (!result.ok) {
+      return res.status(result.status).json({
+        status: 'error',
+        message: result.message,
+      });
+    }
+
+    return res.status(201).json({
+      status: 'success',
+      data: {
+        chatId: result.chatId,
+        websocketPath: `/chat-websocket/${result.chatId}`,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    interviewLogger.error('Error starting text chat', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to start text chat',
+    });
+  }
+});
+
+// ========================================
+// FEEDBACK VERSION ROUTES
+// ========================================
+
+import {
+  listFeedbackVersions,
+  selectFeedbackVersion,
+  diffFeedbackVersions,
+  MAX_FEEDBACK_VERSIONS,
+} from '../services/feedbackDocumentService';
+import { requestFeedbackRegeneration } from '../services/postCallJobQueue';
+
+const regenerateFeedbackSchema = z
+  .object({
+    reason: z.string().trim().min(1).max(500).optional(),
+  })
+  .strict();
+
+const activeVersionSchema = z
+  .object({
+    version: z.number().int().min(1),
+  })
+  .strict();
+
+const feedbackDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+/**
+ * GET /api/interviews/:id/feedback/versions
+ */
+router.get('/:id/feedback/versions', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const interviewId = uuidSchema.parse(req.params.id);
+
+    const owns = await ensureInterviewOwnership(interviewId, userId);
+    if (!owns) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found',
+      });
+    }
+
+    const versions = await listFeedbackVersions(interviewId);
+
+    return res.json({
+      status: 'success',
+      data: { versions },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    interviewLogger.error('Error listing feedback versions', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to list feedback versions',
+    });
+  }
+});
+
+/**
+ * POST /api/interviews/:id/feedback/regenerate
+ * Generates feedback again with the current prompt and model; the new version
+ * is displayed once ready (poll postcall-status or the versions list).
+ */
+router.post('/:id/feedback/regenerate', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const interviewId = uuidSchema.parse(req.params.id);
+    const body = regenerateFeedbackSchema.parse(req.body ?? {});
+
+    const owns = await ensureInterviewOwnership(interviewId, userId);
+    if (!owns) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found',
+      });
+    }
+
+    const versions = await listFeedbackVersions(interviewId);
+    if (versions.length >= MAX_FEEDBACK_VERSIONS) {
+      return res.status(409).json({
+        status: 'error',
+        message: `Feedback can be regenerated up to ${MAX_FEEDBACK_VERSIONS - 1} times`,
+      });
+    }
+
+    const result = await requestFeedbackRegeneration(interviewId, body.reason || 'regenerated');
+    if (!result.ok) {
+      return res.status(result.status).json({
+        status: 'error',
+        message: result.message,
+      });
+    }
+
+    return res.status(202).json({
+      status: 'success',
+      data: { queued: true },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    interviewLogger.error('Error regenerating feedback', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to regenerate feedback',
+    });
+  }
+});
+
+/**
+ * PUT /api/interviews/:id/feedback/active-version
+ */
+router.put('/:id/feedback/active-version', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const interviewId = uuidSchema.parse(req.params.id);
+    const body = activeVersionSchema.parse(req.body);
+
+    const owns = await ensureInterviewOwnership(interviewId, userId);
+    if (!owns) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found',
+      });
+    }
+
+    const selected = await selectFeedbackVersion(interviewId, body.version);
+    if (!selected) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Feedback version not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: selected,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    interviewLogger.error('Error selecting feedback version', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to select feedback version',
+    });
+  }
+});
+
+/**
+ * GET /api/interviews/:id/feedback/diff?from=1&to=2
+ */
+router.get('/:id/feedback/diff', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const interviewId = uuidSchema.parse(req.params.id);
+    const query = feedbackDiffQuerySchema.parse(req.query);
+
+    const owns = await ensureInterviewOwnership(interviewId, userId);
+    if (!owns) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found',
+      });
+    }
+
+    const diff = await diffFeedbackVersions(interviewId, query.from, query.to);
+    if (!diff) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Feedback version not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: diff,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    interviewLogger.error('Error comparing feedback versions', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to compare feedback versions',
+    });
+  }
+});
+
 // ========================================
 // INTERVIEW MEDIA ROUTES
 // ========================================
@@ -0,0 +1,85 @@
+/**
+ * Latency Admin Routes
+ *
+ * Live interview latency percentiles (request -> first/last LLM token) from
+ * the per-turn series stored on interview sessions.
+ *
+ * Routes:
+ * - GET /api/admin/latency (?days=7&model=&language=&region=)
+ *
+ * All routes require the X-Admin-Secret header (ADMIN_SECRET_KEY).
+ *
+ * @module routes/latencyAdminRoutes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { getLatencyReport, LATENCY_REPORT_LIMITS } from '../services/latencyTelemetryService';
+
+const router = Router();
+const latencyLogger = logger.child({ component: 'latency-admin' });
+
+const latencyQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(LATENCY_REPORT_LIMITS.maxDays).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+  language: z.string().trim().min(2).max(10).optional(),
+  region: z.string().trim().min(1).max(40).optional(),
+});
+
+/**
+ * Require the admin secret (X-Admin-Secret header)
+ */
+function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  const expectedSecret = process.env.ADMIN_SECRET_KEY;
+  if (!expectedSecret) {
+    latencyLogger.error('ADMIN_SECRET_KEY not configured');
+    return res.status(500).json({
+      status: 'error',
+      message: 'Admin authentication not configured',
+    });
+  }
+
+  if (req.headers['x-admin-secret'] !== expectedSecret) {
+    latencyLogger.warn('Unauthorized admin access attempt', { ip: req.ip, path: req.path });
+    return res.status(401).json({
+      status: 'error',
+      message: 'Invalid or missing admin credentials',
+    });
+  }
+
+  next();
+}
+
+router.use(requireAdminAuth);
+
+/**
+ * GET /api/admin/latency
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters = latencyQuerySchema.parse(req.query);
+    const report = await getLatencyReport(filters);
+
+    return res.json({
+      status: 'success',
+      data: report,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'Validation failed',
+        errors: error.errors,
+      });
+    }
+
+    latencyLogger.error('Error building latency report', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to build latency report',
+    });
+  }
+});
+
+export default router;
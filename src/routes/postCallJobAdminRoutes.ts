@@ -0,0 +1,160 @@
+/**
+ * Post-Call Job Admin Routes
+ *
+ * Inspect the post-call processing queue and re-run failed or dead-lettered
+ * jobs.
+ *
+ * Routes:
+ * - GET  /api/admin/post-call-jobs (?status=&type=&interviewId=&limit=&offset=)
+ * - POST /api/admin/post-call-jobs/:id/retry
+ * - POST /api/admin/post-call-jobs/interviews/:interviewId/rerun
+ *
+ * All routes require the X-Admin-Secret header (ADMIN_SECRET_KEY).
+ *
+ * @module routes/postCallJobAdminRoutes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { listPostCallJobs, retryPostCallJob, rerunInterviewJobs } from '../services/postCallJobQueue';
+
+const router = Router();
+const jobsLogger = logger.child({ component: 'post-call-jobs-admin' });
+
+const listQuerySchema = z.object({
+  status: z.enum(['PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD']).optional(),
+  type: z.enum(['TRANSCRIPT', 'METRICS', 'STUDY_PLAN', 'FEEDBACK', 'PDF', 'EMAIL']).optional(),
+  interviewId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const uuidSchema = z.string().uuid();
+
+/**
+ * Require the admin secret (X-Admin-Secret header)
+ */
+function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  const expectedSecret = process.env.ADMIN_SECRET_KEY;
+  if (!expectedSecret) {
+    jobsLogger.error('ADMIN_SECRET_KEY not configured');
+    return res.status(500).json({
+      status: 'error',
+      message: 'Admin authentication not configured',
+    });
+  }
+
+  if (req.headers['x-admin-secret'] !== expectedSecret) {
+    jobsLogger.warn('Unauthorized admin access attempt', { ip: req.ip, path: req.path });
+    return res.status(401).json({
+      status: 'error',
+      message: 'Invalid or missing admin credentials',
+    });
+  }
+
+  next();
+}
+
+function validationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    status: 'error',
+    message: 'Validation failed',
+    errors: error.errors,
+  });
+}
+
+router.use(requireAdminAuth);
+
+/**
+ * GET /api/admin/post-call-jobs
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters = listQuerySchema.parse(req.query);
+    const result = await listPostCallJobs(filters);
+
+    return res.json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return validationError(res, error);
+    }
+
+    jobsLogger.error('Error listing post-call jobs', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to list post-call jobs',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/post-call-jobs/:id/retry
+ */
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const jobId = uuidSchema.parse(req.params.id);
+    const result = await retryPostCallJob(jobId);
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        status: 'error',
+        message: result.message,
+      });
+    }
+
+    jobsLogger.info('Post-call job re-queued by admin', { jobId });
+    return res.json({
+      status: 'success',
+      data: { requeued: result.jobs },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return validationError(res, error);
+    }
+
+    jobsLogger.error('Error retrying post-call job', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retry post-call job',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/post-call-jobs/interviews/:interviewId/rerun
+ */
+router.post('/interviews/:interviewId/rerun', async (req: Request, res: Response) => {
+  try {
+    const interviewId = uuidSchema.parse(req.params.interviewId);
+    const result = await rerunInterviewJobs(interviewId);
+
+    if (!result.ok) {
+      return res.status(result.status).json({
+        status: 'error',
+        message: result.message,
+      });
+    }
+
+    jobsLogger.info('Post-call processing re-queued by admin', { interviewId, jobs: result.jobs });
+    return res.json({
+      status: 'success',
+      data: { requeued: result.jobs },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return validationError(res, error);
+    }
+
+    jobsLogger.error('Error re-running post-call processing', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to re-run post-call processing',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,199 @@
+/**
+ * Question Template Routes
+ *
+ * CRUD for recruiter question banks that can be attached to interviews
+ * (POST /api/interviews with questionTemplateId).
+ *
+ * Routes:
+ * - POST /api/question-templates
+ * - GET /api/question-templates
+ * - GET /api/question-templates/:id
+ * - PUT /api/question-templates/:id
+ * - DELETE /api/question-templates/:id
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { requireSession } from '../middleware/sessionAuthMiddleware';
+import * as questionTemplateService from '../services/questionTemplateService';
+import { QUESTION_TEMPLATE_LIMITS, sanitizeQuestionTemplateInput } from '../services/questionTemplateService';
+
+const router = Router();
+const templateLogger = logger.child({ component: 'question-template-routes' });
+
+const uuidSchema = z.string().uuid();
+
+const templateFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(QUESTION_TEMPLATE_LIMITS.maxNameLength),
+  instructions: z.string().max(QUESTION_TEMPLATE_LIMITS.maxInstructionsLength).optional().nullable(),
+  questions: z
+    .array(z.string().trim().min(5).max(QUESTION_TEMPLATE_LIMITS.maxQuestionLength))
+    .min(1)
+    .max(QUESTION_TEMPLATE_LIMITS.maxQuestions),
+  requiredSkills: z
+    .array(z.string().trim().min(1).max(QUESTION_TEMPLATE_LIMITS.maxSkillLength))
+    .max(QUESTION_TEMPLATE_LIMITS.maxRequiredSkills)
+    .optional(),
+});
+
+// Checked again after sanitizing, so a field made only of stripped markup or
+// control characters is rejected instead of stored empty
+const questionTemplateSchema = templateFieldsSchema
+  .transform(sanitizeQuestionTemplateInput)
+  .pipe(templateFieldsSchema);
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    status: 'error',
+    message: 'Validation failed',
+    errors: error.errors,
+  });
+}
+
+/**
+ * POST /api/question-templates
+ */
+router.post('/', requireSession, async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const body = questionTemplateSchema.parse(req.body);
+
+    const template = await questionTemplateService.createQuestionTemplate(userId, body);
+
+    return res.status(201).json({
+      status: 'success',
+      data: template,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    templateLogger.error('Error creating question template', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to create question template',
+    });
+  }
+});
+
+/**
+ * GET /api/question-templates
+ */
+router.get('/', requireSession, async (req: Request, res: Response) => {
+  try {
+    const templates = await questionTemplateService.listQuestionTemplates(req.userId!);
+
+    return res.json({
+      status: 'success',
+      data: templates,
+    });
+  } catch (error: any) {
+    templateLogger.error('Error listing question templates', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to list question templates',
+    });
+  }
+});
+
+/**
+ * GET /api/question-templates/:id
+ */
+router.get('/:id', requireSession, async (req: Request, res: Response) => {
+  try {
+    const templateId = uuidSchema.parse(req.params.id);
+    const template = await questionTemplateService.getQuestionTemplate(templateId, req.userId!);
+
+    if (!template) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Question template not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: template,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    templateLogger.error('Error getting question template', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to get question template',
+    });
+  }
+});
+
+/**
+ * PUT /api/question-templates/:id
+ * Changes apply to interviews started after the update.
+ */
+router.put('/:id', requireSession, async (req: Request, res: Response) => {
+  try {
+    const templateId = uuidSchema.parse(req.params.id);
+    const body = questionTemplateSchema.parse(req.body);
+
+    const template = await questionTemplateService.updateQuestionTemplate(templateId, req.userId!, body);
+    if (!template) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Question template not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+      data: template,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    templateLogger.error('Error updating question template', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to update question template',
+    });
+  }
+});
+
+/**
+ * DELETE /api/question-templates/:id
+ * Interviews that used the template keep running without it.
+ */
+router.delete('/:id', requireSession, async (req: Request, res: Response) => {
+  try {
+    const templateId = uuidSchema.parse(req.params.id);
+    const deleted = await questionTemplateService.deleteQuestionTemplate(templateId, req.userId!);
+
+    if (!deleted) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Question template not found',
+      });
+    }
+
+    return res.json({
+      status: 'success',
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    templateLogger.error('Error deleting question template', { error: error.message });
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to delete question template',
+    });
+  }
+});
+
+export default router;
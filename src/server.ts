@@ -23,10 +23,12 @@ import { isValidLanguageCode } from './types/multilingual';
 import { MercadoPagoService, getMercadoPagoCredentials } from './services/mercadoPagoService';
 import { FeedbackService } from './services/feedbackService';
 import { CustomLLMWebSocketHandler } from './services/customLLMWebSocket';
+import { TextChatSession } from './services/textChatService';
 import { spendCredits, restoreCredits } from './services/creditsWalletService';
 import { verifyMercadoPagoSignature, generateWebhookIdempotencyKey } from './services/webhookVerificationService';
 import { sendWelcomeEmail, sendPurchaseReceiptEmail, sendLowCreditsEmail, sendInterviewCompleteEmail, UserEmailData, PurchaseEmailData, LowCreditsData, InterviewCompleteData } from './services/transactionalEmailService';
-import { storeCallContext, cleanupExpiredContexts } from './services/callContextService';
+import { storeCallContext } from './services/callContextService';
+import { buildDynamicPromptConfig } from './services/questionTemplateService';
 import { downloadResume } from './services/azureBlobService';
 import { prisma } from './services/databaseService';
 
@@ -48,6 +50,9 @@ import { setupGraphQL } from './graphql';
 
 // Logger
 import logger, { wsLogger, retellLogger, feedbackLogger, paymentLogger, authLogger, httpLogger } from './utils/logger';
+import { parseTimerCheckpoints } from './utils/interviewTimer';
+import { resolvePanel } from './prompts/panelPersonas';
+import { matchCompanyProfile, toCompanyStyleProfile } from './services/companyProfileService';
 
 // Log environment diagnostics at startup
 logEnvDiagnostics();
@@ -249,6 +254,22 @@ app.use('/api/credits', creditsRoutes);
 // Mount leads routes (public - no auth required)
 app.use('/api/leads', leadsRoutes);
 
+// Mount company interview style catalog admin routes (before the catch-all /api/admin router)
+import companyProfileAdminRoutes from './routes/companyProfileAdminRoutes';
+app.use('/api/admin/company-profiles', companyProfileAdminRoutes);
+
+// Mount live interview latency report (before the catch-all /api/admin router)
+import latencyAdminRoutes from './routes/latencyAdminRoutes';
+app.use('/api/admin/latency', latencyAdminRoutes);
+
+// Mount post-call job queue admin routes (before the catch-all /api/admin router)
+import postCallJobAdminRoutes from './routes/postCallJobAdminRoutes';
+app.use('/api/admin/post-call-jobs', postCallJobAdminRoutes);
+
+// Mount feedback score drift report (before the catch-all /api/admin router)
+import feedbackDriftAdminRoutes from './routes/feedbackDriftAdminRoutes';
+app.use('/api/admin/feedback-drift', feedbackDriftAdminRoutes);
+
 // Mount email admin routes (for managing transactional emails)
 import emailAdminRoutes from './routes/emailAdminRoutes';
 app.use('/api/admin', emailAdminRoutes);
@@ -271,6 +292,10 @@ app.use('/api/phone', phoneRoutes);
 
 app.use('/api/interviews', interviewRoutes);
 
+// Mount question template routes (recruiter question banks attached to interviews)
+import questionTemplateRoutes from './routes/questionTemplateRoutes';
+app.use('/api/question-templates', questionTemplateRoutes);
+
 // Mount resume repository routes (resume upload, scoring, LinkedIn import)
 // Use larger body limit for base64-encoded resume files (up to 10MB)
 import resumeRoutes from './routes/resumeRoutes';
@@ -388,12 +413,24 @@ app.post('/register-call',
     const interview = await prisma.interview.findUnique({
       where: { id: metadata.interview_id },
       include: {
+        user: {
+          select: {
+            currentRole: true
+          }
+        },
         resumeDocument: {
           select: {
             storageKey: true,
             fileName: true,
             mimeType: true
           }
+        },
+        questionTemplate: {
+          select: {
+            instructions: true,
+            questions: true,
+            requiredSkills: true
+          }
         }
       }
     });
@@ -451,11 +488,16 @@ app.post('/register-call',
       job_description: sanitizeString(metadata.job_description || ''),
     };
 
+    // Panel calls speak in the lead's voice unless the interview sets one
+    const panel = resolvePanel(interview.panelPersonas);
+    const companyProfile = await matchCompanyProfile(interview.companyName);
+
     // Register call with multilingual-aware agent selection
     const multilingualRetell = getMultilingualRetellService();
     const result = await multilingualRetell.registerMultilingualCall({
       userId,
       language: preferredLanguage as any,
+      voiceId: interview.voiceId || panel[0]?.voiceId,
       metadata: {
         first_name: sanitizedMetadata.first_name,
         last_name: sanitizedMetadata.last_name,
@@ -473,7 +515,7 @@ app.post('/register-call',
     // Store call context for Custom LLM WebSocket to retrieve
     // This ensures preferred_language is available even if Retell doesn't forward it
     if (result.call_id) {
-      storeCallContext(result.call_id, {
+      await storeCallContext(result.call_id, {
         preferredLanguage: preferredLanguage,
         first_name: sanitizedMetadata.first_name,
         last_name: sanitizedMetadata.last_name,
@@ -483,11 +525,28 @@ app.post('/register-call',
         interviewee_cv: intervieweeCV, // Base64 from Azure Blob
         resume_file_name: resumeFileName,
         resume_mime_type: resumeMimeType,
+        interview_id: sanitizedMetadata.interview_id,
+        dynamic_prompt_config: interview.questionTemplate
+          ? buildDynamicPromptConfig(interview.questionTemplate)
+          : undefined,
+        interview_mode: interview.interviewMode,
+        duration_minutes: interview.durationMinutes ?? undefined,
+        timer_checkpoints: parseTimerCheckpoints(interview.timerCheckpoints),
+        panel_personas: panel.map((p) => p.key),
+        congruency_policy: interview.congruencyPolicy,
+        company_profile: companyProfile ? toCompanyStyleProfile(companyProfile) : undefined,
+        seniority: interview.seniority ?? undefined,
+        current_role: interview.user?.currentRole ?? undefined,
       });
       retellLogger.info('Call context stored for Custom LLM', {
         callId: result.call_id,
         preferredLanguage: preferredLanguage,
-        hasResume: true
+        hasResume: true,
+        hasQuestionTemplate: !!interview.questionTemplate,
+        interviewMode: interview.interviewMode,
+        durationMinutes: interview.durationMinutes,
+        panelSize: panel.length,
+        companyProfile: companyProfile?.slug,
       });
     }
     
@@ -587,11 +646,11 @@ app.get('/get-feedback-for-interview/:callId', async (req: Request, res: Respons
       });
     }
 
-    // If we have an interview record but feedback isn't stored yet, kick off post-call processing
-    // and return a fast "not ready" response.
+    // If we have an interview record but feedback isn't stored yet, make sure post-call processing
+    // is queued and return a fast "not ready" response.
     if (interview?.id) {
-      postCallProcessingService.processInterview(interview.id).catch((error: any) => {
-        feedbackLogger.error('Failed to trigger post-call processing from feedback endpoint', {
+      enqueuePostCallProcessing(interview.id).catch((error: any) => {
+        feedbackLogger.error('Failed to queue post-call processing from feedback endpoint', {
           interviewId: interview.id,
           callId,
           error: error.message,
@@ -864,7 +923,7 @@ app.get('/webhook/mercadopago', (req: Request, res: Response) => {
 
 import { getPaymentGateway } from './services/paymentStrategyService';
 import { addPurchasedCredits } from './services/creditsWalletService';
-import postCallProcessingService from './services/postCallProcessingService';
+import { enqueuePostCallProcessing, startPostCallWorker, stopPostCallWorker } from './services/postCallJobQueue';
 import { Retell } from 'retell-sdk';
 
 /**
@@ -1059,12 +1118,11 @@ const handleRetellWebhook = async (req: Request, res: Response) => {
         });
     }
 
-    // Trigger processing on analysis-ready event (per Retell docs)
+    // Queue processing on analysis-ready event (per Retell docs)
     if (event === 'call_analyzed') {
-      postCallProcessingService
-        .processInterview(interviewId, { callData: call })
+      enqueuePostCallProcessing(interviewId, { callData: call })
         .catch((error: any) => {
-          retellLogger.error('Post-call processing failed from webhook', {
+          retellLogger.error('Failed to queue post-call processing from webhook', {
             interviewId,
             callId: call?.call_id,
             error: error.message,
@@ -2112,9 +2170,30 @@ app.delete('/api/users/delete',
 
 // ===== CREDITS MANAGEMENT =====
 
+/**
+ * Credits charged for the user's interview (its creditCost), found by interviewId
+ * or else by its Retell callId; null when the user has no such interview
+ */
+async function getInterviewCreditCostForUser(
+  userId: string,
+  ref: { interviewId?: string; callId?: string }
+): Promise<number | null> {
+  const where = ref.interviewId
+    ? { id: ref.interviewId, userId }
+    : { retellCallId: ref.callId, userId };
+
+  const interview = await prisma.interview.findFirst({
+    where,
+    select: { creditCost: true }
+  });
+  return interview ? interview.creditCost : null;
+}
+
 /**
  * Consume credit when interview starts
  * POST /consume-credit
+ * Charges the interview's creditCost (set from its duration); the interview is
+ * identified by interviewId or by its Retell callId
  * CRITICAL: This endpoint handles financial transactions
  * Protected: Requires valid session + rate limited
  * Uses PostgreSQL as source of truth for credits
@@ -2123,15 +2202,32 @@ app.post('/consume-credit',
   sensitiveLimiter,
   requireSession,
   [
-    body('callId').optional().isString().trim(),
+    body('callId').optional().isString().trim().notEmpty(),
+    body('interviewId').optional().isUUID(),
   ],
   handleValidationErrors,
   async (req: Request, res: Response) => {
   try {
-    const { callId } = req.body;
+    const { callId, interviewId } = req.body;
     const userId = req.userId!; // Non-null: requireSession ensures userId exists
 
-    authLogger.info('Credit consumption requested', { userId, callId });
+    authLogger.info('Credit consumption requested', { userId, callId, interviewId });
+
+    // The charge is the interview's own cost, so the interview must be identified
+    if (!interviewId && !callId) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'interviewId or callId is required'
+      });
+    }
+
+    const creditCost = await getInterviewCreditCostForUser(userId, { interviewId, callId });
+    if (creditCost === null) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found'
+      });
+    }
 
     // Get current user credits from PostgreSQL (source of truth)
     const dbUser = await prisma.user.findUnique({
@@ -2148,8 +2244,8 @@ app.post('/consume-credit',
 
     const currentCredits = dbUser.credits;
 
-    if (currentCredits <= 0) {
-      authLogger.warn('Insufficient credits', { userId, currentCredits });
+    if (currentCredits < creditCost) {
+      authLogger.warn('Insufficient credits', { userId, currentCredits, creditCost });
       return res.status(400).json({
         status: 'error',
         message: 'Insufficient credits'
@@ -2159,14 +2255,14 @@ app.post('/consume-credit',
     // Update credits in PostgreSQL (source of truth)
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: { credits: { decrement: 1 } }
+      data: { credits: { decrement: creditCost } }
     });
 
     // Record in wallet ledger (non-blocking)
     try {
       await spendCredits(
         userId,
-        1,
+        creditCost,
         'Interview credit consumed',
         callId ? 'interview' : undefined,
         callId,
@@ -2179,7 +2275,7 @@ app.post('/consume-credit',
       });
     }
 
-    authLogger.info('Credit consumed', { userId, previousCredits: currentCredits, newCredits: updatedUser.credits });
+    authLogger.info('Credit consumed', { userId, creditCost, previousCredits: currentCredits, newCredits: updatedUser.credits });
 
     // ========================================
     // SEND LOW CREDITS WARNING (non-blocking, idempotent)
@@ -2254,12 +2350,13 @@ app.post('/restore-credit',
   requireSession,
   [
     body('reason').optional().isString().trim().isLength({ max: 200 }),
-    body('callId').optional().isString().trim(),
+    body('callId').optional().isString().trim().notEmpty(),
+    body('interviewId').optional().isUUID(),
   ],
   handleValidationErrors,
   async (req: Request, res: Response) => {
   try {
-    const { reason, callId } = req.body;
+    const { reason, callId, interviewId } = req.body;
     const userId = req.userId;
 
     if (!userId) {
@@ -2272,6 +2369,13 @@ app.post('/restore-credit',
 
     authLogger.info('Credit restoration requested', { userId, reason, callId });
 
+    if (!interviewId && !callId) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'interviewId or callId is required'
+      });
+    }
+
     const restoreIdempotencyKey = callId ? `restore_call_${callId}` : null;
     if (restoreIdempotencyKey) {
       const existingRestore = await prisma.creditLedger.findUnique({
@@ -2303,6 +2407,14 @@ app.post('/restore-credit',
       }
     }
 
+    const creditCost = await getInterviewCreditCostForUser(userId, { interviewId, callId });
+    if (creditCost === null) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Interview not found'
+      });
+    }
+
     // Get current user credits from PostgreSQL (source of truth)
     const dbUser = await prisma.user.findUnique({
       where: { id: userId },
@@ -2332,7 +2444,7 @@ app.post('/restore-credit',
     // Update credits in PostgreSQL (source of truth)
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: { credits: { increment: 1 } },
+      data: { credits: { increment: creditCost } },
       select: { credits: true }
     });
 
@@ -2340,7 +2452,7 @@ app.post('/restore-credit',
     try {
       await restoreCredits(
         userId,
-        1,
+        creditCost,
         reason || 'Credit restored due to interview cancellation',
         callId ? 'interview' : undefined,
         callId,
@@ -2513,9 +2625,42 @@ wsApp.ws('/llm-websocket/:call_id', (ws: WebSocket, req: express.Request, next:
   handleWebSocketConnection(ws, callId, req.url);
 });
 
+// ===== WEBSOCKET ENDPOINT FOR TEXT CHAT INTERVIEWS =====
+// chat_id comes from POST /api/interviews/:id/text-session
+
+wsApp.ws('/chat-websocket/:chat_id', (ws: WebSocket, req: express.Request) => {
+  const chatId = req.params.chat_id;
+  wsLogger.info('Text chat connection received', { chatId });
+
+  const session = new TextChatSession(ws, openai, chatId);
+
+  ws.on('message', async (data: RawData) => {
+    try {
+      await session.handleClientMessage(data.toString());
+    } catch (error: any) {
+      wsLogger.error('Text chat message processing error', {
+        chatId,
+        error: error.message,
+        stack: error.stack
+      });
+    }
+  });
+
+  ws.on('error', (error: Error) => {
+    wsLogger.error('Text chat WebSocket error', { chatId, error: error.message });
+    session.handleError(error);
+  });
+
+  ws.on('close', (code: number) => {
+    wsLogger.info('Text chat WebSocket closed', { chatId, code });
+    session.handleClose();
+  });
+});
+
 logger.info('WebSocket endpoints initialized', {
   pattern1: '/llm-websocket/:call_id',
-  pattern2: '/llm-websocket/:placeholder/:actual_call_id'
+  pattern2: '/llm-websocket/:placeholder/:actual_call_id',
+  textChat: '/chat-websocket/:chat_id'
 });
 
 // ===== START SERVER WITH GRAPHQL =====
@@ -2545,12 +2690,10 @@ logger.info('WebSocket endpoints initialized', {
       logger.info(`Webhook URL: ${process.env.WEBHOOK_BASE_URL}/webhook/mercadopago`);
       logger.info(`Log Level: ${process.env.LOG_LEVEL || 'info'}`);
       logger.info('═'.repeat(60));
-      
-      // Periodic cleanup of expired call contexts (every 30 minutes)
-      setInterval(() => {
-        cleanupExpiredContexts();
-      }, 30 * 60 * 1000);
     });
+
+    // Run queued post-call jobs (transcript, metrics, feedback, PDF, email)
+    startPostCallWorker();
   } catch (error) {
     logger.error('Failed to start server', { error });
     process.exit(1);
@@ -2580,6 +2723,9 @@ const gracefulShutdown = async (signal: string) => {
   
   logger.info('WebSocket connections closed');
 
+  // Stop claiming post-call jobs; one cut off mid-step is picked up again once its lease expires
+  stopPostCallWorker();
+
   // Disconnect database
   try {
     const { disconnectDatabase } = await import('./services/databaseService');
@@ -20,6 +20,7 @@ import {
   getGlobalSnapshot,
   SNAPSHOT_TYPES,
 } from './analyticsCachingService';
+import { SPEECH_ANALYTICS_CONFIG, type AnswerSpeech, type SpeechAnalytics } from '../utils/speechAnalytics';
 
 // ========================================
 // TYPES
@@ -899,6 +900,16 @@ export interface TimelineDataPoint {
   pace: number;
 }
 
+/**
+ * Point of Interview.confidenceTimeline as stored (read by recording playback and GraphQL)
+ */
+export interface StoredTimelinePoint {
+  timestamp: number;
+  value: number;
+  tone: number;
+  pace: number;
+}
+
 export interface SoftSkillsData {
   communication: number;
   problemSolving: number;
@@ -1039,6 +1050,30 @@ function buildConfidenceTimeline(callAnalysis: any): TimelineDataPoint[] {
   return timeline;
 }
 
+/**
+ * One timeline point per measured answer, from word-timing speech analytics.
+ * Confidence starts from pace and is lowered by filler words and long pauses.
+ */
+export function buildSpeechTimeline(
+  speech: SpeechAnalytics,
+  turns: Array<{ sentiment?: string }>
+): StoredTimelinePoint[] {
+  return speech.answers
+    .filter((answer): answer is AnswerSpeech & { wpm: number } => answer.wpm !== null)
+    .map((answer) => {
+      const fillerRate = (answer.fillers / answer.words) * 100;
+      const confidence = estimateConfidenceFromPace(answer.wpm)
+        - Math.min(20, fillerRate * 2)
+        - (answer.longestPauseSec >= SPEECH_ANALYTICS_CONFIG.longPauseSec ? 10 : 0);
+      return {
+        timestamp: answer.startSec,
+        value: Math.round(Math.max(20, confidence)),
+        tone: mapSentimentToScore(turns[answer.turn]?.sentiment || 'neutral'),
+        pace: Math.round(normalizeWpm(answer.wpm)),
+      };
+    });
+}
+
 function calculateSegmentWpm(words: any[]): number {
   if (words.length < 2) return 120;
   const startTime = words[0].start;
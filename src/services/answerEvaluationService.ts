@@ -0,0 +1,135 @@
+/**
+ * Answer Evaluation Service
+ *
+ * Lightweight per-turn scoring of a candidate answer against the behavioral
+ * anchors in COMPETENCY_ANCHORS. Used live by the interviewer to adapt the
+ * difficulty of the next question; scores are preliminary, post-call feedback
+ * remains the source of truth.
+ *
+ * @module services/answerEvaluationService
+ */
+
+import { COMPETENCY_ANCHORS } from '../types/rubrics';
+import type { CompetencyKey } from '../types/feedback';
+import type { ChatMessage, ChatProvider } from '../providers/chatProvider';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface AnswerEvaluationInput {
+  competency: CompetencyKey;
+  question: string;
+  answer: string;
+  roleTitle: string;
+}
+
+export interface AnswerEvaluation {
+  score: number;
+  evidence: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    model: string;
+    provider: string;
+  };
+}
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const MAX_ANSWER_LENGTH = 1500;
+const MAX_EVIDENCE_LENGTH = 200;
+
+// ========================================
+// EVALUATION
+// ========================================
+
+function buildEvaluationMessages(input: AnswerEvaluationInput): ChatMessage[] {
+  const anchors = COMPETENCY_ANCHORS[input.competency]
+    .map((a) => `${a.score} (${a.label}): ${a.indicators.join('; ')}`)
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You score one interview answer for the competency "${input.competency}" using these anchors:
+${anchors}
+
+Respond with JSON only: {"score": <integer 1-5>, "evidence": "<short quote or paraphrase from the answer that justifies the score>"}.
+Score only what the candidate said. A vague, off-topic, or very short answer scores 1 or 2.`,
+    },
+    {
+      role: 'user',
+      content: `Role: ${input.roleTitle}
+Question: ${input.question}
+Answer: ${input.answer.slice(0, MAX_ANSWER_LENGTH)}`,
+    },
+  ];
+}
+
+/**
+ * Parse the evaluator output, tolerating code fences or text around the JSON
+ */
+function parseEvaluation(raw: string): { score: number; evidence: string } | null {
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    const score = Math.round(Number(parsed.score));
+    if (!Number.isFinite(score) || score < 1 || score > 5) {
+      return null;
+    }
+    return {
+      score,
+      evidence: String(parsed.evidence || '').slice(0, MAX_EVIDENCE_LENGTH),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score a single answer. Returns null when the model output is unusable;
+ * provider errors are thrown to the caller.
+ */
+export async function evaluateAnswer(
+  provider: ChatProvider,
+  input: AnswerEvaluationInput,
+  model?: string
+): Promise<AnswerEvaluation | null> {
+  const evaluationModel = model || provider.defaultModel;
+
+  let raw = '';
+  let promptTokens = 0;
+  let completionTokens = 0;
+  for await (const chunk of provider.streamChat(buildEvaluationMessages(input), {
+    model: evaluationModel,
+    temperature: 0,
+    maxTokens: 120,
+  })) {
+    raw += chunk.content;
+    if (chunk.usage) {
+      promptTokens = chunk.usage.promptTokens;
+      completionTokens = chunk.usage.completionTokens;
+    }
+  }
+
+  const parsed = parseEvaluation(raw);
+  if (!parsed) {
+    return null;
+  }
+
+  return {
+    ...parsed,
+    usage: { promptTokens, completionTokens, model: evaluationModel, provider: provider.name },
+  };
+}
+
+export default {
+  evaluateAnswer,
+};
@@ -9,12 +9,22 @@
  *   all custom metadata fields from the original call registration
  * - By storing the context server-side keyed by callId, we can reliably
  *   retrieve the user's preferred language when the WebSocket connects
+ * 
+ * Contexts live in the CacheProvider (Redis in production), so /register-call
+ * and the Retell WebSocket may land on different backend instances. The resume
+ * content is encrypted at rest (AES-256-GCM, CALL_CONTEXT_ENCRYPTION_KEY).
  */
 
+import crypto from 'crypto';
+import { cacheProvider } from '../providers/cacheProvider';
+import { config } from '../config/env';
 import { wsLogger } from '../utils/logger';
+import type { DynamicPromptConfig } from '../prompts/multilingualPrompts';
+import type { CompanyStyleProfile } from '../prompts/companyProfiles';
 
 interface CallContext {
   callId: string;
+  interviewId?: string;
   preferredLanguage: string;
   candidateName: string;
   jobTitle: string;
@@ -23,20 +33,91 @@ interface CallContext {
   intervieweeCV?: string;
   resumeFileName?: string;
   resumeMimeType?: string;
+  dynamicPromptConfig?: DynamicPromptConfig; // Recruiter question bank, if attached
+  companyProfile?: CompanyStyleProfile; // Employer interview style, if the company matched one
+  interviewMode?: string; // InterviewMode selected at creation
+  durationMinutes?: number; // Interview length chosen at creation
+  timerCheckpoints?: Array<'halfway' | number>; // Spoken time notices
+  panelPersonas?: string[]; // Panel persona keys, lead first
+  congruencyPolicy?: string; // CongruencyPolicy selected at creation
+  seniority?: string; // Interview seniority (intern, junior, mid, senior, staff, principal)
+  currentRole?: string; // Candidate's current role, if on their profile
   createdAt: Date;
 }
 
-// In-memory store with TTL for cleanup
-// For production, consider using Redis or Prisma
-const callContextStore = new Map<string, CallContext>();
+// Cached form: resume replaced by its ciphertext, dates as ISO strings
+type StoredCallContext = Omit<CallContext, 'intervieweeCV' | 'createdAt'> & {
+  encryptedCV?: string;
+  createdAt: string;
+};
+
+const CALL_CONTEXT_KEY_PREFIX = 'call:context:';
 
 // TTL for call contexts (2 hours - calls shouldn't last longer than this)
-const CALL_CONTEXT_TTL_MS = 2 * 60 * 60 * 1000;
+const CALL_CONTEXT_TTL_SECONDS = 2 * 60 * 60;
+
+// ========================================
+// RESUME ENCRYPTION
+// ========================================
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+let encryptionKey: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const secret = config.callContext.encryptionKey;
+    if (secret) {
+      encryptionKey = crypto.createHash('sha256').update(secret).digest();
+    } else {
+      // Only reachable in local development: config/env requires the key in
+      // production and with Redis, where other instances must read these contexts
+      wsLogger.warn('CALL_CONTEXT_ENCRYPTION_KEY not set - using a per-process key for call contexts');
+      encryptionKey = crypto.randomBytes(32);
+    }
+  }
+  return encryptionKey;
+}
+
+export function encryptText(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString('base64')).join('.');
+}
+
+export function decryptText(payload: string): string {
+  const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Decrypt the stored resume. A resume written under another key (or tampered
+ * with) is dropped so the interview still runs with the rest of the context.
+ */
+function decryptResume(callId: string, encryptedCV: string): string | undefined {
+  try {
+    return decryptText(encryptedCV);
+  } catch (error: any) {
+    wsLogger.error('Failed to decrypt resume in call context - continuing without it', {
+      callId,
+      error: error.message,
+    });
+    return undefined;
+  }
+}
+
+function contextKey(callId: string): string {
+  return `${CALL_CONTEXT_KEY_PREFIX}${callId}`;
+}
 
 /**
  * Store call context when a call is registered
  */
-export function storeCallContext(
+export async function storeCallContext(
   callId: string,
   metadata: {
     preferredLanguage?: string;
@@ -48,10 +129,21 @@ export function storeCallContext(
     interviewee_cv?: string;
     resume_file_name?: string;
     resume_mime_type?: string;
+    interview_id?: string;
+    dynamic_prompt_config?: DynamicPromptConfig;
+    company_profile?: CompanyStyleProfile;
+    interview_mode?: string;
+    duration_minutes?: number;
+    timer_checkpoints?: Array<'halfway' | number>;
+    panel_personas?: string[];
+    congruency_policy?: string;
+    seniority?: string;
+    current_role?: string;
   }
-): void {
+): Promise<void> {
   const context: CallContext = {
     callId,
+    interviewId: metadata.interview_id,
     preferredLanguage: metadata.preferredLanguage || 'en-US',
     candidateName: `${metadata.first_name || ''} ${metadata.last_name || ''}`.trim() || 'Candidate',
     jobTitle: metadata.job_title || 'Position',
@@ -60,10 +152,27 @@ export function storeCallContext(
     intervieweeCV: metadata.interviewee_cv,
     resumeFileName: metadata.resume_file_name,
     resumeMimeType: metadata.resume_mime_type,
+    dynamicPromptConfig: metadata.dynamic_prompt_config,
+    companyProfile: metadata.company_profile,
+    interviewMode: metadata.interview_mode,
+    durationMinutes: metadata.duration_minutes,
+    timerCheckpoints: metadata.timer_checkpoints,
+    panelPersonas: metadata.panel_personas,
+    congruencyPolicy: metadata.congruency_policy,
+    seniority: metadata.seniority,
+    currentRole: metadata.current_role,
     createdAt: new Date(),
   };
 
-  callContextStore.set(callId, context);
+  const { intervieweeCV, createdAt, ...rest } = context;
+  const stored: StoredCallContext = {
+    ...rest,
+    encryptedCV: intervieweeCV ? encryptText(intervieweeCV) : undefined,
+    createdAt: createdAt.toISOString(),
+  };
+
+  // Expiry is handled by the cache TTL
+  await cacheProvider.set(contextKey(callId), stored, CALL_CONTEXT_TTL_SECONDS);
   
   wsLogger.info('Call context stored', {
     callId,
@@ -71,20 +180,29 @@ export function storeCallContext(
     candidateName: context.candidateName,
     jobTitle: context.jobTitle,
     companyName: context.companyName,
-    storeSize: callContextStore.size,
+    cache: cacheProvider.getName(),
   });
-
-  // Schedule cleanup
-  setTimeout(() => {
-    cleanupCallContext(callId);
-  }, CALL_CONTEXT_TTL_MS);
 }
 
 /**
  * Retrieve call context by callId
  */
-export function getCallContext(callId: string): CallContext | null {
-  const context = callContextStore.get(callId);
+export async function getCallContext(callId: string): Promise<CallContext | null> {
+  let context: CallContext | null = null;
+
+  try {
+    const stored = await cacheProvider.get<StoredCallContext>(contextKey(callId));
+    if (stored) {
+      const { encryptedCV, createdAt, ...rest } = stored;
+      context = {
+        ...rest,
+        intervieweeCV: encryptedCV ? decryptResume(callId, encryptedCV) : undefined,
+        createdAt: new Date(createdAt),
+      };
+    }
+  } catch (error: any) {
+    wsLogger.error('Failed to read call context', { callId, error: error.message });
+  }
   
   if (context) {
     wsLogger.info('Call context retrieved', {
@@ -96,20 +214,19 @@ export function getCallContext(callId: string): CallContext | null {
   } else {
     wsLogger.warn('Call context not found', {
       callId,
-      storeSize: callContextStore.size,
-      availableCallIds: Array.from(callContextStore.keys()).slice(0, 5), // Log first 5 for debugging
+      cache: cacheProvider.getName(),
     });
   }
 
-  return context || null;
+  return context;
 }
 
 /**
  * Get preferred language for a call
  * Returns 'en-US' as fallback if context not found
  */
-export function getCallLanguage(callId: string): string {
-  const context = getCallContext(callId);
+export async function getCallLanguage(callId: string): Promise<string> {
+  const context = await getCallContext(callId);
   const language = context?.preferredLanguage || 'en-US';
   
   wsLogger.debug('Call language resolved', {
@@ -122,48 +239,23 @@ export function getCallLanguage(callId: string): string {
 }
 
 /**
- * Clean up call context after call ends or TTL expires
+ * Clean up call context after call ends (otherwise it expires with the cache TTL)
  */
-export function cleanupCallContext(callId: string): boolean {
-  const deleted = callContextStore.delete(callId);
-  
-  if (deleted) {
-    wsLogger.debug('Call context cleaned up', {
-      callId,
-      remainingSize: callContextStore.size,
-    });
+export async function cleanupCallContext(callId: string): Promise<boolean> {
+  const key = contextKey(callId);
+  const existed = await cacheProvider.exists(key);
+  if (existed) {
+    await cacheProvider.del(key);
+    wsLogger.debug('Call context cleaned up', { callId });
   }
 
-  return deleted;
+  return existed;
 }
 
 /**
  * Get current store size (for monitoring)
  */
-export function getCallContextStoreSize(): number {
-  return callContextStore.size;
-}
-
-/**
- * Cleanup all expired contexts (can be called periodically)
- */
-export function cleanupExpiredContexts(): number {
-  const now = Date.now();
-  let cleanedCount = 0;
-
-  for (const [callId, context] of callContextStore.entries()) {
-    if (now - context.createdAt.getTime() > CALL_CONTEXT_TTL_MS) {
-      callContextStore.delete(callId);
-      cleanedCount++;
-    }
-  }
-
-  if (cleanedCount > 0) {
-    wsLogger.info('Expired call contexts cleaned up', {
-      cleanedCount,
-      remainingSize: callContextStore.size,
-    });
-  }
-
-  return cleanedCount;
+export async function getCallContextStoreSize(): Promise<number> {
+  const keys = await cacheProvider.keys(`${CALL_CONTEXT_KEY_PREFIX}*`);
+  return keys.length;
 }
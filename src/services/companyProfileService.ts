@@ -0,0 +1,237 @@
+/**
+ * Company Profile Service
+ *
+ * Manages the company interview style catalog (admin CRUD and seeding) and
+ * matches an interview's free-text companyName to a profile, so the live
+ * interviewer can run the session the way that employer interviews.
+ *
+ * @module services/companyProfileService
+ */
+
+import logger from '../utils/logger';
+import { prisma } from './databaseService';
+import {
+  COMPANY_PROFILE_SEEDS,
+  type CompanyStyleProfile,
+} from '../prompts/companyProfiles';
+import type { CompanyProfile } from '@prisma/client';
+
+const profileLogger = logger.child({ component: 'company-profiles' });
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const COMPANY_PROFILE_LIMITS = {
+  maxSlugLength: 60,
+  maxNameLength: 120,
+  maxAliases: 10,
+  maxFormatLength: 1000,
+  maxListItems: 12,
+  maxItemLength: 200,
+};
+
+// Domain and legal-entity suffixes ignored when matching ("Amazon.com, Inc." -> "amazon")
+const DOMAIN_SUFFIX = /\.(com|io|ai)\b/g;
+const LEGAL_SUFFIXES = /\b(inc|llc|ltd|ltda|corp|corporation|co|company|plc|gmbh|sa|s a|ag|bv|group|holdings?)\b/g;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CompanyProfileInput {
+  slug: string;
+  name: string;
+  aliases?: string[];
+  values?: string[];
+  interviewFormat?: string | null;
+  leadershipPrinciples?: string[];
+  questionThemes?: string[];
+  isActive?: boolean;
+}
+
+// ============================================
+// SANITIZATION
+// ============================================
+
+/**
+ * Lowercase, accent-free, suffix-free form used for aliases and lookups
+ */
+export function normalizeCompanyName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(DOMAIN_SUFFIX, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(LEGAL_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function cleanText(value: string, maxLength: number): string {
+  return value
+    .replace(/[\u0000-\u001F\u007F]/g, ' ')
+    .replace(/<\/?[a-z_][^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+function cleanList(values: string[] | undefined, maxItems: number, maxLength: number): string[] {
+  const cleaned = (values || []).map((value) => cleanText(value, maxLength)).filter(Boolean);
+  return [...new Set(cleaned)].slice(0, maxItems);
+}
+
+export function sanitizeCompanyProfileInput(input: CompanyProfileInput) {
+  const name = cleanText(input.name, COMPANY_PROFILE_LIMITS.maxNameLength);
+  const aliases = [name, ...(input.aliases || [])]
+    .map(normalizeCompanyName)
+    .filter(Boolean);
+
+  return {
+    slug: input.slug.trim().toLowerCase(),
+    name,
+    // The profile's own name always matches
+    aliases: [...new Set(aliases)].slice(0, COMPANY_PROFILE_LIMITS.maxAliases + 1),
+    values: cleanList(input.values, COMPANY_PROFILE_LIMITS.maxListItems, COMPANY_PROFILE_LIMITS.maxItemLength),
+    interviewFormat: input.interviewFormat
+      ? cleanText(input.interviewFormat, COMPANY_PROFILE_LIMITS.maxFormatLength) || null
+      : null,
+    leadershipPrinciples: cleanList(
+      input.leadershipPrinciples,
+      COMPANY_PROFILE_LIMITS.maxListItems,
+      COMPANY_PROFILE_LIMITS.maxItemLength
+    ),
+    questionThemes: cleanList(
+      input.questionThemes,
+      COMPANY_PROFILE_LIMITS.maxListItems,
+      COMPANY_PROFILE_LIMITS.maxItemLength
+    ),
+    isActive: input.isActive ?? true,
+  };
+}
+
+// ============================================
+// SERVICE FUNCTIONS
+// ============================================
+
+export async function createCompanyProfile(input: CompanyProfileInput) {
+  const profile = await prisma.companyProfile.create({
+    data: sanitizeCompanyProfileInput(input),
+  });
+
+  profileLogger.info('Company profile created', { profileId: profile.id, slug: profile.slug });
+  return profile;
+}
+
+export async function listCompanyProfiles(options: { includeInactive?: boolean } = {}) {
+  return prisma.companyProfile.findMany({
+    where: options.includeInactive ? undefined : { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+export async function getCompanyProfile(profileId: string) {
+  return prisma.companyProfile.findUnique({
+    where: { id: profileId },
+  });
+}
+
+export async function getCompanyProfileBySlug(slug: string) {
+  return prisma.companyProfile.findUnique({
+    where: { slug: slug.trim().toLowerCase() },
+  });
+}
+
+export async function updateCompanyProfile(profileId: string, input: CompanyProfileInput) {
+  const existing = await getCompanyProfile(profileId);
+  if (!existing) {
+    return null;
+  }
+
+  const profile = await prisma.companyProfile.update({
+    where: { id: profileId },
+    data: sanitizeCompanyProfileInput(input),
+  });
+
+  profileLogger.info('Company profile updated', { profileId, slug: profile.slug });
+  return profile;
+}
+
+export async function deleteCompanyProfile(profileId: string): Promise<boolean> {
+  const result = await prisma.companyProfile.deleteMany({
+    where: { id: profileId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Insert the seeded profiles that are not in the catalog yet. Existing slugs are
+ * left alone so admin edits survive re-seeding. Returns the number inserted.
+ */
+export async function seedCompanyProfiles(): Promise<number> {
+  let inserted = 0;
+  for (const seed of COMPANY_PROFILE_SEEDS) {
+    const existing = await getCompanyProfileBySlug(seed.slug);
+    if (existing) {
+      continue;
+    }
+    await prisma.companyProfile.create({ data: sanitizeCompanyProfileInput(seed) });
+    inserted++;
+  }
+
+  profileLogger.info('Company profiles seeded', { inserted, total: COMPANY_PROFILE_SEEDS.length });
+  return inserted;
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Active profile for an interview's company name, or null. Never throws: a
+ * catalog outage must not block the call, which then runs without a profile.
+ */
+export async function matchCompanyProfile(companyName: string | null | undefined) {
+  const normalized = companyName ? normalizeCompanyName(companyName) : '';
+  if (!normalized) {
+    return null;
+  }
+
+  try {
+    return await prisma.companyProfile.findFirst({
+      where: { isActive: true, aliases: { has: normalized } },
+    });
+  } catch (error: any) {
+    profileLogger.warn('Company profile lookup failed', { error: error.message });
+    return null;
+  }
+}
+
+/**
+ * The prompt-facing part of a stored profile
+ */
+export function toCompanyStyleProfile(
+  profile: Pick<CompanyProfile, 'name' | 'values' | 'interviewFormat' | 'leadershipPrinciples' | 'questionThemes'>
+): CompanyStyleProfile {
+  return {
+    name: profile.name,
+    values: profile.values,
+    interviewFormat: profile.interviewFormat,
+    leadershipPrinciples: profile.leadershipPrinciples,
+    questionThemes: profile.questionThemes,
+  };
+}
+
+export default {
+  createCompanyProfile,
+  listCompanyProfiles,
+  getCompanyProfile,
+  getCompanyProfileBySlug,
+  updateCompanyProfile,
+  deleteCompanyProfile,
+  seedCompanyProfiles,
+  matchCompanyProfile,
+  toCompanyStyleProfile,
+};
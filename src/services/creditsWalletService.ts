@@ -324,6 +324,34 @@ export async function restoreCredits(
   });
 }
 
+/**
+ * Give back the credit spent on an interview call that was cut short on our side
+ * (e.g. ended by the congruency policy). Only restores what the call actually
+ * spent (ledger key interview_<callId>), and shares /restore-credit's idempotency
+ * key so a client-side restore for the same call is a no-op.
+ */
+export async function restoreInterviewCredit(
+  callId: string,
+  reason: string
+): Promise<TransactionResult> {
+  const spend = await prisma.creditLedger.findUnique({
+    where: { idempotencyKey: `interview_${callId}` }
+  });
+  if (!spend) {
+    dbLogger.info('No credit spend recorded for call, nothing to restore', { callId });
+    return { success: false, newBalance: 0, ledgerEntryId: '', error: 'No credit spend for call' };
+  }
+
+  return restoreCredits(
+    spend.userId,
+    Math.abs(spend.amount),
+    reason,
+    'interview',
+    callId,
+    `restore_call_${callId}`
+  );
+}
+
 /**
  * Grant free trial credits to a new user
  */
@@ -478,6 +506,7 @@ export default {
   addCredits,
   spendCredits,
   restoreCredits,
+  restoreInterviewCredit,
   grantFreeTrialCredits,
   addPurchasedCredits,
   refundCredits,
@@ -5,15 +5,21 @@ import {
   generateMultilingualSystemPrompt, 
   generateInitialGreeting,
   getLanguageSpecificPhrases,
-  generateInterviewAlignedPrompt
+  generateInterviewAlignedPrompt,
+  type DynamicPromptConfig
 } from '../prompts/multilingualPrompts';
 import { 
   analyzeResumeJobCongruency, 
   generateGracefulEndingMessage,
   shouldCheckCongruency,
-  CongruencyAnalysis
+  resolveCongruencyPolicy,
+  decideCongruencyAction,
+  buildTransferableSkillsGuidance,
+  CongruencyAnalysis,
+  type CongruencyOutcome
 } from '../utils/congruencyAnalyzer';
-import { InterviewTimer } from '../utils/interviewTimer';
+import { InterviewTimer, parseTimerCheckpoints } from '../utils/interviewTimer';
+import { InterviewPlan } from '../utils/interviewPlan';
 import { wsLogger } from '../utils/logger';
 import { SupportedLanguageCode, isValidLanguageCode, getLanguageConfig } from '../types/multilingual';
 import { getCallContext } from './callContextService';
@@ -23,10 +29,56 @@ import {
   updateSessionTokens,
   finalizeSession,
   incrementClarificationTurns,
+  updateSessionPlanProgress,
+  updateSessionLanguageEvents,
+  updateSessionControlEvents,
+  updateSessionSilenceEvents,
+  updateSessionGuardrailEvents,
+  updateSessionTurnLatencies,
+  recordCongruencyOutcome,
+  incrementSilenceCount,
   type CreateSessionParams,
   type FinalizeSessionParams,
 } from './interviewSessionService';
-import postCallProcessingService from './postCallProcessingService';
+import { enqueuePostCallProcessing } from './postCallJobQueue';
+import { getRecruiterPromptLength } from './questionTemplateService';
+import {
+  saveInterviewCheckpoint,
+  loadInterviewCheckpoint,
+  clearInterviewCheckpoint,
+  scheduleFinalizationAfterGrace,
+  cancelScheduledFinalization,
+  RESUME_GRACE_MS,
+} from './interviewCheckpointService';
+import { resolveLLMConfig } from './llmConfigService';
+import { ConversationMemory } from '../utils/conversationMemory';
+import { DifficultyTracker } from '../utils/adaptiveDifficulty';
+import { LanguageMismatchMonitor, type LanguageMismatchPolicy } from '../utils/languageMismatch';
+import { detectCandidateControl, type CandidateControl, type CandidateControlEvent } from '../utils/candidateControls';
+import { SilencePolicyEngine, DEFAULT_SILENCE_POLICY, type SilenceContext } from '../utils/silencePolicy';
+import {
+  screenUntrustedText,
+  getInjectionGuidance,
+  StreamingOutputFilter,
+  type GuardrailEvent,
+  type GuardrailFinding,
+  type GuardrailSource,
+} from '../utils/guardrails';
+import { detectLanguageFromText } from './multilingualRetellService';
+import { evaluateAnswer } from './answerEvaluationService';
+import { upsertQuestionScore } from './questionScoreService';
+import { getInterviewModePack } from '../prompts/interviewModes';
+import { resolvePanel, buildPanelPrompt } from '../prompts/panelPersonas';
+import type { CompanyStyleProfile } from '../prompts/companyProfiles';
+import { PanelOrchestrator } from '../utils/panelOrchestrator';
+import { TurnLatencyTracker, type TurnLatency } from '../utils/turnLatency';
+import { trackTurnLatency } from '../middleware/observabilityMiddleware';
+import { restoreInterviewCredit } from './creditsWalletService';
+import {
+  createChatProviderChain,
+  type ChatProvider,
+  type ChatMessage,
+} from '../providers/chatProvider';
 
 /**
  * Retell Custom LLM WebSocket Handler
@@ -67,6 +119,13 @@ interface CustomLLMRequest {
     resume_mime_type?: string;
     interview_id?: string;
     preferred_language?: string; // User's preferred language (e.g., 'en-US', 'pt-BR', 'es-ES')
+    interview_mode?: string; // InterviewMode (BEHAVIORAL, CASE, ...)
+    interview_duration_minutes?: number; // Chosen at creation (drives credit cost)
+    timer_checkpoints?: Array<'halfway' | number>; // Spoken time notices
+    panel_personas?: string[]; // PanelPersonaKey list, lead first (panel interviews)
+    congruency_policy?: string; // CongruencyPolicy (OFF, WARN, ADAPT, END)
+    seniority?: string; // intern, junior, mid, senior, staff, principal (mapped via toSeniorityKey)
+    current_role?: string; // Candidate's current role (ROLE_CONFIGS key)
   };
   // Retell LLM dynamic variables passed during call
   retell_llm_dynamic_variables?: {
@@ -75,13 +134,16 @@ interface CustomLLMRequest {
     company_name?: string;
     job_description?: string;
     interviewee_cv?: string;
+    interview_id?: string;
     preferred_language?: string; // User's preferred language
+    interview_mode?: string;
   };
 }
 
 interface CustomLLMResponse {
   response_type: 'config' | 'response' | 'agent_interrupt';
   response_id?: number;
+  interrupt_id?: number;
   content?: string;
   content_complete?: boolean;
   end_call?: boolean;
@@ -94,13 +156,24 @@ interface CustomLLMResponse {
   };
 }
 
-interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+export interface CustomLLMHandlerOptions {
+  /** Override the resolved chat provider (tests, local development) */
+  chatProvider?: ChatProvider;
+  /** Secondary provider used after the primary fails mid-call */
+  fallbackChatProvider?: ChatProvider | null;
+  /**
+   * Call data for post-call processing when there is no Retell call to fetch it
+   * from (text chats). Awaited after the session is finalized.
+   */
+  prepareCallData?: (endReason: string) => Promise<Record<string, any> | undefined>;
 }
 
 // Constants for performance optimization
 const MAX_CONVERSATION_HISTORY = 20; // Limit to prevent memory bloat
+const TIME_UP_GRACE_SECONDS = parseInt(process.env.INTERVIEW_GRACE_SECONDS || '60'); // Finish-your-answer window
+const MAX_PAUSE_SECONDS = parseInt(process.env.INTERVIEW_MAX_PAUSE_SECONDS || '120'); // Candidate-requested pause
+const LANGUAGE_MISMATCH_POLICY: LanguageMismatchPolicy =
+  process.env.LANGUAGE_MISMATCH_POLICY === 'switch' ? 'switch' : 'steer';
 const MAX_RETRIES = 3;
 const BASE_RETRY_DELAY_MS = 500;
 
@@ -112,14 +185,40 @@ export class CustomLLMWebSocketHandler {
   private responseId: number = 0;
   private callId: string = '';
   private interviewTimer: InterviewTimer;
+  private hardStopTimeout: NodeJS.Timeout | null = null;
+  private interviewPlan: InterviewPlan | null = null;
   private congruencyChecked: boolean = false;
   private shouldEndInterview: boolean = false;
   private isExtremelyIncompatible: boolean = false;
+  private congruencyOutcome: CongruencyOutcome | null = null; // Fit check result and the policy's action
+  private congruencyGuidance: string | null = null; // Transferable-skills steering (ADAPT policy)
   private metadata: any = null;
+  private dynamicPromptConfig: DynamicPromptConfig | undefined; // Recruiter question bank
+  private companyProfile: CompanyStyleProfile | undefined; // Employer interview style
   private hasGreeted: boolean = false; // Track if we've sent initial greeting
-  private reminderCount: number = 0; // Track how many reminders we've sent
-  private readonly MAX_REMINDERS = 2; // After this many reminders, end call gracefully
+  private silencePolicy: SilencePolicyEngine = new SilencePolicyEngine(); // Reminder ladder when the candidate goes quiet
+  private panel: PanelOrchestrator | null = null; // Set for panel interviews
   private isProcessing: boolean = false; // Prevent concurrent processing
+  private chatProvider: ChatProvider | null = null;
+  private fallbackChatProvider: ChatProvider | null = null;
+  private prepareCallData: CustomLLMHandlerOptions['prepareCallData'];
+  private llmModel: string | undefined; // Model override for the primary provider
+  private hasFailedOver: boolean = false; // Sticky once the primary provider errors
+  private conversationMemory: ConversationMemory = new ConversationMemory();
+  private difficultyTracker: DifficultyTracker = new DifficultyTracker();
+  private languageMonitor: LanguageMismatchMonitor | null = null;
+  private controlEvents: CandidateControlEvent[] = [];
+  private guardrailEvents: GuardrailEvent[] = [];
+  private screenedResume: string | null = null; // Resume with injected instructions removed
+  private pendingTurnGuidance: string | null = null; // One-shot instruction (candidate request or silence rephrase)
+  private turnLatency: TurnLatencyTracker = new TurnLatencyTracker(); // Request -> first/last token per LLM turn
+  
+  // Resumable interviews (checkpointed per call_id)
+  private resumeChecked: boolean = false;
+  private isResumed: boolean = false;
+  private sessionCompleted: boolean = false;
+  private socketError: string | null = null;
+  private elapsedSecAtClose: number | null = null;
   
   // Metrics tracking
   private sessionId: string | null = null; // InterviewSession ID for metrics
@@ -130,13 +229,17 @@ export class CustomLLMWebSocketHandler {
   private callStartTime: Date | null = null;
   private firstUtteranceSent: boolean = false;
 
-  constructor(ws: WebSocket, openai: OpenAI, callId?: string) {
+  constructor(ws: WebSocket, openai: OpenAI, callId?: string, options: CustomLLMHandlerOptions = {}) {
     this.ws = ws;
     this.openai = openai;
     this.callId = callId || '';
+    this.chatProvider = options.chatProvider || null;
+    this.fallbackChatProvider = options.fallbackChatProvider || null;
+    this.prepareCallData = options.prepareCallData;
     this.callStartTime = new Date(); // Record call start for metrics
     this.interviewTimer = new InterviewTimer(
-      parseInt(process.env.MAX_INTERVIEW_DURATION_MINUTES || '15')
+      parseInt(process.env.MAX_INTERVIEW_DURATION_MINUTES || '15'),
+      { graceSeconds: TIME_UP_GRACE_SECONDS }
     );
     wsLogger.info('CustomLLMWebSocketHandler created', { 
       callId: this.callId
@@ -184,6 +287,14 @@ export class CustomLLMWebSocketHandler {
         hasMetadata: !!(request.metadata || request.retell_llm_dynamic_variables || request.call?.metadata)
       });
 
+      const isConversationEvent = request.interaction_type !== 'ping_pong' &&
+        request.interaction_type !== 'update_only';
+
+      // A reconnecting socket picks up the checkpointed interview instead of re-greeting
+      if (isConversationEvent && !this.resumeChecked) {
+        await this.restoreFromCheckpoint();
+      }
+
       switch (request.interaction_type) {
         case 'call_details':
           // New API - call_details replaces call_started
@@ -198,15 +309,18 @@ export class CustomLLMWebSocketHandler {
           break;
         
         case 'response_required':
+          this.turnLatency.begin(request.response_id ?? this.responseId, this.getElapsedSec());
           await this.handleResponseRequired(request);
           break;
         
         case 'reminder_required':
+          this.turnLatency.begin(request.response_id ?? this.responseId, this.getElapsedSec());
           await this.handleReminderRequired(request);
           break;
         
         case 'update_only':
           wsLogger.debug('Update only - no response needed', { callId: this.callId });
+          this.handleTranscriptUpdate(request);
           break;
           
         case 'ping_pong':
@@ -220,6 +334,10 @@ export class CustomLLMWebSocketHandler {
             type: (request as any).interaction_type 
           });
       }
+
+      if (isConversationEvent) {
+        this.saveCheckpoint();
+      }
     } catch (error: any) {
       wsLogger.error('Error handling Retell message', { 
         callId: this.callId, 
@@ -258,7 +376,7 @@ export class CustomLLMWebSocketHandler {
     
     // Get stored CallContext (contains preferred_language reliably)
     const callId = request.call?.call_id || request.call_id || this.callId;
-    const storedContext = getCallContext(callId);
+    const storedContext = await getCallContext(callId);
     
     wsLogger.info('Call details received - merging contexts', {
       callId,
@@ -272,7 +390,9 @@ export class CustomLLMWebSocketHandler {
     });
     
     // Merge metadata: prioritize stored context for language (since Retell may not forward it)
+    // Restored checkpoint metadata (if resuming) is kept as the base
     this.metadata = {
+      ...this.metadata,
       ...retellMetadata,
       // Use stored context as authoritative source for language
       preferred_language: storedContext?.preferredLanguage || retellMetadata.preferred_language || 'en-US',
@@ -282,7 +402,17 @@ export class CustomLLMWebSocketHandler {
       company_name: retellMetadata.company_name || storedContext?.companyName,
       job_description: retellMetadata.job_description || storedContext?.jobDescription,
       interviewee_cv: retellMetadata.interviewee_cv || storedContext?.intervieweeCV,
+      interview_id: retellMetadata.interview_id || storedContext?.interviewId,
+      interview_mode: storedContext?.interviewMode || retellMetadata.interview_mode,
+      interview_duration_minutes: storedContext?.durationMinutes ?? this.metadata?.interview_duration_minutes,
+      timer_checkpoints: storedContext?.timerCheckpoints ?? this.metadata?.timer_checkpoints,
+      panel_personas: storedContext?.panelPersonas ?? this.metadata?.panel_personas,
+      congruency_policy: storedContext?.congruencyPolicy ?? this.metadata?.congruency_policy,
+      seniority: storedContext?.seniority ?? this.metadata?.seniority,
+      current_role: storedContext?.currentRole ?? this.metadata?.current_role,
     };
+    this.dynamicPromptConfig = storedContext?.dynamicPromptConfig || this.dynamicPromptConfig;
+    this.companyProfile = storedContext?.companyProfile || this.companyProfile;
     
     wsLogger.info('Merged metadata for interview', {
       callId,
@@ -291,6 +421,11 @@ export class CustomLLMWebSocketHandler {
       position: this.metadata.job_title,
     });
 
+    if (this.isResumed) {
+      await this.resumeInterview();
+      return;
+    }
+
     // Proceed to start the interview (same logic as handleCallStarted)
     await this.startInterview();
   }
@@ -301,7 +436,7 @@ export class CustomLLMWebSocketHandler {
    */
   private async handleCallStarted(request: CustomLLMRequest) {
     const callId = request.call_id || this.callId;
-    const storedContext = getCallContext(callId);
+    const storedContext = await getCallContext(callId);
     
     wsLogger.info('Call session started (legacy)', {
       callId,
@@ -313,17 +448,276 @@ export class CustomLLMWebSocketHandler {
     
     // Merge metadata with stored context
     this.metadata = {
+      ...this.metadata,
       ...request.metadata,
       preferred_language: storedContext?.preferredLanguage || request.metadata?.preferred_language || 'en-US',
       first_name: request.metadata?.first_name || storedContext?.candidateName?.split(' ')[0],
       job_title: request.metadata?.job_title || storedContext?.jobTitle,
       company_name: request.metadata?.company_name || storedContext?.companyName,
+      interview_id: request.metadata?.interview_id || storedContext?.interviewId,
+      interview_mode: storedContext?.interviewMode || request.metadata?.interview_mode,
+      interview_duration_minutes: storedContext?.durationMinutes ?? this.metadata?.interview_duration_minutes,
+      timer_checkpoints: storedContext?.timerCheckpoints ?? this.metadata?.timer_checkpoints,
+      panel_personas: storedContext?.panelPersonas ?? this.metadata?.panel_personas,
+      congruency_policy: storedContext?.congruencyPolicy ?? this.metadata?.congruency_policy,
+      seniority: storedContext?.seniority ?? this.metadata?.seniority,
+      current_role: storedContext?.currentRole ?? this.metadata?.current_role,
     };
+    this.dynamicPromptConfig = storedContext?.dynamicPromptConfig || this.dynamicPromptConfig;
+    this.companyProfile = storedContext?.companyProfile || this.companyProfile;
+
+    if (this.isResumed) {
+      await this.resumeInterview();
+      return;
+    }
 
     // Start the interview
     await this.startInterview();
   }
 
+  /**
+   * Restore handler state from the last checkpoint for this call_id, if any.
+   * Runs once per socket, before the first conversation event is handled.
+   */
+  private async restoreFromCheckpoint() {
+    this.resumeChecked = true;
+
+    const checkpoint = await loadInterviewCheckpoint(this.callId);
+    if (!checkpoint || !checkpoint.flags.hasGreeted) {
+      return;
+    }
+
+    cancelScheduledFinalization(this.callId);
+
+    this.metadata = checkpoint.metadata;
+    this.dynamicPromptConfig = checkpoint.dynamicPromptConfig;
+    this.companyProfile = checkpoint.companyProfile;
+    this.systemPrompt = checkpoint.systemPrompt;
+    this.conversationHistory = checkpoint.conversationHistory;
+    this.responseId = checkpoint.responseId;
+    this.interviewTimer = InterviewTimer.fromState(checkpoint.timer);
+    this.interviewPlan = checkpoint.plan ? InterviewPlan.fromState(checkpoint.plan) : null;
+    if (checkpoint.memory) {
+      this.conversationMemory = ConversationMemory.fromState(checkpoint.memory);
+    }
+    if (checkpoint.difficulty) {
+      this.difficultyTracker = DifficultyTracker.fromState(checkpoint.difficulty);
+    }
+    if (checkpoint.language) {
+      this.languageMonitor = LanguageMismatchMonitor.fromState(checkpoint.language);
+    }
+    this.controlEvents = checkpoint.controls || [];
+    this.guardrailEvents = checkpoint.guardrails || [];
+    if (checkpoint.silence) {
+      this.silencePolicy = SilencePolicyEngine.fromState(checkpoint.silence);
+    }
+    if (checkpoint.latency) {
+      this.turnLatency = TurnLatencyTracker.fromState(checkpoint.latency);
+    }
+    if (checkpoint.congruency) {
+      this.congruencyOutcome = checkpoint.congruency;
+      this.congruencyGuidance = checkpoint.congruency.action === 'adapted'
+        ? buildTransferableSkillsGuidance(checkpoint.congruency)
+        : null;
+    }
+    this.panel = checkpoint.panel ? PanelOrchestrator.fromState(checkpoint.panel) : null;
+
+    this.hasGreeted = checkpoint.flags.hasGreeted;
+    this.congruencyChecked = checkpoint.flags.congruencyChecked;
+    this.shouldEndInterview = checkpoint.flags.shouldEndInterview;
+    this.isExtremelyIncompatible = checkpoint.flags.isExtremelyIncompatible;
+    this.firstUtteranceSent = checkpoint.flags.firstUtteranceSent;
+
+    this.sessionId = checkpoint.metrics.sessionId;
+    this.totalPromptTokens = checkpoint.metrics.totalPromptTokens;
+    this.totalCompletionTokens = checkpoint.metrics.totalCompletionTokens;
+    this.turnCount = checkpoint.metrics.turnCount;
+    this.clarificationCount = checkpoint.metrics.clarificationCount;
+
+    // Keep the same provider (including a sticky failover) unless one was injected
+    if (!this.chatProvider && checkpoint.llm.provider) {
+      const chain = createChatProviderChain(
+        checkpoint.llm.provider,
+        checkpoint.llm.fallbackProvider || undefined,
+        { openai: this.openai }
+      );
+      this.chatProvider = chain.primary;
+      this.fallbackChatProvider = chain.fallback;
+      this.llmModel = checkpoint.llm.model;
+      this.hasFailedOver = checkpoint.llm.hasFailedOver;
+    }
+
+    this.isResumed = true;
+    if (!this.interviewTimer.isPaused()) {
+      this.scheduleHardStop();
+    }
+
+    wsLogger.info('Interview resumed from checkpoint', {
+      callId: this.callId,
+      elapsed: this.interviewTimer.getFormattedElapsedTime(),
+      historyLength: this.conversationHistory.length,
+      phase: this.interviewPlan?.getCurrentPhase(),
+      checkpointAgeMs: Date.now() - checkpoint.savedAt,
+    });
+  }
+
+  /**
+   * Pick up where the interview left off: repeat the last thing the agent said
+   * (already in the interview language) instead of greeting again
+   */
+  private async resumeInterview() {
+    const lastAgentMessage = [...this.conversationHistory]
+      .reverse()
+      .find((m) => m.role === 'assistant');
+
+    if (!lastAgentMessage) {
+      await this.startInterview();
+      return;
+    }
+
+    await this.sendAgentInterrupt(lastAgentMessage.content, false);
+  }
+
+  /**
+   * Checkpoint current state (non-blocking). Skipped once the session is finalized.
+   */
+  private saveCheckpoint() {
+    if (!this.callId || !this.hasGreeted || this.sessionCompleted) {
+      return;
+    }
+
+    // The base64 resume is large and is restored from the call context on reconnect
+    const { interviewee_cv, ...metadata } = this.metadata || {};
+
+    saveInterviewCheckpoint({
+      callId: this.callId,
+      metadata: this.metadata ? metadata : null,
+      dynamicPromptConfig: this.dynamicPromptConfig,
+      companyProfile: this.companyProfile,
+      systemPrompt: this.systemPrompt,
+      conversationHistory: this.conversationHistory,
+      responseId: this.responseId,
+      timer: this.interviewTimer.toState(),
+      plan: this.interviewPlan?.toState() || null,
+      memory: this.conversationMemory.toState(),
+      difficulty: this.difficultyTracker.toState(),
+      language: this.languageMonitor?.toState(),
+      controls: this.controlEvents,
+      guardrails: this.guardrailEvents,
+      silence: this.silencePolicy.toState(),
+      latency: this.turnLatency.toState(),
+      congruency: this.congruencyOutcome ?? undefined,
+      panel: this.panel?.toState(),
+      flags: {
+        hasGreeted: this.hasGreeted,
+        congruencyChecked: this.congruencyChecked,
+        shouldEndInterview: this.shouldEndInterview,
+        isExtremelyIncompatible: this.isExtremelyIncompatible,
+        firstUtteranceSent: this.firstUtteranceSent,
+      },
+      llm: {
+        provider: this.chatProvider?.name || null,
+        fallbackProvider: this.fallbackChatProvider?.name || null,
+        model: this.llmModel,
+        hasFailedOver: this.hasFailedOver,
+      },
+      metrics: {
+        sessionId: this.sessionId,
+        totalPromptTokens: this.totalPromptTokens,
+        totalCompletionTokens: this.totalCompletionTokens,
+        turnCount: this.turnCount,
+        clarificationCount: this.clarificationCount,
+      },
+    });
+  }
+
+  /**
+   * Apply the interview's duration (chosen at creation, else the mode default),
+   * checkpoint schedule and the mode's silence policy, then arm the hard stop
+   */
+  private configureInterviewPacing() {
+    const modePack = getInterviewModePack(this.metadata?.interview_mode);
+    const durationMinutes = Number(this.metadata?.interview_duration_minutes) || modePack.durationMinutes;
+    if (durationMinutes) {
+      this.interviewTimer.setMaxDurationMinutes(durationMinutes);
+    }
+
+    const checkpoints = parseTimerCheckpoints(this.metadata?.timer_checkpoints);
+    if (checkpoints) {
+      this.interviewTimer.setCheckpoints(checkpoints);
+    }
+
+    this.silencePolicy.setSteps(modePack.silencePolicy || DEFAULT_SILENCE_POLICY);
+
+    this.scheduleHardStop();
+  }
+
+  /**
+   * Seat the panel chosen at creation; interviews without one (or with fewer
+   * than two valid personas) keep the single interviewer
+   */
+  private configurePanel() {
+    const personas = resolvePanel(this.metadata?.panel_personas);
+    this.panel = personas.length > 0 ? new PanelOrchestrator(personas) : null;
+  }
+
+  /**
+   * End the call once the grace period runs out, even if the candidate is
+   * still talking (response_required never fires during a long answer)
+   */
+  private scheduleHardStop() {
+    this.clearHardStop();
+    this.hardStopTimeout = setTimeout(() => {
+      this.hardStopTimeout = null;
+      if (this.sessionCompleted || this.ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      wsLogger.info('Grace period over - ending call', { callId: this.callId });
+      const timeUpMessage = this.interviewTimer.getTimeUpMessage(this.getPreferredLanguage());
+      const response: CustomLLMResponse = {
+        response_type: 'agent_interrupt',
+        interrupt_id: this.responseId,
+        content: timeUpMessage,
+        content_complete: true,
+        end_call: true,
+        end_call_after_spoken: true,
+        end_call_reason: 'max_duration',
+        no_interruption_allowed: true,
+      };
+      this.ws.send(JSON.stringify(response));
+      this.conversationHistory.push({ role: 'assistant', content: timeUpMessage });
+      this.completeSession('max_duration');
+    }, this.interviewTimer.getMsUntilHardStop());
+  }
+
+  private clearHardStop() {
+    if (this.hardStopTimeout) {
+      clearTimeout(this.hardStopTimeout);
+      this.hardStopTimeout = null;
+    }
+  }
+
+  /**
+   * Interview-aligned system prompt for the current metadata, in the given language
+   */
+  private buildInterviewSystemPrompt(language: SupportedLanguageCode): string {
+    const prompt = generateInterviewAlignedPrompt({
+      language,
+      roleTitle: this.metadata?.job_title || 'Position',
+      // Get seniority from metadata or default to 'mid'
+      seniority: this.metadata?.seniority || 'mid',
+      companyName: this.metadata?.company_name,
+      jobDescription: this.metadata?.job_description,
+      resumeContext: this.getScreenedResume(),
+      roleCountry: this.metadata?.role_country,
+      dynamicConfig: this.dynamicPromptConfig,
+      companyProfile: this.companyProfile,
+      interviewMode: getInterviewModePack(this.metadata?.interview_mode).mode,
+    });
+    return this.panel ? `${prompt}\n${buildPanelPrompt(this.panel.getPersonas())}` : prompt;
+  }
+
   /**
    * Start the interview - shared logic for call_details and call_started
    * 
@@ -336,7 +730,9 @@ export class CustomLLMWebSocketHandler {
   private async startInterview() {
     // OPTIMIZATION: Perform congruency check in BACKGROUND after greeting
     // This eliminates 1-3 seconds of latency before the agent speaks
-    if (this.metadata?.interviewee_cv && this.metadata?.job_title) {
+    if (resolveCongruencyPolicy(this.metadata?.congruency_policy) === 'OFF') {
+      this.congruencyChecked = true;
+    } else if (this.metadata?.interviewee_cv && this.metadata?.job_title) {
       // Fire async congruency check - don't await it
       this.performBackgroundCongruencyCheck();
     }
@@ -344,17 +740,25 @@ export class CustomLLMWebSocketHandler {
     // Extract language preference from metadata (set by multilingualRetellService)
     const preferredLanguage = this.getPreferredLanguage();
     const isMultilingual = preferredLanguage !== 'en-US';
+    const modePack = getInterviewModePack(this.metadata?.interview_mode);
+    this.configureInterviewPacing();
+    this.configurePanel();
 
     wsLogger.info('Starting interview with language context', {
       callId: this.callId,
       preferredLanguage,
       isMultilingual,
       candidateName: this.metadata?.first_name,
+      interviewMode: modePack.mode,
+      durationMinutes: this.interviewTimer.getMaxDurationMinutes(),
+      panel: this.panel?.getPersonas().map((p) => p.key),
     });
 
     // Create InterviewSession for metrics tracking (async, non-blocking)
     this.createSessionForMetrics(preferredLanguage);
 
+    this.resolveChatProviders(preferredLanguage);
+
     // Proceed with normal interview start
     if (this.metadata) {
       const fieldPrompt = getFieldPrompt(
@@ -370,7 +774,8 @@ export class CustomLLMWebSocketHandler {
           preferredLanguage,
           this.metadata.first_name || 'there',
           this.metadata.job_title || 'this position',
-          this.metadata.company_name || 'your target company'
+          this.metadata.company_name || 'your target company',
+          this.interviewTimer.getMaxDurationMinutes()
         );
       } else {
         // Use default English greeting
@@ -378,26 +783,14 @@ export class CustomLLMWebSocketHandler {
           fieldPrompt,
           this.metadata.first_name || 'there',
           this.metadata.job_title || 'this position',
-          this.metadata.company_name || 'your target company'
+          this.metadata.company_name || 'your target company',
+          this.interviewTimer.getMaxDurationMinutes()
         );
       }
       
       // OPTIMIZED: Use interview-aligned prompt for better questioning
-      // Get seniority from metadata or default to 'mid'
-      const seniority = this.metadata.seniority || 'mid';
-      
       // Use the new interview-aligned prompt generator
-      this.systemPrompt = generateInterviewAlignedPrompt({
-        language: preferredLanguage,
-        roleTitle: this.metadata.job_title || 'Position',
-        seniority: seniority,
-        companyName: this.metadata.company_name,
-        jobDescription: this.metadata.job_description,
-        resumeContext: this.metadata.interviewee_cv,
-        roleCountry: this.metadata.role_country,
-        // B2B mode disabled for now (feature flagged OFF)
-        dynamicConfig: undefined,
-      });
+      this.systemPrompt = this.buildInterviewSystemPrompt(preferredLanguage);
 
       this.conversationHistory.push({
         role: 'system',
@@ -413,6 +806,7 @@ export class CustomLLMWebSocketHandler {
         greetingLength: personalizedGreeting.length 
       });
       this.hasGreeted = true;
+      this.startInterviewPlan(personalizedGreeting);
       await this.sendAgentInterrupt(personalizedGreeting, false);
     } else {
       wsLogger.warn('No metadata received - sending generic greeting', { callId: this.callId });
@@ -447,10 +841,397 @@ Ask one question at a time and adapt based on candidate responses.`;
       });
       
       this.hasGreeted = true;
+      this.startInterviewPlan(genericGreeting);
       await this.sendAgentInterrupt(genericGreeting, false);
     }
   }
 
+  /**
+   * Build the structured interview plan once the greeting (intro step) goes out
+   */
+  private startInterviewPlan(greeting: string) {
+    const modePack = getInterviewModePack(this.metadata?.interview_mode);
+    this.interviewPlan = new InterviewPlan(this.metadata?.job_title || 'default', {
+      customQuestions: this.dynamicPromptConfig?.dynamicVariables?.custom_questions,
+      interviewMode: modePack.mode,
+      targetCompetencyQuestions: modePack.competencyQuestionCount,
+      phaseGuidance: modePack.phaseGuidance,
+      includeBackground: modePack.includeBackground,
+      includeCandidateQuestions: modePack.includeCandidateQuestions,
+    });
+    // The greeting is the lead panelist's step; they introduce themselves on their next turn
+    const lead = this.panel?.getSpeakerForStep(0, this.interviewPlan.getCurrentStep());
+    this.interviewPlan.recordQuestion(greeting, this.getElapsedSec(), lead?.key);
+
+    wsLogger.info('Interview plan started', {
+      callId: this.callId,
+      competencies: this.interviewPlan.getSnapshot().competencies,
+    });
+  }
+
+  private advanceInterviewPlan(answer: string) {
+    if (!this.interviewPlan) {
+      return;
+    }
+
+    const answered = this.interviewPlan.getCurrentQuestion();
+    if (!this.interviewPlan.recordAnswer(answer, this.getElapsedSec())) {
+      // Open-ended step (candidate questions) continues
+      return;
+    }
+    if (answered) {
+      this.persistQuestionScore(answered.step);
+    }
+    wsLogger.debug('Interview plan advanced', {
+      callId: this.callId,
+      phase: this.interviewPlan.getCurrentPhase(),
+      coverage: this.interviewPlan.getCoverage(),
+    });
+    this.persistPlanProgress();
+  }
+
+  /**
+   * Track the language of each answer; steer the candidate back or switch the
+   * interview language once they consistently answer in another language
+   */
+  private checkAnswerLanguage(answer: string) {
+    if (!this.languageMonitor) {
+      this.languageMonitor = new LanguageMismatchMonitor(this.getPreferredLanguage(), LANGUAGE_MISMATCH_POLICY);
+    }
+
+    const event = this.languageMonitor.observe(detectLanguageFromText(answer));
+    if (!event) {
+      return;
+    }
+
+    wsLogger.info('Language mismatch detected', {
+      callId: this.callId,
+      expectedLanguage: event.expectedLanguage,
+      detectedLanguage: event.detectedLanguage,
+      action: event.action,
+    });
+
+    if (event.action === 'switch') {
+      this.switchInterviewLanguage(event.detectedLanguage);
+    }
+
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      updateSessionLanguageEvents(interviewId, this.languageMonitor.getEvents());
+    }
+  }
+
+  /**
+   * Continue the interview in another language: regenerate the system prompt
+   * (the multilingual Retell agent follows the language of the text it speaks)
+   */
+  private switchInterviewLanguage(language: SupportedLanguageCode) {
+    this.metadata = { ...this.metadata, preferred_language: language };
+    this.systemPrompt = this.buildInterviewSystemPrompt(language);
+    if (this.conversationHistory[0]?.role === 'system') {
+      this.conversationHistory[0] = { role: 'system', content: this.systemPrompt };
+    }
+  }
+
+  /**
+   * Execute a candidate control command deterministically. Returns true when
+   * the utterance was fully handled and no interview reply should follow.
+   * Any utterance during a pause resumes the interview.
+   */
+  private async handleCandidateControl(utterance: string): Promise<boolean> {
+    const language = this.getPreferredLanguage();
+    const paused = this.interviewTimer.isPaused();
+    const control = detectCandidateControl(utterance, language, { paused });
+
+    if (paused && control !== 'pause') {
+      this.resumeFromPause();
+      if (control === 'resume') {
+        this.conversationHistory.push({ role: 'user', content: utterance });
+        await this.sendResumeMessage();
+        return true;
+      }
+    }
+
+    if (!control || control === 'resume') {
+      return false;
+    }
+
+    wsLogger.info('Candidate control command', { callId: this.callId, control });
+    this.recordControlEvent(control);
+    this.conversationHistory.push({ role: 'user', content: utterance });
+    const phrases = getLanguageSpecificPhrases(language);
+
+    switch (control) {
+      case 'repeat':
+        await this.sendResponse(this.getLastAgentQuestion() || phrases.reminders.silence, false);
+        return true;
+
+      case 'rephrase':
+        this.pendingTurnGuidance = [
+          '<candidate_request>',
+          '  The candidate did not understand your last question. Ask the same question again in simpler words,',
+          '  without changing what it asks for. Do not move on to a new question.',
+          '</candidate_request>',
+        ].join('\n');
+        await this.generateAndSendResponse();
+        return true;
+
+      case 'skip':
+        this.interviewPlan?.skip();
+        this.persistPlanProgress();
+        this.pendingTurnGuidance = [
+          '<candidate_request>',
+          '  The candidate asked to skip the previous question. Acknowledge it in a few neutral words,',
+          '  without judgment, and ask the next question.',
+          '</candidate_request>',
+        ].join('\n');
+        await this.generateAndSendResponse(
+          this.interviewPlan?.isWrappingUp() ? { endReason: 'completed' } : {}
+        );
+        return true;
+
+      case 'pause':
+        this.interviewTimer.pause();
+        this.clearHardStop();
+        await this.sendResponse(phrases.reminders.pauseAck, false);
+        return true;
+
+      case 'end':
+        await this.sendResponseWithReason(phrases.transitions.closing, true, 'user_request');
+        return true;
+    }
+  }
+
+  /**
+   * Restart the interview clock after a pause and re-arm the hard stop
+   */
+  private resumeFromPause() {
+    const pausedSec = this.interviewTimer.resume();
+    this.recordControlEvent('resume');
+    this.scheduleHardStop();
+    wsLogger.info('Interview resumed after pause', { callId: this.callId, pausedSec });
+  }
+
+  /**
+   * Welcome the candidate back and repeat the question that was pending
+   */
+  private async sendResumeMessage() {
+    const { reminders } = getLanguageSpecificPhrases(this.getPreferredLanguage());
+    const question = this.getLastAgentQuestion();
+    await this.sendResponse(question ? `${reminders.resumed} ${question}` : reminders.resumed, false);
+  }
+
+  /**
+   * Full text of the question the candidate is answering: the agent message the
+   * plan recorded for the current step, else the last agent message that is not
+   * a pause acknowledgment
+   */
+  private getLastAgentQuestion(): string | null {
+    const { reminders } = getLanguageSpecificPhrases(this.getPreferredLanguage());
+    const recorded = this.interviewPlan?.getCurrentQuestion()?.question;
+    const agentMessages = this.conversationHistory
+      .filter((m) => m.role === 'assistant' && m.content !== reminders.pauseAck)
+      .reverse();
+
+    const match = recorded ? agentMessages.find((m) => m.content.startsWith(recorded)) : undefined;
+    return (match || agentMessages[0])?.content || null;
+  }
+
+  /**
+   * Log a control event (interview time, excluding pauses) and persist the list (non-blocking)
+   */
+  private recordControlEvent(control: CandidateControl) {
+    this.controlEvents.push({
+      control,
+      step: this.interviewPlan?.getCurrentQuestion()?.step,
+      phase: this.interviewPlan?.getCurrentPhase(),
+      atSec: Math.floor(this.interviewTimer.getElapsedMinutes() * 60),
+    });
+
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      updateSessionControlEvents(interviewId, this.controlEvents);
+    }
+  }
+
+  /**
+   * Persist plan progress to InterviewSession (non-blocking)
+   */
+  private persistPlanProgress() {
+    const interviewId = this.metadata?.interview_id;
+    if (!interviewId || !this.interviewPlan) {
+      return;
+    }
+
+    const snapshot = this.interviewPlan.getSnapshot();
+    updateSessionPlanProgress(interviewId, {
+      phaseReached: snapshot.phaseReached,
+      planStepsCompleted: snapshot.stepsCompleted,
+      planStepsTotal: snapshot.totalSteps,
+      plannedCompetencies: snapshot.competencies,
+      questionsAsked: snapshot.questionsAsked,
+      difficultyTrajectory: this.difficultyTracker.getTrajectory(),
+    });
+  }
+
+  /**
+   * Write the per-question record for an answered plan step (non-blocking).
+   * Upserted, so a score that arrives after the step advanced fills in the same row.
+   */
+  private persistQuestionScore(step: number) {
+    const interviewId = this.metadata?.interview_id;
+    const asked = this.interviewPlan?.getAskedQuestion(step);
+    if (!interviewId || !asked) {
+      return;
+    }
+
+    const scored = this.difficultyTracker.getTrajectory().find((t) => t.step === step);
+    upsertQuestionScore(interviewId, {
+      stepIndex: step,
+      phase: asked.phase,
+      questionText: asked.question,
+      askedAtSec: asked.askedAtSec,
+      answerStartSec: asked.answerStartSec,
+      answerEndSec: asked.answerEndSec,
+      competencyTags: asked.competency ? [asked.competency] : [],
+      askedBy: asked.askedBy,
+      preliminaryScore: scored?.score,
+      evidence: scored?.evidence,
+      difficultyLevel: scored?.level,
+    });
+  }
+
+  /**
+   * Mark when the candidate starts answering the current question (answer span start)
+   */
+  private handleTranscriptUpdate(request: CustomLLMRequest) {
+    const lastUtterance = request.transcript?.[request.transcript.length - 1];
+    if (lastUtterance?.role === 'user' && lastUtterance.content.trim()) {
+      this.interviewPlan?.markAnswerStarted(this.getElapsedSec());
+    }
+  }
+
+  /**
+   * Score the answer to a competency question against its anchors (non-blocking).
+   * The reply doesn't wait for it; once the score lands, the adjusted difficulty
+   * applies to the next competency question generated.
+   */
+  private evaluateCompetencyAnswer(answer: string) {
+    const asked = this.interviewPlan?.getCurrentQuestion();
+    if (!asked?.competency || !this.chatProvider) {
+      return;
+    }
+
+    const competency = asked.competency;
+    const provider = this.chatProvider;
+    evaluateAnswer(provider, {
+      competency,
+      question: asked.question,
+      answer,
+      roleTitle: this.metadata?.job_title || 'Position',
+    }, this.llmModel)
+      .then((result) => {
+        if (!result) {
+          return;
+        }
+        this.logTokenUsage(
+          result.usage.promptTokens,
+          result.usage.completionTokens,
+          result.usage.model,
+          result.usage.provider
+        );
+
+        const recorded = this.difficultyTracker.recordScore({
+          step: asked.step,
+          competency,
+          question: asked.question,
+          score: result.score,
+          evidence: result.evidence,
+        });
+        wsLogger.debug('Answer scored', {
+          callId: this.callId,
+          competency,
+          score: recorded.score,
+          level: recorded.level,
+          nextLevel: recorded.nextLevel,
+        });
+        this.persistPlanProgress();
+        // Late score for a step already recorded by advanceInterviewPlan
+        if (asked.answered) {
+          this.persistQuestionScore(asked.step);
+        }
+      })
+      .catch((error: any) => {
+        wsLogger.warn('Failed to score answer', {
+          callId: this.callId,
+          provider: provider.name,
+          error: error.message,
+        });
+      });
+  }
+
+  /**
+   * Select primary/fallback chat providers, the memory mode and the starting
+   * difficulty for this interview via resolveLLMConfig.
+   * Providers injected through the constructor take precedence.
+   */
+  private resolveChatProviders(language: SupportedLanguageCode) {
+    const llmConfig = resolveLLMConfig({
+      currentRole: this.metadata?.current_role,
+      jobTitle: this.metadata?.job_title || 'Position',
+      seniority: this.metadata?.seniority,
+      language,
+      durationMinutes: Number(this.metadata?.interview_duration_minutes) || undefined,
+      companyName: this.metadata?.company_name,
+      llmProvider: this.metadata?.llm_provider,
+    });
+    this.conversationMemory = new ConversationMemory(llmConfig.memoryMode);
+    this.difficultyTracker = new DifficultyTracker(llmConfig.questionComplexity);
+
+    if (this.chatProvider) {
+      return;
+    }
+
+    const chain = createChatProviderChain(
+      llmConfig.llmProvider,
+      llmConfig.fallbackLLMProvider,
+      { openai: this.openai }
+    );
+    this.chatProvider = chain.primary;
+    this.fallbackChatProvider = chain.fallback;
+    this.llmModel = chain.primary.name === llmConfig.llmProvider ? llmConfig.llmModel : undefined;
+
+    wsLogger.info('Chat provider selected', {
+      callId: this.callId,
+      provider: this.chatProvider.name,
+      model: this.llmModel || this.chatProvider.defaultModel,
+      fallback: this.fallbackChatProvider?.name,
+    });
+  }
+
+  /**
+   * Switch to the fallback provider for the rest of the call.
+   * Returns false if there is nothing to fail over to.
+   */
+  private failOverChatProvider(error: Error): boolean {
+    if (this.hasFailedOver || !this.fallbackChatProvider) {
+      return false;
+    }
+
+    wsLogger.warn('Primary chat provider failed, switching to fallback', {
+      callId: this.callId,
+      from: this.chatProvider?.name,
+      to: this.fallbackChatProvider.name,
+      error: error.message,
+    });
+
+    this.chatProvider = this.fallbackChatProvider;
+    this.fallbackChatProvider = null;
+    this.llmModel = undefined;
+    this.hasFailedOver = true;
+    return true;
+  }
+
   /**
    * Get preferred language from metadata
    * Falls back to 'en-US' if not specified
@@ -548,6 +1329,8 @@ Ask one question at a time and adapt based on candidate responses.`;
       const preferredLanguage = this.getPreferredLanguage();
       const isMultilingual = preferredLanguage !== 'en-US';
       const languageConfig = getLanguageConfig(preferredLanguage);
+      this.configureInterviewPacing();
+      const durationMinutes = this.interviewTimer.getMaxDurationMinutes();
 
       // Setup system prompt with language context
       const fieldPrompt = getFieldPrompt(
@@ -576,7 +1359,7 @@ Ask one question at a time and adapt based on candidate responses.`;
   <rule>Keep responses concise (2-3 sentences max)</rule>
   <rule>Ask one question at a time</rule>
   <rule>Conduct the ENTIRE interview in ${languageConfig.name}</rule>
-  <rule>Maximum interview duration is 15 minutes</rule>
+  <rule>Maximum interview duration is ${durationMinutes} minutes</rule>
 </response_rules>`;
 
         // Generate localized greeting
@@ -584,7 +1367,8 @@ Ask one question at a time and adapt based on candidate responses.`;
           preferredLanguage,
           this.metadata?.first_name || 'there',
           this.metadata?.job_title || 'this position',
-          this.metadata?.company_name || 'your target company'
+          this.metadata?.company_name || 'your target company',
+          durationMinutes
         );
         
         this.conversationHistory.push({
@@ -593,6 +1377,7 @@ Ask one question at a time and adapt based on candidate responses.`;
         });
 
         this.hasGreeted = true;
+        this.startInterviewPlan(greeting);
         await this.sendResponse(greeting, false);
         return;
       }
@@ -610,33 +1395,41 @@ INSTRUCTIONS:
 - Ask one question at a time
 - Be conversational and natural
 - Adapt follow-up questions based on candidate responses
-- Maximum interview duration is 15 minutes`;
+- Maximum interview duration is ${durationMinutes} minutes`;
 
       this.conversationHistory.push({
         role: 'system',
         content: this.systemPrompt
       });
 
+      const initialMessage = formatInitialMessage(
+        fieldPrompt,
+        this.metadata?.first_name || 'there',
+        this.metadata?.job_title || 'this position',
+        this.metadata?.company_name || 'your target company',
+        durationMinutes
+      );
+
       this.hasGreeted = true;
+      this.startInterviewPlan(initialMessage);
       
       // Send greeting as a regular response (not agent_interrupt since we're responding to a request)
-      await this.sendResponse(fieldPrompt.initialMessage, false);
+      await this.sendResponse(initialMessage, false);
       return;
     }
     
-    // Check timer first
+    // Check timer first: time is up, let the candidate finish their answer once
     if (this.interviewTimer.hasExceededTime()) {
-      wsLogger.info('Interview time exceeded', { callId: this.callId });
-      const timeUpMessage = this.interviewTimer.getTimeUpMessage();
-      await this.sendResponse(timeUpMessage, true);
-      return;
-    }
+      const language = this.getPreferredLanguage();
+      if (this.interviewTimer.shouldAnnounceGrace()) {
+        wsLogger.info('Interview time reached - grace period started', { callId: this.callId });
+        this.interviewPlan?.skipToClosing();
+        await this.sendResponse(this.interviewTimer.getGraceMessage(language), false);
+        return;
+      }
 
-    // Check if warning needed
-    if (this.interviewTimer.shouldWarn()) {
-      wsLogger.info('Sending time warning', { callId: this.callId });
-      const warningMessage = this.interviewTimer.getWarningMessage();
-      await this.sendResponse(warningMessage, false);
+      wsLogger.info('Interview time exceeded - ending call', { callId: this.callId });
+      await this.sendResponseWithReason(this.interviewTimer.getTimeUpMessage(language), true, 'max_duration');
       return;
     }
 
@@ -649,36 +1442,36 @@ INSTRUCTIONS:
       return;
     }
 
-    // Reset reminder count since user is responding
-    this.reminderCount = 0;
+    // The candidate is talking again: close any silence on the timeline
+    if (this.silencePolicy.recordResponse(this.getSilenceContext())) {
+      this.persistSilenceEvents();
+    }
 
     wsLogger.debug('User message received', { 
       callId: this.callId, 
       contentLength: lastMessage.content.length 
     });
 
-    // Check if interview time is almost up (2 min warning)
-    if (this.interviewTimer.shouldWarn()) {
-      wsLogger.info('Interview time warning - 2 minutes remaining', { callId: this.callId });
-      const warningMessage = this.interviewTimer.getWarningMessage();
-      await this.sendResponse(warningMessage, false);
-      // Continue processing after warning
+    // Repeat / rephrase / skip / pause / end requests are executed, not answered
+    if (await this.handleCandidateControl(lastMessage.content)) {
+      return;
     }
 
-    // Check if interview time has exceeded
-    if (this.interviewTimer.hasExceededTime()) {
-      wsLogger.info('Interview time exceeded - ending call', { callId: this.callId });
-      const timeUpMessage = this.interviewTimer.getTimeUpMessage();
-      await this.sendResponseWithReason(timeUpMessage, true, 'max_duration');
-      return;
+    // Move the plan to closing questions when the end is near
+    if (this.interviewTimer.shouldWarn()) {
+      wsLogger.info('Interview time warning - entering closing window', { callId: this.callId });
+      this.interviewPlan?.skipToClosing();
     }
 
-    // Add user message to history
+    // Add user message to history, with any instructions aimed at the interviewer removed
+    const answer = this.screenCandidateUtterance(lastMessage.content);
     this.conversationHistory.push({
       role: 'user',
-      content: lastMessage.content
+      content: answer
     });
 
+    this.checkAnswerLanguage(lastMessage.content);
+
     // Check congruency if appropriate timing
     if (!this.congruencyChecked && this.metadata && 
         shouldCheckCongruency(
@@ -700,8 +1493,38 @@ INSTRUCTIONS:
       return;
     }
 
+    // Candidate answered the current plan step - score it in the background, then move on once the step is done
+    this.evaluateCompetencyAnswer(answer);
+    this.advanceInterviewPlan(answer);
+
+    // Spoken time checkpoint (halfway, N minutes left) opens the reply
+    const preamble = this.takeTimeCheckpointNotice();
+
+    // Plan has reached its closing step: the next agent turn wraps up and ends the call
+    if (this.interviewPlan?.isWrappingUp()) {
+      await this.generateAndSendResponse({ endReason: 'completed', preamble });
+      return;
+    }
+
     // Generate AI response
-    await this.generateAndSendResponse();
+    await this.generateAndSendResponse({ preamble });
+  }
+
+  /**
+   * The time checkpoint notice due now (halfway, N minutes left), if any
+   */
+  private takeTimeCheckpointNotice(): string | undefined {
+    const checkpoint = this.interviewTimer.takeDueCheckpoint();
+    if (!checkpoint) {
+      return undefined;
+    }
+
+    wsLogger.info('Sending time checkpoint', {
+      callId: this.callId,
+      checkpoint: checkpoint.checkpoint,
+      remainingMinutes: checkpoint.remainingMinutes,
+    });
+    return this.interviewTimer.getCheckpointMessage(checkpoint, this.getPreferredLanguage());
   }
 
   /**
@@ -709,41 +1532,136 @@ INSTRUCTIONS:
    * Retell sends this before potentially ending the call due to silence
    */
   private async handleReminderRequired(request: CustomLLMRequest) {
-    this.reminderCount++;
-    wsLogger.info('Reminder required - user not responding', { 
-      callId: this.callId, 
-      reminderCount: this.reminderCount,
-      maxReminders: this.MAX_REMINDERS
+    // Silence is expected during a pause; pick the interview back up once it runs long
+    if (this.interviewTimer.isPaused()) {
+      if (this.interviewTimer.getPausedSeconds() < MAX_PAUSE_SECONDS) {
+        return;
+      }
+      wsLogger.info('Pause limit reached - resuming interview', { callId: this.callId });
+      this.resumeFromPause();
+      await this.sendResumeMessage();
+      return;
+    }
+
+    if (request.response_id !== undefined) {
+      this.responseId = request.response_id;
+    }
+
+    // Escalate through the mode's silence policy: nudge, rephrase, offer to move on, end
+    const event = this.silencePolicy.escalate(this.getSilenceContext());
+    wsLogger.info('Reminder required - user not responding', {
+      callId: this.callId,
+      action: event.action,
+      level: event.level,
     });
 
-    // If we've sent too many reminders, end the call gracefully
-    if (this.reminderCount >= this.MAX_REMINDERS) {
-      wsLogger.info('Max reminders reached - ending call due to silence', { callId: this.callId });
-      const farewellMessage = "I notice you've been quiet for a while. " +
-        "That's completely okay - interviews can be challenging. " +
-        "I'm going to end our session here to save your time. " +
-        "Feel free to start a new interview whenever you're ready. " +
-        "Take care, and good luck with your job search!";
-      
-      await this.sendResponseWithReason(farewellMessage, true, 'silence');
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      incrementSilenceCount(interviewId);
+    }
+    this.persistSilenceEvents();
+
+    const language = this.getPreferredLanguage();
+    switch (event.action) {
+      case 'nudge':
+      case 'offer_skip':
+        await this.sendResponse(this.silencePolicy.getMessage(event.action, language), false);
+        return;
+
+      case 'rephrase':
+        this.pendingTurnGuidance = this.silencePolicy.getRephraseGuidance();
+        await this.generateAndSendResponse();
+        return;
+
+      case 'end':
+        wsLogger.info('Silence policy exhausted - ending call', { callId: this.callId });
+        await this.sendResponseWithReason(this.silencePolicy.getMessage('end', language), true, 'silence');
+        return;
+    }
+  }
+
+  /**
+   * Current plan step and interview time, for the silence timeline
+   */
+  private getSilenceContext(): SilenceContext {
+    return {
+      step: this.interviewPlan?.getCurrentQuestion()?.step,
+      phase: this.interviewPlan?.getCurrentPhase(),
+      atSec: this.getElapsedSec(),
+    };
+  }
+
+  /**
+   * Interview time so far, excluding pauses
+   */
+  private getElapsedSec(): number {
+    return Math.floor(this.interviewTimer.getElapsedMinutes() * 60);
+  }
+
+  /**
+   * Persist the silence timeline to InterviewSession (non-blocking)
+   */
+  private persistSilenceEvents() {
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      updateSessionSilenceEvents(interviewId, this.silencePolicy.getEvents());
+    }
+  }
+
+  /**
+   * Candidate utterance as it goes into the LLM context: sentences that try to
+   * instruct the interviewer are redacted, and the next reply is told not to comply
+   */
+  private screenCandidateUtterance(utterance: string): string {
+    const { text, findings } = screenUntrustedText(utterance);
+    if (findings.length > 0) {
+      this.recordGuardrailFindings(findings, 'transcript');
+      this.pendingTurnGuidance = getInjectionGuidance();
+    }
+    return text;
+  }
+
+  /**
+   * Resume text for prompts, screened once per socket. Findings are logged only
+   * the first time (a resumed socket screens it again).
+   */
+  private getScreenedResume(): string | undefined {
+    const resume = this.metadata?.interviewee_cv;
+    if (!resume) {
+      return undefined;
+    }
+
+    if (this.screenedResume === null) {
+      const { text, findings } = screenUntrustedText(resume);
+      this.screenedResume = text;
+      if (!this.guardrailEvents.some((e) => e.source === 'resume')) {
+        this.recordGuardrailFindings(findings, 'resume');
+      }
+    }
+    return this.screenedResume;
+  }
+
+  /**
+   * Log guardrail hits and persist them to InterviewSession (non-blocking)
+   */
+  private recordGuardrailFindings(findings: GuardrailFinding[], source: GuardrailSource) {
+    if (findings.length === 0) {
       return;
     }
 
-    // First reminder - gentle prompt
-    if (this.reminderCount === 1) {
-      await this.sendResponse(
-        "I'm sorry, I didn't catch that. Could you please repeat your answer? " +
-        "Take your time - there's no rush.",
-        false
-      );
-    } else {
-      // Second reminder - more explicit
-      await this.sendResponse(
-        "I'm still here whenever you're ready. " +
-        "If you need a moment to think, that's perfectly fine. " +
-        "Just let me know when you'd like to continue.",
-        false
-      );
+    const atSec = Math.floor(this.interviewTimer.getElapsedMinutes() * 60);
+    const action: GuardrailEvent['action'] = source === 'interviewer' ? 'replaced' : 'redacted';
+    this.guardrailEvents.push(...findings.map((f) => ({ ...f, source, action, atSec })));
+
+    wsLogger.warn('Guardrail triggered', {
+      callId: this.callId,
+      source,
+      categories: findings.map((f) => f.category),
+    });
+
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      updateSessionGuardrailEvents(interviewId, this.guardrailEvents);
     }
   }
 
@@ -758,7 +1676,7 @@ INSTRUCTIONS:
     
     try {
       const quickAnalysis = await analyzeResumeJobCongruency(
-        this.metadata.interviewee_cv,
+        this.getScreenedResume() || '',
         this.metadata.job_title,
         this.metadata.job_description || '',
         this.openai,
@@ -772,14 +1690,8 @@ INSTRUCTIONS:
         confidence: quickAnalysis.confidence
       });
 
-      // Only flag for extreme incompatibility - will be handled on next response
-      if (quickAnalysis.isExtremelyIncompatible && quickAnalysis.confidence > 0.95) {
-        wsLogger.warn('EXTREME INCOMPATIBILITY DETECTED', { 
-          callId: this.callId,
-          reasons: quickAnalysis.reasons 
-        });
-        this.isExtremelyIncompatible = true;
-        this.shouldEndInterview = true;
+      // The quick check only reports extreme mismatches; when it acts, the full check is skipped
+      if (this.applyCongruencyPolicy(quickAnalysis, 'quick') !== 'none') {
         this.congruencyChecked = true;
       }
     } catch (error: any) {
@@ -801,7 +1713,7 @@ INSTRUCTIONS:
     
     try {
       const analysis = await analyzeResumeJobCongruency(
-        this.metadata.interviewee_cv || '',
+        this.getScreenedResume() || '',
         this.metadata.job_title || '',
         this.metadata.job_description || '',
         this.openai,
@@ -817,18 +1729,8 @@ INSTRUCTIONS:
       this.congruencyChecked = true;
 
       // VERY HIGH bar for ending mid-interview - require high confidence AND extreme incompatibility
-      // Normal mismatches should NOT end the interview - let the candidate practice
-      if (!analysis.isCongruent && analysis.confidence > 0.85 && analysis.isExtremelyIncompatible) {
-        wsLogger.warn('Mid-interview incompatibility detected', {
-          callId: this.callId,
-          confidence: analysis.confidence,
-          reasons: analysis.reasons
-        });
-        this.shouldEndInterview = true;
-        this.isExtremelyIncompatible = true;
-      }
-      // Note: We no longer end interviews for moderate mismatches
-      // Let candidates practice interviewing even if not a perfect fit
+      // Normal mismatches never end the interview - let the candidate practice
+      this.applyCongruencyPolicy(analysis, 'full');
     } catch (error: any) {
       wsLogger.error('Error performing congruency check', { 
         callId: this.callId, 
@@ -839,21 +1741,86 @@ INSTRUCTIONS:
     }
   }
 
+  /**
+   * Act on a fit check according to the interview's congruency policy and
+   * persist the result on the Interview for the feedback report
+   */
+  private applyCongruencyPolicy(analysis: CongruencyAnalysis, check: 'quick' | 'full'): CongruencyOutcome['action'] {
+    const policy = resolveCongruencyPolicy(this.metadata?.congruency_policy);
+    const action = decideCongruencyAction(analysis, policy, check);
+
+    this.congruencyOutcome = { ...analysis, policy, check, action, atSec: this.getElapsedSec() };
+
+    if (action === 'ended') {
+      wsLogger.warn('Incompatibility detected, ending interview', {
+        callId: this.callId,
+        check,
+        confidence: analysis.confidence,
+        reasons: analysis.reasons,
+      });
+      this.isExtremelyIncompatible = true;
+      this.shouldEndInterview = true;
+    } else if (action === 'adapted') {
+      wsLogger.info('Role mismatch, adapting questions to transferable skills', {
+        callId: this.callId,
+        check,
+        transferable: analysis.skillsMatch.transferable,
+      });
+      this.congruencyGuidance = buildTransferableSkillsGuidance(analysis);
+    } else if (action === 'warned') {
+      wsLogger.info('Role mismatch recorded for feedback', { callId: this.callId, check });
+    }
+
+    const interviewId = this.metadata?.interview_id;
+    if (interviewId) {
+      recordCongruencyOutcome(interviewId, this.congruencyOutcome);
+    }
+    return action;
+  }
+
   /**
    * Prune conversation history to prevent memory bloat
-   * Keeps system prompt + last N messages
+   * Keeps system prompt + last N messages; in rolling_summary mode the dropped
+   * turns are summarized in the background into the candidate facts block
    */
   private pruneConversationHistory() {
     if (this.conversationHistory.length > MAX_CONVERSATION_HISTORY) {
-      // Keep system prompt (first message) and last N-1 messages
-      const systemMessage = this.conversationHistory[0];
-      const recentMessages = this.conversationHistory.slice(-(MAX_CONVERSATION_HISTORY - 1));
-      this.conversationHistory = [systemMessage, ...recentMessages];
+      this.conversationHistory = this.conversationMemory.prune(
+        this.conversationHistory,
+        MAX_CONVERSATION_HISTORY
+      );
       wsLogger.debug('Pruned conversation history', { 
         callId: this.callId, 
-        newLength: this.conversationHistory.length 
+        newLength: this.conversationHistory.length,
+        memoryMode: this.conversationMemory.getMode(),
       });
     }
+
+    if (this.conversationMemory.hasPending() && this.chatProvider) {
+      this.summarizeDroppedTurns();
+    }
+  }
+
+  /**
+   * Fold dropped turns into the candidate facts block (non-blocking).
+   * Unsummarized turns stay in the prompt verbatim until this succeeds.
+   */
+  private summarizeDroppedTurns() {
+    const provider = this.chatProvider!;
+    this.conversationMemory
+      .summarizePending(provider, this.llmModel)
+      .then((usage) => {
+        if (usage && (usage.promptTokens > 0 || usage.completionTokens > 0)) {
+          this.logTokenUsage(usage.promptTokens, usage.completionTokens, usage.model, usage.provider);
+        }
+      })
+      .catch((error: any) => {
+        wsLogger.warn('Failed to summarize dropped turns', {
+          callId: this.callId,
+          provider: provider.name,
+          error: error.message,
+        });
+      });
   }
 
   /**
@@ -879,6 +1846,10 @@ INSTRUCTIONS:
         roleTitle: this.metadata?.job_title || 'Unknown',
         seniority: this.metadata?.seniority || 'mid',
         roleCountry: this.metadata?.role_country,
+        hasCustomPrompt: !!this.dynamicPromptConfig,
+        recruiterPromptLength: this.dynamicPromptConfig
+          ? getRecruiterPromptLength(this.dynamicPromptConfig)
+          : undefined,
       });
 
       if (session) {
@@ -929,9 +1900,9 @@ INSTRUCTIONS:
   }
 
   /**
-   * Log token usage from OpenAI response
+   * Log token usage from the chat provider response
    */
-  private async logTokenUsage(promptTokens: number, completionTokens: number, model: string) {
+  private async logTokenUsage(promptTokens: number, completionTokens: number, model: string, provider: string) {
     this.totalPromptTokens += promptTokens;
     this.totalCompletionTokens += completionTokens;
     this.turnCount++;
@@ -946,7 +1917,7 @@ INSTRUCTIONS:
         promptTokens,
         completionTokens,
         llmModel: model,
-        llmProvider: 'openai',
+        llmProvider: provider,
       });
     } catch (error: any) {
       wsLogger.warn('Failed to log token usage', {
@@ -960,6 +1931,14 @@ INSTRUCTIONS:
    * Complete the interview session with final metrics
    */
   private async completeSession(endReason: string) {
+    if (this.sessionCompleted) {
+      return;
+    }
+    this.sessionCompleted = true;
+    this.clearHardStop();
+    cancelScheduledFinalization(this.callId);
+    clearInterviewCheckpoint(this.callId);
+
     const interviewId = this.metadata?.interview_id;
     if (!interviewId) {
       return;
@@ -978,22 +1957,35 @@ INSTRUCTIONS:
         'error': 'TECHNICAL_ERROR',
         'user_ended': 'USER_HANGUP',
         'user_hangup': 'USER_HANGUP',
+        'user_request': 'USER_HANGUP',
         'agent_error': 'AGENT_ERROR',
       };
       
       const mappedReason = endReasonMap[endReason.toLowerCase()] || 'COMPLETED';
 
+      this.persistPlanProgress();
+
       await finalizeSession(interviewId, {
         endReason: mappedReason,
         completionRate: this.calculateCompletionRate(),
-        retellDurationSec: Math.floor(this.interviewTimer.getElapsedMinutes() * 60),
+        retellDurationSec: this.elapsedSecAtClose ?? Math.floor(this.interviewTimer.getElapsedMinutes() * 60),
         retellDisconnectReason: endReason,
       });
 
-      // Trigger post-call processing asynchronously (don't await to avoid blocking)
-      // This will fetch Retell post-call data, generate metrics + study plan via OpenAI
-      postCallProcessingService.processInterview(interviewId).catch((error: any) => {
-        wsLogger.error('Post-call processing failed', {
+      // Cut short on our side: give the candidate's credit back (the ending message promises it)
+      if (this.congruencyOutcome?.action === 'ended') {
+        restoreInterviewCredit(this.callId, 'Credit restored: interview ended early for role mismatch')
+          .catch((error: any) => {
+            wsLogger.error('Failed to restore interview credit', { callId: this.callId, error: error.message });
+          });
+      }
+
+      const callData = this.prepareCallData ? await this.prepareCallData(endReason) : undefined;
+
+      // Queue post-call processing (transcript, metrics, study plan, feedback, PDF, email);
+      // the job worker runs it with retries
+      enqueuePostCallProcessing(interviewId, { callData }).catch((error: any) => {
+        wsLogger.error('Failed to queue post-call processing', {
           callId: this.callId,
           interviewId,
           error: error.message,
@@ -1017,11 +2009,16 @@ INSTRUCTIONS:
 
   /**
    * Calculate interview completion rate (0-1)
-   * Based on typical interview phases completed
+   * Based on interview plan phases completed; falls back to wall-clock time
+   * for legacy flows that never started a plan
    */
   private calculateCompletionRate(): number {
+    if (this.interviewPlan) {
+      return this.interviewPlan.getCoverage();
+    }
+
     const elapsed = this.interviewTimer.getElapsedMinutes();
-    const maxDuration = parseInt(process.env.MAX_INTERVIEW_DURATION_MINUTES || '15');
+    const maxDuration = this.interviewTimer.getMaxDurationMinutes();
     
     // Completion is based on time spent vs max duration
     // Also consider if interview ended prematurely
@@ -1039,10 +2036,11 @@ INSTRUCTIONS:
   }
 
   /**
-   * Generate response using OpenAI streaming with exponential backoff
-   * OPTIMIZED: Using gpt-4o-mini for faster response times (~2-3x faster than gpt-4o)
+   * Generate response using the selected chat provider with exponential backoff.
+   * Fails over to the secondary provider (for the rest of the call) when the primary errors;
+   * a reply that already streamed part of its text is closed rather than restarted.
    */
-  private async generateAndSendResponse() {
+  private async generateAndSendResponse(options: { endReason?: string; preamble?: string } = {}) {
     // Prevent concurrent processing
     if (this.isProcessing) {
       wsLogger.warn('Already processing response, skipping', { callId: this.callId });
@@ -1057,66 +2055,79 @@ INSTRUCTIONS:
     // Prune history before generating
     this.pruneConversationHistory();
     
+    if (!this.chatProvider) {
+      this.resolveChatProviders(this.getPreferredLanguage());
+    }
+
+    // Spoken first, as part of this reply; retries and failover continue after it
+    if (options.preamble) {
+      this.sendTimedFrame({
+        response_type: 'response',
+        response_id: this.responseId,
+        content: `${options.preamble} `,
+        content_complete: false,
+      });
+    }
+
     let lastError: Error | null = null;
-    const model = 'gpt-4o-mini';
     
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      const provider = this.chatProvider!;
+      const model = this.llmModel || provider.defaultModel;
+
+      let fullResponse = ''; // What was actually sent (after the output guardrail)
+      let chunkCount = 0;
       try {
-        let fullResponse = '';
-        let chunkCount = 0;
+        const outputFilter = new StreamingOutputFilter(
+          getLanguageSpecificPhrases(this.getPreferredLanguage()).transitions.nextQuestion
+        );
         let promptTokens = 0;
         let completionTokens = 0;
 
-        // Use OpenAI streaming with usage tracking
-        const stream = await this.openai.chat.completions.create({
+        const stream = provider.streamChat(this.buildTurnMessages(), {
           model,
-          messages: this.conversationHistory.map(m => ({ role: m.role, content: m.content })),
           temperature: 0.4,
-          max_tokens: 100,
-          presence_penalty: 0.5,
-          frequency_penalty: 0.3,
-          stream: true,
-          stream_options: { include_usage: true },
+          maxTokens: 100,
         });
 
         for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          const isComplete = chunk.choices[0]?.finish_reason !== null;
+          const content = chunk.content;
+          const isComplete = chunk.done;
+          if (content) {
+            this.turnLatency.markToken();
+          }
           
-          // Capture usage data (comes in final chunk with stream_options)
+          // Capture usage data (comes in final chunk)
           if (chunk.usage) {
-            promptTokens = chunk.usage.prompt_tokens || 0;
-            completionTokens = chunk.usage.completion_tokens || 0;
+            promptTokens = chunk.usage.promptTokens;
+            completionTokens = chunk.usage.completionTokens;
           }
           
-          if (content) {
-            fullResponse += content;
+          // Released a sentence at a time once it passes the output guardrail
+          const safeContent = content ? outputFilter.push(content) : '';
+          const pending = isComplete ? safeContent + outputFilter.flush() : safeContent;
+          if (pending) {
+            fullResponse += pending;
             chunkCount++;
             
             // Send streaming response
             const response: CustomLLMResponse = {
               response_type: 'response',
               response_id: this.responseId,
-              content: content,
+              content: pending,
               content_complete: false
             };
-            this.ws.send(JSON.stringify(response));
+            this.sendTimedFrame(response);
           }
 
           if (isComplete) {
-            // Send completion
-            const finalResponse: CustomLLMResponse = {
-              response_type: 'response',
-              response_id: this.responseId,
-              content: '',
-              content_complete: true
-            };
-            this.ws.send(JSON.stringify(finalResponse));
+            this.sendCompletionFrame(options.endReason);
           }
         }
 
         wsLogger.debug('AI response sent', { 
           callId: this.callId, 
+          provider: provider.name,
           responseId: this.responseId,
           chunkCount,
           responseLength: fullResponse.length,
@@ -1124,29 +2135,49 @@ INSTRUCTIONS:
           completionTokens,
         });
 
+        this.recordGuardrailFindings(outputFilter.getFindings(), 'interviewer');
+        this.recordTurnLatency(this.turnLatency.complete(this.responseId, model));
+
         // Log token usage for metrics
         if (promptTokens > 0 || completionTokens > 0) {
-          this.logTokenUsage(promptTokens, completionTokens, model);
+          this.logTokenUsage(promptTokens, completionTokens, model, provider.name);
         }
 
-        // Add to conversation history
-        this.conversationHistory.push({
-          role: 'assistant',
-          content: fullResponse
-        });
-
-        this.responseId++;
-        this.isProcessing = false;
+        this.finishResponseTurn(fullResponse, options);
         return; // Success - exit retry loop
       } catch (error: any) {
         lastError = error;
-        wsLogger.warn('OpenAI request failed, retrying', { 
+
+        // Retell is already speaking the streamed part; restarting under the same
+        // response_id would repeat it, so close the reply where it stopped
+        if (chunkCount > 0) {
+          wsLogger.warn('LLM stream failed mid-response, ending partial reply', {
+            callId: this.callId,
+            provider: provider.name,
+            responseId: this.responseId,
+            chunkCount,
+            error: error.message
+          });
+          this.sendCompletionFrame(options.endReason);
+          this.turnLatency.discard();
+          this.failOverChatProvider(error);
+          this.finishResponseTurn(fullResponse, options);
+          return;
+        }
+
+        wsLogger.warn('LLM request failed, retrying', { 
           callId: this.callId, 
+          provider: provider.name,
           attempt: attempt + 1,
           maxRetries: MAX_RETRIES,
           error: error.message
         });
 
+        // Fail over immediately rather than backing off against a degraded vendor
+        if (this.failOverChatProvider(error)) {
+          continue;
+        }
+
         if (attempt < MAX_RETRIES - 1) {
           await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(attempt)));
         }
@@ -1158,11 +2189,139 @@ INSTRUCTIONS:
       callId: this.callId, 
       error: lastError?.message
     });
+    this.turnLatency.discard();
+
+    this.isProcessing = false;
+
+    // Wrapping up: close with a canned line rather than asking the candidate to repeat
+    if (options.endReason) {
+      const closingMessage = getLanguageSpecificPhrases(this.getPreferredLanguage()).transitions.closing;
+      this.interviewPlan?.advance(this.getElapsedSec());
+      await this.sendResponseWithReason(closingMessage, true, options.endReason);
+      return;
+    }
 
     // Send a fallback response to avoid silence
     const fallbackMessage = "I apologize, I'm having a brief technical issue. Could you please repeat what you just said?";
     await this.sendResponse(fallbackMessage, false);
+  }
+
+  /**
+   * Close the streamed reply (ending the call after it is spoken when wrapping up)
+   */
+  private sendCompletionFrame(endReason?: string) {
+    const finalResponse: CustomLLMResponse = {
+      response_type: 'response',
+      response_id: this.responseId,
+      content: '',
+      content_complete: true
+    };
+    if (endReason) {
+      finalResponse.end_call = true;
+      finalResponse.end_call_after_spoken = true;
+      finalResponse.end_call_reason = endReason;
+      finalResponse.no_interruption_allowed = true;
+    }
+    this.sendTimedFrame(finalResponse);
+  }
+
+  /**
+   * Record a sent reply in the history and plan, and move on to the next response id
+   */
+  private finishResponseTurn(fullResponse: string, { endReason, preamble }: { endReason?: string; preamble?: string }) {
+    this.conversationHistory.push({
+      role: 'assistant',
+      content: preamble ? `${preamble} ${fullResponse}` : fullResponse
+    });
+    const speaker = this.recordPanelTurn();
+    this.interviewPlan?.recordQuestion(fullResponse, this.getElapsedSec(), speaker?.key);
+    this.pendingTurnGuidance = null;
+
+    this.responseId++;
     this.isProcessing = false;
+
+    if (endReason) {
+      this.interviewPlan?.advance(this.getElapsedSec());
+      this.completeSession(endReason);
+    }
+  }
+
+  /**
+   * Send a streamed reply frame, counting its bytes toward the turn's latency record
+   */
+  private sendTimedFrame(response: CustomLLMResponse) {
+    const payload = JSON.stringify(response);
+    this.turnLatency.addBytes(Buffer.byteLength(payload));
+    this.ws.send(payload);
+  }
+
+  /**
+   * Report a timed LLM turn to /metrics and persist the call's latency series
+   */
+  private recordTurnLatency(turn: TurnLatency | null) {
+    if (!turn) {
+      return;
+    }
+
+    trackTurnLatency({ ...turn, language: this.getPreferredLanguage() });
+    wsLogger.debug('Turn latency', { callId: this.callId, ...turn });
+
+    const interviewId = this.metadata?.interview_id;
+    if (!interviewId) {
+      return;
+    }
+
+    const turns = this.turnLatency.getTurns();
+    updateSessionTurnLatencies(interviewId, turns, {
+      timeToFirstToken: turns[0].firstTokenMs,
+      avgResponseLatency: this.turnLatency.getAverageResponseMs() ?? undefined,
+    });
+  }
+
+  /**
+   * Panelist who just spoke for the current plan step (panel interviews only)
+   */
+  private recordPanelTurn() {
+    if (!this.panel || !this.interviewPlan) {
+      return undefined;
+    }
+    return this.panel.recordTurn(this.interviewPlan.getCurrentStepIndex(), this.interviewPlan.getCurrentStep());
+  }
+
+  /**
+   * Conversation history plus the candidate facts block (after the system prompt)
+   * and the current plan step guidance (with target difficulty) for this turn.
+   * Neither is stored in history so pruning and summaries stay clean.
+   */
+  private buildTurnMessages(): ChatMessage[] {
+    const memory = this.conversationMemory.getMemoryMessage();
+    const planGuidance = this.interviewPlan?.getTurnGuidance();
+    const steering = this.languageMonitor?.getSteeringGuidance(
+      getLanguageConfig(this.languageMonitor.getExpectedLanguage()).englishName
+    );
+    const panelGuidance = this.panel && this.interviewPlan
+      ? this.panel.getTurnGuidance(this.interviewPlan.getCurrentStepIndex(), this.interviewPlan.getCurrentStep())
+      : undefined;
+    const guidance = [
+      steering,
+      this.congruencyGuidance,
+      panelGuidance,
+      this.pendingTurnGuidance,
+      planGuidance && this.interviewPlan?.getCurrentStep()?.phase === 'competency'
+        ? `${planGuidance}\n${this.difficultyTracker.getGuidance()}`
+        : planGuidance,
+    ].filter(Boolean).join('\n') || undefined;
+    if (!memory && !guidance) {
+      return this.conversationHistory;
+    }
+
+    const [systemMessage, ...rest] = this.conversationHistory;
+    return [
+      systemMessage,
+      ...(memory ? [memory] : []),
+      ...rest,
+      ...(guidance ? [{ role: 'system' as const, content: guidance }] : []),
+    ];
   }
 
   /**
@@ -1305,8 +2464,19 @@ INSTRUCTIONS:
    */
   handleError(error: Error) {
     wsLogger.error('WebSocket error', { callId: this.callId, error: error.message });
-    // Complete session with error reason
-    this.completeSession('error');
+    // The close event that follows decides whether to finalize or wait for a reconnect
+    this.socketError = error.message;
+  }
+
+  /**
+   * End the interview now, without waiting for a reconnect (text chat "end" button)
+   */
+  async endInterview(reason: string) {
+    if (this.sessionCompleted) {
+      return;
+    }
+    this.elapsedSecAtClose = Math.floor(this.interviewTimer.getElapsedMinutes() * 60);
+    await this.completeSession(reason);
   }
 
   /**
@@ -1319,8 +2489,28 @@ INSTRUCTIONS:
       totalTokens: this.totalPromptTokens + this.totalCompletionTokens,
       turnCount: this.turnCount,
     });
-    
-    // Complete the session with final metrics
-    this.completeSession('normal');
+
+    this.clearHardStop();
+
+    if (this.sessionCompleted) {
+      return;
+    }
+
+    const endReason = this.socketError ? 'error' : 'normal';
+    this.elapsedSecAtClose = Math.floor(this.interviewTimer.getElapsedMinutes() * 60);
+
+    // Nothing worth resuming - complete the session with final metrics
+    if (!this.hasGreeted || !this.callId || RESUME_GRACE_MS <= 0) {
+      this.completeSession(endReason);
+      return;
+    }
+
+    // Socket dropped mid-interview: keep the checkpoint and give Retell's
+    // auto-reconnect a window before finalizing (and spending the credit)
+    wsLogger.info('Deferring session finalization for possible reconnect', {
+      callId: this.callId,
+      graceMs: RESUME_GRACE_MS,
+    });
+    scheduleFinalizationAfterGrace(this.callId, () => this.completeSession(endReason));
   }
 }
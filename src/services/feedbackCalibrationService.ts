@@ -0,0 +1,339 @@
+/**
+ * Feedback Calibration Service
+ *
+ * Keeps generated interview scores comparable across prompt and model
+ * versions:
+ * - Calibration: runs the feedback generator over reference transcripts
+ *   (src/calibration/fixtures) and reports how far each score lands from its
+ *   expected band. Stub mode replays the model response recorded in the
+ *   fixture, so rubric and post-processing changes are checked offline; live
+ *   mode calls the configured model.
+ * - Drift: score distribution of production feedback by promptVersion and
+ *   model, compared against the largest group.
+ *
+ * @module services/feedbackCalibrationService
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type OpenAI from 'openai';
+import { prisma } from './databaseService';
+import { FeedbackGenerationService, type InterviewContext } from './feedbackGenerationService';
+import { percentile } from '../utils/turnLatency';
+import type { CompetencyKey, EvidenceCheck } from '../types/feedback';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const CALIBRATION_FIXTURES_DIR = path.join(__dirname, '..', 'calibration', 'fixtures');
+
+export const DRIFT_REPORT_LIMITS = {
+  defaultDays: 30,
+  maxDays: 365,
+  // Most recent feedback versions scanned per report
+  maxVersions: 20000,
+  // Mean difference (0-100 points) from the baseline group that gets flagged
+  driftThreshold: 5,
+  // Groups smaller than this are reported but never flagged
+  minSamples: 20,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScoreBand {
+  min: number;
+  max: number;
+}
+
+export interface CalibrationFixture {
+  id: string;
+  description: string;
+  context: Omit<InterviewContext, 'sessionId'>;
+  expected: {
+    /** 0-100 */
+    overallScore: ScoreBand;
+    /** 0-5 per competency */
+    competencies?: Partial<Record<CompetencyKey, ScoreBand>>;
+  };
+  /** Raw model output replayed in stub mode */
+  recordedResponse: Record<string, unknown>;
+}
+
+export interface BandCheck {
+  key: string;
+  score: number | null;
+  band: ScoreBand;
+  /** Distance outside the band (0 when inside; score missing counts as out) */
+  deviation: number;
+  withinBand: boolean;
+}
+
+export interface CalibrationCaseResult {
+  fixtureId: string;
+  success: boolean;
+  error?: string;
+  overall: BandCheck;
+  competencies: BandCheck[];
+  /** Cited quotes matched against the fixture transcript */
+  evidence: EvidenceCheck | null;
+  passed: boolean;
+}
+
+export interface CalibrationReport {
+  mode: 'stub' | 'live';
+  model: string | null;
+  promptVersion: string | null;
+  ranAt: string;
+  cases: CalibrationCaseResult[];
+  passed: number;
+  failed: number;
+  /** Mean distance of overall scores from their band midpoints */
+  meanAbsMidpointError: number | null;
+}
+
+export interface CalibrationOptions {
+  mode: 'stub' | 'live';
+  model?: string;
+  apiKey?: string;
+}
+
+export interface DriftFilters {
+  days?: number;
+  promptVersion?: string;
+  model?: string;
+}
+
+export interface ScoreDistribution {
+  promptVersion: string;
+  model: string;
+  samples: number;
+  mean: number | null;
+  stdDev: number | null;
+  p10: number | null;
+  p50: number | null;
+  p90: number | null;
+  /** Counts per 10-point bucket: [0-10), [10-20) ... [90-100] */
+  histogram: number[];
+  /** Mean difference from the baseline group */
+  meanDelta: number | null;
+  drifted: boolean;
+}
+
+export interface DriftReport {
+  since: string;
+  samples: number;
+  baseline: { promptVersion: string; model: string } | null;
+  groups: ScoreDistribution[];
+}
+
+// ============================================
+// CALIBRATION
+// ============================================
+
+/**
+ * Load the reference fixtures (optionally only the given ids)
+ */
+export function loadCalibrationFixtures(
+  dir: string = CALIBRATION_FIXTURES_DIR,
+  ids?: string[]
+): CalibrationFixture[] {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as CalibrationFixture)
+    .filter((fixture) => !ids || ids.includes(fixture.id));
+}
+
+/**
+ * OpenAI stand-in that answers every completion with the fixture's recorded output
+ */
+function createReplayClient(fixture: CalibrationFixture): OpenAI {
+  const completion = {
+    choices: [{ message: { role: 'assistant', content: JSON.stringify(fixture.recordedResponse) } }],
+  };
+  return { chat: { completions: { create: async () => completion } } } as unknown as OpenAI;
+}
+
+function checkBand(key: string, score: number | null | undefined, band: ScoreBand): BandCheck {
+  const value = typeof score === 'number' ? score : null;
+  const deviation = value === null
+    ? Math.max(band.max - band.min, 1)
+    : value < band.min ? band.min - value : value > band.max ? value - band.max : 0;
+  return { key, score: value, band, deviation, withinBand: deviation === 0 };
+}
+
+/**
+ * Run the generator over each fixture and compare scores with the expected bands
+ */
+export async function runCalibration(
+  fixtures: CalibrationFixture[],
+  options: CalibrationOptions
+): Promise<CalibrationReport> {
+  const liveGenerator = options.mode === 'live'
+    ? new FeedbackGenerationService(options.apiKey, options.model)
+    : null;
+
+  let model: string | null = null;
+  let promptVersion: string | null = null;
+  const cases: CalibrationCaseResult[] = [];
+  const midpointErrors: number[] = [];
+
+  for (const fixture of fixtures) {
+    const generator = liveGenerator
+      || new FeedbackGenerationService(undefined, options.model, createReplayClient(fixture));
+    const result = await generator.generate({ sessionId: `calibration-${fixture.id}`, ...fixture.context });
+    const feedback = result.feedback;
+
+    if (feedback) {
+      model = feedback.model;
+      promptVersion = feedback.promptVersion;
+      const { min, max } = fixture.expected.overallScore;
+      midpointErrors.push(Math.abs(feedback.overallScore - (min + max) / 2));
+    }
+
+    const overall = checkBand('overallScore', feedback?.overallScore, fixture.expected.overallScore);
+    const competencies = Object.entries(fixture.expected.competencies || {}).map(([key, band]) =>
+      checkBand(key, feedback?.competencies.find((c) => c.key === key)?.score, band!)
+    );
+
+    cases.push({
+      fixtureId: fixture.id,
+      success: result.success,
+      error: result.error,
+      overall,
+      competencies,
+      evidence: feedback?.evidenceCheck ?? null,
+      passed: result.success && overall.withinBand && competencies.every((c) => c.withinBand),
+    });
+  }
+
+  const passed = cases.filter((c) => c.passed).length;
+  return {
+    mode: options.mode,
+    model,
+    promptVersion,
+    ranAt: new Date().toISOString(),
+    cases,
+    passed,
+    failed: cases.length - passed,
+    meanAbsMidpointError: midpointErrors.length > 0
+      ? Math.round((midpointErrors.reduce((sum, e) => sum + e, 0) / midpointErrors.length) * 10) / 10
+      : null,
+  };
+}
+
+/**
+ * Plain-text report for the calibration command
+ */
+export function formatCalibrationReport(report: CalibrationReport): string {
+  const lines = [
+    `Feedback calibration (${report.mode}) - prompt ${report.promptVersion ?? 'n/a'}, model ${report.model ?? 'n/a'}`,
+    '',
+  ];
+
+  for (const c of report.cases) {
+    const { score, band, deviation } = c.overall;
+    lines.push(
+      `${c.passed ? 'PASS' : 'FAIL'}  ${c.fixtureId}: overall ${score ?? '-'} (expected ${band.min}-${band.max}` +
+        `${deviation > 0 ? `, off by ${deviation}` : ''})${c.error ? ` - ${c.error}` : ''}`
+    );
+    for (const comp of c.competencies.filter((check) => !check.withinBand)) {
+      lines.push(`      ${comp.key}: ${comp.score ?? '-'} (expected ${comp.band.min}-${comp.band.max})`);
+    }
+    if (c.evidence && c.evidence.dropped > 0) {
+      lines.push(`      evidence: ${c.evidence.dropped} of ${c.evidence.total} quotes not found in transcript`);
+    }
+  }
+
+  lines.push(
+    '',
+    `${report.passed}/${report.cases.length} within band; mean distance from band midpoint: ${report.meanAbsMidpointError ?? 'n/a'}`
+  );
+  return lines.join('\n');
+}
+
+// ============================================
+// PRODUCTION DRIFT
+// ============================================
+
+function distribution(promptVersion: string, model: string, scores: number[]): ScoreDistribution {
+  const samples = scores.length;
+  const mean = samples > 0 ? scores.reduce((sum, s) => sum + s, 0) / samples : null;
+  const stdDev = mean !== null
+    ? Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / samples)
+    : null;
+  const histogram = new Array(10).fill(0);
+  for (const score of scores) {
+    histogram[Math.min(9, Math.max(0, Math.floor(score / 10)))]++;
+  }
+
+  return {
+    promptVersion,
+    model,
+    samples,
+    mean: mean !== null ? Math.round(mean * 10) / 10 : null,
+    stdDev: stdDev !== null ? Math.round(stdDev * 10) / 10 : null,
+    p10: percentile(scores, 10),
+    p50: percentile(scores, 50),
+    p90: percentile(scores, 90),
+    histogram,
+    meanDelta: null,
+    drifted: false,
+  };
+}
+
+/**
+ * Overall score distribution of generated feedback by prompt version and model
+ */
+export async function getScoreDriftReport(filters: DriftFilters = {}): Promise<DriftReport> {
+  const days = Math.min(filters.days ?? DRIFT_REPORT_LIMITS.defaultDays, DRIFT_REPORT_LIMITS.maxDays);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const versions = await prisma.feedbackVersion.findMany({
+    where: {
+      generatedAt: { gte: since },
+      overallScore: { not: null },
+      promptVersion: filters.promptVersion,
+      model: filters.model,
+    },
+    select: { overallScore: true, promptVersion: true, model: true },
+    orderBy: { generatedAt: 'desc' },
+    take: DRIFT_REPORT_LIMITS.maxVersions,
+  });
+
+  const byGroup = new Map<string, { promptVersion: string; model: string; scores: number[] }>();
+  for (const v of versions) {
+    const promptVersion = v.promptVersion || 'unknown';
+    const model = v.model || 'unknown';
+    const key = `${promptVersion}|${model}`;
+    const group = byGroup.get(key) || { promptVersion, model, scores: [] };
+    group.scores.push(v.overallScore!);
+    byGroup.set(key, group);
+  }
+
+  const groups = Array.from(byGroup.values())
+    .map((g) => distribution(g.promptVersion, g.model, g.scores))
+    .sort((a, b) => b.samples - a.samples);
+
+  // The largest group is the reference the others are compared with
+  const baseline = groups[0] ?? null;
+  for (const group of groups) {
+    if (!baseline || group === baseline || group.mean === null || baseline.mean === null) {
+      continue;
+    }
+    group.meanDelta = Math.round((group.mean - baseline.mean) * 10) / 10;
+    group.drifted = group.samples >= DRIFT_REPORT_LIMITS.minSamples
+      && Math.abs(group.meanDelta) >= DRIFT_REPORT_LIMITS.driftThreshold;
+  }
+
+  return {
+    since: since.toISOString(),
+    samples: versions.length,
+    baseline: baseline ? { promptVersion: baseline.promptVersion, model: baseline.model } : null,
+    groups,
+  };
+}
@@ -7,11 +7,15 @@
  * 
  * Designed for long-term replacement of FeedbackJson/FeedbackPdf tables.
  * 
+ * Each structured feedback generation is also kept as a FeedbackVersion;
+ * the document mirrors the version the user chose to display.
+ * 
  * @module services/feedbackDocumentService
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma, dbLogger } from './databaseService';
-import { StructuredFeedback } from '../types/feedback';
+import { StructuredFeedback, CompetencyKey } from '../types/feedback';
 
 // ========================================
 // TYPES
@@ -42,6 +46,42 @@ export interface FeedbackDocumentSummary {
   generatedAt: Date;
 }
 
+export interface RecordFeedbackVersionParams {
+  interviewId: string;
+  userId: string;
+  feedback: StructuredFeedback;
+  /** Why this version was generated (defaults to "initial") */
+  reason?: string | null;
+}
+
+export interface FeedbackVersionSummary {
+  version: number;
+  overallScore: number | null;
+  schemaVersion: string | null;
+  promptVersion: string | null;
+  model: string | null;
+  reason: string | null;
+  hasPdf: boolean;
+  isActive: boolean;
+  generatedAt: Date;
+}
+
+export interface FeedbackScoreDiff {
+  from: { version: number; promptVersion: string | null; model: string | null; overallScore: number | null };
+  to: { version: number; promptVersion: string | null; model: string | null; overallScore: number | null };
+  overallDelta: number | null;
+  competencies: Array<{
+    key: CompetencyKey;
+    name: string;
+    from: number | null;
+    to: number | null;
+    delta: number | null;
+  }>;
+}
+
+/** Versions one interview can accumulate through regeneration */
+export const MAX_FEEDBACK_VERSIONS = 10;
+
 // Create logger for feedback document operations
 const logger = dbLogger.child({ component: 'feedback-document' });
 
@@ -113,6 +153,14 @@ export async function upsertFeedbackDocument(
       update: updateData as Parameters<typeof prisma.feedbackDocument.upsert>[0]['update']
     });
 
+    // The PDF belongs to the version on display
+    if (pdfStorageKey !== undefined && record.activeVersion !== null) {
+      await prisma.feedbackVersion.updateMany({
+        where: { interviewId, version: record.activeVersion },
+        data: { pdfStorageKey }
+      });
+    }
+
     // Link the feedback document back to the interview (created only after generation)
     // Non-blocking if interview doesn't exist yet (should not happen in normal flow)
     await prisma.interview.updateMany({
@@ -173,6 +221,7 @@ export async function getFeedbackDocument(interviewId: string) {
       schemaVersion: record.schemaVersion,
       promptVersion: record.promptVersion,
       model: record.model,
+      activeVersion: record.activeVersion,
       generatedAt: record.generatedAt,
       createdAt: record.createdAt,
       updatedAt: record.updatedAt
@@ -285,6 +334,240 @@ export async function updateFeedbackPdfStorageKey(
   }
 }
 
+// ========================================
+// VERSIONS
+// ========================================
+
+/**
+ * Store newly generated structured feedback as the next version and display it
+ * 
+ * The document's PDF key is cleared, since the previous PDF shows the
+ * previous version; the PDF step renders the new one.
+ * 
+ * @param params - Interview, owner, feedback and the reason for generating it
+ * @returns Summary of the updated document with the new version number
+ */
+export async function recordFeedbackVersion(
+  params: RecordFeedbackVersionParams
+): Promise<FeedbackDocumentSummary & { version: number }> {
+  const { interviewId, userId, feedback, reason } = params;
+
+  try {
+    const { record, version } = await prisma.$transaction(async (tx) => {
+      const doc = await tx.feedbackDocument.upsert({
+        where: { interviewId },
+        create: { interviewId, userId, generatedAt: new Date() },
+        update: {},
+        select: { id: true }
+      });
+
+      const latest = await tx.feedbackVersion.findFirst({
+        where: { interviewId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      const nextVersion = (latest?.version ?? 0) + 1;
+      const generatedAt = new Date();
+      const content = {
+        contentJson: feedback as unknown as Prisma.InputJsonValue,
+        overallScore: feedback.overallScore ?? null,
+        schemaVersion: feedback.schemaVersion ?? null,
+        promptVersion: feedback.promptVersion ?? null,
+        model: feedback.model ?? null
+      };
+
+      await tx.feedbackVersion.create({
+        data: {
+          feedbackDocumentId: doc.id,
+          interviewId,
+          version: nextVersion,
+          ...content,
+          reason: reason?.slice(0, 500) || 'initial',
+          generatedAt
+        }
+      });
+
+      const updated = await tx.feedbackDocument.update({
+        where: { id: doc.id },
+        data: { ...content, pdfStorageKey: null, activeVersion: nextVersion, generatedAt }
+      });
+      return { record: updated, version: nextVersion };
+    });
+
+    await prisma.interview.updateMany({
+      where: { id: interviewId, feedbackDocumentId: null },
+      data: { feedbackDocumentId: record.id }
+    });
+
+    logger.info('Feedback version recorded', {
+      interviewId,
+      version,
+      promptVersion: feedback.promptVersion,
+      model: feedback.model
+    });
+
+    return {
+      id: record.id,
+      interviewId: record.interviewId,
+      userId: record.userId,
+      pdfStorageKey: record.pdfStorageKey,
+      overallScore: record.overallScore,
+      hasTranscription: !!record.transcriptionText,
+      hasFeedbackText: !!record.feedbackText,
+      hasContentJson: !!record.contentJson,
+      generatedAt: record.generatedAt,
+      version
+    };
+  } catch (error: any) {
+    logger.error('Failed to record feedback version', {
+      interviewId,
+      error: error.message
+    });
+    throw error;
+  }
+}
+
+/**
+ * List the feedback versions of an interview, oldest first
+ * 
+ * @param interviewId - The interview ID
+ * @returns Version metadata (content excluded)
+ */
+export async function listFeedbackVersions(interviewId: string): Promise<FeedbackVersionSummary[]> {
+  const [doc, versions] = await Promise.all([
+    prisma.feedbackDocument.findUnique({
+      where: { interviewId },
+      select: { activeVersion: true }
+    }),
+    prisma.feedbackVersion.findMany({
+      where: { interviewId },
+      orderBy: { version: 'asc' },
+      select: {
+        version: true,
+        overallScore: true,
+        schemaVersion: true,
+        promptVersion: true,
+        model: true,
+        reason: true,
+        pdfStorageKey: true,
+        generatedAt: true
+      }
+    })
+  ]);
+
+  return versions.map(({ pdfStorageKey, ...v }) => ({
+    ...v,
+    hasPdf: !!pdfStorageKey,
+    isActive: v.version === doc?.activeVersion
+  }));
+}
+
+/**
+ * Display a previous (or later) feedback version
+ * 
+ * @param interviewId - The interview ID
+ * @param version - Version number to display
+ * @returns The displayed version, or null if it doesn't exist
+ */
+export async function selectFeedbackVersion(
+  interviewId: string,
+  version: number
+): Promise<FeedbackVersionSummary | null> {
+  const selected = await prisma.feedbackVersion.findUnique({
+    where: { interviewId_version: { interviewId, version } }
+  });
+  if (!selected) {
+    return null;
+  }
+
+  await prisma.feedbackDocument.update({
+    where: { id: selected.feedbackDocumentId },
+    data: {
+      contentJson: (selected.contentJson ?? undefined) as Prisma.InputJsonValue | undefined,
+      overallScore: selected.overallScore,
+      schemaVersion: selected.schemaVersion,
+      promptVersion: selected.promptVersion,
+      model: selected.model,
+      pdfStorageKey: selected.pdfStorageKey,
+      activeVersion: selected.version
+    }
+  });
+
+  logger.info('Feedback version selected', { interviewId, version });
+
+  return {
+    version: selected.version,
+    overallScore: selected.overallScore,
+    schemaVersion: selected.schemaVersion,
+    promptVersion: selected.promptVersion,
+    model: selected.model,
+    reason: selected.reason,
+    hasPdf: !!selected.pdfStorageKey,
+    isActive: true,
+    generatedAt: selected.generatedAt
+  };
+}
+
+/**
+ * Compare overall and per-competency scores between two feedback versions
+ */
+export function diffFeedbackScores(
+  from: { version: number; contentJson: StructuredFeedback | null; promptVersion: string | null; model: string | null },
+  to: { version: number; contentJson: StructuredFeedback | null; promptVersion: string | null; model: string | null }
+): FeedbackScoreDiff {
+  const delta = (a: number | null, b: number | null) =>
+    a === null || b === null ? null : Math.round((b - a) * 100) / 100;
+
+  const fromScores = new Map((from.contentJson?.competencies || []).map((c) => [c.key, c]));
+  const toScores = new Map((to.contentJson?.competencies || []).map((c) => [c.key, c]));
+  const keys = [...new Set([...fromScores.keys(), ...toScores.keys()])];
+
+  const fromOverall = from.contentJson?.overallScore ?? null;
+  const toOverall = to.contentJson?.overallScore ?? null;
+
+  return {
+    from: { version: from.version, promptVersion: from.promptVersion, model: from.model, overallScore: fromOverall },
+    to: { version: to.version, promptVersion: to.promptVersion, model: to.model, overallScore: toOverall },
+    overallDelta: delta(fromOverall, toOverall),
+    competencies: keys.map((key) => {
+      const a = fromScores.get(key)?.score ?? null;
+      const b = toScores.get(key)?.score ?? null;
+      return {
+        key,
+        name: toScores.get(key)?.name || fromScores.get(key)?.name || key,
+        from: a,
+        to: b,
+        delta: delta(a, b)
+      };
+    })
+  };
+}
+
+/**
+ * Score differences between two versions of an interview's feedback
+ * 
+ * @returns The diff, or null if either version doesn't exist
+ */
+export async function diffFeedbackVersions(
+  interviewId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<FeedbackScoreDiff | null> {
+  const versions = await prisma.feedbackVersion.findMany({
+    where: { interviewId, version: { in: [fromVersion, toVersion] } },
+    select: { version: true, contentJson: true, promptVersion: true, model: true }
+  });
+
+  const find = (version: number) => {
+    const found = versions.find((v) => v.version === version);
+    return found && { ...found, contentJson: found.contentJson as unknown as StructuredFeedback | null };
+  };
+  const from = find(fromVersion);
+  const to = find(toVersion);
+
+  return from && to ? diffFeedbackScores(from, to) : null;
+}
+
 // ========================================
 // BATCH OPERATIONS
 // ========================================
@@ -22,7 +22,9 @@ import {
   CompetencyKey,
   Seniority,
   SupportedLanguage,
-  TranscriptEvidence
+  TranscriptEvidence,
+  InterviewMode,
+  ModeAssessment
 } from '../types/feedback';
 import {
   getCompetencyWeights,
@@ -31,6 +33,9 @@ import {
   calculateWeightedScore
 } from '../types/rubrics';
 import logger from '../utils/logger';
+import { verifyFeedbackEvidence } from '../utils/evidenceVerifier';
+import { getInterviewModePack, type InterviewModePack } from '../prompts/interviewModes';
+import { SPEECH_ANALYTICS_CONFIG, type SpeechAnalytics } from '../utils/speechAnalytics';
 
 // ============================================
 // CONFIGURATION
@@ -56,6 +61,8 @@ export interface TranscriptSegment {
 export interface InterviewContext {
   sessionId: string;
   roleTitle: string;
+  /** Round practiced; drives weights and the modeAssessment section (default STANDARD) */
+  interviewMode?: InterviewMode;
   seniority: Seniority;
   language: SupportedLanguage;
   jobDescription?: string;
@@ -66,10 +73,47 @@ export interface InterviewContext {
   durationSeconds: number;
   wasInterrupted: boolean;
   interruptionReason?: string;
-  retellAnalytics?: {
-    wordsPerMinute?: number;
-    fillerWordCount?: number;
-    silenceDuration?: number;
+  /** Pace, fillers, pauses and talk time measured from word timings (voice calls only) */
+  speechAnalytics?: SpeechAnalytics;
+  /** Structured interview plan coverage recorded during the live call */
+  planCoverage?: {
+    phaseReached: string;
+    coverage: number;
+    competenciesAssessed: CompetencyKey[];
+    competenciesSkipped: CompetencyKey[];
+  };
+  /** Preliminary per-answer anchor scores from the live interviewer (adaptive difficulty) */
+  answerEvaluations?: Array<{
+    competency: CompetencyKey;
+    question: string;
+    score: number;
+    evidence: string;
+    level: string;
+    answerStartSec?: number;
+    answerEndSec?: number;
+  }>;
+  /** Candidate kept answering in another language during the live call */
+  languageMismatch?: {
+    expectedLanguage: string;
+    detectedLanguages: string[];
+    /** Set when the interviewer switched to the candidate's language */
+    switchedTo?: string;
+  };
+  /** Silences that needed reminders during the live call, and how each ended */
+  silenceTimeline?: {
+    episodes: number;
+    reminders: number;
+    endedBySilence: boolean;
+    events: Array<{ action: string; level: number; phase?: string; atSec: number }>;
+  };
+  /** Live resume/job fit check and what the interview's congruency policy did about it */
+  congruency?: {
+    policy: string;
+    action: 'none' | 'warned' | 'adapted' | 'ended';
+    isCongruent: boolean;
+    reasons: string[];
+    missingSkills: string[];
+    transferableSkills: string[];
   };
 }
 
@@ -114,11 +158,19 @@ When in doubt, default to a score of 3 and explain what additional evidence woul
 function getDeveloperPrompt(
   roleTitle: string,
   seniority: Seniority,
-  competencyWeights: Partial<Record<CompetencyKey, number>>
+  competencyWeights: Partial<Record<CompetencyKey, number>>,
+  modePack: InterviewModePack
 ): string {
   const expectations = getSeniorityExpectations(seniority);
+  const modeInfo = modePack.feedbackCriteria.length
+    ? `
+
+INTERVIEW ROUND: ${modePack.label}
+Judge the candidate on what this round tests. Fill "modeAssessment" with one entry per criterion:
+${modePack.feedbackCriteria.map((c) => `- ${c.key} (${c.label}): ${c.description}`).join('\n')}`
+    : '';
   
-  return `ROLE CONTEXT: ${roleTitle} at ${seniority} level
+  return `ROLE CONTEXT: ${roleTitle} at ${seniority} level${modeInfo}
 
 SENIORITY EXPECTATIONS:
 - Minimum expected score: ${expectations.minScore}/100
@@ -159,11 +211,57 @@ function getUserPrompt(context: InterviewContext): string {
     ? `\nRESUME SKILLS: ${context.resumeSkills.join(', ')}`
     : '\nRESUME: Not provided';
 
-  const analyticsInfo = context.retellAnalytics
-    ? `\nSPEECH ANALYTICS:
-- Words per minute: ${context.retellAnalytics.wordsPerMinute || 'N/A'}
-- Filler words detected: ${context.retellAnalytics.fillerWordCount || 0}
-- Total silence: ${context.retellAnalytics.silenceDuration || 0}s`
+  const speech = context.speechAnalytics;
+  const analyticsInfo = speech
+    ? `\nSPEECH ANALYTICS (measured from word timings; use these numbers in the communication section instead of estimating):
+- Pace: ${speech.wpmAverage ?? 'N/A'} words per minute (${speech.pace ?? 'not measured'})${speech.answers.some((a) => a.wpm !== null)
+  ? `; per answer: ${speech.answers.filter((a) => a.wpm !== null).map((a) => `[${formatTimestamp(a.startSec)}] ${a.wpm}`).join(', ')}`
+  : ''}
+- Filler words: ${speech.fillerWords.count} (${speech.fillerWords.per100Words} per 100 words, ${speech.fillerWords.frequency})${speech.fillerWords.top.length
+  ? `: ${speech.fillerWords.top.map((f) => `"${f.filler}" x${f.count}`).join(', ')}`
+  : ''}
+- Pauses of ${SPEECH_ANALYTICS_CONFIG.pauseMinSec}s or more inside answers: ${speech.pauses.count}, longest ${speech.pauses.longestSec}s; average wait before answering: ${speech.responseDelay.averageSec ?? 'N/A'}s
+- Candidate talk time: ${speech.talkTimeRatio !== null ? `${Math.round(speech.talkTimeRatio * 100)}%` : 'N/A'} of speaking time; longest answer ${formatTimestamp(speech.longestMonologue.durationSec)} at [${formatTimestamp(speech.longestMonologue.startSec)}]
+- Interruptions: candidate talked over the interviewer ${speech.interruptions.byCandidate} time(s), interviewer over the candidate ${speech.interruptions.byInterviewer} time(s)`
+    : '';
+
+  const planInfo = context.planCoverage
+    ? `\nINTERVIEW PLAN COVERAGE:
+- Phase reached: ${context.planCoverage.phaseReached}
+- Plan completed: ${Math.round(context.planCoverage.coverage * 100)}%
+- Competencies asked about: ${context.planCoverage.competenciesAssessed.join(', ') || 'none'}
+- Competencies not reached (score 0, "not assessed"): ${context.planCoverage.competenciesSkipped.join(', ') || 'none'}`
+    : '';
+
+  const evaluationInfo = context.answerEvaluations?.length
+    ? `\nLIVE ANSWER SCORES (preliminary 1-5 per answer; verify against the transcript):
+${context.answerEvaluations
+  .map((e) => {
+    const span = e.answerStartSec !== undefined && e.answerEndSec !== undefined
+      ? ` answered ${formatTimestamp(e.answerStartSec)}-${formatTimestamp(e.answerEndSec)}`
+      : '';
+    return `- [${e.competency}, asked at ${e.level} difficulty${span}] score ${e.score}: "${e.question}" - ${e.evidence}`;
+  })
+  .join('\n')}`
+    : '';
+
+  const silenceInfo = context.silenceTimeline?.episodes
+    ? `\nSILENCE TIMELINE (candidate went quiet and the interviewer sent reminders; a sign of freezing, not of missing knowledge by itself):
+${context.silenceTimeline.events
+  .map((e) => {
+    const at = `${formatTimestamp(e.atSec)}${e.phase ? `, ${e.phase}` : ''}`;
+    return e.action === 'recovered'
+      ? `- [${at}] candidate resumed after ${e.level} reminder(s)`
+      : `- [${at}] reminder ${e.level}: ${e.action}`;
+  })
+  .join('\n')}`
+    : '';
+
+  const congruencyInfo = context.congruency && !context.congruency.isCongruent
+    ? `\nRESUME/ROLE GAP (the candidate's background differs from the role; explain the gap constructively in the summary and study plan, do not penalize the career switch itself):
+- Missing for the role: ${context.congruency.missingSkills.join(', ') || 'not specified'}
+- Transferable: ${context.congruency.transferableSkills.join(', ') || 'not specified'}
+- Interviewer ${context.congruency.action === 'adapted' ? 'focused on transferable skills' : context.congruency.action === 'ended' ? 'ended the interview early' : 'kept the standard questions'}`
     : '';
 
   return `INTERVIEW CONTEXT:
@@ -174,6 +272,10 @@ Total exchanges: ${context.transcript.length}
 Was interrupted: ${context.wasInterrupted}${context.interruptionReason ? ` (${context.interruptionReason})` : ''}
 ${resumeInfo}
 ${analyticsInfo}
+${planInfo}
+${evaluationInfo}
+${silenceInfo}
+${congruencyInfo}
 
 JOB DESCRIPTION:
 ${context.jobDescription || 'Not provided'}
@@ -192,7 +294,18 @@ Pay special attention to:
 5. Measurable goals for the next session`;
 }
 
-function getOutputSchema(): string {
+function getOutputSchema(modePack: InterviewModePack): string {
+  const modeSchema = modePack.feedbackCriteria.length
+    ? `,
+  "modeAssessment": {
+    "mode": "${modePack.mode}",
+    "summary": "string (one paragraph verdict for this round)",
+    "criteria": [
+      { "key": "${modePack.feedbackCriteria.map((c) => c.key).join('|')}", "name": "string (localized name)", "score": "number (0-5)", "explanation": "string", "evidence": [{ "timestamp": "number", "quote": "string", "speaker": "string" }] }
+    ]
+  }`
+    : '';
+
   return `{
   "executiveSummary": "string (2-3 sentences summarizing performance)",
   "overallScore": "number (0-100)",
@@ -261,11 +374,55 @@ function getOutputSchema(): string {
     { "goal": "string", "metric": "string", "target": "string" }
   ],
   "warnings": [
-    { "code": "incomplete_transcript|short_interview|missing_audio|language_mismatch|no_resume", "message": "string", "severity": "info|warning|error" }
-  ]
+    { "code": "incomplete_transcript|short_interview|missing_audio|language_mismatch|silence_timeout|no_resume|role_mismatch", "message": "string", "severity": "info|warning|error" }
+  ]${modeSchema}
 }`;
 }
 
+/**
+ * Keep only criteria defined by the mode's feedback schema
+ */
+function normalizeModeAssessment(raw: any, modePack: InterviewModePack): ModeAssessment | undefined {
+  if (!modePack.feedbackCriteria.length || !raw || !Array.isArray(raw.criteria)) {
+    return undefined;
+  }
+
+  const keys = new Set(modePack.feedbackCriteria.map((c) => c.key));
+  return {
+    mode: modePack.mode,
+    summary: String(raw.summary || ''),
+    criteria: raw.criteria
+      .filter((c: any) => c && keys.has(c.key))
+      .map((c: any) => ({
+        key: c.key,
+        name: String(c.name || c.key),
+        score: Math.max(0, Math.min(5, Number(c.score) || 0)),
+        explanation: String(c.explanation || ''),
+        evidence: Array.isArray(c.evidence) ? c.evidence : [],
+      })),
+  };
+}
+
+/**
+ * Replace the model's pace and filler estimates with the measured values
+ */
+function applyMeasuredSpeech(communication: CommunicationAnalysis, speech: SpeechAnalytics): CommunicationAnalysis {
+  return {
+    ...communication,
+    pace: {
+      ...communication.pace,
+      wpm: speech.wpmAverage ?? communication.pace?.wpm,
+      assessment: speech.pace ?? communication.pace?.assessment,
+    },
+    fillerWords: {
+      ...communication.fillerWords,
+      count: speech.fillerWords.count,
+      examples: speech.fillerWords.top.map((f) => f.filler),
+      frequency: speech.fillerWords.frequency,
+    },
+  };
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -303,6 +460,18 @@ function detectDataQualityIssues(context: InterviewContext): DataQualityWarning[
     });
   }
   
+  if (
+    context.planCoverage &&
+    context.planCoverage.coverage < 0.5 &&
+    !warnings.some(w => w.code === 'incomplete_transcript')
+  ) {
+    warnings.push({
+      code: 'incomplete_transcript',
+      message: `Interview covered ${Math.round(context.planCoverage.coverage * 100)}% of the planned questions. Some competencies were not assessed.`,
+      severity: 'warning'
+    });
+  }
+  
   if (context.durationSeconds < 180) {
     warnings.push({
       code: 'short_interview',
@@ -311,6 +480,39 @@ function detectDataQualityIssues(context: InterviewContext): DataQualityWarning[
     });
   }
   
+  if (context.languageMismatch) {
+    const { expectedLanguage, detectedLanguages, switchedTo } = context.languageMismatch;
+    warnings.push({
+      code: 'language_mismatch',
+      message: switchedTo
+        ? `Candidate answered in ${detectedLanguages.join(', ')} instead of ${expectedLanguage}; the interview switched to ${switchedTo}.`
+        : `Candidate answered in ${detectedLanguages.join(', ')} instead of ${expectedLanguage} and was asked to switch back. Communication scores may be less reliable.`,
+      severity: switchedTo ? 'info' : 'warning'
+    });
+  }
+  
+  if (context.silenceTimeline?.endedBySilence) {
+    warnings.push({
+      code: 'silence_timeout',
+      message: `Interview ended after the candidate stayed silent through ${context.silenceTimeline.reminders} reminders. Later competencies were not assessed.`,
+      severity: 'warning'
+    });
+  }
+  
+  if (context.congruency && !context.congruency.isCongruent) {
+    const { action, reasons } = context.congruency;
+    const gap = reasons.length > 0 ? ` ${reasons.slice(0, 2).join(' ')}` : '';
+    warnings.push({
+      code: 'role_mismatch',
+      message: action === 'ended'
+        ? `Interview ended early because the resume and the role differ too much; the credit was restored.${gap}`
+        : action === 'adapted'
+          ? `Resume and role differ, so questions focused on transferable skills.${gap}`
+          : `Resume and role differ; scores reflect the role's requirements.${gap}`,
+      severity: action === 'ended' ? 'warning' : 'info'
+    });
+  }
+  
   if (!context.resumeUsed) {
     warnings.push({
       code: 'no_resume',
@@ -383,8 +585,11 @@ export class FeedbackGenerationService {
   private openai: OpenAI;
   private model: string;
   
-  constructor(apiKey?: string, model?: string) {
-    this.openai = new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY });
+  /**
+   * @param client - Pre-built client (calibration runs pass one that replays recorded responses)
+   */
+  constructor(apiKey?: string, model?: string, client?: OpenAI) {
+    this.openai = client || new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY });
     this.model = model || DEFAULT_MODEL;
   }
   
@@ -414,14 +619,15 @@ export class FeedbackGenerationService {
         };
       }
       
-      // Get role-specific weights
-      const competencyWeights = getCompetencyWeights(context.roleTitle);
+      // Get role-specific (or interview mode) weights
+      const modePack = getInterviewModePack(context.interviewMode);
+      const competencyWeights = getCompetencyWeights(context.roleTitle, context.interviewMode);
       
       // Build prompts
       const systemPrompt = getSystemPrompt(context.language);
-      const developerPrompt = getDeveloperPrompt(context.roleTitle, context.seniority, competencyWeights);
+      const developerPrompt = getDeveloperPrompt(context.roleTitle, context.seniority, competencyWeights, modePack);
       const userPrompt = getUserPrompt(context);
-      const outputSchema = getOutputSchema();
+      const outputSchema = getOutputSchema(modePack);
       
       // Call OpenAI
       const response = await this.openai.chat.completions.create({
@@ -472,7 +678,8 @@ export class FeedbackGenerationService {
           totalExchanges: context.transcript.length,
           interviewDate: new Date().toISOString(),
           wasInterrupted: context.wasInterrupted,
-          interruptionReason: context.interruptionReason
+          interruptionReason: context.interruptionReason,
+          interviewMode: modePack.mode
         },
         overallScore: rawFeedback.overallScore,
         scoreConfidence: rawFeedback.scoreConfidence,
@@ -491,16 +698,30 @@ export class FeedbackGenerationService {
         },
         studyPlan: rawFeedback.studyPlan || [],
         nextSessionGoals: rawFeedback.nextSessionGoals || [],
-        warnings: [...warnings, ...(rawFeedback.warnings || [])]
+        warnings: [...warnings, ...(rawFeedback.warnings || [])],
+        modeAssessment: normalizeModeAssessment(rawFeedback.modeAssessment, modePack)
       };
       
+      if (context.speechAnalytics) {
+        feedback.communication = applyMeasuredSpeech(feedback.communication, context.speechAnalytics);
+      }
+      
+      // Drop quotes the transcript doesn't contain and point the rest at the real segment
+      const evidenceCheck = verifyFeedbackEvidence(feedback, context.transcript);
+      if (evidenceCheck.dropped > 0) {
+        logger.warn('Removed feedback evidence not found in transcript', {
+          requestId,
+          ...evidenceCheck
+        });
+      }
+      
       // Recalculate overall score using weights if competencies are present
       if (feedback.competencies.length > 0) {
         const competencyScores: Record<CompetencyKey, number> = {} as any;
         feedback.competencies.forEach(c => {
           competencyScores[c.key] = c.score;
         });
-        const calculatedScore = calculateWeightedScore(competencyScores, context.roleTitle);
+        const calculatedScore = calculateWeightedScore(competencyScores, context.roleTitle, context.interviewMode);
         
         // Use calculated score if significantly different
         if (Math.abs(calculatedScore - feedback.overallScore) > 10) {
@@ -549,4 +770,15 @@ export class FeedbackGenerationService {
 // SINGLETON EXPORT
 // ============================================
 
-export const feedbackGenerationService = new FeedbackGenerationService();
+let sharedService: FeedbackGenerationService | null = null;
+
+/**
+ * Shared instance, created on first use so importing this module doesn't
+ * require OPENAI_API_KEY (calibration stub runs, environments without OpenAI)
+ */
+export function getFeedbackGenerationService(): FeedbackGenerationService {
+  if (!sharedService) {
+    sharedService = new FeedbackGenerationService();
+  }
+  return sharedService;
+}
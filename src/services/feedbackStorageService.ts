@@ -4,12 +4,13 @@
  * Canonical storage:
  * - Structured feedback JSON stays in Postgres (FeedbackDocument.contentJson)
  * - Generated feedback PDF lives in Azure Blob (FeedbackDocument.pdfStorageKey)
+ * - Every generation is kept as a FeedbackVersion; the document shows the selected one
  */
 
 import { PrismaClient } from '@prisma/client';
 import { StructuredFeedback } from '../types/feedback';
 import logger from '../utils/logger';
-import { upsertFeedbackDocument } from './feedbackDocumentService';
+import { upsertFeedbackDocument, recordFeedbackVersion } from './feedbackDocumentService';
 
 const prisma = new PrismaClient();
 
@@ -22,6 +23,8 @@ export interface StoreFeedbackJsonParams {
   feedback: StructuredFeedback;
   generationTimeMs?: number;
   tokenCount?: number;
+  /** Set when regenerating; the first generation is recorded as "initial" */
+  reason?: string;
 }
 
 export interface StoreFeedbackPdfParams {
@@ -37,6 +40,7 @@ export interface StoreFeedbackPdfParams {
 export interface StoredFeedbackJson {
   id: string;
   interviewId: string;
+  version: number;
   schemaVersion: string;
   promptVersion: string;
   model: string;
@@ -62,7 +66,7 @@ export interface StoredFeedbackPdf {
 export async function storeFeedbackJson(
   params: StoreFeedbackJsonParams
 ): Promise<StoredFeedbackJson> {
-  const { interviewId, feedback, generationTimeMs, tokenCount } = params;
+  const { interviewId, feedback, generationTimeMs, tokenCount, reason } = params;
   
   logger.info('Storing feedback JSON', {
     interviewId,
@@ -81,25 +85,24 @@ export async function storeFeedbackJson(
       throw new Error('Interview not found');
     }
 
-    const record = await upsertFeedbackDocument({
+    const record = await recordFeedbackVersion({
       interviewId,
       userId: interview.userId,
-      contentJson: feedback,
-      overallScore: feedback.overallScore,
-      schemaVersion: feedback.schemaVersion,
-      promptVersion: feedback.promptVersion,
-      model: feedback.model
+      feedback,
+      reason
     });
 
     logger.info('Feedback document stored successfully', {
       id: record.id,
-      interviewId: record.interviewId
+      interviewId: record.interviewId,
+      version: record.version
     });
 
     // Preserve signature: return a "StoredFeedbackJson"-like summary
     return {
       id: record.id,
       interviewId: record.interviewId,
+      version: record.version,
       schemaVersion: feedback.schemaVersion,
       promptVersion: feedback.promptVersion,
       model: feedback.model,
@@ -214,11 +217,13 @@ export async function getFeedbackHistory(
   interviewId: string
 ): Promise<StoredFeedbackJson[]> {
   try {
-    const record = await prisma.feedbackDocument.findUnique({
+    const versions = await prisma.feedbackVersion.findMany({
       where: { interviewId },
+      orderBy: { version: 'desc' },
       select: {
         id: true,
         interviewId: true,
+        version: true,
         schemaVersion: true,
         promptVersion: true,
         model: true,
@@ -227,19 +232,16 @@ export async function getFeedbackHistory(
       }
     });
 
-    if (!record) return [];
-
-    return [
-      {
-        id: record.id,
-        interviewId: record.interviewId,
-        schemaVersion: record.schemaVersion || 'unknown',
-        promptVersion: record.promptVersion || 'unknown',
-        model: record.model || 'unknown',
-        overallScore: record.overallScore ?? 0,
-        createdAt: record.createdAt
-      }
-    ];
+    return versions.map((record) => ({
+      id: record.id,
+      interviewId: record.interviewId,
+      version: record.version,
+      schemaVersion: record.schemaVersion || 'unknown',
+      promptVersion: record.promptVersion || 'unknown',
+      model: record.model || 'unknown',
+      overallScore: record.overallScore ?? 0,
+      createdAt: record.createdAt
+    }));
   } catch (error: any) {
     logger.error('Failed to get feedback history', {
       interviewId,
@@ -265,13 +267,30 @@ export async function getPdfsForFeedback(
 // ============================================
 
 /**
- * Delete old feedback versions, keeping only the latest N
+ * Delete old feedback versions, keeping only the latest N (the displayed one is always kept)
  */
 export async function cleanupOldFeedback(
   interviewId: string,
   keepCount: number = 3
 ): Promise<number> {
-  // No versioning in FeedbackDocument-only world.
-  logger.debug('cleanupOldFeedback is a no-op for FeedbackDocument', { interviewId, keepCount });
-  return 0;
+  const [doc, versions] = await Promise.all([
+    prisma.feedbackDocument.findUnique({ where: { interviewId }, select: { activeVersion: true } }),
+    prisma.feedbackVersion.findMany({
+      where: { interviewId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    })
+  ]);
+
+  const stale = versions
+    .slice(keepCount)
+    .map((v) => v.version)
+    .filter((version) => version !== doc?.activeVersion);
+  if (stale.length === 0) return 0;
+
+  const result = await prisma.feedbackVersion.deleteMany({
+    where: { interviewId, version: { in: stale } }
+  });
+  logger.info('Deleted old feedback versions', { interviewId, deleted: result.count, keepCount });
+  return result.count;
 }
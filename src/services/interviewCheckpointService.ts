@@ -0,0 +1,213 @@
+/**
+ * Interview Checkpoint Service
+ *
+ * Persists live interview state per Retell call_id through the CacheProvider
+ * so a reconnecting Custom LLM socket resumes the same interview (history,
+ * elapsed time, plan progress) instead of re-greeting the candidate.
+ *
+ * The system prompt and history carry resume excerpts and the candidate's
+ * answers, so the checkpoint is stored encrypted with the call context key.
+ *
+ * Also owns the "resume grace" window: when a socket drops mid-interview,
+ * session finalization is deferred so Retell's auto-reconnect can pick up.
+ *
+ * @module services/interviewCheckpointService
+ */
+
+import { cacheProvider } from '../providers/cacheProvider';
+import { decryptText, encryptText } from './callContextService';
+import { wsLogger } from '../utils/logger';
+import type { ChatMessage, ChatProviderName } from '../providers/chatProvider';
+import type { DynamicPromptConfig } from '../prompts/multilingualPrompts';
+import type { CompanyStyleProfile } from '../prompts/companyProfiles';
+import type { InterviewTimerState } from '../utils/interviewTimer';
+import type { InterviewPlanState } from '../utils/interviewPlan';
+import type { ConversationMemoryState } from '../utils/conversationMemory';
+import type { DifficultyTrackerState } from '../utils/adaptiveDifficulty';
+import type { LanguageMismatchState } from '../utils/languageMismatch';
+import type { CandidateControlEvent } from '../utils/candidateControls';
+import type { SilencePolicyState } from '../utils/silencePolicy';
+import type { GuardrailEvent } from '../utils/guardrails';
+import type { PanelState } from '../utils/panelOrchestrator';
+import type { TurnLatencyState } from '../utils/turnLatency';
+import type { CongruencyOutcome } from '../utils/congruencyAnalyzer';
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+const CHECKPOINT_KEY_PREFIX = 'interview:checkpoint:';
+const CHECKPOINT_VERSION = 2;
+
+// Matches the call context TTL - calls shouldn't last longer than this
+const CHECKPOINT_TTL_SECONDS = 2 * 60 * 60;
+
+export const RESUME_GRACE_MS =
+  parseInt(process.env.INTERVIEW_RESUME_GRACE_SECONDS || '30', 10) * 1000;
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface InterviewCheckpoint {
+  version: number;
+  callId: string;
+  savedAt: number;
+  /** Call metadata without the base64 resume (restored from call context) */
+  metadata: Record<string, any> | null;
+  dynamicPromptConfig?: DynamicPromptConfig;
+  companyProfile?: CompanyStyleProfile;
+  systemPrompt: string;
+  conversationHistory: ChatMessage[];
+  responseId: number;
+  timer: InterviewTimerState;
+  plan: InterviewPlanState | null;
+  memory?: ConversationMemoryState;
+  difficulty?: DifficultyTrackerState;
+  language?: LanguageMismatchState;
+  controls?: CandidateControlEvent[];
+  silence?: SilencePolicyState;
+  latency?: TurnLatencyState;
+  congruency?: CongruencyOutcome;
+  guardrails?: GuardrailEvent[];
+  panel?: PanelState;
+  flags: {
+    hasGreeted: boolean;
+    congruencyChecked: boolean;
+    shouldEndInterview: boolean;
+    isExtremelyIncompatible: boolean;
+    firstUtteranceSent: boolean;
+  };
+  llm: {
+    provider: ChatProviderName | null;
+    fallbackProvider: ChatProviderName | null;
+    model?: string;
+    hasFailedOver: boolean;
+  };
+  metrics: {
+    sessionId: string | null;
+    totalPromptTokens: number;
+    totalCompletionTokens: number;
+    turnCount: number;
+    clarificationCount: number;
+  };
+}
+
+// ========================================
+// CHECKPOINT STORAGE
+// ========================================
+
+// Cached form: only what the grace window needs is readable, the state is ciphertext
+interface StoredInterviewCheckpoint {
+  version: number;
+  savedAt: number;
+  payload: string;
+}
+
+function checkpointKey(callId: string): string {
+  return `${CHECKPOINT_KEY_PREFIX}${callId}`;
+}
+
+export async function saveInterviewCheckpoint(
+  checkpoint: Omit<InterviewCheckpoint, 'version' | 'savedAt'>
+): Promise<void> {
+  if (!checkpoint.callId) {
+    return;
+  }
+
+  try {
+    const savedAt = Date.now();
+    await cacheProvider.set<StoredInterviewCheckpoint>(
+      checkpointKey(checkpoint.callId),
+      {
+        version: CHECKPOINT_VERSION,
+        savedAt,
+        payload: encryptText(JSON.stringify({ ...checkpoint, version: CHECKPOINT_VERSION, savedAt })),
+      },
+      CHECKPOINT_TTL_SECONDS
+    );
+  } catch (error: any) {
+    wsLogger.warn('Failed to save interview checkpoint', {
+      callId: checkpoint.callId,
+      error: error.message,
+    });
+  }
+}
+
+export async function loadInterviewCheckpoint(callId: string): Promise<InterviewCheckpoint | null> {
+  if (!callId) {
+    return null;
+  }
+
+  try {
+    const stored = await cacheProvider.get<StoredInterviewCheckpoint>(checkpointKey(callId));
+    if (!stored || stored.version !== CHECKPOINT_VERSION || typeof stored.payload !== 'string') {
+      return null;
+    }
+    return JSON.parse(decryptText(stored.payload)) as InterviewCheckpoint;
+  } catch (error: any) {
+    wsLogger.warn('Failed to load interview checkpoint', { callId, error: error.message });
+    return null;
+  }
+}
+
+export async function clearInterviewCheckpoint(callId: string): Promise<void> {
+  if (!callId) {
+    return;
+  }
+
+  try {
+    await cacheProvider.del(checkpointKey(callId));
+  } catch (error: any) {
+    wsLogger.warn('Failed to clear interview checkpoint', { callId, error: error.message });
+  }
+}
+
+// ========================================
+// RESUME GRACE WINDOW
+// ========================================
+
+const pendingFinalizations = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Defer finalization of a dropped call. The callback runs only if no handler
+ * has saved a newer checkpoint (i.e. the call was not resumed on any instance).
+ */
+export function scheduleFinalizationAfterGrace(
+  callId: string,
+  finalize: () => void,
+  graceMs: number = RESUME_GRACE_MS
+): void {
+  cancelScheduledFinalization(callId);
+  const closedAt = Date.now();
+
+  const timer = setTimeout(async () => {
+    pendingFinalizations.delete(callId);
+
+    const checkpoint = await loadInterviewCheckpoint(callId);
+    if (checkpoint && checkpoint.savedAt > closedAt) {
+      wsLogger.info('Interview resumed after disconnect - skipping finalization', { callId });
+      return;
+    }
+
+    finalize();
+  }, graceMs);
+
+  pendingFinalizations.set(callId, timer);
+}
+
+export function cancelScheduledFinalization(callId: string): void {
+  const timer = pendingFinalizations.get(callId);
+  if (timer) {
+    clearTimeout(timer);
+    pendingFinalizations.delete(callId);
+  }
+}
+
+export default {
+  saveInterviewCheckpoint,
+  loadInterviewCheckpoint,
+  clearInterviewCheckpoint,
+  scheduleFinalizationAfterGrace,
+  cancelScheduledFinalization,
+};
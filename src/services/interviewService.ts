@@ -4,8 +4,38 @@
  */
 
 import { prisma, dbLogger } from './databaseService';
-import { Prisma, InterviewStatus } from '@prisma/client';
+import { Prisma, InterviewStatus, InterviewMode, CongruencyPolicy } from '@prisma/client';
 import { sendInterviewCompleteEmail } from './transactionalEmailService';
+import { getInterviewModePack } from '../prompts/interviewModes';
+import type { TimerCheckpoint } from '../utils/interviewTimer';
+
+// ========================================
+// DURATION & CREDIT COST
+// ========================================
+
+export const MIN_INTERVIEW_DURATION_MINUTES = 5;
+export const MAX_INTERVIEW_DURATION_MINUTES = 45;
+// Each started block of this many minutes costs one credit
+const MINUTES_PER_CREDIT = 15;
+
+/**
+ * Credits charged for an interview of the given length (15 min = 1, 30 min = 2, ...)
+ */
+export function getInterviewCreditCost(durationMinutes: number): number {
+  return Math.max(1, Math.ceil(durationMinutes / MINUTES_PER_CREDIT));
+}
+
+/**
+ * Effective call length: the requested duration, else the mode default,
+ * else MAX_INTERVIEW_DURATION_MINUTES
+ */
+export function resolveInterviewDuration(interviewMode?: InterviewMode | null, durationMinutes?: number | null): number {
+  return (
+    durationMinutes ||
+    getInterviewModePack(interviewMode).durationMinutes ||
+    parseInt(process.env.MAX_INTERVIEW_DURATION_MINUTES || '15')
+  );
+}
 
 // ========================================
 // INTERVIEW CRUD OPERATIONS
@@ -20,6 +50,13 @@ interface CreateInterviewData {
   resumeId: string; // UUID reference to ResumeDocument (resume stored in Azure Blob)
   language?: string; // Interview language code
   country?: string; // Job location country code (e.g., 'US', 'BR')
+  questionTemplateId?: string; // Recruiter question bank (ownership checked by caller)
+  interviewMode?: InterviewMode; // Round being practiced (defaults to STANDARD)
+  durationMinutes?: number; // Call length (defaults to the mode's duration)
+  timerCheckpoints?: TimerCheckpoint[]; // Spoken time notices (defaults to halfway, 5 and 1 min left)
+  panelPersonas?: string[]; // Panel interview personas, lead first (defaults to a single interviewer)
+  voiceId?: string; // Retell voice override
+  congruencyPolicy?: CongruencyPolicy; // What the resume/job fit check may do (defaults to END)
 }
 
 interface UpdateInterviewData {
@@ -52,6 +89,7 @@ export async function createInterview(data: CreateInterviewData) {
 
   // User ID is the DB UUID (session auth)
   const resolvedUserId = data.userId;
+  const durationMinutes = resolveInterviewDuration(data.interviewMode, data.durationMinutes);
 
   const interview = await prisma.interview.create({
     data: {
@@ -63,6 +101,14 @@ export async function createInterview(data: CreateInterviewData) {
       resumeId: data.resumeId, // Foreign key to ResumeDocument
       language: data.language || 'en-US',
       roleCountryCode: data.country || null,
+      questionTemplateId: data.questionTemplateId || null,
+      interviewMode: data.interviewMode || 'STANDARD',
+      durationMinutes,
+      creditCost: getInterviewCreditCost(durationMinutes),
+      timerCheckpoints: data.timerCheckpoints ?? Prisma.DbNull,
+      panelPersonas: data.panelPersonas || [],
+      voiceId: data.voiceId || null,
+      congruencyPolicy: data.congruencyPolicy,
       status: 'PENDING'
     }
   });
@@ -556,7 +602,15 @@ export async function cloneInterview(
       seniority: true,
       companyName: true,
       jobDescription: true,
-      resumeId: true
+      resumeId: true,
+      questionTemplateId: true,
+      interviewMode: true,
+      durationMinutes: true,
+      creditCost: true,
+      timerCheckpoints: true,
+      panelPersonas: true,
+      voiceId: true,
+      congruencyPolicy: true
     }
   });
   
@@ -624,6 +678,15 @@ export async function cloneInterview(
       companyName: original.companyName,
       jobDescription: options.updateJobDescription || original.jobDescription,
       resumeId,
+      // Retakes keep the recruiter question bank so the same questions are practiced
+      questionTemplateId: original.questionTemplateId,
+      interviewMode: original.interviewMode,
+      durationMinutes: original.durationMinutes,
+      creditCost: original.creditCost,
+      timerCheckpoints: original.timerCheckpoints ?? Prisma.DbNull,
+      panelPersonas: original.panelPersonas,
+      voiceId: original.voiceId,
+      congruencyPolicy: original.congruencyPolicy,
       status: 'PENDING'
     }
   });
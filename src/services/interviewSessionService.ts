@@ -7,7 +7,7 @@
  * @module services/interviewSessionService
  */
 
-import { PrismaClient, InterviewEndReason } from '@prisma/client';
+import { PrismaClient, Prisma, InterviewEndReason } from '@prisma/client';
 import { wsLogger } from '../utils/logger';
 
 const prisma = new PrismaClient();
@@ -24,6 +24,9 @@ export interface CreateSessionParams {
   roleTitle: string;
   seniority?: string;
   roleCountry?: string;
+  region?: string;
+  hasCustomPrompt?: boolean;
+  recruiterPromptLength?: number;
 }
 
 export interface UpdateSessionTimingParams {
@@ -53,6 +56,15 @@ export interface UpdateSessionMetricsParams {
   silenceCount?: number;
 }
 
+export interface UpdateSessionPlanParams {
+  phaseReached: string;
+  planStepsCompleted: number;
+  planStepsTotal: number;
+  plannedCompetencies: string[];
+  questionsAsked: unknown[];
+  difficultyTrajectory?: unknown[];
+}
+
 export interface FinalizeSessionParams {
   endReason: InterviewEndReason;
   completionRate?: number;
@@ -60,13 +72,21 @@ export interface FinalizeSessionParams {
   retellDisconnectReason?: string;
 }
 
-// OpenAI Pricing (GPT-4o as of Dec 2024)
-const OPENAI_PRICING = {
+// Region label recorded on each session for latency breakdowns
+const DEPLOYMENT_REGION = process.env.DEPLOYMENT_REGION || undefined;
+
+// LLM Pricing per 1k tokens (OpenAI as of Dec 2024, Anthropic/Gemini list prices)
+const LLM_PRICING = {
   'gpt-4o': { promptPer1k: 0.0025, completionPer1k: 0.01 },
   'gpt-4o-mini': { promptPer1k: 0.00015, completionPer1k: 0.0006 },
   'gpt-4-turbo': { promptPer1k: 0.01, completionPer1k: 0.03 },
   'gpt-4': { promptPer1k: 0.03, completionPer1k: 0.06 },
   'gpt-3.5-turbo': { promptPer1k: 0.0005, completionPer1k: 0.0015 },
+  'claude-3-5-haiku-latest': { promptPer1k: 0.0008, completionPer1k: 0.004 },
+  'claude-3-5-sonnet-latest': { promptPer1k: 0.003, completionPer1k: 0.015 },
+  'gemini-1.5-flash': { promptPer1k: 0.000075, completionPer1k: 0.0003 },
+  'gemini-1.5-pro': { promptPer1k: 0.00125, completionPer1k: 0.005 },
+  'local-stub': { promptPer1k: 0, completionPer1k: 0 },
 };
 
 // ========================================
@@ -93,6 +113,9 @@ export async function createInterviewSession(params: CreateSessionParams) {
         roleTitle: params.roleTitle,
         seniority: params.seniority,
         roleCountry: params.roleCountry,
+        region: params.region || DEPLOYMENT_REGION,
+        hasCustomPrompt: params.hasCustomPrompt ?? false,
+        recruiterPromptLength: params.recruiterPromptLength,
         callStartedAt: new Date(),
       },
     });
@@ -170,11 +193,13 @@ export async function updateSessionTokens(
     const newCompletionTokens = (session.completionTokens || 0) + (params.completionTokens || 0);
     const newTotalTokens = newPromptTokens + newCompletionTokens;
 
-    // Calculate cost based on model
+    // Accumulate cost per call so a mid-interview provider failover
+    // does not reprice earlier turns with the fallback model's rates
     const model = params.llmModel || session.llmModel || 'gpt-4o';
-    const pricing = OPENAI_PRICING[model as keyof typeof OPENAI_PRICING] || OPENAI_PRICING['gpt-4o'];
-    const cost = (newPromptTokens / 1000 * pricing.promptPer1k) + 
-                 (newCompletionTokens / 1000 * pricing.completionPer1k);
+    const pricing = LLM_PRICING[model as keyof typeof LLM_PRICING] || LLM_PRICING['gpt-4o'];
+    const cost = (session.estimatedCostUsd || 0) +
+                 ((params.promptTokens || 0) / 1000 * pricing.promptPer1k) +
+                 ((params.completionTokens || 0) / 1000 * pricing.completionPer1k);
 
     return await prisma.interviewSession.update({
       where: { interviewId },
@@ -354,6 +379,154 @@ export async function finalizeSession(
   }
 }
 
+/**
+ * Persist structured interview plan progress (phase reached, questions asked,
+ * adaptive difficulty trajectory)
+ */
+export async function updateSessionPlanProgress(
+  interviewId: string,
+  params: UpdateSessionPlanParams
+) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: {
+        phaseReached: params.phaseReached,
+        planStepsCompleted: params.planStepsCompleted,
+        planStepsTotal: params.planStepsTotal,
+        plannedCompetencies: params.plannedCompetencies,
+        questionsAsked: params.questionsAsked as Prisma.InputJsonValue,
+        difficultyTrajectory: params.difficultyTrajectory as Prisma.InputJsonValue | undefined,
+      },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session plan progress', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist language mismatch events detected during the call (steered or switched)
+ */
+export async function updateSessionLanguageEvents(interviewId: string, events: unknown[]) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: { languageEvents: events as Prisma.InputJsonValue },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session language events', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist candidate control commands executed during the call
+ */
+export async function updateSessionControlEvents(interviewId: string, events: unknown[]) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: { controlEvents: events as Prisma.InputJsonValue },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session control events', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist the silence timeline (reminders sent and when the candidate recovered)
+ */
+export async function updateSessionSilenceEvents(interviewId: string, events: unknown[]) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: { silenceEvents: events as Prisma.InputJsonValue },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session silence events', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist guardrail violations (redacted injection attempts, replaced interviewer output)
+ */
+export async function updateSessionGuardrailEvents(interviewId: string, events: unknown[]) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: { guardrailEvents: events as Prisma.InputJsonValue },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session guardrail events', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist the per-turn latency series, with the first turn's first-token time
+ * and the mean response time as the session-level summary
+ */
+export async function updateSessionTurnLatencies(
+  interviewId: string,
+  turns: unknown[],
+  summary: { timeToFirstToken?: number; avgResponseLatency?: number }
+) {
+  try {
+    return await prisma.interviewSession.update({
+      where: { interviewId },
+      data: {
+        turnLatencies: turns as Prisma.InputJsonValue,
+        timeToFirstToken: summary.timeToFirstToken,
+        avgResponseLatency: summary.avgResponseLatency,
+      },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to update session turn latencies', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
+/**
+ * Persist the live resume/job fit check result on the Interview itself, so it
+ * is there for the feedback report even when the call ends before a session
+ * row is finalized
+ */
+export async function recordCongruencyOutcome(interviewId: string, outcome: unknown) {
+  try {
+    return await prisma.interview.update({
+      where: { id: interviewId },
+      data: { congruencyAnalysis: outcome as Prisma.InputJsonValue },
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to record congruency outcome', {
+      error: error.message,
+      interviewId,
+    });
+    return null;
+  }
+}
+
 /**
  * Get session by interview ID
  */
@@ -410,6 +583,13 @@ export default {
   recordFirstAgentUtterance,
   incrementClarificationTurns,
   incrementSilenceCount,
+  updateSessionPlanProgress,
+  updateSessionLanguageEvents,
+  updateSessionControlEvents,
+  updateSessionSilenceEvents,
+  updateSessionGuardrailEvents,
+  updateSessionTurnLatencies,
+  recordCongruencyOutcome,
   finalizeSession,
   getSessionByInterviewId,
   getSessionByRetellCallId,
@@ -0,0 +1,129 @@
+/**
+ * Latency Telemetry Service
+ *
+ * Aggregates the per-turn latency series stored on InterviewSession into
+ * p50/p95/p99 for request -> first token and request -> last token, broken
+ * down by LLM model, interview language and deployment region.
+ *
+ * @module services/latencyTelemetryService
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './databaseService';
+import { summarizeTurnLatencies, type TurnLatency, type TurnLatencySummary } from '../utils/turnLatency';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const LATENCY_REPORT_LIMITS = {
+  defaultDays: 7,
+  maxDays: 90,
+  // Most recent sessions scanned per report
+  maxSessions: 5000,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LatencyReportFilters {
+  days?: number;
+  model?: string;
+  language?: string;
+  region?: string;
+}
+
+export interface LatencyGroup extends TurnLatencySummary {
+  key: string;
+  avgBytesSent: number | null;
+}
+
+export interface LatencyReport {
+  since: string;
+  sessions: number;
+  overall: Omit<LatencyGroup, 'key'>;
+  byModel: LatencyGroup[];
+  byLanguage: LatencyGroup[];
+  byRegion: LatencyGroup[];
+}
+
+interface RegionalTurn extends TurnLatency {
+  language: string;
+  region: string;
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+function summarize(turns: TurnLatency[]): Omit<LatencyGroup, 'key'> {
+  return {
+    ...summarizeTurnLatencies(turns),
+    avgBytesSent: turns.length > 0
+      ? Math.round(turns.reduce((sum, t) => sum + t.bytesSent, 0) / turns.length)
+      : null,
+  };
+}
+
+function groupBy(turns: RegionalTurn[], key: 'model' | 'language' | 'region'): LatencyGroup[] {
+  const groups = new Map<string, RegionalTurn[]>();
+  for (const turn of turns) {
+    const group = groups.get(turn[key]) || [];
+    group.push(turn);
+    groups.set(turn[key], group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([value, group]) => ({ key: value, ...summarize(group) }))
+    .sort((a, b) => b.turns - a.turns);
+}
+
+function isTurnLatency(value: unknown): value is TurnLatency {
+  const turn = value as TurnLatency;
+  return !!turn && typeof turn.firstTokenMs === 'number' && typeof turn.lastTokenMs === 'number';
+}
+
+/**
+ * Latency percentiles over the sessions started in the last `days` days
+ */
+export async function getLatencyReport(filters: LatencyReportFilters = {}): Promise<LatencyReport> {
+  const days = Math.min(filters.days || LATENCY_REPORT_LIMITS.defaultDays, LATENCY_REPORT_LIMITS.maxDays);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const sessions = await prisma.interviewSession.findMany({
+    where: {
+      callStartedAt: { gte: since },
+      turnLatencies: { not: Prisma.DbNull },
+      language: filters.language,
+      region: filters.region,
+    },
+    select: { language: true, region: true, turnLatencies: true },
+    orderBy: { callStartedAt: 'desc' },
+    take: LATENCY_REPORT_LIMITS.maxSessions,
+  });
+
+  const turns: RegionalTurn[] = [];
+  for (const session of sessions) {
+    const series: unknown[] = Array.isArray(session.turnLatencies) ? session.turnLatencies : [];
+    for (const turn of series) {
+      if (!isTurnLatency(turn) || (filters.model && turn.model !== filters.model)) {
+        continue;
+      }
+      turns.push({ ...turn, language: session.language, region: session.region || 'unknown' });
+    }
+  }
+
+  return {
+    since: since.toISOString(),
+    sessions: sessions.length,
+    overall: summarize(turns),
+    byModel: groupBy(turns, 'model'),
+    byLanguage: groupBy(turns, 'language'),
+    byRegion: groupBy(turns, 'region'),
+  };
+}
+
+export default {
+  getLatencyReport,
+};
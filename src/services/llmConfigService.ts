@@ -8,6 +8,8 @@
  */
 
 import { dbLogger } from './databaseService';
+import { ChatProviderName, isChatProviderName } from '../providers/chatProvider';
+import type { ConversationMemoryMode } from '../utils/conversationMemory';
 
 // ========================================
 // TYPES
@@ -22,6 +24,10 @@ export interface LLMConfig {
   maxQuestions: number;
   interviewDurationMinutes: number;
   complexityMultiplier: number;
+  llmProvider: ChatProviderName;
+  llmModel?: string;
+  fallbackLLMProvider?: ChatProviderName;
+  memoryMode: ConversationMemoryMode;
 }
 
 export interface ResolveConfigParams {
@@ -29,7 +35,11 @@ export interface ResolveConfigParams {
   jobTitle: string;
   seniority?: string;
   language: string;
+  /** The interview's own length; the role's typical length when not set */
+  durationMinutes?: number;
   companyName?: string;
+  llmProvider?: string;
+  llmModel?: string;
 }
 
 // ========================================
@@ -200,6 +210,90 @@ const SENIORITY_MODIFIERS: Record<string, SeniorityModifier> = {
   },
 };
 
+// ========================================
+// LLM PROVIDER SELECTION
+// ========================================
+
+/**
+ * Parse a "key:provider" list such as "zh-CN:gemini,Tech Lead:anthropic".
+ * Keys may be language codes or role names; unknown providers are ignored.
+ */
+function parseProviderOverrides(raw: string | undefined): Record<string, ChatProviderName> {
+  const overrides: Record<string, ChatProviderName> = {};
+  if (!raw) return overrides;
+
+  for (const entry of raw.split(',')) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).trim();
+    const provider = entry.slice(separator + 1).trim();
+    if (key && isChatProviderName(provider)) {
+      overrides[key] = provider;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Pick the chat provider for an interview.
+ * Precedence: explicit param > language override > role override > LLM_PROVIDER > openai
+ */
+function resolveLLMProvider(params: ResolveConfigParams): {
+  llmProvider: ChatProviderName;
+  llmModel?: string;
+  fallbackLLMProvider?: ChatProviderName;
+} {
+  const overrides = parseProviderOverrides(process.env.LLM_PROVIDER_OVERRIDES);
+  const envProvider = process.env.LLM_PROVIDER;
+  const envFallback = process.env.LLM_FALLBACK_PROVIDER;
+
+  let llmProvider: ChatProviderName = 'openai';
+  if (isChatProviderName(params.llmProvider)) {
+    llmProvider = params.llmProvider;
+  } else if (overrides[params.language]) {
+    llmProvider = overrides[params.language];
+  } else if (params.currentRole && overrides[params.currentRole]) {
+    llmProvider = overrides[params.currentRole];
+  } else if (isChatProviderName(envProvider)) {
+    llmProvider = envProvider;
+  }
+
+  // LLM_MODEL only applies to the env-selected provider; overrides use vendor defaults
+  const llmModel = params.llmModel
+    || (llmProvider === envProvider ? process.env.LLM_MODEL || undefined : undefined);
+
+  const fallbackLLMProvider = isChatProviderName(envFallback) && envFallback !== llmProvider
+    ? envFallback
+    : undefined;
+
+  return { llmProvider, llmModel, fallbackLLMProvider };
+}
+
+// ========================================
+// CONVERSATION MEMORY
+// ========================================
+
+// Long or senior interviews outgrow the pruned history window
+const ROLLING_SUMMARY_MIN_DURATION_MINUTES = 25;
+const ROLLING_SUMMARY_MIN_COMPLEXITY = 1.3;
+
+/**
+ * Pick how the live interviewer keeps context once history is pruned.
+ * LLM_MEMORY_MODE (truncate | rolling_summary) overrides the duration/seniority default.
+ */
+function resolveMemoryMode(durationMinutes: number, complexityMultiplier: number): ConversationMemoryMode {
+  const envMode = process.env.LLM_MEMORY_MODE;
+  if (envMode === 'truncate' || envMode === 'rolling_summary') {
+    return envMode;
+  }
+
+  return durationMinutes >= ROLLING_SUMMARY_MIN_DURATION_MINUTES ||
+    complexityMultiplier >= ROLLING_SUMMARY_MIN_COMPLEXITY
+    ? 'rolling_summary'
+    : 'truncate';
+}
+
 // ========================================
 // CONFIG RESOLVER
 // ========================================
@@ -219,7 +313,7 @@ export function resolveLLMConfig(params: ResolveConfigParams): LLMConfig {
   const roleConfig = ROLE_CONFIGS[roleKey];
   
   // Get seniority modifier (fallback to 'Mid' if not found)
-  const seniorityKey = seniority && SENIORITY_MODIFIERS[seniority] ? seniority : 'Mid';
+  const seniorityKey = toSeniorityKey(seniority) || 'Mid';
   const seniorityMod = SENIORITY_MODIFIERS[seniorityKey];
   
   // Combine focus areas
@@ -240,6 +334,8 @@ export function resolveLLMConfig(params: ResolveConfigParams): LLMConfig {
     Math.round(baseComplexityIndex * seniorityMod.complexityMultiplier)
   );
   
+  const interviewDurationMinutes = params.durationMinutes || roleConfig.interviewDurationMinutes;
+
   const config: LLMConfig = {
     promptTemplate: roleConfig.promptTemplate,
     scoringRubric: roleConfig.scoringRubric,
@@ -247,19 +343,25 @@ export function resolveLLMConfig(params: ResolveConfigParams): LLMConfig {
     focusAreas,
     language: language || 'en-US',
     maxQuestions,
-    interviewDurationMinutes: roleConfig.interviewDurationMinutes,
+    interviewDurationMinutes,
     complexityMultiplier: seniorityMod.complexityMultiplier,
+    ...resolveLLMProvider(params),
+    memoryMode: resolveMemoryMode(interviewDurationMinutes, seniorityMod.complexityMultiplier),
   };
   
   dbLogger.info('LLM config resolved', {
     inputRole: currentRole,
     inputSeniority: seniority,
     jobTitle,
+    durationMinutes: interviewDurationMinutes,
     language,
     resolvedConfig: {
       promptTemplate: config.promptTemplate,
       questionComplexity: config.questionComplexity,
       maxQuestions: config.maxQuestions,
+      llmProvider: config.llmProvider,
+      fallbackLLMProvider: config.fallbackLLMProvider,
+      memoryMode: config.memoryMode,
     },
   });
   
@@ -273,6 +375,18 @@ export function getAvailableRoles(): string[] {
   return Object.keys(ROLE_CONFIGS);
 }
 
+/**
+ * Map a stored seniority (Interview.seniority is lowercase, e.g. 'senior') to its
+ * SENIORITY_MODIFIERS key
+ */
+export function toSeniorityKey(seniority?: string | null): string | undefined {
+  if (!seniority) {
+    return undefined;
+  }
+  const normalized = seniority.trim().toLowerCase();
+  return Object.keys(SENIORITY_MODIFIERS).find((key) => key.toLowerCase() === normalized);
+}
+
 /**
  * Get available seniority levels for frontend dropdown
  */
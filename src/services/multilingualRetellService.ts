@@ -165,7 +165,7 @@ export class MultilingualRetellService {
     try {
       // Get agent ID based on language type
       const agentId = getAgentIdForLanguage(language);
-      const voiceId = getVoiceIdForLanguage(language);
+      const voiceId = params.voiceId || getVoiceIdForLanguage(language);
 
       if (!agentId) {
         throw new Error(`No Retell agent configured for language: ${language}`);
@@ -413,30 +413,63 @@ export function getMultilingualRetellService(): MultilingualRetellService {
 // LANGUAGE DETECTION UTILITIES
 // ========================================
 
+// Function words that are common in speech and distinctive for one language
+// (words shared by Spanish and Portuguese, like "que" or "para", are left out)
+const LANGUAGE_STOPWORDS: Array<{ language: SupportedLanguageCode; words: Set<string> }> = [
+  {
+    language: 'en-US',
+    words: new Set(['the', 'and', 'is', 'was', 'i', 'my', 'we', 'have', 'with', 'that', 'this', 'it', 'because', 'would', 'which', 'of']),
+  },
+  {
+    language: 'pt-BR',
+    words: new Set(['você', 'não', 'eu', 'meu', 'minha', 'uma', 'com', 'isso', 'também', 'então', 'muito', 'foi', 'tenho', 'obrigado', 'sim', 'nós']),
+  },
+  {
+    language: 'es-ES',
+    words: new Set(['usted', 'yo', 'mi', 'una', 'con', 'eso', 'también', 'entonces', 'muy', 'fue', 'tengo', 'pero', 'cómo', 'gracias', 'sí', 'nosotros']),
+  },
+  {
+    language: 'fr-FR',
+    words: new Set(['je', 'vous', 'nous', 'est', 'une', 'avec', 'pour', "c'est", 'très', 'merci', 'mais', 'aussi', 'donc', "j'ai", 'oui', 'les']),
+  },
+];
+
+// Distinct function words needed before a Latin-script answer is attributed to a language
+const MIN_STOPWORD_HITS = 2;
+
 /**
  * Detect language from transcript content
- * Useful for real-time language switching during calls
+ * Useful for real-time language switching during calls. Returns null when the
+ * text is too short or ambiguous (e.g. "yes", "okay", a list of tech terms).
  */
 export function detectLanguageFromText(text: string): SupportedLanguageCode | null {
-  // Simple heuristic-based detection
-  // In production, use a proper language detection library
-  
-  const patterns: Array<{ pattern: RegExp; language: SupportedLanguageCode }> = [
+  // Non-Latin scripts are unambiguous
+  const scripts: Array<{ pattern: RegExp; language: SupportedLanguageCode }> = [
     { pattern: /[\u4e00-\u9fff]/, language: 'zh-CN' },           // Chinese characters
     { pattern: /[\u0400-\u04FF]/, language: 'ru-RU' },           // Cyrillic
     { pattern: /[\u0900-\u097F]/, language: 'hi-IN' },           // Devanagari (Hindi)
-    { pattern: /\b(você|obrigado|não|sim|está)\b/i, language: 'pt-BR' },
-    { pattern: /\b(usted|gracias|muy|está|cómo)\b/i, language: 'es-ES' },
-    { pattern: /\b(vous|merci|très|c'est|comment)\b/i, language: 'fr-FR' },
   ];
   
-  for (const { pattern, language } of patterns) {
+  for (const { pattern, language } of scripts) {
     if (pattern.test(text)) {
       return language;
     }
   }
+
+  const tokens = new Set(text.toLowerCase().match(/[\p{L}']+/gu) || []);
+  const scores = LANGUAGE_STOPWORDS
+    .map(({ language, words }) => ({
+      language,
+      hits: [...tokens].filter((t) => words.has(t)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits === runnerUp.hits) {
+    return null;
+  }
   
-  return null;
+  return best.language;
 }
 
 /**
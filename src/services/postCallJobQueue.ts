@@ -0,0 +1,493 @@
+/**
+ * Post-Call Job Queue
+ *
+ * Durable, Postgres-backed queue for post-interview processing. Each interview
+ * gets one job per step (see PostCallJobType); a step's success enqueues the
+ * steps it unlocks (or re-runs them, if they already ran), in the same
+ * transaction. Failed attempts back off
+ * exponentially; jobs out of attempts are marked DEAD and can be re-run from
+ * the admin endpoint (/api/admin/post-call-jobs).
+ *
+ * Workers claim jobs with FOR UPDATE SKIP LOCKED, so every instance can poll
+ * the same table. A RUNNING job whose lease expired (process restarted
+ * mid-step) is claimed again.
+ *
+ * @module services/postCallJobQueue
+ */
+
+import os from 'os';
+import { Prisma, type PostCallJobStatus, type PostCallJobType } from '@prisma/client';
+import { prisma, dbLogger } from './databaseService';
+import { postCallProcessingService } from './postCallProcessingService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const POST_CALL_JOB_CONFIG = {
+  maxAttempts: parseInt(process.env.POST_CALL_JOB_MAX_ATTEMPTS || '5', 10),
+  pollIntervalMs: parseInt(process.env.POST_CALL_JOB_POLL_SECONDS || '5', 10) * 1000,
+  // Delay before retry n: 30s, 1m, 2m, 4m ... capped at 30m
+  retryBaseMs: 30_000,
+  retryMaxMs: 30 * 60_000,
+  // A step running longer than this is assumed lost and is claimed again
+  leaseMs: 10 * 60_000,
+  // Jobs run per poll
+  batchSize: 10,
+};
+
+// Steps unlocked by each step's success
+const NEXT_JOBS: Record<PostCallJobType, PostCallJobType[]> = {
+  TRANSCRIPT: ['METRICS', 'STUDY_PLAN', 'FEEDBACK'],
+  METRICS: [],
+  STUDY_PLAN: [],
+  FEEDBACK: ['PDF'],
+  PDF: ['EMAIL'],
+  EMAIL: [],
+};
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`.slice(0, 100);
+
+// Payload fields that apply to one successful run only (see requestFeedbackRegeneration)
+const ONE_SHOT_PAYLOAD_KEYS = ['regenerate', 'reason'];
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ClaimedJob {
+  id: string;
+  interviewId: string;
+  type: PostCallJobType;
+  payload: Prisma.JsonValue | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+export interface PostCallJobFilters {
+  status?: PostCallJobStatus;
+  type?: PostCallJobType;
+  interviewId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type RerunResult =
+  | { ok: true; jobs: number }
+  | { ok: false; status: 404 | 409; message: string };
+
+// Job fields exposed to admins (payload holds call transcripts, so it stays out)
+const JOB_SELECT = {
+  id: true,
+  interviewId: true,
+  type: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  runAt: true,
+  lockedAt: true,
+  lockedBy: true,
+  lastError: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PostCallJobSelect;
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    POST_CALL_JOB_CONFIG.retryBaseMs * 2 ** Math.max(0, attempts - 1),
+    POST_CALL_JOB_CONFIG.retryMaxMs
+  );
+}
+
+/**
+ * Queue post-call processing for an interview. Safe to call repeatedly (call
+ * end, Retell webhook, feedback polling): the interview's pipeline is only
+ * created once. Call data handed over here is used instead of fetching from Retell.
+ */
+export async function enqueuePostCallProcessing(
+  interviewId: string,
+  options: { callData?: Record<string, any> } = {}
+): Promise<void> {
+  const payload = options.callData ? (options.callData as Prisma.InputJsonValue) : undefined;
+
+  const created = await prisma.postCallJob.createMany({
+    data: [{ interviewId, type: 'TRANSCRIPT', payload, maxAttempts: POST_CALL_JOB_CONFIG.maxAttempts }],
+    skipDuplicates: true,
+  });
+
+  if (created.count === 0 && payload) {
+    // Call data arrived after the job was queued without it (e.g. the Retell webhook)
+    const updated = await prisma.postCallJob.updateMany({
+      where: { interviewId, type: 'TRANSCRIPT', status: 'PENDING', payload: { equals: Prisma.DbNull } },
+      data: { payload },
+    });
+    if (updated.count === 0) {
+      await requeueTranscriptWithCallData(interviewId, payload);
+    }
+  }
+
+  if (created.count > 0) {
+    dbLogger.info('Post-call processing queued', { interviewId, hasCallData: !!payload });
+  }
+  wakeWorker();
+}
+
+/**
+ * The transcript step may already have finished without call data (the call-end
+ * path usually wins the race against the webhook). If it stored nothing, run it
+ * again with the call data that just arrived.
+ */
+async function requeueTranscriptWithCallData(interviewId: string, payload: Prisma.InputJsonValue) {
+  const interview = await prisma.interview.findUnique({
+    where: { id: interviewId },
+    select: { transcript: true, _count: { select: { transcriptSegments: true } } },
+  });
+  if (!interview || interview.transcript || interview._count.transcriptSegments > 0) {
+    return;
+  }
+
+  const reset = await prisma.postCallJob.updateMany({
+    where: {
+      interviewId,
+      type: 'TRANSCRIPT',
+      status: { in: ['SUCCEEDED', 'DEAD'] },
+      payload: { equals: Prisma.DbNull },
+    },
+    data: { status: 'PENDING', attempts: 0, runAt: new Date(), payload, lastError: null, completedAt: null },
+  });
+  if (reset.count > 0) {
+    dbLogger.info('Transcript step re-queued with late call data', { interviewId });
+  }
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+/**
+ * Claim the next due job (or one whose lease expired) for this worker
+ */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const now = new Date();
+  const leaseExpiredBefore = new Date(now.getTime() - POST_CALL_JOB_CONFIG.leaseMs);
+
+  const rows = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE post_call_jobs
+    SET status = 'RUNNING', locked_at = ${now}, locked_by = ${WORKER_ID}, attempts = attempts + 1, updated_at = ${now}
+    WHERE id = (
+      SELECT id FROM post_call_jobs
+      WHERE (status = 'PENDING' AND run_at <= ${now})
+         OR (status = 'RUNNING' AND locked_at < ${leaseExpiredBefore})
+      ORDER BY run_at
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id, interview_id AS "interviewId", type, payload, attempts, max_attempts AS "maxAttempts"
+  `;
+  return rows[0] || null;
+}
+
+/**
+ * The job's payload without its one-shot fields, or undefined when it has none
+ * (so a later retry or rerun of the step doesn't repeat them)
+ */
+function withoutOneShotFields(payload: Prisma.JsonValue | null): Prisma.InputJsonValue | undefined {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)
+    || !ONE_SHOT_PAYLOAD_KEYS.some((key) => key in payload)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !ONE_SHOT_PAYLOAD_KEYS.includes(key))
+  ) as Prisma.InputJsonObject;
+}
+
+/**
+ * Mark a job done and enqueue the steps it unlocks, atomically. Steps that
+ * already finished run again, since they depend on what this one just produced.
+ */
+async function completeJob(job: ClaimedJob, next?: Record<string, unknown>) {
+  const successorTypes = NEXT_JOBS[job.type];
+  const payload = next as Prisma.InputJsonValue | undefined;
+
+  await prisma.$transaction([
+    prisma.postCallJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'SUCCEEDED',
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        payload: withoutOneShotFields(job.payload),
+      },
+    }),
+    ...(successorTypes.length > 0
+      ? [
+          prisma.postCallJob.updateMany({
+            where: { interviewId: job.interviewId, type: { in: successorTypes }, status: { in: ['SUCCEEDED', 'DEAD'] } },
+            data: {
+              status: 'PENDING',
+              attempts: 0,
+              runAt: new Date(),
+              payload: payload ?? Prisma.DbNull,
+              lastError: null,
+              completedAt: null,
+            },
+          }),
+          prisma.postCallJob.createMany({
+            data: successorTypes.map((type) => ({
+              interviewId: job.interviewId,
+              type,
+              payload,
+              maxAttempts: POST_CALL_JOB_CONFIG.maxAttempts,
+            })),
+            skipDuplicates: true,
+          }),
+        ]
+      : []),
+  ]);
+}
+
+/**
+ * Schedule a retry with backoff, or dead-letter the job when out of attempts
+ */
+async function failJob(job: ClaimedJob, error: Error) {
+  const dead = job.attempts >= job.maxAttempts;
+  const retryInMs = getRetryDelayMs(job.attempts);
+
+  await prisma.postCallJob.update({
+    where: { id: job.id },
+    data: {
+      status: dead ? 'DEAD' : 'PENDING',
+      runAt: dead ? undefined : new Date(Date.now() + retryInMs),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: (error.message || String(error)).slice(0, 2000),
+    },
+  });
+
+  const log = dead ? dbLogger.error.bind(dbLogger) : dbLogger.warn.bind(dbLogger);
+  log(dead ? 'Post-call job dead-lettered' : 'Post-call job failed, will retry', {
+    jobId: job.id,
+    interviewId: job.interviewId,
+    type: job.type,
+    attempts: job.attempts,
+    retryInMs: dead ? undefined : retryInMs,
+    error: error.message,
+  });
+}
+
+async function runJob(job: ClaimedJob) {
+  const startedAt = Date.now();
+  try {
+    const result = await postCallProcessingService.runStep(job.type, job.interviewId, job.payload ?? undefined);
+    await completeJob(job, result.next);
+    dbLogger.info('Post-call job succeeded', {
+      jobId: job.id,
+      interviewId: job.interviewId,
+      type: job.type,
+      attempts: job.attempts,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error: any) {
+    await failJob(job, error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Run due jobs one at a time until none are left (or `limit` ran)
+ */
+export async function processDueJobs(limit: number = POST_CALL_JOB_CONFIG.batchSize): Promise<number> {
+  let processed = 0;
+  while (processed < limit) {
+    const job = await claimNextJob();
+    if (!job) {
+      break;
+    }
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+function poll() {
+  if (polling) {
+    return;
+  }
+  polling = true;
+  processDueJobs()
+    .catch((error: any) => {
+      dbLogger.error('Post-call job poll failed', { error: error.message });
+    })
+    .finally(() => {
+      polling = false;
+    });
+}
+
+/**
+ * Run newly queued work now instead of at the next poll (no-op when the worker is stopped)
+ */
+function wakeWorker() {
+  if (pollTimer) {
+    setImmediate(poll);
+  }
+}
+
+export function startPostCallWorker(): void {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(poll, POST_CALL_JOB_CONFIG.pollIntervalMs);
+  pollTimer.unref();
+  setImmediate(poll);
+  dbLogger.info('Post-call job worker started', {
+    workerId: WORKER_ID,
+    pollIntervalMs: POST_CALL_JOB_CONFIG.pollIntervalMs,
+    maxAttempts: POST_CALL_JOB_CONFIG.maxAttempts,
+  });
+}
+
+export function stopPostCallWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+    dbLogger.info('Post-call job worker stopped', { workerId: WORKER_ID });
+  }
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+export async function listPostCallJobs(filters: PostCallJobFilters = {}) {
+  const where: Prisma.PostCallJobWhereInput = {
+    status: filters.status,
+    type: filters.type,
+    interviewId: filters.interviewId,
+  };
+
+  const [jobs, total, byStatus] = await Promise.all([
+    prisma.postCallJob.findMany({
+      where,
+      select: JOB_SELECT,
+      orderBy: { updatedAt: 'desc' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.postCallJob.count({ where }),
+    prisma.postCallJob.groupBy({
+      by: ['status'],
+      where: { type: filters.type, interviewId: filters.interviewId },
+      _count: { id: true },
+    }),
+  ]);
+
+  return {
+    jobs,
+    total,
+    byStatus: Object.fromEntries(byStatus.map((s) => [s.status, s._count.id])),
+  };
+}
+
+/**
+ * Run a job again from scratch (fresh attempts, due now)
+ */
+export async function retryPostCallJob(jobId: string): Promise<RerunResult> {
+  const reset = await prisma.postCallJob.updateMany({
+    where: { id: jobId, status: { not: 'RUNNING' } },
+    data: { status: 'PENDING', attempts: 0, runAt: new Date(), lastError: null, completedAt: null },
+  });
+
+  if (reset.count === 0) {
+    const exists = await prisma.postCallJob.findUnique({ where: { id: jobId }, select: { id: true } });
+    return exists
+      ? { ok: false, status: 409, message: 'Job is running' }
+      : { ok: false, status: 404, message: 'Job not found' };
+  }
+
+  wakeWorker();
+  return { ok: true, jobs: 1 };
+}
+
+/**
+ * Run an interview's pipeline again from the transcript step; each later step
+ * re-runs once the one before it succeeds (steps skip work already persisted)
+ */
+export async function rerunInterviewJobs(interviewId: string): Promise<RerunResult> {
+  const interview = await prisma.interview.findUnique({ where: { id: interviewId }, select: { id: true } });
+  if (!interview) {
+    return { ok: false, status: 404, message: 'Interview not found' };
+  }
+
+  const transcript = await prisma.postCallJob.findUnique({
+    where: { interviewId_type: { interviewId, type: 'TRANSCRIPT' } },
+    select: { id: true },
+  });
+  if (!transcript) {
+    await enqueuePostCallProcessing(interviewId);
+    return { ok: true, jobs: 1 };
+  }
+
+  return retryPostCallJob(transcript.id);
+}
+
+/**
+ * Generate a new feedback version for an interview whose pipeline already ran
+ * (the PDF is re-rendered after it; the completion email is not sent again).
+ * The regeneration request is cleared from the job once the step succeeds.
+ */
+export async function requestFeedbackRegeneration(interviewId: string, reason: string): Promise<RerunResult> {
+  const job = await prisma.postCallJob.findUnique({
+    where: { interviewId_type: { interviewId, type: 'FEEDBACK' } },
+    select: { id: true, status: true, payload: true },
+  });
+  if (!job) {
+    return { ok: false, status: 409, message: 'Feedback has not been generated yet' };
+  }
+  if (job.status === 'PENDING' || job.status === 'RUNNING') {
+    return { ok: false, status: 409, message: 'Feedback is already being generated' };
+  }
+
+  // Keep what the transcript step passed on (interruption reason)
+  const previous = job.payload && typeof job.payload === 'object' && !Array.isArray(job.payload) ? job.payload : {};
+  const reset = await prisma.postCallJob.updateMany({
+    where: { id: job.id, status: job.status },
+    data: {
+      status: 'PENDING',
+      attempts: 0,
+      runAt: new Date(),
+      payload: { ...previous, regenerate: true, reason },
+      lastError: null,
+      completedAt: null,
+    },
+  });
+  if (reset.count === 0) {
+    return { ok: false, status: 409, message: 'Feedback is already being generated' };
+  }
+
+  dbLogger.info('Feedback regeneration queued', { interviewId, reason });
+  wakeWorker();
+  return { ok: true, jobs: 1 };
+}
+
+export default {
+  enqueuePostCallProcessing,
+  processDueJobs,
+  startPostCallWorker,
+  stopPostCallWorker,
+  listPostCallJobs,
+  retryPostCallJob,
+  rerunInterviewJobs,
+  requestFeedbackRegeneration,
+};
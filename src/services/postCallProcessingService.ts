@@ -1,37 +1,60 @@
 /**
  * Post-Call Processing Service
  * 
- * Orchestrates all post-interview completion tasks:
- * - Fetch Retell transcript and call analysis
- * - Persist TranscriptSegment records
- * - Generate InterviewMetric records via OpenAI
- * - Generate StudyRecommendation via OpenAI
- * - Update Interview with final score and feedback
+ * The post-interview steps, each run as a job by the post-call job queue
+ * (postCallJobQueue):
+ * - TRANSCRIPT: fetch Retell transcript and call analysis, persist TranscriptSegment records
+ *   and the speech analytics measured from word timings
+ * - METRICS: generate InterviewMetric records and the overall score via OpenAI
+ * - STUDY_PLAN: generate StudyRecommendation via OpenAI
+ * - FEEDBACK: generate the structured feedback JSON
+ * - PDF: render and upload the feedback PDF
+ * - EMAIL: send the interview complete email
  * 
- * Designed to be called once per interview completion, idempotent.
+ * Every step is idempotent, so retries and re-runs are safe.
  */
 
+import type { PostCallJobStatus, PostCallJobType, Prisma } from '@prisma/client';
 import { prisma, dbLogger } from './databaseService';
-import { createTranscriptSegments, getTranscriptSegments, recordInterviewScore } from './analyticsService';
+import {
+  buildSpeechTimeline,
+  createTranscriptSegments,
+  getTranscriptSegments,
+  recordInterviewScore,
+} from './analyticsService';
 import OpenAI from 'openai';
 import Retell from 'retell-sdk';
-import { FeedbackGenerationService } from './feedbackGenerationService';
+import { FeedbackGenerationService, type InterviewContext } from './feedbackGenerationService';
+import type { CompetencyKey, StructuredFeedback } from '../types/feedback';
+import { getQuestionScores } from './questionScoreService';
+import { summarizeSilenceTimeline, type SilenceEvent } from '../utils/silencePolicy';
+import type { CongruencyOutcome } from '../utils/congruencyAnalyzer';
+import { analyzeSpeech, type SpeechAnalytics } from '../utils/speechAnalytics';
 import { PDFGenerationService } from './pdfGenerationService';
 import { storeFeedbackJson, storeFeedbackPdf } from './feedbackStorageService';
 import { uploadFeedbackPdf, isAzureBlobEnabled } from './azureBlobService';
+import { sendInterviewCompleteEmail } from './transactionalEmailService';
 
 // ========================================
 // TYPES
 // ========================================
 
-export interface PostCallResult {
-  success: boolean;
-  interviewId: string;
-  transcriptSegmentsCount: number;
-  metricsCount: number;
-  hasStudyRecommendation: boolean;
+export interface PostCallStepResult {
+  /** Payload for the jobs this step unlocks */
+  next?: Record<string, unknown>;
+}
+
+export interface PostCallProcessingStatus {
+  status: 'pending' | 'processing' | 'partial' | 'completed' | 'failed';
+  hasTranscript: boolean;
+  hasMetrics: boolean;
+  hasStudyPlan: boolean;
   overallScore: number | null;
-  error?: string;
+  steps: Array<{
+    type: PostCallJobType;
+    status: PostCallJobStatus;
+    completedAt: Date | null;
+  }>;
 }
 
 interface RetellTranscriptSegment {
@@ -214,374 +237,486 @@ class PostCallProcessingService {
   }
 
   /**
-   * Main entry point - process interview after call ends
-   * Idempotent: safe to call multiple times
+   * Summarize structured plan progress persisted on the InterviewSession
    */
-  async processInterview(
-    interviewId: string,
-    options?: {
-      callData?: any;
+  private buildPlanCoverage(session: {
+    phaseReached: string | null;
+    planStepsCompleted: number | null;
+    planStepsTotal: number | null;
+    plannedCompetencies: string[];
+    questionsAsked: unknown;
+  } | null): InterviewContext['planCoverage'] {
+    if (!session?.phaseReached || !session.planStepsTotal) {
+      return undefined;
     }
-  ): Promise<PostCallResult> {
-    const startTime = Date.now();
-    dbLogger.info('Starting post-call processing', { interviewId });
 
-    try {
-      // 1. Load interview with resume
-      const interview = await prisma.interview.findUnique({
-        where: { id: interviewId },
-        include: {
-          resumeDocument: true,
-          transcriptSegments: true,
-          metrics: true,
-          studyRecommendation: true,
-          feedbackDocument: true,
-          user: {
-            select: {
-              firstName: true,
-              lastName: true,
-            },
-          },
-        },
-      });
+    const questions = Array.isArray(session.questionsAsked)
+      ? (session.questionsAsked as Array<{ competency?: CompetencyKey; answered?: boolean }>)
+      : [];
+    const assessed = new Set(
+      questions.filter((q) => q.competency && q.answered).map((q) => q.competency as CompetencyKey)
+    );
 
-      if (!interview) {
-        throw new Error(`Interview not found: ${interviewId}`);
-      }
+    return {
+      phaseReached: session.phaseReached,
+      coverage: Math.min(1, (session.planStepsCompleted || 0) / session.planStepsTotal),
+      competenciesAssessed: [...assessed],
+      competenciesSkipped: (session.plannedCompetencies as CompetencyKey[]).filter((c) => !assessed.has(c)),
+    };
+  }
 
-      // 2. Check if already fully processed (idempotency)
-      const alreadyProcessed =
-        interview.transcriptSegments.length > 0 &&
-        interview.metrics.length > 0 &&
-        interview.studyRecommendation !== null &&
-        !!interview.feedbackDocument?.contentJson &&
-        !!interview.feedbackDocument?.pdfStorageKey;
-
-      if (alreadyProcessed) {
-        dbLogger.info('Interview already processed, skipping', { interviewId });
-        return {
-          success: true,
-          interviewId,
-          transcriptSegmentsCount: interview.transcriptSegments.length,
-          metricsCount: interview.metrics.length,
-          hasStudyRecommendation: true,
-          overallScore: interview.score,
-        };
-      }
+  /**
+   * Summarize language mismatch events recorded live on the InterviewSession
+   */
+  private buildLanguageMismatch(session: { languageEvents: unknown } | null): InterviewContext['languageMismatch'] {
+    const events = Array.isArray(session?.languageEvents)
+      ? (session!.languageEvents as Array<{ expectedLanguage: string; detectedLanguage: string; action: string }>)
+      : [];
+    if (events.length === 0) {
+      return undefined;
+    }
 
-      // 3. Fetch Retell transcript if needed
-      let transcriptText = interview.transcript || '';
-      let transcriptData: any = null;
-
-      if (options?.callData) {
-        transcriptData = options.callData;
-      } else if (interview.retellCallId && this.retell) {
-        try {
-          const callDetails = await this.retell.call.retrieve(interview.retellCallId);
-          transcriptData = callDetails;
-          
-          // Extract transcript text from segments
-          if ((callDetails as any).transcript_with_tool_calls) {
-            transcriptText = (callDetails as any).transcript_with_tool_calls
-              .filter((seg: any) => seg.role !== 'tool_calls')
-              .map((seg: any) => `${seg.role}: ${seg.content}`)
-              .join('\n');
-          } else if ((callDetails as any).transcript) {
-            transcriptText = (callDetails as any).transcript;
-          }
-        } catch (retellError: any) {
-          dbLogger.warn('Failed to fetch Retell transcript, using stored', {
-            interviewId,
-            error: retellError.message,
-          });
-        }
-      }
+    const switched = events.filter((e) => e.action === 'switch');
+    return {
+      expectedLanguage: events[0].expectedLanguage,
+      detectedLanguages: [...new Set(events.map((e) => e.detectedLanguage))],
+      switchedTo: switched.length > 0 ? switched[switched.length - 1].detectedLanguage : undefined,
+    };
+  }
 
-      // 4. Persist transcript segments if not already done
-      let segmentsCount = interview.transcriptSegments.length;
-      if (segmentsCount === 0 && transcriptData) {
-        try {
-          const callDurationMs = this.computeCallDurationMs(transcriptData, interview.callDuration);
-          const segments = await createTranscriptSegments(interviewId, transcriptData, callDurationMs);
-          segmentsCount = segments.length;
-          dbLogger.info('Transcript segments created', { interviewId, count: segmentsCount });
-        } catch (segmentError: any) {
-          dbLogger.warn('Failed to create transcript segments', {
-            interviewId,
-            error: segmentError.message,
-          });
-        }
-      }
+  /**
+   * Silence reminders and recoveries recorded live on the InterviewSession
+   */
+  private buildSilenceTimeline(session: { silenceEvents: unknown } | null): InterviewContext['silenceTimeline'] {
+    const events = Array.isArray(session?.silenceEvents) ? (session!.silenceEvents as SilenceEvent[]) : [];
+    if (events.length === 0) {
+      return undefined;
+    }
 
-      // Update call duration timestamps if present (best-effort)
-      if (transcriptData) {
-        const callDurationMs = this.computeCallDurationMs(transcriptData, interview.callDuration);
-        const startedAt = transcriptData?.start_timestamp
-          ? new Date(Number(transcriptData.start_timestamp))
-          : undefined;
-        const endedAt = transcriptData?.end_timestamp
-          ? new Date(Number(transcriptData.end_timestamp))
-          : undefined;
-
-        try {
-          await prisma.interview.update({
-            where: { id: interviewId },
-            data: {
-              callDuration: callDurationMs || interview.callDuration || undefined,
-              startedAt: startedAt || undefined,
-              endedAt: endedAt || undefined,
-            },
-          });
-        } catch (durationError: any) {
-          dbLogger.warn('Failed to update interview duration/timestamps', {
-            interviewId,
-            error: durationError.message,
-          });
-        }
-      }
+    const summary = summarizeSilenceTimeline(events);
+    return {
+      episodes: summary.episodes,
+      reminders: summary.reminders,
+      endedBySilence: summary.endedBySilence,
+      events: events.map(({ action, level, phase, atSec }) => ({ action, level, phase, atSec })),
+    };
+  }
 
-      // 5. Get resume text
-      const resumeText = interview.resumeDocument?.parsedText || '';
-
-      // 6. Generate metrics via OpenAI if not already done
-      let metricsCount = interview.metrics.length;
-      let overallScore = interview.score;
-
-      if (metricsCount === 0 && this.openai && transcriptText) {
-        try {
-          const metrics = await this.generateMetrics(
-            transcriptText,
-            resumeText,
-            interview.jobDescription,
-            interview.jobTitle,
-            interview.seniority || 'mid'
-          );
-
-          // Persist metrics
-          await prisma.interviewMetric.createMany({
-            data: metrics.categories.map((m) => ({
-              interviewId,
-              category: m.category,
-              metricName: m.metricName,
-              score: m.score,
-              maxScore: m.maxScore,
-              feedback: m.feedback,
-            })),
-          });
-
-          metricsCount = metrics.categories.length;
-          overallScore = metrics.overallScore;
-
-          // Update interview score
-          await prisma.interview.update({
-            where: { id: interviewId },
-            data: { score: overallScore },
-          });
-
-          // Record score history (idempotent)
-          try {
-            await recordInterviewScore(
-              interview.userId,
-              interviewId,
-              interview.jobTitle,
-              interview.companyName,
-              { overall: overallScore },
-              interview.callDuration ?? undefined
-            );
-          } catch (scoreHistoryError: any) {
-            // Non-blocking: log but don't fail the processing
-            dbLogger.warn('Failed to record score history', {
-              interviewId,
-              error: scoreHistoryError.message,
-            });
-          }
-
-          dbLogger.info('Metrics generated and saved', {
-            interviewId,
-            count: metricsCount,
-            overallScore,
-          });
-        } catch (metricsError: any) {
-          dbLogger.error('Failed to generate metrics', {
-            interviewId,
-            error: metricsError.message,
-          });
-        }
-      }
+  /**
+   * Turns with their word timings (Retell voice calls; text chats have none)
+   */
+  private extractTimedTurns(callData: any): RetellTranscriptSegment[] {
+    const turns: any[] = callData?.transcript_with_tool_calls?.length
+      ? callData.transcript_with_tool_calls
+      : callData?.transcript_object || [];
+    return turns.filter(
+      (t): t is RetellTranscriptSegment => (t.role === 'agent' || t.role === 'user') && typeof t.content === 'string'
+    );
+  }
 
-      // 7. Generate study recommendation via OpenAI if not already done
-      let hasStudyRecommendation = interview.studyRecommendation !== null;
-
-      if (!hasStudyRecommendation && this.openai && transcriptText) {
-        try {
-          const studyPlan = await this.generateStudyPlan(
-            transcriptText,
-            resumeText,
-            interview.jobDescription,
-            interview.jobTitle
-          );
-
-          await prisma.studyRecommendation.upsert({
-            where: { interviewId },
-            create: {
-              interviewId,
-              topics: studyPlan.topics,
-              weakAreas: studyPlan.weakAreas,
-            },
-            update: {
-              topics: studyPlan.topics,
-              weakAreas: studyPlan.weakAreas,
-              generatedAt: new Date(),
-            },
-          });
-
-          hasStudyRecommendation = true;
-          dbLogger.info('Study recommendation generated', { interviewId });
-        } catch (studyError: any) {
-          dbLogger.error('Failed to generate study recommendation', {
-            interviewId,
-            error: studyError.message,
-          });
-        }
-      }
+  /**
+   * Resume/job fit check recorded live on the Interview (congruencyAnalysis)
+   */
+  private buildCongruency(analysis: unknown): InterviewContext['congruency'] {
+    const outcome = analysis as CongruencyOutcome | null;
+    if (!outcome || typeof outcome !== 'object' || !outcome.action) {
+      return undefined;
+    }
+
+    return {
+      policy: outcome.policy,
+      action: outcome.action,
+      isCongruent: outcome.isCongruent,
+      reasons: outcome.reasons || [],
+      missingSkills: outcome.skillsMatch?.missing || [],
+      transferableSkills: outcome.skillsMatch?.transferable || [],
+    };
+  }
 
-      // 8. Generate structured feedback + PDF (canonical) if missing
-      const hasFeedbackJson = !!interview.feedbackDocument?.contentJson;
-      const hasFeedbackPdf = !!interview.feedbackDocument?.pdfStorageKey;
-
-      if ((!hasFeedbackJson || !hasFeedbackPdf) && this.feedbackGenerator) {
-        try {
-          const segments = await getTranscriptSegments(interviewId);
-          const transcriptSegments = segments.map((s) => ({
-            role: s.speaker,
-            content: s.content,
-            timestamp: s.startTime,
-            words: s.content.split(/\s+/).filter(Boolean).length,
-          }));
-
-          const callDurationMs = this.computeCallDurationMs(transcriptData, interview.callDuration);
-          const language = this.normalizeLanguage(interview.language);
-          const seniority = this.normalizeSeniority(interview.seniority);
-          const candidateName = `${interview.user?.firstName || ''} ${interview.user?.lastName || ''}`
-            .trim()
-            .slice(0, 120);
-
-          const wasInterrupted =
-            callDurationMs > 0 ? callDurationMs < 60_000 : transcriptSegments.length < 6;
-
-          const feedbackResult = await this.feedbackGenerator.generate({
-            sessionId: interviewId,
-            roleTitle: interview.jobTitle,
-            seniority,
-            language,
-            jobDescription: interview.jobDescription,
-            candidateName: candidateName || undefined,
-            resumeUsed: !!interview.resumeDocument,
-            transcript: transcriptSegments,
-            durationSeconds: Math.floor(callDurationMs / 1000),
-            wasInterrupted,
-            interruptionReason:
-              transcriptData?.end_call_reason || transcriptData?.disconnection_reason || undefined,
-          });
-
-          if (feedbackResult.success && feedbackResult.feedback && !hasFeedbackJson) {
-            await storeFeedbackJson({
-              interviewId,
-              feedback: feedbackResult.feedback,
-              generationTimeMs: feedbackResult.processingTimeMs,
-            });
-          }
-
-          if (feedbackResult.success && feedbackResult.feedback && !hasFeedbackPdf) {
-            const pdf = this.pdfGenerator.generate(feedbackResult.feedback, {
-              locale: language,
-              includeStudyPlan: true,
-              includeTranscriptHighlights: true,
-            });
-
-            if (pdf.success && pdf.pdfBase64 && pdf.pageCount) {
-              if (!isAzureBlobEnabled()) {
-                dbLogger.warn('Azure Blob disabled; skipping feedback PDF upload', { interviewId });
-              } else {
-                const pdfBuffer = Buffer.from(pdf.pdfBase64, 'base64');
-                const fileName = `vocaid-feedback-${interview.companyName}-${interview.jobTitle}.pdf`
-                  .replace(/\s+/g, '_')
-                  .slice(0, 180);
-
-                const upload = await uploadFeedbackPdf(
-                  interview.userId,
-                  fileName,
-                  pdfBuffer,
-                  'application/pdf'
-                );
-
-                if (upload.success && upload.blobName) {
-                  await storeFeedbackPdf({
-                    interviewId,
-                    pdfBuffer,
-                    pageCount: pdf.pageCount,
-                    locale: language,
-                    includesStudyPlan: true,
-                    includesHighlights: true,
-                    storageKey: upload.blobName,
-                  });
-                } else {
-                  dbLogger.warn('Feedback PDF upload failed', {
-                    interviewId,
-                    error: upload.error,
-                  });
-                }
-              }
-            } else {
-              dbLogger.warn('PDF generation failed', {
-                interviewId,
-                error: (pdf as any).error,
-              });
-            }
-          }
-        } catch (feedbackError: any) {
-          dbLogger.error('Failed to generate/store structured feedback', {
-            interviewId,
-            error: feedbackError.message,
-          });
-        }
+  /**
+   * Preliminary per-question scores streamed by the live interviewer
+   * (interview_question_scores), so feedback doesn't start from the raw transcript alone
+   */
+  private async loadAnswerEvaluations(interviewId: string): Promise<InterviewContext['answerEvaluations']> {
+    try {
+      const records = await getQuestionScores(interviewId);
+      const scored = records.filter((r) => r.preliminaryScore !== null && r.competencyTags.length > 0);
+      if (scored.length === 0) {
+        return undefined;
       }
 
-      const duration = Date.now() - startTime;
-      dbLogger.info('Post-call processing completed', {
-        interviewId,
-        durationMs: duration,
-        segmentsCount,
-        metricsCount,
-        hasStudyRecommendation,
-        overallScore,
-      });
+      return scored.map((r) => ({
+        competency: r.competencyTags[0] as CompetencyKey,
+        question: r.questionText,
+        score: r.preliminaryScore!,
+        evidence: r.evidence || '',
+        level: r.difficultyLevel || '',
+        answerStartSec: r.answerStartSec ?? undefined,
+        answerEndSec: r.answerEndSec ?? undefined,
+      }));
+    } catch (error: any) {
+      dbLogger.warn('Failed to load live question scores', { interviewId, error: error.message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Run one post-call step (called by the job queue worker).
+   * Every step is idempotent: work already persisted is skipped, so a retried
+   * or re-run job never duplicates records. Throws when the step should be retried.
+   */
+  async runStep(type: PostCallJobType, interviewId: string, payload?: any): Promise<PostCallStepResult> {
+    switch (type) {
+      case 'TRANSCRIPT':
+        return this.fetchTranscript(interviewId, payload);
+      case 'METRICS':
+        return this.scoreInterview(interviewId);
+      case 'STUDY_PLAN':
+        return this.buildStudyPlan(interviewId);
+      case 'FEEDBACK':
+        return this.generateStructuredFeedback(interviewId, payload);
+      case 'PDF':
+        return this.renderFeedbackPdf(interviewId);
+      case 'EMAIL':
+        return this.sendFeedbackEmail(interviewId);
+      default:
+        throw new Error(`Unknown post-call step: ${type}`);
+    }
+  }
+
+  /**
+   * TRANSCRIPT: use the call data handed over by the caller (text chats, Retell
+   * webhook) or fetch it from Retell; persist segments, transcript text and timing
+   */
+  private async fetchTranscript(interviewId: string, callData?: any): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      include: { _count: { select: { transcriptSegments: true } } },
+    });
+    if (!interview) {
+      throw new Error(`Interview not found: ${interviewId}`);
+    }
+
+    let transcriptData: any = callData || null;
+    if (!transcriptData && interview.retellCallId && interview.channel === 'VOICE' && this.retell) {
+      // Throws on Retell errors so the job is retried
+      transcriptData = await this.retell.call.retrieve(interview.retellCallId);
+    }
+    if (!transcriptData) {
+      dbLogger.warn('No call data for interview, continuing with stored transcript', { interviewId });
+      return {};
+    }
+
+    let transcriptText = interview.transcript || '';
+    if (!transcriptText && transcriptData.transcript_with_tool_calls) {
+      transcriptText = transcriptData.transcript_with_tool_calls
+        .filter((seg: any) => seg.role !== 'tool_calls')
+        .map((seg: any) => `${seg.role}: ${seg.content}`)
+        .join('\n');
+    } else if (!transcriptText && transcriptData.transcript) {
+      transcriptText = transcriptData.transcript;
+    }
+
+    const callDurationMs = this.computeCallDurationMs(transcriptData, interview.callDuration);
+    if (interview._count.transcriptSegments === 0) {
+      const segments = await createTranscriptSegments(interviewId, transcriptData, callDurationMs);
+      dbLogger.info('Transcript segments created', { interviewId, count: segments.length });
+    }
 
-      return {
-        success: true,
+    const turns = this.extractTimedTurns(transcriptData);
+    const speech = analyzeSpeech(turns, this.normalizeLanguage(interview.language));
+
+    await prisma.interview.update({
+      where: { id: interviewId },
+      data: {
+        transcript: transcriptText || undefined,
+        callDuration: callDurationMs || interview.callDuration || undefined,
+        startedAt: transcriptData.start_timestamp ? new Date(Number(transcriptData.start_timestamp)) : undefined,
+        endedAt: transcriptData.end_timestamp ? new Date(Number(transcriptData.end_timestamp)) : undefined,
+        ...(speech && {
+          speechAnalytics: speech as unknown as Prisma.InputJsonValue,
+          wpmAverage: speech.wpmAverage ?? undefined,
+          confidenceTimeline: buildSpeechTimeline(speech, turns) as unknown as Prisma.InputJsonValue,
+        }),
+      },
+    });
+
+    return {
+      next: {
+        interruptionReason: transcriptData.end_call_reason || transcriptData.disconnection_reason || undefined,
+      },
+    };
+  }
+
+  /**
+   * METRICS: score categories and the overall score via OpenAI
+   */
+  private async scoreInterview(interviewId: string): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      include: { resumeDocument: true, _count: { select: { metrics: true } } },
+    });
+    if (!interview) {
+      throw new Error(`Interview not found: ${interviewId}`);
+    }
+    if (interview._count.metrics > 0) {
+      return {};
+    }
+    if (!this.openai || !interview.transcript) {
+      dbLogger.warn('Skipping metrics: no OpenAI client or transcript', { interviewId });
+      return {};
+    }
+
+    const metrics = await this.generateMetrics(
+      interview.transcript,
+      interview.resumeDocument?.parsedText || '',
+      interview.jobDescription,
+      interview.jobTitle,
+      interview.seniority || 'mid'
+    );
+
+    await prisma.$transaction([
+      prisma.interviewMetric.createMany({
+        data: metrics.categories.map((m) => ({
+          interviewId,
+          category: m.category,
+          metricName: m.metricName,
+          score: m.score,
+          maxScore: m.maxScore,
+          feedback: m.feedback,
+        })),
+      }),
+      prisma.interview.update({
+        where: { id: interviewId },
+        data: { score: metrics.overallScore },
+      }),
+    ]);
+
+    // Record score history (idempotent)
+    try {
+      await recordInterviewScore(
+        interview.userId,
         interviewId,
-        transcriptSegmentsCount: segmentsCount,
-        metricsCount,
-        hasStudyRecommendation,
-        overallScore,
-      };
-    } catch (error: any) {
-      dbLogger.error('Post-call processing failed', {
+        interview.jobTitle,
+        interview.companyName,
+        { overall: metrics.overallScore },
+        interview.callDuration ?? undefined
+      );
+    } catch (scoreHistoryError: any) {
+      // Non-blocking: log but don't fail the step
+      dbLogger.warn('Failed to record score history', {
         interviewId,
-        error: error.message,
-        stack: error.stack,
+        error: scoreHistoryError.message,
       });
+    }
+
+    dbLogger.info('Metrics generated and saved', {
+      interviewId,
+      count: metrics.categories.length,
+      overallScore: metrics.overallScore,
+    });
+    return {};
+  }
+
+  /**
+   * STUDY_PLAN: study recommendation via OpenAI
+   */
+  private async buildStudyPlan(interviewId: string): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      include: { resumeDocument: true, studyRecommendation: { select: { id: true } } },
+    });
+    if (!interview) {
+      throw new Error(`Interview not found: ${interviewId}`);
+    }
+    if (interview.studyRecommendation) {
+      return {};
+    }
+    if (!this.openai || !interview.transcript) {
+      dbLogger.warn('Skipping study plan: no OpenAI client or transcript', { interviewId });
+      return {};
+    }
 
-      return {
-        success: false,
+    const studyPlan = await this.generateStudyPlan(
+      interview.transcript,
+      interview.resumeDocument?.parsedText || '',
+      interview.jobDescription,
+      interview.jobTitle
+    );
+
+    await prisma.studyRecommendation.upsert({
+      where: { interviewId },
+      create: {
         interviewId,
-        transcriptSegmentsCount: 0,
-        metricsCount: 0,
-        hasStudyRecommendation: false,
-        overallScore: null,
-        error: error.message,
-      };
+        topics: studyPlan.topics,
+        weakAreas: studyPlan.weakAreas,
+      },
+      update: {
+        topics: studyPlan.topics,
+        weakAreas: studyPlan.weakAreas,
+        generatedAt: new Date(),
+      },
+    });
+
+    dbLogger.info('Study recommendation generated', { interviewId });
+    return {};
+  }
+
+  /**
+   * FEEDBACK: structured feedback JSON from the transcript segments and the
+   * signals recorded during the live call
+   */
+  private async generateStructuredFeedback(
+    interviewId: string,
+    payload?: { interruptionReason?: string; regenerate?: boolean; reason?: string }
+  ): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      include: {
+        resumeDocument: { select: { id: true } },
+        feedbackDocument: { select: { contentJson: true } },
+        session: true,
+        user: { select: { firstName: true, lastName: true } },
+      },
+    });
+    if (!interview) {
+      throw new Error(`Interview not found: ${interviewId}`);
     }
+    // Regeneration adds a new version next to the stored one
+    if (interview.feedbackDocument?.contentJson && !payload?.regenerate) {
+      return {};
+    }
+    if (!this.feedbackGenerator) {
+      dbLogger.warn('Skipping structured feedback: no OpenAI key', { interviewId });
+      return {};
+    }
+
+    const segments = await getTranscriptSegments(interviewId);
+    const transcriptSegments = segments.map((s) => ({
+      role: s.speaker,
+      content: s.content,
+      timestamp: s.startTime,
+      words: s.content.split(/\s+/).filter(Boolean).length,
+    }));
+
+    const callDurationMs = interview.callDuration || 0;
+    const candidateName = `${interview.user?.firstName || ''} ${interview.user?.lastName || ''}`
+      .trim()
+      .slice(0, 120);
+
+    // Prefer real plan coverage over call length to decide if the interview was cut short
+    const planCoverage = this.buildPlanCoverage(interview.session);
+    const wasInterrupted = planCoverage
+      ? planCoverage.coverage < 0.5
+      : callDurationMs > 0 ? callDurationMs < 60_000 : transcriptSegments.length < 6;
+
+    const feedbackResult = await this.feedbackGenerator.generate({
+      sessionId: interviewId,
+      roleTitle: interview.jobTitle,
+      interviewMode: interview.interviewMode,
+      seniority: this.normalizeSeniority(interview.seniority),
+      language: this.normalizeLanguage(interview.language),
+      jobDescription: interview.jobDescription,
+      candidateName: candidateName || undefined,
+      resumeUsed: !!interview.resumeDocument,
+      transcript: transcriptSegments,
+      durationSeconds: Math.floor(callDurationMs / 1000),
+      wasInterrupted,
+      interruptionReason: payload?.interruptionReason || interview.session?.retellDisconnectReason || undefined,
+      planCoverage,
+      answerEvaluations: await this.loadAnswerEvaluations(interviewId),
+      languageMismatch: this.buildLanguageMismatch(interview.session),
+      silenceTimeline: this.buildSilenceTimeline(interview.session),
+      congruency: this.buildCongruency(interview.congruencyAnalysis),
+      speechAnalytics: (interview.speechAnalytics as SpeechAnalytics | null) ?? undefined,
+    });
+
+    if (!feedbackResult.success || !feedbackResult.feedback) {
+      throw new Error(feedbackResult.error || 'Structured feedback generation failed');
+    }
+
+    await storeFeedbackJson({
+      interviewId,
+      feedback: feedbackResult.feedback,
+      generationTimeMs: feedbackResult.processingTimeMs,
+      reason: payload?.regenerate ? payload.reason || 'regenerated' : undefined,
+    });
+    return {};
+  }
+
+  /**
+   * PDF: render the stored feedback JSON and upload it to Blob storage
+   */
+  private async renderFeedbackPdf(interviewId: string): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      include: { feedbackDocument: { select: { contentJson: true, pdfStorageKey: true } } },
+    });
+    if (!interview) {
+      throw new Error(`Interview not found: ${interviewId}`);
+    }
+    if (interview.feedbackDocument?.pdfStorageKey) {
+      return {};
+    }
+    if (!interview.feedbackDocument?.contentJson) {
+      dbLogger.warn('Skipping feedback PDF: no structured feedback stored', { interviewId });
+      return {};
+    }
+    if (!isAzureBlobEnabled()) {
+      dbLogger.warn('Azure Blob disabled; skipping feedback PDF upload', { interviewId });
+      return {};
+    }
+
+    const language = this.normalizeLanguage(interview.language);
+    const pdf = this.pdfGenerator.generate(interview.feedbackDocument.contentJson as unknown as StructuredFeedback, {
+      locale: language,
+      includeStudyPlan: true,
+      includeTranscriptHighlights: true,
+    });
+    if (!pdf.success || !pdf.pdfBase64 || !pdf.pageCount) {
+      throw new Error((pdf as any).error || 'PDF generation failed');
+    }
+
+    const pdfBuffer = Buffer.from(pdf.pdfBase64, 'base64');
+    const fileName = `vocaid-feedback-${interview.companyName}-${interview.jobTitle}.pdf`
+      .replace(/\s+/g, '_')
+      .slice(0, 180);
+
+    const upload = await uploadFeedbackPdf(interview.userId, fileName, pdfBuffer, 'application/pdf');
+    if (!upload.success || !upload.blobName) {
+      throw new Error(upload.error || 'Feedback PDF upload failed');
+    }
+
+    await storeFeedbackPdf({
+      interviewId,
+      pdfBuffer,
+      pageCount: pdf.pageCount,
+      locale: language,
+      includesStudyPlan: true,
+      includesHighlights: true,
+      storageKey: upload.blobName,
+    });
+    return {};
+  }
+
+  /**
+   * EMAIL: interview complete email with the feedback PDF (idempotent per interview)
+   */
+  private async sendFeedbackEmail(interviewId: string): Promise<PostCallStepResult> {
+    const interview = await prisma.interview.findUnique({
+      where: { id: interviewId },
+      select: { feedbackDocument: { select: { pdfStorageKey: true } } },
+    });
+    if (!interview?.feedbackDocument?.pdfStorageKey) {
+      dbLogger.warn('Skipping interview complete email: no feedback PDF', { interviewId });
+      return {};
+    }
+
+    const result = await sendInterviewCompleteEmail(interviewId);
+    if (!result.success && !result.skipped) {
+      throw new Error(result.error || 'Interview complete email failed');
+    }
+    return {};
   }
 
   /**
@@ -692,55 +827,57 @@ Based on this interview, generate a personalized study plan to help the candidat
   }
 
   /**
-   * Get processing status for an interview (for polling)
+   * Get processing status for an interview (for polling), read from its post-call jobs
    */
-  async getProcessingStatus(interviewId: string): Promise<{
-    status: 'pending' | 'processing' | 'completed' | 'partial';
-    hasTranscript: boolean;
-    hasMetrics: boolean;
-    hasStudyPlan: boolean;
-    overallScore: number | null;
-  }> {
-    const interview = await prisma.interview.findUnique({
-      where: { id: interviewId },
-      select: {
-        score: true,
-        status: true,
-        _count: {
-          select: {
-            transcriptSegments: true,
-            metrics: true,
+  async getProcessingStatus(interviewId: string): Promise<PostCallProcessingStatus> {
+    const [interview, steps] = await Promise.all([
+      prisma.interview.findUnique({
+        where: { id: interviewId },
+        select: {
+          score: true,
+          status: true,
+          _count: {
+            select: {
+              transcriptSegments: true,
+              metrics: true,
+            },
+          },
+          studyRecommendation: {
+            select: { id: true },
           },
         },
-        studyRecommendation: {
-          select: { id: true },
-        },
-      },
-    });
-
-    if (!interview) {
-      return {
-        status: 'pending',
-        hasTranscript: false,
-        hasMetrics: false,
-        hasStudyPlan: false,
-        overallScore: null,
-      };
-    }
-
-    const hasTranscript = interview._count.transcriptSegments > 0;
-    const hasMetrics = interview._count.metrics > 0;
-    const hasStudyPlan = interview.studyRecommendation !== null;
+      }),
+      prisma.postCallJob.findMany({
+        where: { interviewId },
+        select: { type: true, status: true, completedAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
 
-    let status: 'pending' | 'processing' | 'completed' | 'partial';
-    if (hasTranscript && hasMetrics && hasStudyPlan) {
+    // A step can succeed without writing anything (e.g. no transcript to analyze), so the flags come from stored rows
+    const hasTranscript = (interview?._count.transcriptSegments ?? 0) > 0;
+    const hasMetrics = (interview?._count.metrics ?? 0) > 0;
+    const hasStudyPlan = !!interview?.studyRecommendation;
+
+    let status: PostCallProcessingStatus['status'];
+    if (steps.length === 0) {
+      // Interviews processed before the job queue existed have no jobs; judge them by what was stored
+      if (hasTranscript && hasMetrics && hasStudyPlan) {
+        status = 'completed';
+      } else if (hasTranscript || hasMetrics || hasStudyPlan) {
+        status = 'partial';
+      } else if (interview?.status === 'COMPLETED') {
+        status = 'processing';
+      } else {
+        status = 'pending';
+      }
+    } else if (steps.some((j) => j.status === 'DEAD')) {
+      status = 'failed';
+    } else if (!steps.some((j) => j.status === 'PENDING' || j.status === 'RUNNING')) {
+      // Successors are enqueued with their predecessor's completion, so all-succeeded means done
       status = 'completed';
-    } else if (hasTranscript || hasMetrics || hasStudyPlan) {
-      status = 'partial';
-    } else if (interview.status === 'COMPLETED') {
-      status = 'processing';
     } else {
-      status = 'pending';
+      status = steps.some((j) => j.status === 'SUCCEEDED') ? 'partial' : 'processing';
     }
 
     return {
@@ -748,7 +885,8 @@ Based on this interview, generate a personalized study plan to help the candidat
       hasTranscript,
       hasMetrics,
       hasStudyPlan,
-      overallScore: interview.score,
+      overallScore: interview?.score ?? null,
+      steps,
     };
   }
 }
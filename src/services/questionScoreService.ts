@@ -0,0 +1,84 @@
+/**
+ * Question Score Service
+ *
+ * Persists one record per answered interview question while the call is live
+ * (question text, answer span, competency tags, preliminary anchor score), so
+ * post-call feedback can reuse them and a crash after the call keeps them.
+ *
+ * @module services/questionScoreService
+ */
+
+import { prisma } from './databaseService';
+import { wsLogger } from '../utils/logger';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface QuestionScoreRecord {
+  stepIndex: number;
+  phase: string;
+  questionText: string;
+  askedAtSec: number;
+  answerStartSec?: number;
+  answerEndSec?: number;
+  competencyTags: string[];
+  /** Panel persona who asked the question */
+  askedBy?: string;
+  preliminaryScore?: number;
+  evidence?: string;
+  difficultyLevel?: string;
+}
+
+// ========================================
+// SERVICE FUNCTIONS
+// ========================================
+
+/**
+ * Insert or refresh the record for a plan step. Writes are idempotent per
+ * (interview, step) so a late score simply updates the earlier row.
+ */
+export async function upsertQuestionScore(interviewId: string, record: QuestionScoreRecord) {
+  const data = {
+    phase: record.phase,
+    questionText: record.questionText,
+    askedAtSec: record.askedAtSec,
+    answerStartSec: record.answerStartSec ?? null,
+    answerEndSec: record.answerEndSec ?? null,
+    competencyTags: record.competencyTags,
+    askedBy: record.askedBy ?? null,
+    preliminaryScore: record.preliminaryScore ?? null,
+    evidence: record.evidence ?? null,
+    difficultyLevel: record.difficultyLevel ?? null,
+  };
+
+  try {
+    return await prisma.interviewQuestionScore.upsert({
+      where: { interviewId_stepIndex: { interviewId, stepIndex: record.stepIndex } },
+      create: { interviewId, stepIndex: record.stepIndex, ...data },
+      update: data,
+    });
+  } catch (error: any) {
+    wsLogger.warn('Failed to record question score', {
+      error: error.message,
+      interviewId,
+      stepIndex: record.stepIndex,
+    });
+    return null;
+  }
+}
+
+/**
+ * All recorded questions for an interview, in plan order
+ */
+export async function getQuestionScores(interviewId: string) {
+  return prisma.interviewQuestionScore.findMany({
+    where: { interviewId },
+    orderBy: { stepIndex: 'asc' },
+  });
+}
+
+export default {
+  upsertQuestionScore,
+  getQuestionScores,
+};
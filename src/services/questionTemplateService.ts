@@ -0,0 +1,202 @@
+/**
+ * Question Template Service
+ *
+ * Manages recruiter-supplied question banks: custom instructions, questions that
+ * must be asked verbatim, and required skills. Templates are attached to an
+ * interview at creation and injected into the live interviewer prompt.
+ *
+ * @module services/questionTemplateService
+ */
+
+import logger from '../utils/logger';
+import { prisma } from './databaseService';
+import { sanitizeCustomPrompt, type DynamicPromptConfig } from '../prompts/multilingualPrompts';
+import type { InterviewQuestionTemplate } from '@prisma/client';
+
+const templateLogger = logger.child({ component: 'question-templates' });
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const QUESTION_TEMPLATE_LIMITS = {
+  maxNameLength: 120,
+  maxInstructionsLength: 1000,
+  maxQuestions: 5,
+  maxQuestionLength: 300,
+  maxRequiredSkills: 10,
+  maxSkillLength: 60,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface QuestionTemplateInput {
+  name: string;
+  instructions?: string | null;
+  questions: string[];
+  requiredSkills?: string[];
+}
+
+// ============================================
+// SANITIZATION
+// ============================================
+
+/**
+ * Normalize whitespace, strip control characters and markup, and drop
+ * empty or duplicate entries. Route validation enforces the limits on both the
+ * raw and the sanitized input; sanitizeCustomPrompt truncates defensively.
+ */
+function cleanText(value: string, maxLength: number): string {
+  const collapsed = value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/<\/?[a-z_][^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return sanitizeCustomPrompt(collapsed, maxLength);
+}
+
+function cleanList(values: string[] | undefined, maxItems: number, maxLength: number): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values || []) {
+    const cleaned = cleanText(value, maxLength);
+    const key = cleaned.toLowerCase();
+    if (cleaned && !seen.has(key)) {
+      seen.add(key);
+      result.push(cleaned);
+    }
+  }
+  return result.slice(0, maxItems);
+}
+
+export function sanitizeQuestionTemplateInput(input: QuestionTemplateInput): QuestionTemplateInput {
+  const instructions = input.instructions
+    ? cleanText(input.instructions, QUESTION_TEMPLATE_LIMITS.maxInstructionsLength)
+    : null;
+
+  return {
+    name: cleanText(input.name, QUESTION_TEMPLATE_LIMITS.maxNameLength),
+    instructions: instructions || null,
+    questions: cleanList(
+      input.questions,
+      QUESTION_TEMPLATE_LIMITS.maxQuestions,
+      QUESTION_TEMPLATE_LIMITS.maxQuestionLength
+    ),
+    requiredSkills: cleanList(
+      input.requiredSkills,
+      QUESTION_TEMPLATE_LIMITS.maxRequiredSkills,
+      QUESTION_TEMPLATE_LIMITS.maxSkillLength
+    ),
+  };
+}
+
+// ============================================
+// SERVICE FUNCTIONS
+// ============================================
+
+export async function createQuestionTemplate(userId: string, input: QuestionTemplateInput) {
+  const data = sanitizeQuestionTemplateInput(input);
+
+  const template = await prisma.interviewQuestionTemplate.create({
+    data: {
+      userId,
+      name: data.name,
+      instructions: data.instructions,
+      questions: data.questions,
+      requiredSkills: data.requiredSkills,
+    },
+  });
+
+  templateLogger.info('Question template created', {
+    templateId: template.id,
+    questionCount: template.questions.length,
+  });
+  return template;
+}
+
+export async function listQuestionTemplates(userId: string) {
+  return prisma.interviewQuestionTemplate.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * Get a template owned by the user (null if missing or owned by someone else)
+ */
+export async function getQuestionTemplate(templateId: string, userId: string) {
+  return prisma.interviewQuestionTemplate.findFirst({
+    where: { id: templateId, userId },
+  });
+}
+
+export async function updateQuestionTemplate(
+  templateId: string,
+  userId: string,
+  input: QuestionTemplateInput
+) {
+  const existing = await getQuestionTemplate(templateId, userId);
+  if (!existing) {
+    return null;
+  }
+
+  const data = sanitizeQuestionTemplateInput(input);
+  return prisma.interviewQuestionTemplate.update({
+    where: { id: templateId },
+    data: {
+      name: data.name,
+      instructions: data.instructions,
+      questions: data.questions,
+      requiredSkills: data.requiredSkills,
+    },
+  });
+}
+
+export async function deleteQuestionTemplate(templateId: string, userId: string): Promise<boolean> {
+  const result = await prisma.interviewQuestionTemplate.deleteMany({
+    where: { id: templateId, userId },
+  });
+  return result.count > 0;
+}
+
+// ============================================
+// PROMPT INTEGRATION
+// ============================================
+
+/**
+ * Convert a stored template into the live prompt's DynamicPromptConfig
+ */
+export function buildDynamicPromptConfig(
+  template: Pick<InterviewQuestionTemplate, 'instructions' | 'questions' | 'requiredSkills'>
+): DynamicPromptConfig {
+  return {
+    recruiterInstructions: template.instructions || undefined,
+    dynamicVariables: {
+      custom_questions: template.questions,
+      required_skills: template.requiredSkills,
+    },
+    isB2BMode: true,
+  };
+}
+
+/**
+ * Total characters of recruiter-supplied prompt content (InterviewSession.recruiterPromptLength)
+ */
+export function getRecruiterPromptLength(config: DynamicPromptConfig): number {
+  const variables = config.dynamicVariables;
+  return (config.recruiterInstructions?.length || 0) +
+    (variables?.custom_questions || []).reduce((sum, q) => sum + q.length, 0) +
+    (variables?.required_skills || []).reduce((sum, s) => sum + s.length, 0);
+}
+
+export default {
+  createQuestionTemplate,
+  listQuestionTemplates,
+  getQuestionTemplate,
+  updateQuestionTemplate,
+  deleteQuestionTemplate,
+  buildDynamicPromptConfig,
+  getRecruiterPromptLength,
+};
@@ -0,0 +1,433 @@
+/**
+ * Text Chat Service
+ *
+ * Runs the voice interview engine over plain text. A chat is registered like a
+ * Retell call (call context stored under a `chat_` id), then the candidate's
+ * /chat-websocket connection is bridged onto CustomLLMWebSocketHandler: chat
+ * messages become Retell-style requests and the handler's response frames come
+ * back as whole chat messages. Prompts, timer, congruency check, session metrics
+ * and post-call processing are the same code paths a voice call uses.
+ *
+ * Client -> server: { type: 'message', content } | { type: 'end' } | { type: 'ping' }
+ * Server -> client: { type: 'agent_message', responseId, content }
+ *                   | { type: 'ended', reason } | { type: 'pong' } | { type: 'error', message }
+ *
+ * @module services/textChatService
+ */
+
+import crypto from 'crypto';
+import WebSocket from 'ws';
+import type OpenAI from 'openai';
+import { wsLogger } from '../utils/logger';
+import { prisma } from './databaseService';
+import { cacheProvider } from '../providers/cacheProvider';
+import { storeCallContext, getCallContext } from './callContextService';
+import { downloadResume } from './azureBlobService';
+import { buildDynamicPromptConfig } from './questionTemplateService';
+import { matchCompanyProfile, toCompanyStyleProfile } from './companyProfileService';
+import { CustomLLMWebSocketHandler, type CustomLLMHandlerOptions } from './customLLMWebSocket';
+import { parseTimerCheckpoints } from '../utils/interviewTimer';
+import { resolvePanel } from '../prompts/panelPersonas';
+import { isValidLanguageCode } from '../types/multilingual';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const TEXT_CHAT_ID_PREFIX = 'chat_';
+
+export const TEXT_CHAT_LIMITS = {
+  maxMessageLength: 4000,
+};
+
+// No typing for this long after the interviewer spoke counts as silence (reminder ladder)
+const REMINDER_AFTER_MS = parseInt(process.env.TEXT_CHAT_REMINDER_SECONDS || '90') * 1000;
+
+const TRANSCRIPT_KEY_PREFIX = 'chat:transcript:';
+
+// Same lifetime as the call context the chat runs on
+const TRANSCRIPT_TTL_SECONDS = 2 * 60 * 60;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TextChatTranscriptEntry {
+  role: 'agent' | 'user';
+  content: string;
+  timestamp: number;
+}
+
+export type TextChatStartResult =
+  | { ok: true; chatId: string }
+  | { ok: false; status: 404 | 409 | 400 | 503; message: string };
+
+interface ClientMessage {
+  type: 'message' | 'end' | 'ping';
+  content?: string;
+}
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+export function isTextChatId(id: string | undefined): boolean {
+  return !!id && id.startsWith(TEXT_CHAT_ID_PREFIX) && id.length > TEXT_CHAT_ID_PREFIX.length;
+}
+
+/**
+ * Register a text chat for a pending interview: store the call context the
+ * handler reads on connect and mark the interview as in progress over text
+ */
+export async function startTextChat(interviewId: string, userId: string): Promise<TextChatStartResult> {
+  const interview = await prisma.interview.findFirst({
+    where: { id: interviewId, userId },
+    include: {
+      user: { select: { firstName: true, lastName: true, currentRole: true } },
+      resumeDocument: { select: { storageKey: true, fileName: true, mimeType: true } },
+      questionTemplate: { select: { instructions: true, questions: true, requiredSkills: true } },
+    },
+  });
+
+  if (!interview) {
+    return { ok: false, status: 404, message: 'Interview not found' };
+  }
+
+  if (interview.status !== 'PENDING') {
+    return { ok: false, status: 409, message: 'Interview has already been started' };
+  }
+
+  if (!interview.resumeDocument?.storageKey) {
+    return {
+      ok: false,
+      status: 400,
+      message: 'Interview has no associated resume. Please upload a resume first.',
+    };
+  }
+
+  const downloadResult = await downloadResume(interview.resumeDocument.storageKey);
+  if (!downloadResult.success || !downloadResult.data) {
+    wsLogger.error('Failed to download resume for text chat', {
+      interviewId,
+      error: downloadResult.error,
+    });
+    return { ok: false, status: 503, message: 'Failed to retrieve resume. Please try again.' };
+  }
+
+  const chatId = `${TEXT_CHAT_ID_PREFIX}${crypto.randomBytes(16).toString('hex')}`;
+  const panel = resolvePanel(interview.panelPersonas);
+  const companyProfile = await matchCompanyProfile(interview.companyName);
+
+  await storeCallContext(chatId, {
+    preferredLanguage: interview.language && isValidLanguageCode(interview.language) ? interview.language : 'en-US',
+    first_name: interview.user?.firstName || '',
+    last_name: interview.user?.lastName || '',
+    job_title: interview.jobTitle,
+    company_name: interview.companyName,
+    job_description: interview.jobDescription,
+    interviewee_cv: downloadResult.data.toString('base64'),
+    resume_file_name: interview.resumeDocument.fileName,
+    resume_mime_type: interview.resumeDocument.mimeType || 'application/pdf',
+    interview_id: interview.id,
+    dynamic_prompt_config: interview.questionTemplate
+      ? buildDynamicPromptConfig(interview.questionTemplate)
+      : undefined,
+    interview_mode: interview.interviewMode,
+    duration_minutes: interview.durationMinutes ?? undefined,
+    timer_checkpoints: parseTimerCheckpoints(interview.timerCheckpoints),
+    panel_personas: panel.map((p) => p.key),
+    congruency_policy: interview.congruencyPolicy,
+    seniority: interview.seniority ?? undefined,
+    current_role: interview.user?.currentRole ?? undefined,
+    company_profile: companyProfile ? toCompanyStyleProfile(companyProfile) : undefined,
+  });
+
+  await prisma.interview.update({
+    where: { id: interview.id },
+    data: {
+      retellCallId: chatId,
+      channel: 'TEXT',
+      status: 'IN_PROGRESS',
+      startedAt: new Date(),
+    },
+  });
+
+  wsLogger.info('Text chat registered', { chatId, interviewId, panelSize: panel.length });
+  return { ok: true, chatId };
+}
+
+// ============================================
+// TRANSCRIPT
+// ============================================
+
+async function loadTranscript(chatId: string): Promise<TextChatTranscriptEntry[]> {
+  return (await cacheProvider.get<TextChatTranscriptEntry[]>(`${TRANSCRIPT_KEY_PREFIX}${chatId}`)) || [];
+}
+
+async function saveTranscript(chatId: string, transcript: TextChatTranscriptEntry[]): Promise<void> {
+  try {
+    await cacheProvider.set(`${TRANSCRIPT_KEY_PREFIX}${chatId}`, transcript, TRANSCRIPT_TTL_SECONDS);
+  } catch (error: any) {
+    wsLogger.warn('Failed to save text chat transcript', { chatId, error: error.message });
+  }
+}
+
+/**
+ * Plain-text transcript in the "role: content" form post-call processing reads
+ */
+export function formatTranscript(transcript: TextChatTranscriptEntry[]): string {
+  return transcript.map((entry) => `${entry.role}: ${entry.content}`).join('\n');
+}
+
+// ============================================
+// SESSION
+// ============================================
+
+/**
+ * One candidate connection to /chat-websocket/:chat_id. The server wires the
+ * socket events to handleClientMessage / handleClose / handleError.
+ */
+export class TextChatSession {
+  private client: WebSocket;
+  private chatId: string;
+  private handler: CustomLLMWebSocketHandler;
+  private transcript: TextChatTranscriptEntry[] = [];
+  private ready: Promise<void>;
+  private responseId: number = 0;
+  private pending: { responseId: number; content: string } | null = null;
+  private reminderTimeout: NodeJS.Timeout | null = null;
+  private ended: boolean = false;
+
+  constructor(
+    client: WebSocket,
+    openai: OpenAI,
+    chatId: string,
+    options: Omit<CustomLLMHandlerOptions, 'prepareCallData'> = {}
+  ) {
+    this.client = client;
+    this.chatId = chatId;
+
+    // The handler talks to Retell; this stand-in socket turns its frames into chat messages
+    const bridge = {
+      get readyState() {
+        return client.readyState;
+      },
+      send: (data: string) => this.handleHandlerFrame(JSON.parse(data)),
+    };
+    this.handler = new CustomLLMWebSocketHandler(bridge as unknown as WebSocket, openai, chatId, {
+      ...options,
+      prepareCallData: (endReason) => this.persistTranscript(endReason),
+    });
+
+    this.ready = this.connect();
+  }
+
+  /**
+   * Restore the transcript (reconnects) and start or resume the interview.
+   * The unguessable chat id only resolves while its call context is stored.
+   */
+  private async connect() {
+    if (!isTextChatId(this.chatId) || !(await getCallContext(this.chatId))) {
+      wsLogger.warn('Text chat connection for unknown chat', { chatId: this.chatId });
+      this.ended = true;
+      this.sendToClient({ type: 'error', message: 'Unknown chat' });
+      this.client.close(4404, 'Unknown chat');
+      return;
+    }
+
+    this.transcript = await loadTranscript(this.chatId);
+    this.responseId = this.transcript.filter((entry) => entry.role === 'user').length;
+    await this.handler.handleMessage(JSON.stringify({
+      interaction_type: 'call_details',
+      call: { call_id: this.chatId },
+    }));
+  }
+
+  /**
+   * Message from the candidate's socket
+   */
+  async handleClientMessage(data: string) {
+    await this.ready;
+
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.sendToClient({ type: 'error', message: 'Invalid message format' });
+      return;
+    }
+
+    if (this.ended && message.type !== 'ping') {
+      this.sendToClient({ type: 'error', message: 'Interview has ended' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'message':
+        await this.handleCandidateMessage(message.content);
+        break;
+
+      case 'end':
+        wsLogger.info('Candidate ended text chat', { chatId: this.chatId });
+        this.markEnded('user_request');
+        await this.handler.endInterview('user_request');
+        this.client.close(1000, 'Interview ended');
+        break;
+
+      case 'ping':
+        this.sendToClient({ type: 'pong' });
+        break;
+
+      default:
+        this.sendToClient({ type: 'error', message: 'Unknown message type' });
+    }
+  }
+
+  private async handleCandidateMessage(content: unknown) {
+    const text = typeof content === 'string' ? content.trim() : '';
+    if (!text || text.length > TEXT_CHAT_LIMITS.maxMessageLength) {
+      this.sendToClient({
+        type: 'error',
+        message: `Message must be between 1 and ${TEXT_CHAT_LIMITS.maxMessageLength} characters`,
+      });
+      return;
+    }
+
+    this.clearReminder();
+    this.recordEntry({ role: 'user', content: text, timestamp: Date.now() });
+    this.responseId++;
+
+    await this.handler.handleMessage(JSON.stringify({
+      interaction_type: 'response_required',
+      response_id: this.responseId,
+      transcript: this.transcript,
+    }));
+  }
+
+  /**
+   * Frame the handler would have sent to Retell. Streamed chunks are collected
+   * until content_complete so the candidate receives one message per reply.
+   */
+  private handleHandlerFrame(frame: Record<string, any>) {
+    if (frame.response_type !== 'response' && frame.response_type !== 'agent_interrupt') {
+      return; // config and ping_pong frames are Retell plumbing
+    }
+
+    const responseId = frame.response_id ?? frame.interrupt_id;
+    if (!this.pending || this.pending.responseId !== responseId) {
+      this.pending = { responseId, content: '' };
+    }
+    this.pending.content += frame.content || '';
+
+    if (!frame.content_complete) {
+      return;
+    }
+
+    const { content } = this.pending;
+    this.pending = null;
+    if (content) {
+      this.recordEntry({ role: 'agent', content, timestamp: Date.now() });
+      this.sendToClient({ type: 'agent_message', responseId, content });
+    }
+
+    if (frame.end_call || frame.end_call_after_spoken) {
+      this.markEnded(frame.end_call_reason || 'completed');
+      this.client.close(1000, 'Interview ended');
+      return;
+    }
+
+    this.scheduleReminder();
+  }
+
+  private recordEntry(entry: TextChatTranscriptEntry) {
+    this.transcript.push(entry);
+    saveTranscript(this.chatId, this.transcript);
+  }
+
+  private markEnded(reason: string) {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.clearReminder();
+    this.sendToClient({ type: 'ended', reason });
+  }
+
+  /**
+   * A candidate who stops typing gets the same reminder ladder as a silent caller
+   */
+  private scheduleReminder() {
+    this.clearReminder();
+    if (REMINDER_AFTER_MS <= 0) {
+      return;
+    }
+    this.reminderTimeout = setTimeout(() => {
+      this.reminderTimeout = null;
+      if (this.ended) {
+        return;
+      }
+      this.handler.handleMessage(JSON.stringify({
+        interaction_type: 'reminder_required',
+        response_id: this.responseId,
+        transcript: this.transcript,
+      }));
+    }, REMINDER_AFTER_MS);
+  }
+
+  private clearReminder() {
+    if (this.reminderTimeout) {
+      clearTimeout(this.reminderTimeout);
+      this.reminderTimeout = null;
+    }
+  }
+
+  private sendToClient(message: Record<string, unknown>) {
+    if (this.client.readyState === WebSocket.OPEN) {
+      this.client.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Store the transcript on the interview and hand post-call processing the
+   * chat in the shape of a Retell call (there is no Retell call to fetch)
+   */
+  private async persistTranscript(endReason: string): Promise<Record<string, any> | undefined> {
+    const interviewId = (await getCallContext(this.chatId))?.interviewId;
+    if (!interviewId || this.transcript.length === 0) {
+      return undefined;
+    }
+
+    const startTimestamp = this.transcript[0].timestamp;
+    const endTimestamp = Date.now();
+    try {
+      await prisma.interview.update({
+        where: { id: interviewId },
+        data: {
+          transcript: formatTranscript(this.transcript),
+          status: 'COMPLETED',
+          endedAt: new Date(endTimestamp),
+        },
+      });
+    } catch (error: any) {
+      wsLogger.error('Failed to store text chat transcript', { chatId: this.chatId, interviewId, error: error.message });
+    }
+
+    return {
+      call_id: this.chatId,
+      start_timestamp: startTimestamp,
+      end_timestamp: endTimestamp,
+      disconnection_reason: endReason,
+      transcript: formatTranscript(this.transcript),
+      transcript_with_tool_calls: this.transcript.map(({ role, content }) => ({ role, content })),
+    };
+  }
+
+  handleError(error: Error) {
+    this.handler.handleError(error);
+  }
+
+  handleClose() {
+    this.clearReminder();
+    this.handler.handleClose();
+  }
+}
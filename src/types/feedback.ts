@@ -21,6 +21,14 @@ export type CompetencyKey =
   | 'cultural_fit'
   | 'domain_expertise';
 
+/** Interview round being practiced (matches the Prisma InterviewMode enum) */
+export type InterviewMode =
+  | 'STANDARD'
+  | 'BEHAVIORAL'
+  | 'TECHNICAL_DEEP_DIVE'
+  | 'CASE'
+  | 'SALARY_NEGOTIATION';
+
 // ============================================
 // SESSION METADATA
 // ============================================
@@ -36,6 +44,7 @@ export interface SessionMetadata {
   interviewDate: string; // ISO 8601
   wasInterrupted: boolean;
   interruptionReason?: string;
+  interviewMode?: InterviewMode;
 }
 
 // ============================================
@@ -203,13 +212,45 @@ export interface NextSessionGoal {
 
 export interface DataQualityWarning {
   /** Warning code */
-  code: 'incomplete_transcript' | 'short_interview' | 'missing_audio' | 'language_mismatch' | 'no_resume';
+  code: 'incomplete_transcript' | 'short_interview' | 'missing_audio' | 'language_mismatch' | 'silence_timeout' | 'no_resume' | 'role_mismatch' | 'unverified_evidence';
   /** Human-readable message */
   message: string;
   /** Severity level */
   severity: 'info' | 'warning' | 'error';
 }
 
+/** Result of matching the cited evidence against the transcript */
+export interface EvidenceCheck {
+  /** Evidence items the model cited */
+  total: number;
+  /** Items found in the transcript (timestamps snapped to the segment start) */
+  verified: number;
+  /** Items not found in the transcript and removed */
+  dropped: number;
+}
+
+// ============================================
+// MODE-SPECIFIC ASSESSMENT
+// ============================================
+
+export interface ModeCriterionScore {
+  /** Criterion key from the mode's feedback schema (e.g. 'situation', 'anchoring') */
+  key: string;
+  /** Localized name */
+  name: string;
+  /** Score 0-5 (0 = not demonstrated) */
+  score: number;
+  explanation: string;
+  evidence: TranscriptEvidence[];
+}
+
+export interface ModeAssessment {
+  mode: InterviewMode;
+  criteria: ModeCriterionScore[];
+  /** One-paragraph verdict for the round (e.g. negotiation outcome) */
+  summary: string;
+}
+
 // ============================================
 // MAIN FEEDBACK SCHEMA
 // ============================================
@@ -265,6 +306,12 @@ export interface StructuredFeedback {
   
   /** Data quality warnings */
   warnings: DataQualityWarning[];
+  
+  /** Evidence quotes checked against the transcript (absent on older feedback) */
+  evidenceCheck?: EvidenceCheck;
+  
+  /** Round-specific breakdown (non-standard interview modes only) */
+  modeAssessment?: ModeAssessment;
 }
 
 // ============================================
@@ -328,6 +328,8 @@ export interface MultilingualRetellCallParams {
     interview_id?: string;
     preferred_language: SupportedLanguageCode;
   };
+  /** Overrides the language's default voice (interview voice or panel lead) */
+  voiceId?: string;
 }
 
 // ========================================
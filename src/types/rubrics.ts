@@ -5,7 +5,7 @@
  * for consistent, calibrated feedback scoring.
  */
 
-import { CompetencyKey, Seniority } from './feedback';
+import { CompetencyKey, InterviewMode, Seniority } from './feedback';
 
 // ============================================
 // COMPETENCY WEIGHTS BY ROLE TYPE
@@ -92,6 +92,40 @@ export const ROLE_COMPETENCY_WEIGHTS: RoleCompetencyWeights = {
   }
 };
 
+// ============================================
+// COMPETENCY WEIGHTS BY INTERVIEW MODE
+// Targeted rounds replace the role weights entirely
+// ============================================
+
+export const MODE_COMPETENCY_WEIGHTS: Partial<Record<InterviewMode, Partial<Record<CompetencyKey, number>>>> = {
+  BEHAVIORAL: {
+    behavioral: 0.35,
+    communication: 0.20,
+    leadership: 0.20,
+    cultural_fit: 0.15,
+    problem_solving: 0.10
+  },
+  TECHNICAL_DEEP_DIVE: {
+    system_design: 0.35,
+    technical_knowledge: 0.30,
+    problem_solving: 0.20,
+    communication: 0.15
+  },
+  CASE: {
+    problem_solving: 0.35,
+    communication: 0.25,
+    domain_expertise: 0.20,
+    technical_knowledge: 0.10,
+    behavioral: 0.10
+  },
+  SALARY_NEGOTIATION: {
+    communication: 0.40,
+    problem_solving: 0.20,
+    behavioral: 0.20,
+    cultural_fit: 0.20
+  }
+};
+
 // ============================================
 // SENIORITY EXPECTATIONS
 // ============================================
@@ -582,9 +616,16 @@ export const COMPETENCY_ANCHORS: Record<CompetencyKey, ScoreAnchor[]> = {
 // ============================================
 
 /**
- * Get competency weights for a role, with fallback to default
+ * Get competency weights for a role, with fallback to default.
+ * Non-standard interview modes use their own weights.
  */
-export function getCompetencyWeights(roleTitle: string): Partial<Record<CompetencyKey, number>> {
+export function getCompetencyWeights(
+  roleTitle: string,
+  mode?: InterviewMode
+): Partial<Record<CompetencyKey, number>> {
+  if (mode && MODE_COMPETENCY_WEIGHTS[mode]) {
+    return MODE_COMPETENCY_WEIGHTS[mode]!;
+  }
   const normalized = roleTitle.toLowerCase().replace(/\s+/g, '_');
   return ROLE_COMPETENCY_WEIGHTS[normalized] || ROLE_COMPETENCY_WEIGHTS['default'];
 }
@@ -609,9 +650,10 @@ export function getScoreAnchor(competency: CompetencyKey, score: number): ScoreA
  */
 export function calculateWeightedScore(
   competencyScores: Record<CompetencyKey, number>,
-  roleTitle: string
+  roleTitle: string,
+  mode?: InterviewMode
 ): number {
-  const weights = getCompetencyWeights(roleTitle);
+  const weights = getCompetencyWeights(roleTitle, mode);
   let totalWeight = 0;
   let weightedSum = 0;
   
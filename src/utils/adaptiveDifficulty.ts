@@ -0,0 +1,119 @@
+/**
+ * Adaptive difficulty tracker
+ * Starts from the configured question complexity and moves one level up or down
+ * after each scored competency answer, recording the trajectory for the session.
+ */
+
+import { CompetencyKey } from '../types/feedback';
+
+export type DifficultyLevel = 'basic' | 'intermediate' | 'advanced' | 'expert';
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['basic', 'intermediate', 'advanced', 'expert'];
+
+export interface DifficultyStep {
+  step: number;
+  competency: CompetencyKey;
+  question: string;
+  /** 1-5 against COMPETENCY_ANCHORS */
+  score: number;
+  evidence: string;
+  /** Level the question was asked at */
+  level: DifficultyLevel;
+  nextLevel: DifficultyLevel;
+  answeredAtSec: number;
+}
+
+export interface DifficultyTrackerState {
+  initialLevel: DifficultyLevel;
+  currentLevel: DifficultyLevel;
+  trajectory: DifficultyStep[];
+  startTime: string;
+}
+
+// Anchor scores: 4-5 (Strong/Exceptional) raise the bar, 1-2 (Insufficient/Basic) lower it
+const RAISE_AT_SCORE = 4;
+const LOWER_AT_SCORE = 2;
+
+const LEVEL_GUIDANCE: Record<DifficultyLevel, string> = {
+  basic: 'Ask a foundational question with a familiar scenario. Offer a concrete hint if the candidate hesitates.',
+  intermediate: 'Ask a practical question about applying the skill in a typical situation.',
+  advanced: 'Ask a question involving trade-offs, edge cases, or a decision made under constraints.',
+  expert: 'Ask a bar-raiser question: ambiguous scope, competing constraints, and ask them to justify their choice.',
+};
+
+export class DifficultyTracker {
+  private initialLevel: DifficultyLevel;
+  private currentLevel: DifficultyLevel;
+  private trajectory: DifficultyStep[] = [];
+  private startTime: Date;
+
+  constructor(initialLevel: DifficultyLevel = 'intermediate') {
+    this.initialLevel = initialLevel;
+    this.currentLevel = initialLevel;
+    this.startTime = new Date();
+  }
+
+  getCurrentLevel(): DifficultyLevel {
+    return this.currentLevel;
+  }
+
+  /**
+   * Record a scored answer and move the level for the next question
+   */
+  recordScore(entry: Pick<DifficultyStep, 'step' | 'competency' | 'question' | 'score' | 'evidence'>): DifficultyStep {
+    if (this.trajectory.some((t) => t.step === entry.step)) {
+      return this.trajectory.find((t) => t.step === entry.step)!;
+    }
+
+    const index = DIFFICULTY_LEVELS.indexOf(this.currentLevel);
+    let nextIndex = index;
+    if (entry.score >= RAISE_AT_SCORE) {
+      nextIndex = Math.min(DIFFICULTY_LEVELS.length - 1, index + 1);
+    } else if (entry.score <= LOWER_AT_SCORE) {
+      nextIndex = Math.max(0, index - 1);
+    }
+
+    const recorded: DifficultyStep = {
+      ...entry,
+      level: this.currentLevel,
+      nextLevel: DIFFICULTY_LEVELS[nextIndex],
+      answeredAtSec: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+    };
+    this.trajectory.push(recorded);
+    this.currentLevel = recorded.nextLevel;
+
+    return recorded;
+  }
+
+  /**
+   * Difficulty instruction for the next competency question
+   */
+  getGuidance(): string {
+    return [
+      `<difficulty level="${this.currentLevel}">`,
+      `  ${LEVEL_GUIDANCE[this.currentLevel]}`,
+      '</difficulty>',
+    ].join('\n');
+  }
+
+  getTrajectory(): DifficultyStep[] {
+    return this.trajectory.map((t) => ({ ...t }));
+  }
+
+  toState(): DifficultyTrackerState {
+    return {
+      initialLevel: this.initialLevel,
+      currentLevel: this.currentLevel,
+      trajectory: this.getTrajectory(),
+      startTime: this.startTime.toISOString(),
+    };
+  }
+
+  static fromState(state: DifficultyTrackerState): DifficultyTracker {
+    const tracker = new DifficultyTracker(state.initialLevel);
+    tracker.currentLevel = state.currentLevel;
+    tracker.trajectory = state.trajectory.map((t) => ({ ...t }));
+    tracker.startTime = new Date(state.startTime);
+    return tracker;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Candidate interview controls
+ * Detects a small set of spoken commands ("can you repeat that", "let's pause")
+ * so the live handler can execute them deterministically instead of letting the
+ * LLM improvise. Only short utterances are considered, so an answer that merely
+ * mentions "skipping a step" is never taken as a command.
+ */
+
+import type { SupportedLanguageCode } from '../types/multilingual';
+
+export type CandidateControl = 'repeat' | 'rephrase' | 'skip' | 'pause' | 'resume' | 'end';
+
+export interface CandidateControlEvent {
+  control: CandidateControl;
+  /** Plan step the command applied to */
+  step?: number;
+  phase?: string;
+  atSec: number;
+}
+
+// Longer utterances are treated as answers
+const MAX_CONTROL_WORDS = 12;
+const MAX_CONTROL_CHARS_CJK = 24;
+
+type ControlPatterns = Partial<Record<CandidateControl, RegExp>>;
+
+const PATTERNS_BY_LANGUAGE: Record<string, ControlPatterns> = {
+  en: {
+    end: /\b(end|stop|finish|quit) (the|this|our) (interview|call|session)|\bi (want|would like|'d like) to (stop|quit|end)|\blet'?s (stop|end) (here|now)/i,
+    skip: /\bskip (this|that|the|it)|\bnext question|\bcan we move on|\bi'?d rather (not answer|skip)|\bpass on (this|that)/i,
+    pause: /\b(can|could) we (pause|take a (short |quick )?break)|\bpause (the interview|for a (minute|moment|second))|\bgive me a (minute|moment)|\bhold on a (minute|moment|second)/i,
+    rephrase: /\brephrase|\bsay (it|that) (differently|another way)|\bi (don'?t|didn'?t) understand the question|\bwhat do you mean/i,
+    repeat: /\brepeat (that|the question|it|yourself)|\bsay (that|it) again|\bcome again|\bi (didn'?t|did not) (catch|hear) (that|you|the question)|\bpardon\b/i,
+    resume: /\b(i'?m|i am) (ready|back)|\blet'?s (continue|resume|go on|keep going)|\bwe can continue/i,
+  },
+  pt: {
+    end: /\b(encerrar|terminar|parar|finalizar) (a|essa|esta) entrevista|\bquero (parar|encerrar|terminar)/i,
+    skip: /\bpular (essa|esta|a) pergunta|\bpróxima pergunta|\bprefiro não responder|\bpodemos pular/i,
+    pause: /\b(podemos|posso) (pausar|fazer uma pausa)|\bum (minuto|momento),? por favor|\bme (dá|dê) um (minuto|momento)/i,
+    rephrase: /\breformular|\b(dizer|falar) de outra forma|\bnão entendi a pergunta|\bo que (você )?quer dizer/i,
+    repeat: /\b(pode|poderia) repetir|\brepete|\brepita|\bnão ouvi/i,
+    resume: /\bestou pront[oa]|\bpodemos continuar|\bvamos continuar|\bvoltei/i,
+  },
+  es: {
+    end: /\b(terminar|finalizar|parar|acabar) (la|esta) entrevista|\bquiero (parar|terminar|acabar)/i,
+    skip: /\b(saltar|pasar) (esta|la) pregunta|\bsiguiente pregunta|\bprefiero no responder|\bpodemos (saltar|pasar)/i,
+    pause: /\b(podemos|puedo) (pausar|hacer una pausa|tomar un descanso)|\bun (minuto|momento),? por favor|\bdame un (minuto|momento)/i,
+    rephrase: /\breformular|\bdecirlo de otra (forma|manera)|\bno entend[ií] la pregunta|\bqu[eé] quiere(s)? decir/i,
+    repeat: /\b(puede|puedes|podr[ií]a|podr[ií]as) repetir|\brepite|\brepita|\bno (te |le )?(o[ií]|escuch[eé])/i,
+    resume: /\bestoy list[oa]|\bpodemos (continuar|seguir)|\bsigamos|\bcontinuemos/i,
+  },
+  fr: {
+    end: /\b(arr[eê]ter|terminer|finir) (l'|cet |notre )?entretien|\bje (veux|voudrais) (arr[eê]ter|terminer)/i,
+    skip: /\bpasser (cette|la) question|\bquestion suivante|\bje pr[eé]f[eè]re ne pas r[eé]pondre/i,
+    pause: /\b(pouvons-nous|peut-on|on peut) faire une pause|\bune (minute|seconde),? s'il vous pla[iî]t|\bdonnez-moi une (minute|seconde)/i,
+    rephrase: /\breformuler|\bdire autrement|\bje n'ai pas compris la question|\bqu'entendez-vous/i,
+    repeat: /\br[eé]p[eé]ter|\br[eé]p[eé]tez|\bje n'ai pas entendu/i,
+    resume: /\bje suis pr[eê]te?|\bon peut continuer|\bcontinuons|\breprenons/i,
+  },
+  ru: {
+    end: /(закончить|завершить|остановить) (собеседование|интервью)/i,
+    skip: /(пропустить|пропустим) (этот )?вопрос|следующий вопрос/i,
+    pause: /(сделать|сделаем) паузу|(дайте|одну) минуту/i,
+    rephrase: /переформулир|сказать по-другому|не понял[аи]? вопрос/i,
+    repeat: /повтор(ите|ить)|не расслышал/i,
+    resume: /я готов[аы]?|продолжим|можем продолжить/i,
+  },
+  zh: {
+    end: /结束面试|停止面试|不想继续了/,
+    skip: /跳过|下一个问题/,
+    pause: /暂停|休息一下|等一下|稍等/,
+    rephrase: /换个说法|没听懂|没理解/,
+    repeat: /重复一下|再说一遍|没听清/,
+    resume: /准备好了|继续吧|可以继续/,
+  },
+  hi: {
+    end: /इंटरव्यू (खत्म|समाप्त|बंद) कर/,
+    skip: /(यह|ये) सवाल छोड़|अगला सवाल/,
+    pause: /(थोड़ा|एक) (रुकिए|रुकें|मिनट)|ब्रेक/,
+    rephrase: /दूसरे तरीके से|समझ नहीं आया/,
+    repeat: /(फिर से|दोबारा) (बोलिए|कहिए|बताइए)|दोहराइए/,
+    resume: /मैं तैयार हूं|जारी रखें|आगे बढ़ें/,
+  },
+};
+
+// Checked in this order; the first match wins
+const CONTROL_PRIORITY: CandidateControl[] = ['end', 'skip', 'pause', 'rephrase', 'repeat', 'resume'];
+
+function isShortUtterance(text: string, base: string): boolean {
+  if (base === 'zh') {
+    return text.replace(/\s/g, '').length <= MAX_CONTROL_CHARS_CJK;
+  }
+  return text.split(/\s+/).filter(Boolean).length <= MAX_CONTROL_WORDS;
+}
+
+/**
+ * Detect a control command in a candidate utterance. English commands are
+ * recognized in every interview language. 'resume' is only reported while paused.
+ */
+export function detectCandidateControl(
+  text: string,
+  language: SupportedLanguageCode,
+  options: { paused?: boolean } = {}
+): CandidateControl | null {
+  const base = language.split('-')[0];
+  const trimmed = text.trim();
+  if (!trimmed || !isShortUtterance(trimmed, base)) {
+    return null;
+  }
+
+  const patternSets = [PATTERNS_BY_LANGUAGE[base], base === 'en' ? undefined : PATTERNS_BY_LANGUAGE.en]
+    .filter((p): p is ControlPatterns => !!p);
+
+  for (const control of CONTROL_PRIORITY) {
+    if (control === 'resume' && !options.paused) {
+      continue;
+    }
+    if (patternSets.some((patterns) => patterns[control]?.test(trimmed))) {
+      return control;
+    }
+  }
+
+  return null;
+}
@@ -22,6 +22,80 @@ export interface CongruencyAnalysis {
   };
 }
 
+/**
+ * What the live fit check may do (Interview.congruencyPolicy, chosen at creation)
+ * - OFF: no check
+ * - WARN: record the gap for the feedback report, interview unchanged
+ * - ADAPT: on a mismatch, steer questions toward transferable skills
+ * - END: end early on an extreme mismatch (previous behavior, the default)
+ */
+export type CongruencyPolicy = 'OFF' | 'WARN' | 'ADAPT' | 'END';
+
+export const DEFAULT_CONGRUENCY_POLICY: CongruencyPolicy = 'END';
+
+/**
+ * Result of a fit check and what the policy did with it (Interview.congruencyAnalysis)
+ */
+export interface CongruencyOutcome extends CongruencyAnalysis {
+  policy: CongruencyPolicy;
+  check: 'quick' | 'full';
+  action: 'none' | 'warned' | 'adapted' | 'ended';
+  atSec: number;
+}
+
+// Confidence an extreme mismatch needs before the interview is ended
+const END_CONFIDENCE = { quick: 0.95, full: 0.85 };
+
+export function resolveCongruencyPolicy(value?: string | null): CongruencyPolicy {
+  const policy = value?.toUpperCase();
+  return policy === 'OFF' || policy === 'WARN' || policy === 'ADAPT' || policy === 'END'
+    ? policy
+    : DEFAULT_CONGRUENCY_POLICY;
+}
+
+/**
+ * Apply the interview's policy to a fit check. Only END can stop the interview,
+ * and only for an extreme mismatch; WARN and ADAPT act on any mismatch.
+ */
+export function decideCongruencyAction(
+  analysis: CongruencyAnalysis,
+  policy: CongruencyPolicy,
+  check: 'quick' | 'full'
+): CongruencyOutcome['action'] {
+  const extreme = analysis.isExtremelyIncompatible && analysis.confidence > END_CONFIDENCE[check];
+  // The quick check is deliberately lenient and only reports extreme mismatches
+  const mismatch = extreme || (check === 'full' && !analysis.isCongruent);
+
+  switch (policy) {
+    case 'END':
+      return extreme && (check === 'quick' || !analysis.isCongruent) ? 'ended' : 'none';
+    case 'ADAPT':
+      return mismatch ? 'adapted' : 'none';
+    case 'WARN':
+      return mismatch ? 'warned' : 'none';
+    default:
+      return 'none';
+  }
+}
+
+/**
+ * Interviewer guidance for the rest of an ADAPT interview: practice the
+ * career switch by probing what carries over instead of the missing skills
+ */
+export function buildTransferableSkillsGuidance(analysis: CongruencyAnalysis): string {
+  const transferable = analysis.skillsMatch.transferable.slice(0, 6);
+  const missing = analysis.skillsMatch.missing.slice(0, 6);
+  return [
+    "CAREER SWITCH: The candidate's background differs from this role. Keep the interview going and do not mention the mismatch.",
+    transferable.length > 0
+      ? `Focus questions on how these transferable skills would apply in the role: ${transferable.join(', ')}.`
+      : 'Focus questions on experience from their background that would carry over to the role.',
+    missing.length > 0
+      ? `For requirements they lack (${missing.join(', ')}), ask how they would ramp up rather than testing depth.`
+      : '',
+  ].filter(Boolean).join('\n');
+}
+
 export async function analyzeResumeJobCongruency(
   resume: string,
   jobTitle: string,
@@ -0,0 +1,180 @@
+/**
+ * Conversation memory for the live interviewer
+ * Keeps the prompt bounded. In 'rolling_summary' mode, turns that fall out of the
+ * window are compressed into a running "candidate facts so far" block instead of
+ * being forgotten, so long interviews can still follow up on early answers.
+ */
+
+import type { ChatMessage, ChatProvider } from '../providers/chatProvider';
+
+export type ConversationMemoryMode = 'truncate' | 'rolling_summary';
+
+export interface ConversationMemoryState {
+  mode: ConversationMemoryMode;
+  facts: string;
+  pending: ChatMessage[];
+  summarizedTurns: number;
+}
+
+export interface SummaryUsage {
+  promptTokens: number;
+  completionTokens: number;
+  model: string;
+  provider: string;
+}
+
+const MAX_FACTS_LENGTH = 1500;
+const MAX_PENDING_MESSAGES = 12;
+const MAX_PENDING_LINE_LENGTH = 300;
+
+const SUMMARY_INSTRUCTIONS = `You maintain running notes about a job candidate during a live interview.
+Merge the existing notes with the new transcript excerpt into one updated list of facts.
+Keep only what the candidate stated: claims, projects, companies, skills and tools, numbers and outcomes, motivations, and questions already asked by the interviewer.
+Write short bullet points ("- ..."), in English, no more than 15 bullets. Do not evaluate the candidate. Output only the bullet list.`;
+
+export class ConversationMemory {
+  private mode: ConversationMemoryMode;
+  private facts: string = '';
+  private pending: ChatMessage[] = [];
+  private summarizedTurns: number = 0;
+  private inFlight: boolean = false;
+
+  constructor(mode: ConversationMemoryMode = 'truncate') {
+    this.mode = mode;
+  }
+
+  getMode(): ConversationMemoryMode {
+    return this.mode;
+  }
+
+  /**
+   * Keep the system prompt plus the last (maxMessages - 1) messages.
+   * Dropped turns are queued for summarization in rolling_summary mode.
+   */
+  prune(history: ChatMessage[], maxMessages: number): ChatMessage[] {
+    if (history.length <= maxMessages) {
+      return history;
+    }
+
+    const systemMessage = history[0];
+    const dropped = history.slice(1, history.length - (maxMessages - 1));
+    const recentMessages = history.slice(-(maxMessages - 1));
+
+    if (this.mode === 'rolling_summary') {
+      this.pending.push(...dropped.filter((m) => m.role !== 'system'));
+      // If summaries keep failing, the oldest unsummarized turns are forgotten as before
+      this.pending = this.pending.slice(-MAX_PENDING_MESSAGES);
+    }
+
+    return [systemMessage, ...recentMessages];
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Fold queued turns into the facts block. Only one summary runs at a time;
+   * turns dropped meanwhile wait for the next call. On failure the batch is re-queued.
+   */
+  async summarizePending(provider: ChatProvider, model?: string): Promise<SummaryUsage | null> {
+    if (this.mode !== 'rolling_summary' || this.inFlight || this.pending.length === 0) {
+      return null;
+    }
+
+    this.inFlight = true;
+    const batch = this.pending;
+    this.pending = [];
+    const summaryModel = model || provider.defaultModel;
+
+    try {
+      const messages: ChatMessage[] = [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        {
+          role: 'user',
+          content: `Existing notes:\n${this.facts || '(none)'}\n\nNew transcript excerpt:\n${formatTranscript(batch)}`,
+        },
+      ];
+
+      let summary = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      for await (const chunk of provider.streamChat(messages, {
+        model: summaryModel,
+        temperature: 0,
+        maxTokens: 400,
+      })) {
+        summary += chunk.content;
+        if (chunk.usage) {
+          promptTokens = chunk.usage.promptTokens;
+          completionTokens = chunk.usage.completionTokens;
+        }
+      }
+
+      const trimmed = summary.trim();
+      if (trimmed) {
+        this.facts = trimmed.slice(0, MAX_FACTS_LENGTH);
+        this.summarizedTurns += batch.length;
+      }
+
+      return { promptTokens, completionTokens, model: summaryModel, provider: provider.name };
+    } catch (error) {
+      this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_MESSAGES);
+      throw error;
+    } finally {
+      this.inFlight = false;
+    }
+  }
+
+  /**
+   * System message carrying the facts block (plus any turns still waiting to be
+   * summarized), or null when there is nothing to remember
+   */
+  getMemoryMessage(): ChatMessage | null {
+    if (this.mode !== 'rolling_summary' || (!this.facts && this.pending.length === 0)) {
+      return null;
+    }
+
+    const lines = [
+      '<candidate_facts>',
+      '  <note>Earlier turns are no longer in the transcript. Use these facts for follow-up questions; do not ask again about topics already covered.</note>',
+    ];
+    if (this.facts) {
+      lines.push(this.facts);
+    }
+    if (this.pending.length > 0) {
+      lines.push('  <earlier_turns>');
+      lines.push(formatTranscript(this.pending));
+      lines.push('  </earlier_turns>');
+    }
+    lines.push('</candidate_facts>');
+
+    return { role: 'system', content: lines.join('\n') };
+  }
+
+  toState(): ConversationMemoryState {
+    return {
+      mode: this.mode,
+      facts: this.facts,
+      pending: this.pending.map((m) => ({ ...m })),
+      summarizedTurns: this.summarizedTurns,
+    };
+  }
+
+  static fromState(state: ConversationMemoryState): ConversationMemory {
+    const memory = new ConversationMemory(state.mode);
+    memory.facts = state.facts;
+    memory.pending = state.pending.map((m) => ({ ...m }));
+    memory.summarizedTurns = state.summarizedTurns;
+    return memory;
+  }
+}
+
+function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((m) => {
+      const speaker = m.role === 'assistant' ? 'Interviewer' : 'Candidate';
+      return `${speaker}: ${m.content.slice(0, MAX_PENDING_LINE_LENGTH)}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,217 @@
+/**
+ * Evidence verifier
+ * Checks the quotes the feedback model cites against the interview transcript.
+ * Each quote is fuzzy-matched to a transcript segment (punctuation, case and
+ * small wording slips are tolerated); matched evidence gets the segment's real
+ * start time and speaker so clicking it seeks to the right moment, and quotes
+ * that appear nowhere in the transcript are removed.
+ */
+
+import type {
+  DataQualityWarning,
+  EvidenceCheck,
+  StructuredFeedback,
+  TranscriptEvidence,
+} from '../types/feedback';
+
+export interface EvidenceSegment {
+  role: 'agent' | 'user';
+  content: string;
+  /** Segment start in seconds from interview start */
+  timestamp?: number;
+}
+
+export const EVIDENCE_MATCH_CONFIG = {
+  // Share of the quote's words that must appear, in order, in a segment
+  minSimilarity: 0.8,
+  // Quotes shorter than this (in words) must appear verbatim after normalization
+  minFuzzyWords: 4,
+  // Extra words a fuzzy match may span beyond the quote length (ratio of quote length)
+  spanSlack: 0.5,
+  // Warn when more than this share of the cited evidence could not be verified
+  maxUnverifiedRatio: 0.25,
+  // ...but only once there is enough evidence for the ratio to mean something
+  minEvidenceForWarning: 4,
+};
+
+// Scripts written without spaces are compared character by character
+const UNSPACED_SCRIPT = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])/gu;
+
+/**
+ * Lowercased words without punctuation or Latin diacritics
+ */
+export function tokenizeForMatch(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ')
+    .replace(UNSPACED_SCRIPT, ' $1 ')
+    .split(/\s+/)
+    .map((word) => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+function lcsLength(a: string[], b: string[]): number {
+  let prev = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((word, k) => haystack[start + k] === word)) return true;
+  }
+  return false;
+}
+
+/**
+ * How much of the quote (0-1) appears in order within a compact span of the segment
+ */
+export function quoteSimilarity(quote: string[], segment: string[]): number {
+  if (quote.length === 0 || segment.length === 0) return 0;
+  if (containsSequence(segment, quote)) return 1;
+  if (quote.length < EVIDENCE_MATCH_CONFIG.minFuzzyWords) return 0;
+
+  // Cheap bound before the windowed comparison: most segments share few words
+  const segmentWords = new Set(segment);
+  const shared = quote.filter((word) => segmentWords.has(word)).length;
+  if (shared / quote.length < EVIDENCE_MATCH_CONFIG.minSimilarity) return 0;
+
+  const span = Math.min(segment.length, Math.ceil(quote.length * (1 + EVIDENCE_MATCH_CONFIG.spanSlack)));
+  let best = 0;
+  for (let start = 0; start + span <= segment.length; start++) {
+    if (!quote.includes(segment[start])) continue;
+    best = Math.max(best, lcsLength(quote, segment.slice(start, start + span)));
+    if (best === quote.length) break;
+  }
+  return best / quote.length;
+}
+
+interface PreparedSegment {
+  role: EvidenceSegment['role'];
+  timestamp?: number;
+  tokens: string[];
+}
+
+function findSegment(
+  quote: string,
+  speaker: TranscriptEvidence['speaker'] | undefined,
+  claimedTimestamp: number | undefined,
+  segments: PreparedSegment[]
+): PreparedSegment | null {
+  const tokens = tokenizeForMatch(quote);
+  if (tokens.length === 0) return null;
+
+  const preferredRole = speaker === 'interviewer' ? 'agent' : 'user';
+  let best: { segment: PreparedSegment; score: number } | null = null;
+
+  for (const segment of segments) {
+    const similarity = quoteSimilarity(tokens, segment.tokens);
+    if (similarity < EVIDENCE_MATCH_CONFIG.minSimilarity) continue;
+    // The model sometimes mislabels the speaker; a matching speaker only breaks ties
+    const score = similarity + (segment.role === preferredRole ? 0.01 : 0);
+    const closer = best !== null && score === best.score
+      && typeof claimedTimestamp === 'number'
+      && Math.abs((segment.timestamp ?? Infinity) - claimedTimestamp)
+        < Math.abs((best.segment.timestamp ?? Infinity) - claimedTimestamp);
+    if (!best || score > best.score || closer) {
+      best = { segment, score };
+    }
+  }
+
+  return best?.segment ?? null;
+}
+
+/**
+ * Verify every evidence quote in the feedback against the transcript.
+ * Mutates the feedback: unmatched evidence is removed, matched evidence and
+ * highlights get the segment's start time, and a data quality warning is
+ * added when too much evidence was unverifiable.
+ */
+export function verifyFeedbackEvidence(
+  feedback: StructuredFeedback,
+  transcript: EvidenceSegment[]
+): EvidenceCheck {
+  const segments: PreparedSegment[] = transcript.map((s) => ({
+    role: s.role,
+    timestamp: s.timestamp,
+    tokens: tokenizeForMatch(s.content || ''),
+  }));
+  const check: EvidenceCheck = { total: 0, verified: 0, dropped: 0 };
+
+  const verifyList = (evidence: TranscriptEvidence[] | undefined): TranscriptEvidence[] => {
+    if (!Array.isArray(evidence)) return [];
+    const kept: TranscriptEvidence[] = [];
+    for (const item of evidence) {
+      if (!item || typeof item.quote !== 'string') continue;
+      check.total++;
+      const segment = findSegment(item.quote, item.speaker, item.timestamp, segments);
+      if (!segment) {
+        check.dropped++;
+        continue;
+      }
+      check.verified++;
+      kept.push({
+        ...item,
+        timestamp: segment.timestamp ?? item.timestamp,
+        speaker: segment.role === 'agent' ? 'interviewer' : 'candidate',
+      });
+    }
+    return kept;
+  };
+
+  for (const competency of feedback.competencies) {
+    competency.evidence = verifyList(competency.evidence);
+  }
+  for (const strength of feedback.strengths) {
+    strength.evidence = verifyList(strength.evidence);
+  }
+  for (const improvement of feedback.improvements) {
+    improvement.evidence = verifyList(improvement.evidence);
+  }
+  for (const criterion of feedback.modeAssessment?.criteria || []) {
+    criterion.evidence = verifyList(criterion.evidence);
+  }
+  if (feedback.communication?.clarity?.examples) {
+    feedback.communication.clarity.examples = verifyList(feedback.communication.clarity.examples);
+  }
+
+  // Highlight responses are often paraphrased, so they are only re-timed, never removed
+  for (const highlight of feedback.highlights) {
+    const segment = typeof highlight.response === 'string'
+      ? findSegment(highlight.response, 'candidate', highlight.timestamp, segments)
+      : null;
+    if (segment && typeof segment.timestamp === 'number') {
+      highlight.timestamp = segment.timestamp;
+    }
+  }
+
+  feedback.evidenceCheck = check;
+  const warning = unverifiedEvidenceWarning(check);
+  if (warning) {
+    feedback.warnings.push(warning);
+  }
+  return check;
+}
+
+function unverifiedEvidenceWarning(check: EvidenceCheck): DataQualityWarning | null {
+  if (
+    check.total < EVIDENCE_MATCH_CONFIG.minEvidenceForWarning
+    || check.dropped / check.total <= EVIDENCE_MATCH_CONFIG.maxUnverifiedRatio
+  ) {
+    return null;
+  }
+  return {
+    code: 'unverified_evidence',
+    message: `${check.dropped} of ${check.total} quoted evidence items could not be found in the transcript and were removed; scores may rest on less evidence than shown.`,
+    severity: 'warning',
+  };
+}
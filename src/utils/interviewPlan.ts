@@ -0,0 +1,386 @@
+/**
+ * Interview plan manager
+ * Tracks a structured sequence of phases the live interviewer advances through:
+ * intro -> background -> recruiter questions -> competency questions -> candidate questions -> wrap-up
+ */
+
+import { CompetencyKey, InterviewMode } from '../types/feedback';
+import { getCompetencyWeights } from '../types/rubrics';
+
+export type InterviewPhase =
+  | 'intro'
+  | 'background'
+  | 'recruiter_question'
+  | 'competency'
+  | 'candidate_questions'
+  | 'wrap_up'
+  | 'complete';
+
+export interface PlanStep {
+  phase: Exclude<InterviewPhase, 'complete'>;
+  competency?: CompetencyKey;
+  /** Exact wording for recruiter-supplied questions */
+  question?: string;
+}
+
+export interface InterviewPlanOptions {
+  competencyQuestionCount?: number;
+  /** Competency questions before recruiter questions are subtracted (default 4) */
+  targetCompetencyQuestions?: number;
+  /** Recruiter questions that must be asked verbatim */
+  customQuestions?: string[];
+  /** Selects mode-specific competency weights */
+  interviewMode?: InterviewMode;
+  /** Mode-specific overrides for the per-turn guidance */
+  phaseGuidance?: Partial<Record<Exclude<InterviewPhase, 'complete'>, string>>;
+  includeBackground?: boolean;
+  includeCandidateQuestions?: boolean;
+}
+
+export interface AskedQuestion {
+  step: number;
+  phase: InterviewPhase;
+  competency?: CompetencyKey;
+  question: string;
+  askedAtSec: number;
+  answered: boolean;
+  /** Candidate asked to skip the question */
+  skipped?: boolean;
+  /** Panel persona who asked it (panel interviews only) */
+  askedBy?: string;
+  /** Answer span, in seconds from the start of the plan */
+  answerStartSec?: number;
+  answerEndSec?: number;
+}
+
+export interface InterviewPlanSnapshot {
+  phaseReached: InterviewPhase;
+  stepsCompleted: number;
+  totalSteps: number;
+  coverage: number;
+  competencies: CompetencyKey[];
+  questionsAsked: AskedQuestion[];
+}
+
+const DEFAULT_COMPETENCY_QUESTIONS = 4;
+const MIN_COMPETENCY_QUESTIONS = 2;
+const MAX_QUESTION_LENGTH = 300;
+// Candidate questions stay open for this many candidate turns at most
+const MAX_CANDIDATE_QUESTION_TURNS = 3;
+
+// Candidate signals they have nothing more to ask
+const NO_MORE_QUESTIONS = new RegExp(
+  [
+    "\\b(no|nope|nothing)\\b[^.?!]*\\b(questions?|else)\\b",
+    "\\bthat'?s (all|it|everything)\\b",
+    "\\bno,? thanks?\\b|\\bno,? thank you\\b",
+    "\\bi'?m (good|all set)\\b",
+    "\\bi (don'?t|do not) have (any )?(more |other |further )?questions\\b",
+    "no tengo (m[aá]s )?preguntas",
+    "n[aã]o tenho (mais )?perguntas|nenhuma pergunta",
+    "pas (d'autres|de) questions?",
+    "keine (weiteren )?fragen",
+    "non ho (altre )?domande|nessuna domanda",
+  ].join('|'),
+  'i'
+);
+
+function hasNoMoreQuestions(answer: string): boolean {
+  // A question is never a sign-off, whatever words it uses
+  return !/[?？]/.test(answer) && NO_MORE_QUESTIONS.test(answer);
+}
+
+const PHASE_GUIDANCE: Record<Exclude<InterviewPhase, 'complete'>, string> = {
+  intro: 'Welcome the candidate and ask them to briefly introduce themselves.',
+  background: 'Ask one follow-up about their most relevant recent experience for this role.',
+  recruiter_question: 'Ask the recruiter-required question below exactly as written (translated to the interview language if needed). Do not rephrase it.',
+  competency: 'Ask one question that assesses the competency below. Use a concrete scenario or past example.',
+  candidate_questions: 'Invite the candidate to ask any questions they have about the role or company, and answer briefly.',
+  wrap_up: 'If the candidate just asked something, answer it briefly first. Then thank the candidate, summarize in one sentence, and close the interview politely. Do not ask new questions.',
+};
+
+const COMPETENCY_LABELS: Record<CompetencyKey, string> = {
+  technical_knowledge: 'technical knowledge',
+  problem_solving: 'problem solving',
+  communication: 'communication',
+  system_design: 'system design',
+  behavioral: 'behavioral (past situations, teamwork)',
+  leadership: 'leadership',
+  cultural_fit: 'motivation and cultural fit',
+  domain_expertise: 'domain expertise',
+};
+
+export interface InterviewPlanState {
+  steps: PlanStep[];
+  competencies: CompetencyKey[];
+  currentStep: number;
+  /** Candidate turns spent on the current step */
+  stepTurns?: number;
+  stepsCompleted: number;
+  totalSteps: number;
+  questionsAsked: AskedQuestion[];
+  phaseGuidance?: Partial<Record<Exclude<InterviewPhase, 'complete'>, string>>;
+}
+
+export class InterviewPlan {
+  private steps: PlanStep[];
+  private competencies: CompetencyKey[];
+  private currentStep: number = 0;
+  private stepTurns: number = 0;
+  private questionsAsked: AskedQuestion[] = [];
+  private totalSteps: number;
+  private stepsCompleted: number = 0;
+  private phaseGuidance: Partial<Record<Exclude<InterviewPhase, 'complete'>, string>>;
+
+  constructor(roleTitle: string, options: InterviewPlanOptions = {}) {
+    const customQuestions = options.customQuestions || [];
+    // Recruiter questions take time from the generic competency questions
+    const competencyQuestionCount = options.competencyQuestionCount ??
+      Math.max(
+        MIN_COMPETENCY_QUESTIONS,
+        (options.targetCompetencyQuestions ?? DEFAULT_COMPETENCY_QUESTIONS) - customQuestions.length
+      );
+
+    this.phaseGuidance = options.phaseGuidance || {};
+    this.competencies = selectCompetencies(roleTitle, competencyQuestionCount, options.interviewMode);
+    this.steps = [
+      { phase: 'intro' },
+      ...(options.includeBackground === false ? [] : [{ phase: 'background' } as PlanStep]),
+      ...customQuestions.map((question): PlanStep => ({ phase: 'recruiter_question', question })),
+      ...this.competencies.map((competency): PlanStep => ({ phase: 'competency', competency })),
+      ...(options.includeCandidateQuestions === false ? [] : [{ phase: 'candidate_questions' } as PlanStep]),
+      { phase: 'wrap_up' },
+    ];
+    this.totalSteps = this.steps.length;
+  }
+
+  /**
+   * Current phase (or 'complete' once the wrap-up has been answered)
+   */
+  getCurrentPhase(): InterviewPhase {
+    return this.steps[this.currentStep]?.phase || 'complete';
+  }
+
+  getCurrentStep(): PlanStep | undefined {
+    return this.steps[this.currentStep];
+  }
+
+  getCurrentStepIndex(): number {
+    return this.currentStep;
+  }
+
+  /**
+   * The question recorded for the current step, once the agent has asked it
+   */
+  getCurrentQuestion(): AskedQuestion | undefined {
+    return this.getAskedQuestion(this.currentStep);
+  }
+
+  getAskedQuestion(step: number): AskedQuestion | undefined {
+    return this.questionsAsked.find((q) => q.step === step);
+  }
+
+  isComplete(): boolean {
+    return this.currentStep >= this.steps.length;
+  }
+
+  /**
+   * Whether the agent's next turn is the closing one
+   */
+  isWrappingUp(): boolean {
+    return this.getCurrentPhase() === 'wrap_up';
+  }
+
+  /**
+   * Record the question the agent just asked for the current step.
+   * Times are interview seconds (pauses excluded), passed in by the caller's timer.
+   */
+  recordQuestion(question: string, atSec: number, askedBy?: string) {
+    const step = this.steps[this.currentStep];
+    if (!step || this.questionsAsked.some((q) => q.step === this.currentStep)) {
+      return;
+    }
+
+    this.questionsAsked.push({
+      step: this.currentStep,
+      phase: step.phase,
+      competency: step.competency,
+      question: question.slice(0, MAX_QUESTION_LENGTH),
+      askedAtSec: atSec,
+      answered: false,
+      ...(askedBy && { askedBy }),
+    });
+  }
+
+  /**
+   * Candidate started speaking in response to the current step's question
+   */
+  markAnswerStarted(atSec: number) {
+    const asked = this.getCurrentQuestion();
+    if (asked && asked.answerStartSec === undefined) {
+      asked.answerStartSec = atSec;
+    }
+  }
+
+  /**
+   * Candidate spoke in reply to the current step. Moves to the next step once
+   * the step's exit condition is met and returns whether it did: one answer for
+   * questions, and for candidate questions until they have nothing more to ask
+   * (or the turn limit is reached).
+   */
+  recordAnswer(answer: string, atSec: number): boolean {
+    if (this.isComplete()) {
+      return false;
+    }
+
+    this.stepTurns++;
+    if (
+      this.getCurrentPhase() === 'candidate_questions'
+      && this.stepTurns < MAX_CANDIDATE_QUESTION_TURNS
+      && !hasNoMoreQuestions(answer)
+    ) {
+      return false;
+    }
+
+    this.advance(atSec);
+    return true;
+  }
+
+  /**
+   * Candidate answered the current step - move to the next one
+   */
+  advance(atSec: number) {
+    if (this.isComplete()) {
+      return;
+    }
+
+    const asked = this.getCurrentQuestion();
+    if (asked) {
+      asked.answered = true;
+      asked.answerEndSec = atSec;
+      asked.answerStartSec ??= asked.answerEndSec;
+    }
+    this.currentStep++;
+    this.stepTurns = 0;
+    this.stepsCompleted++;
+  }
+
+  /**
+   * Candidate asked to skip the current step - move on without counting it
+   * as answered (skipped steps count against coverage)
+   */
+  skip() {
+    if (this.isComplete()) {
+      return;
+    }
+
+    const asked = this.getCurrentQuestion();
+    if (asked) {
+      asked.skipped = true;
+    }
+    this.currentStep++;
+    this.stepTurns = 0;
+  }
+
+  /**
+   * Drop remaining competency questions and head to the closing phases
+   * (e.g. when time is running out). Recruiter questions are never skipped.
+   */
+  skipToClosing() {
+    const remaining = this.steps
+      .slice(this.currentStep)
+      .filter((s) => s.phase !== 'competency' && s.phase !== 'background');
+    this.steps = [...this.steps.slice(0, this.currentStep), ...remaining];
+  }
+
+  /**
+   * Instruction for the agent's next turn, injected alongside the system prompt
+   */
+  getTurnGuidance(): string | null {
+    const step = this.steps[this.currentStep];
+    if (!step) {
+      return null;
+    }
+
+    const competencyQuestions = this.steps.filter((s) => s.phase === 'competency').length;
+    const competencyIndex = this.steps
+      .slice(0, this.currentStep + 1)
+      .filter((s) => s.phase === 'competency').length;
+
+    const lines = [
+      '<interview_plan>',
+      `  <phase>${step.phase}</phase>`,
+      `  <instruction>${this.phaseGuidance[step.phase] || PHASE_GUIDANCE[step.phase]}</instruction>`,
+    ];
+    if (step.competency) {
+      lines.push(`  <competency>${COMPETENCY_LABELS[step.competency]}</competency>`);
+      lines.push(`  <progress>Question ${competencyIndex} of ${competencyQuestions}</progress>`);
+    }
+    if (step.question) {
+      lines.push(`  <required_question>${step.question}</required_question>`);
+    }
+    lines.push('  <rule>Briefly acknowledge the previous answer, then follow this phase. Ask only one question.</rule>');
+    lines.push('</interview_plan>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Fraction of originally planned steps the candidate has answered (0-1).
+   * Skipped steps count against coverage.
+   */
+  getCoverage(): number {
+    return Math.min(1, this.stepsCompleted / this.totalSteps);
+  }
+
+  /**
+   * Full serializable state for checkpointing (resumable interviews)
+   */
+  toState(): InterviewPlanState {
+    return {
+      steps: this.steps.map((s) => ({ ...s })),
+      competencies: [...this.competencies],
+      currentStep: this.currentStep,
+      stepTurns: this.stepTurns,
+      stepsCompleted: this.stepsCompleted,
+      totalSteps: this.totalSteps,
+      questionsAsked: this.questionsAsked.map((q) => ({ ...q })),
+      phaseGuidance: { ...this.phaseGuidance },
+    };
+  }
+
+  static fromState(state: InterviewPlanState): InterviewPlan {
+    const plan = new InterviewPlan('default');
+    plan.steps = state.steps.map((s) => ({ ...s }));
+    plan.competencies = [...state.competencies];
+    plan.currentStep = state.currentStep;
+    plan.stepTurns = state.stepTurns ?? 0;
+    plan.stepsCompleted = state.stepsCompleted;
+    plan.totalSteps = state.totalSteps;
+    plan.questionsAsked = state.questionsAsked.map((q) => ({ ...q }));
+    plan.phaseGuidance = { ...(state.phaseGuidance || {}) };
+    return plan;
+  }
+
+  getSnapshot(): InterviewPlanSnapshot {
+    return {
+      phaseReached: this.getCurrentPhase(),
+      stepsCompleted: this.stepsCompleted,
+      totalSteps: this.totalSteps,
+      coverage: Math.round(this.getCoverage() * 100) / 100,
+      competencies: [...this.competencies],
+      questionsAsked: this.questionsAsked.map((q) => ({ ...q })),
+    };
+  }
+}
+
+/**
+ * Pick the highest-weighted competencies for the role (or interview mode)
+ */
+function selectCompetencies(roleTitle: string, count: number, mode?: InterviewMode): CompetencyKey[] {
+  const weights = getCompetencyWeights(roleTitle, mode);
+  return (Object.entries(weights) as Array<[CompetencyKey, number]>)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, Math.max(1, count))
+    .map(([key]) => key);
+}
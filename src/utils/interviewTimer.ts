@@ -1,26 +1,131 @@
 /**
  * Interview timer manager
- * Handles 15-minute maximum interview duration
+ * Handles the per-interview maximum duration, the spoken time checkpoints
+ * (halfway, N minutes left) and a short grace period after time is up so the
+ * candidate can finish their answer before the call ends. Time spent paused
+ * (at the candidate's request) does not count toward the duration.
  */
 
+import type { SupportedLanguageCode } from '../types/multilingual';
+import { getLanguageSpecificPhrases } from '../prompts/multilingualPrompts';
+
+/** 'halfway' or minutes remaining */
+export type TimerCheckpoint = 'halfway' | number;
+
+export interface TimerCheckpointEvent {
+  checkpoint: TimerCheckpoint;
+  remainingMinutes: number;
+}
+
+export interface InterviewTimerOptions {
+  checkpoints?: TimerCheckpoint[];
+  graceSeconds?: number;
+}
+
+export interface InterviewTimerState {
+  startTime: string;
+  maxDurationMinutes: number;
+  hasWarned: boolean;
+  checkpoints?: TimerCheckpoint[];
+  firedCheckpoints?: string[];
+  graceSeconds?: number;
+  graceAnnounced?: boolean;
+  pausedMs?: number;
+  pausedAt?: string | null;
+}
+
+export const DEFAULT_TIMER_CHECKPOINTS: TimerCheckpoint[] = ['halfway', 5, 1];
+
+// The interview plan moves to closing questions inside this window
+const CLOSING_WINDOW_MINUTES = 2;
+// Checkpoints closer than this to an earlier one are not announced separately
+const MIN_CHECKPOINT_GAP_MINUTES = 1;
+
+export function parseTimerCheckpoints(value: unknown): TimerCheckpoint[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const checkpoints = value.filter(
+    (c): c is TimerCheckpoint => c === 'halfway' || (typeof c === 'number' && Number.isFinite(c) && c > 0)
+  );
+  return checkpoints.length > 0 ? checkpoints : undefined;
+}
+
 export class InterviewTimer {
   private startTime: Date;
   private maxDurationMinutes: number;
-  private warningThresholdMinutes: number;
-  private hasWarned: boolean = false;
+  private checkpoints: TimerCheckpoint[];
+  private firedCheckpoints: Set<string> = new Set();
+  private graceSeconds: number;
+  private graceAnnounced: boolean = false;
+  private hasWarned: boolean = false; // Closing window entered
+  private pausedMs: number = 0;
+  private pausedAt: Date | null = null;
 
-  constructor(maxDurationMinutes: number = 15) {
+  constructor(maxDurationMinutes: number = 15, options: InterviewTimerOptions = {}) {
     this.startTime = new Date();
     this.maxDurationMinutes = maxDurationMinutes;
-    this.warningThresholdMinutes = maxDurationMinutes - 2; // Warn 2 minutes before end
+    this.checkpoints = options.checkpoints || DEFAULT_TIMER_CHECKPOINTS;
+    this.graceSeconds = options.graceSeconds ?? 60;
   }
 
   /**
-   * Get elapsed time in minutes
+   * Change the maximum duration (e.g. once the interview's duration is known)
+   */
+  setMaxDurationMinutes(maxDurationMinutes: number) {
+    this.maxDurationMinutes = maxDurationMinutes;
+  }
+
+  getMaxDurationMinutes(): number {
+    return this.maxDurationMinutes;
+  }
+
+  /**
+   * Replace the spoken checkpoint schedule
+   */
+  setCheckpoints(checkpoints: TimerCheckpoint[]) {
+    this.checkpoints = checkpoints;
+  }
+
+  /**
+   * Stop the clock until resume(); no-op when already paused
+   */
+  pause() {
+    if (!this.pausedAt) {
+      this.pausedAt = new Date();
+    }
+  }
+
+  /**
+   * Restart the clock. Returns the length of the pause in seconds.
+   */
+  resume(): number {
+    if (!this.pausedAt) {
+      return 0;
+    }
+    const pauseMs = Date.now() - this.pausedAt.getTime();
+    this.pausedMs += pauseMs;
+    this.pausedAt = null;
+    return Math.round(pauseMs / 1000);
+  }
+
+  isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  /**
+   * Seconds since the current pause started (0 when running)
+   */
+  getPausedSeconds(): number {
+    return this.pausedAt ? (Date.now() - this.pausedAt.getTime()) / 1000 : 0;
+  }
+
+  /**
+   * Get elapsed interview time in minutes, excluding pauses
    */
   getElapsedMinutes(): number {
-    const now = new Date();
-    return (now.getTime() - this.startTime.getTime()) / 1000 / 60;
+    const now = this.pausedAt ? this.pausedAt.getTime() : Date.now();
+    return (now - this.startTime.getTime() - this.pausedMs) / 1000 / 60;
   }
 
   /**
@@ -38,35 +143,154 @@ export class InterviewTimer {
   }
 
   /**
-   * Check if warning should be issued
+   * Check if the grace period after time is up has also run out
+   */
+  hasExceededGracePeriod(): boolean {
+    return this.getElapsedMinutes() * 60 >= this.maxDurationMinutes * 60 + this.graceSeconds;
+  }
+
+  /**
+   * Milliseconds until the call must end (duration plus grace period)
+   */
+  getMsUntilHardStop(): number {
+    const hardStopMs = (this.maxDurationMinutes * 60 + this.graceSeconds) * 1000;
+    return Math.max(0, hardStopMs - this.getElapsedMinutes() * 60 * 1000);
+  }
+
+  /**
+   * True once per interview, when time is up and the candidate has not yet
+   * been asked to finish their answer
+   */
+  shouldAnnounceGrace(): boolean {
+    if (this.graceAnnounced || this.graceSeconds <= 0 || this.hasExceededGracePeriod()) {
+      return false;
+    }
+    this.graceAnnounced = true;
+    return true;
+  }
+
+  /**
+   * True once, when the remaining time drops into the closing window
    */
   shouldWarn(): boolean {
     if (this.hasWarned) {
       return false;
     }
-    
-    const elapsed = this.getElapsedMinutes();
-    if (elapsed >= this.warningThresholdMinutes) {
+
+    if (this.getRemainingMinutes() <= CLOSING_WINDOW_MINUTES) {
       this.hasWarned = true;
       return true;
     }
-    
+
     return false;
   }
 
   /**
-   * Generate time warning message
+   * Latest checkpoint that has come due and was not announced yet. Earlier
+   * due checkpoints are marked as announced too, so a long answer never
+   * produces back-to-back time notices.
    */
-  getWarningMessage(): string {
-    const remaining = Math.ceil(this.getRemainingMinutes());
-    return `We have about ${remaining} minutes remaining in our interview. Let me ask you a few final questions to wrap up.`;
+  takeDueCheckpoint(): TimerCheckpointEvent | null {
+    const elapsed = this.getElapsedMinutes();
+    const remaining = this.getRemainingMinutes();
+    let due: { checkpoint: TimerCheckpoint; remainingAt: number } | null = null;
+
+    for (const { checkpoint, remainingAt } of this.getSchedule()) {
+      const key = String(checkpoint);
+      if (this.firedCheckpoints.has(key) || elapsed < this.maxDurationMinutes - remainingAt) {
+        continue;
+      }
+      this.firedCheckpoints.add(key);
+      if (!due || remainingAt < due.remainingAt) {
+        due = { checkpoint, remainingAt };
+      }
+    }
+
+    if (!due || this.hasExceededTime()) {
+      return null;
+    }
+
+    return { checkpoint: due.checkpoint, remainingMinutes: Math.max(1, Math.round(remaining)) };
+  }
+
+  /**
+   * Checkpoints as minutes remaining, skipping any that fall outside the
+   * interview or too close to a previous one
+   */
+  private getSchedule(): Array<{ checkpoint: TimerCheckpoint; remainingAt: number }> {
+    const schedule = this.checkpoints
+      .map((checkpoint) => ({
+        checkpoint,
+        remainingAt: checkpoint === 'halfway' ? this.maxDurationMinutes / 2 : checkpoint,
+      }))
+      .filter((c) => c.remainingAt > 0 && c.remainingAt < this.maxDurationMinutes)
+      .sort((a, b) => b.remainingAt - a.remainingAt);
+
+    return schedule.filter(
+      (c, i) => i === 0 || schedule[i - 1].remainingAt - c.remainingAt >= MIN_CHECKPOINT_GAP_MINUTES
+    );
+  }
+
+  /**
+   * Spoken notice for a checkpoint, in the interview language
+   */
+  getCheckpointMessage(event: TimerCheckpointEvent, language: SupportedLanguageCode = 'en-US'): string {
+    const { reminders } = getLanguageSpecificPhrases(language);
+    if (event.checkpoint === 'halfway') {
+      return reminders.halfway;
+    }
+    if (event.remainingMinutes <= 1) {
+      return reminders.oneMinuteLeft;
+    }
+    return reminders.minutesLeft.replace('{minutes}', String(event.remainingMinutes));
+  }
+
+  /**
+   * Ask the candidate to finish their current answer
+   */
+  getGraceMessage(language: SupportedLanguageCode = 'en-US'): string {
+    return getLanguageSpecificPhrases(language).reminders.finishAnswer;
   }
 
   /**
    * Generate time's up message
    */
-  getTimeUpMessage(): string {
-    return "Thank you so much for your time today. We've reached the end of our scheduled interview time. It was great learning about your background and experience. We'll be in touch with next steps soon.";
+  getTimeUpMessage(language: SupportedLanguageCode = 'en-US'): string {
+    return getLanguageSpecificPhrases(language).reminders.timeUp;
+  }
+
+  /**
+   * Serializable state for checkpointing (resumable interviews)
+   */
+  toState(): InterviewTimerState {
+    return {
+      startTime: this.startTime.toISOString(),
+      maxDurationMinutes: this.maxDurationMinutes,
+      hasWarned: this.hasWarned,
+      checkpoints: [...this.checkpoints],
+      firedCheckpoints: [...this.firedCheckpoints],
+      graceSeconds: this.graceSeconds,
+      graceAnnounced: this.graceAnnounced,
+      pausedMs: this.pausedMs,
+      pausedAt: this.pausedAt ? this.pausedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Rebuild a timer with the original start time so elapsed time carries over
+   */
+  static fromState(state: InterviewTimerState): InterviewTimer {
+    const timer = new InterviewTimer(state.maxDurationMinutes, {
+      checkpoints: state.checkpoints,
+      graceSeconds: state.graceSeconds,
+    });
+    timer.startTime = new Date(state.startTime);
+    timer.hasWarned = state.hasWarned;
+    timer.firedCheckpoints = new Set(state.firedCheckpoints || []);
+    timer.graceAnnounced = state.graceAnnounced ?? false;
+    timer.pausedMs = state.pausedMs ?? 0;
+    timer.pausedAt = state.pausedAt ? new Date(state.pausedAt) : null;
+    return timer;
   }
 
   /**
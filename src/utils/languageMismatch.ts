@@ -0,0 +1,157 @@
+/**
+ * Language mismatch monitor
+ * Watches the language of each candidate answer. When the candidate keeps
+ * answering in another language than the interview language, it either asks the
+ * interviewer to steer them back or switches the interview to their language,
+ * and records the event for the feedback data-quality warnings.
+ */
+
+import type { SupportedLanguageCode } from '../types/multilingual';
+
+export type LanguageMismatchPolicy = 'steer' | 'switch';
+
+export interface LanguageMismatchEvent {
+  expectedLanguage: SupportedLanguageCode;
+  detectedLanguage: SupportedLanguageCode;
+  action: LanguageMismatchPolicy;
+  /** Candidate answer index (0-based) that triggered the event */
+  turn: number;
+  atSec: number;
+}
+
+export interface LanguageMismatchState {
+  policy: LanguageMismatchPolicy;
+  expectedLanguage: SupportedLanguageCode;
+  streakLanguage: SupportedLanguageCode | null;
+  streak: number;
+  turn: number;
+  pendingSteer: boolean;
+  events: LanguageMismatchEvent[];
+  startTime: string;
+}
+
+// Consecutive answers in another language before acting
+const MISMATCH_STREAK = 2;
+// Stop steering after this many attempts; later answers are only recorded
+const MAX_STEERS = 2;
+
+const baseLanguage = (code: string) => code.split('-')[0];
+
+export class LanguageMismatchMonitor {
+  private policy: LanguageMismatchPolicy;
+  private expectedLanguage: SupportedLanguageCode;
+  private streakLanguage: SupportedLanguageCode | null = null;
+  private streak: number = 0;
+  private turn: number = 0;
+  private pendingSteer: boolean = false;
+  private events: LanguageMismatchEvent[] = [];
+  private startTime: Date;
+
+  constructor(expectedLanguage: SupportedLanguageCode, policy: LanguageMismatchPolicy = 'steer') {
+    this.expectedLanguage = expectedLanguage;
+    this.policy = policy;
+    this.startTime = new Date();
+  }
+
+  getExpectedLanguage(): SupportedLanguageCode {
+    return this.expectedLanguage;
+  }
+
+  /**
+   * Record the detected language of one candidate answer (null = undetermined,
+   * which neither breaks nor extends a streak). Returns an event when the
+   * mismatch is consistent enough to act on.
+   */
+  observe(detectedLanguage: SupportedLanguageCode | null): LanguageMismatchEvent | null {
+    const turn = this.turn++;
+    this.pendingSteer = false;
+
+    if (!detectedLanguage) {
+      return null;
+    }
+
+    if (baseLanguage(detectedLanguage) === baseLanguage(this.expectedLanguage)) {
+      this.streakLanguage = null;
+      this.streak = 0;
+      return null;
+    }
+
+    if (this.streakLanguage && baseLanguage(this.streakLanguage) === baseLanguage(detectedLanguage)) {
+      this.streak++;
+    } else {
+      this.streakLanguage = detectedLanguage;
+      this.streak = 1;
+    }
+
+    if (this.streak < MISMATCH_STREAK) {
+      return null;
+    }
+
+    const steers = this.events.filter((e) => e.action === 'steer').length;
+    const event: LanguageMismatchEvent = {
+      expectedLanguage: this.expectedLanguage,
+      detectedLanguage,
+      action: this.policy,
+      turn,
+      atSec: Math.floor((Date.now() - this.startTime.getTime()) / 1000),
+    };
+
+    this.streakLanguage = null;
+    this.streak = 0;
+
+    if (this.policy === 'switch') {
+      this.expectedLanguage = detectedLanguage;
+    } else if (steers >= MAX_STEERS) {
+      return null;
+    } else {
+      this.pendingSteer = true;
+    }
+
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * Instruction for the reply right after a steer event, or null
+   */
+  getSteeringGuidance(languageName: string): string | null {
+    if (!this.pendingSteer) {
+      return null;
+    }
+
+    return [
+      '<language_steering>',
+      `  The candidate has been answering in another language. Briefly and politely ask them to continue in ${languageName},`,
+      `  the language of this interview, then repeat or continue your question in ${languageName}.`,
+      '</language_steering>',
+    ].join('\n');
+  }
+
+  getEvents(): LanguageMismatchEvent[] {
+    return this.events.map((e) => ({ ...e }));
+  }
+
+  toState(): LanguageMismatchState {
+    return {
+      policy: this.policy,
+      expectedLanguage: this.expectedLanguage,
+      streakLanguage: this.streakLanguage,
+      streak: this.streak,
+      turn: this.turn,
+      pendingSteer: this.pendingSteer,
+      events: this.getEvents(),
+      startTime: this.startTime.toISOString(),
+    };
+  }
+
+  static fromState(state: LanguageMismatchState): LanguageMismatchMonitor {
+    const monitor = new LanguageMismatchMonitor(state.expectedLanguage, state.policy);
+    monitor.streakLanguage = state.streakLanguage;
+    monitor.streak = state.streak;
+    monitor.turn = state.turn;
+    monitor.pendingSteer = state.pendingSteer;
+    monitor.events = state.events.map((e) => ({ ...e }));
+    monitor.startTime = new Date(state.startTime);
+    return monitor;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Panel orchestrator
+ * Decides which panelist asks each interview plan step: the lead opens, asks
+ * the background question and closes; competency questions go to the panelist
+ * whose focus covers the competency, spreading turns evenly. Produces the
+ * per-turn instruction that tells the LLM who is speaking and when to hand over.
+ */
+
+import type { PlanStep } from './interviewPlan';
+import { getPanelPersona, type PanelPersona, type PanelPersonaKey } from '../prompts/panelPersonas';
+
+export interface PanelState {
+  personas: PanelPersonaKey[];
+  /** Speaker per plan step index */
+  assignments: Record<number, PanelPersonaKey>;
+  introduced: PanelPersonaKey[];
+  lastSpeaker: PanelPersonaKey | null;
+}
+
+// Phases the lead panelist always handles
+const LEAD_PHASES: PlanStep['phase'][] = ['intro', 'background', 'wrap_up'];
+
+export class PanelOrchestrator {
+  private personas: PanelPersona[];
+  private assignments: Map<number, PanelPersonaKey> = new Map();
+  private introduced: Set<PanelPersonaKey> = new Set();
+  private lastSpeaker: PanelPersonaKey | null = null;
+
+  constructor(personas: PanelPersona[]) {
+    this.personas = personas;
+  }
+
+  getPersonas(): PanelPersona[] {
+    return [...this.personas];
+  }
+
+  getLead(): PanelPersona {
+    return this.personas[0];
+  }
+
+  /**
+   * Panelist who asks the given plan step (assigned once, then stable)
+   */
+  getSpeakerForStep(stepIndex: number, step: PlanStep | undefined): PanelPersona {
+    const assigned = this.assignments.get(stepIndex);
+    if (assigned) {
+      return this.getPersona(assigned);
+    }
+
+    const speaker = this.chooseSpeaker(step);
+    this.assignments.set(stepIndex, speaker.key);
+    return speaker;
+  }
+
+  private chooseSpeaker(step: PlanStep | undefined): PanelPersona {
+    if (!step || LEAD_PHASES.includes(step.phase)) {
+      return this.getLead();
+    }
+
+    const focused = step.competency
+      ? this.personas.filter((p) => p.focus.includes(step.competency!))
+      : [];
+    const candidates = focused.length > 0 ? focused : this.personas;
+
+    // Fewest turns so far; ties go to the panelist who did not just speak, then panel order
+    const turns = (key: PanelPersonaKey) => [...this.assignments.values()].filter((k) => k === key).length;
+    return [...candidates].sort(
+      (a, b) =>
+        turns(a.key) - turns(b.key) ||
+        Number(a.key === this.lastSpeaker) - Number(b.key === this.lastSpeaker)
+    )[0];
+  }
+
+  /**
+   * Instruction for the agent's next turn: who speaks, and whether they
+   * introduce themselves or take over from another panelist
+   */
+  getTurnGuidance(stepIndex: number, step: PlanStep | undefined): string {
+    const speaker = this.getSpeakerForStep(stepIndex, step);
+    const previous = this.lastSpeaker && this.lastSpeaker !== speaker.key ? this.getPersona(this.lastSpeaker) : null;
+
+    const lines = [
+      '<panel_turn>',
+      `  <speaker name="${speaker.name}" title="${speaker.title}" />`,
+      `  <instruction>Speak only as ${speaker.name}.</instruction>`,
+    ];
+    if (previous) {
+      lines.push(`  <handoff>${previous.name} just spoke. Open with a one-line handoff to ${speaker.name}.</handoff>`);
+    }
+    if (!this.introduced.has(speaker.key)) {
+      lines.push(`  <introduction>This is ${speaker.name}'s first turn: introduce yourself by name and title in one short sentence.</introduction>`);
+    }
+    lines.push('</panel_turn>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * The panelist assigned to this step has spoken
+   */
+  recordTurn(stepIndex: number, step: PlanStep | undefined): PanelPersona {
+    const speaker = this.getSpeakerForStep(stepIndex, step);
+    this.introduced.add(speaker.key);
+    this.lastSpeaker = speaker.key;
+    return speaker;
+  }
+
+  private getPersona(key: PanelPersonaKey): PanelPersona {
+    return this.personas.find((p) => p.key === key) || this.getLead();
+  }
+
+  toState(): PanelState {
+    return {
+      personas: this.personas.map((p) => p.key),
+      assignments: Object.fromEntries(this.assignments),
+      introduced: [...this.introduced],
+      lastSpeaker: this.lastSpeaker,
+    };
+  }
+
+  static fromState(state: PanelState): PanelOrchestrator {
+    const panel = new PanelOrchestrator(state.personas.map(getPanelPersona));
+    panel.assignments = new Map(
+      Object.entries(state.assignments).map(([step, key]) => [Number(step), key])
+    );
+    panel.introduced = new Set(state.introduced);
+    panel.lastSpeaker = state.lastSpeaker;
+    return panel;
+  }
+}
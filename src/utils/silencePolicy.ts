@@ -0,0 +1,160 @@
+/**
+ * Silence policy engine
+ * Decides what the interviewer does each time Retell reports the candidate has
+ * gone quiet: escalate through a configurable ladder (nudge, rephrase the
+ * question, offer to move on, end the call) and keep a timeline of silences and
+ * recoveries for the feedback report.
+ */
+
+import type { SupportedLanguageCode } from '../types/multilingual';
+import { getLanguageSpecificPhrases } from '../prompts/multilingualPrompts';
+
+export type SilenceAction = 'nudge' | 'rephrase' | 'offer_skip' | 'end';
+
+export interface SilenceEvent {
+  /** 'recovered' marks the candidate speaking again after one or more reminders */
+  action: SilenceAction | 'recovered';
+  /** Consecutive reminders in this silence, 1-based (reminders before recovering) */
+  level: number;
+  step?: number;
+  phase?: string;
+  /** Interview time, excluding pauses */
+  atSec: number;
+}
+
+export interface SilenceContext {
+  step?: number;
+  phase?: string;
+  atSec: number;
+}
+
+export interface SilencePolicyState {
+  steps: SilenceAction[];
+  streak: number;
+  events: SilenceEvent[];
+}
+
+export interface SilenceSummary {
+  episodes: number;
+  reminders: number;
+  longestStreak: number;
+  endedBySilence: boolean;
+}
+
+export const DEFAULT_SILENCE_POLICY: SilenceAction[] = ['nudge', 'rephrase', 'offer_skip', 'end'];
+
+/**
+ * Counts for the feedback report: silences the candidate needed reminders for,
+ * and whether the call ended because they never came back
+ */
+export function summarizeSilenceTimeline(events: SilenceEvent[]): SilenceSummary {
+  const reminders = events.filter((e) => e.action !== 'recovered');
+  return {
+    episodes: reminders.filter((e) => e.level === 1).length,
+    reminders: reminders.length,
+    longestStreak: Math.max(0, ...reminders.map((e) => e.level)),
+    endedBySilence: reminders.some((e) => e.action === 'end'),
+  };
+}
+
+export class SilencePolicyEngine {
+  private steps: SilenceAction[];
+  private streak: number = 0;
+  private events: SilenceEvent[] = [];
+
+  constructor(steps: SilenceAction[] = DEFAULT_SILENCE_POLICY) {
+    this.steps = SilencePolicyEngine.withEnd(steps);
+  }
+
+  /**
+   * A policy always ends the call eventually, so a candidate who left the call
+   * is not nudged forever
+   */
+  private static withEnd(steps: SilenceAction[]): SilenceAction[] {
+    const ladder = steps.slice(0, steps.indexOf('end') + 1 || steps.length);
+    return ladder[ladder.length - 1] === 'end' ? ladder : [...ladder, 'end'];
+  }
+
+  setSteps(steps: SilenceAction[]) {
+    this.steps = SilencePolicyEngine.withEnd(steps);
+  }
+
+  getSteps(): SilenceAction[] {
+    return [...this.steps];
+  }
+
+  /**
+   * Next rung of the ladder for one more reminder in the current silence
+   */
+  escalate(context: SilenceContext): SilenceEvent {
+    const action = this.steps[Math.min(this.streak, this.steps.length - 1)];
+    this.streak++;
+
+    const event: SilenceEvent = { action, level: this.streak, ...context };
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * The candidate spoke. Returns true when this ends a silence that needed reminders.
+   */
+  recordResponse(context: SilenceContext): boolean {
+    if (this.streak === 0) {
+      return false;
+    }
+
+    this.events.push({ action: 'recovered', level: this.streak, ...context });
+    this.streak = 0;
+    return true;
+  }
+
+  getStreak(): number {
+    return this.streak;
+  }
+
+  /**
+   * Spoken reminder for the nudge, offer-to-move-on and closing steps
+   */
+  getMessage(action: Exclude<SilenceAction, 'rephrase'>, language: SupportedLanguageCode = 'en-US'): string {
+    const { reminders } = getLanguageSpecificPhrases(language);
+    switch (action) {
+      case 'nudge':
+        return reminders.silence;
+      case 'offer_skip':
+        return reminders.offerSkip;
+      case 'end':
+        return reminders.silenceFarewell;
+    }
+  }
+
+  /**
+   * Instruction for the LLM turn that re-asks the pending question more simply
+   */
+  getRephraseGuidance(): string {
+    return [
+      '<silence_recovery>',
+      '  The candidate has been silent for a while. Reassure them in a few words that there is no rush,',
+      '  then ask your last question again in simpler words. Do not move on to a new question.',
+      '</silence_recovery>',
+    ].join('\n');
+  }
+
+  getEvents(): SilenceEvent[] {
+    return this.events.map((e) => ({ ...e }));
+  }
+
+  toState(): SilencePolicyState {
+    return {
+      steps: [...this.steps],
+      streak: this.streak,
+      events: this.getEvents(),
+    };
+  }
+
+  static fromState(state: SilencePolicyState): SilencePolicyEngine {
+    const engine = new SilencePolicyEngine(state.steps);
+    engine.streak = state.streak;
+    engine.events = state.events.map((e) => ({ ...e }));
+    return engine;
+  }
+}
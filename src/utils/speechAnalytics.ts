@@ -0,0 +1,258 @@
+/**
+ * Speech analytics
+ * Pace, filler words, pauses, talk time, monologues and interruptions measured
+ * from the per-word timings Retell returns with a voice transcript. Computed
+ * locally and deterministically: the same call always yields the same numbers,
+ * and the feedback generator is handed these instead of estimating them.
+ */
+
+import type { SupportedLanguage } from '../types/feedback';
+import { tokenizeForMatch } from './evidenceVerifier';
+
+export interface TimedWord {
+  word: string;
+  /** Seconds from call start */
+  start: number;
+  end: number;
+}
+
+export interface TimedTurn {
+  role: 'agent' | 'user';
+  content: string;
+  words?: TimedWord[];
+}
+
+export interface AnswerSpeech {
+  /** Index of the turn in the transcript */
+  turn: number;
+  startSec: number;
+  endSec: number;
+  words: number;
+  /** Null for answers too short to measure */
+  wpm: number | null;
+  fillers: number;
+  longestPauseSec: number;
+}
+
+export interface SpeechAnalytics {
+  language: SupportedLanguage;
+  candidateWords: number;
+  candidateSpeakingSec: number;
+  interviewerSpeakingSec: number;
+  /** Candidate share of the time either side was speaking (0-1) */
+  talkTimeRatio: number | null;
+  wpmAverage: number | null;
+  pace: 'too_slow' | 'good' | 'too_fast' | null;
+  fillerWords: {
+    count: number;
+    per100Words: number;
+    frequency: 'low' | 'moderate' | 'high';
+    top: Array<{ filler: string; count: number }>;
+  };
+  /** Gaps between words inside the candidate's answers */
+  pauses: {
+    count: number;
+    longCount: number;
+    averageSec: number | null;
+    longestSec: number;
+  };
+  /** Silence between the interviewer finishing and the candidate's first word */
+  responseDelay: {
+    averageSec: number | null;
+    longestSec: number | null;
+  };
+  /** Candidate's longest answer */
+  longestMonologue: { turn: number; startSec: number; durationSec: number; words: number };
+  /** Turns that started before the other side had finished */
+  interruptions: {
+    byCandidate: number;
+    byInterviewer: number;
+  };
+  answers: AnswerSpeech[];
+}
+
+export const SPEECH_ANALYTICS_CONFIG = {
+  // Gap between two words of an answer that counts as a pause
+  pauseMinSec: 1,
+  longPauseSec: 3,
+  // Answers with fewer words get no pace of their own
+  minPaceWords: 5,
+  // Fillers per 100 candidate words
+  fillerModerateAt: 2,
+  fillerHighAt: 5,
+  // Comfortable interview pace; zh/ja word timings are per character
+  paceRange: { min: 110, max: 170 },
+  characterPaceRange: { min: 180, max: 330 },
+};
+
+/**
+ * Hesitation sounds per language. Discourse markers ("you know", "basically",
+ * "halt", "tipo", "en fait", "那个") are at least as often meant literally, so
+ * they are left out and counts stay conservative.
+ */
+export const FILLER_WORDS: Record<SupportedLanguage, string[]> = {
+  en: ['um', 'umm', 'uh', 'uhm', 'erm', 'hmm', 'mm'],
+  es: ['eh', 'ehm', 'em', 'mmm'],
+  pt: ['eh', 'ahn', 'hum'],
+  de: ['äh', 'ähm', 'öhm', 'hm'],
+  fr: ['euh', 'heu'],
+  it: ['eh', 'ehm'],
+  hi: ['अं', 'उम्म'],
+  zh: ['嗯', '呃'],
+  ja: ['えーと', 'えっと', 'えー'],
+  ko: ['음', '어'],
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function fillerPatterns(language: SupportedLanguage): Array<{ filler: string; tokens: string[] }> {
+  return (FILLER_WORDS[language] || FILLER_WORDS.en)
+    .map((filler) => ({ filler, tokens: tokenizeForMatch(filler) }))
+    .filter((p) => p.tokens.length > 0)
+    // Longest first so "you know" isn't also counted as something shorter
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+}
+
+function countFillers(
+  words: TimedWord[],
+  patterns: Array<{ filler: string; tokens: string[] }>,
+  totals: Map<string, number>
+): number {
+  const tokens = words.flatMap((w) => tokenizeForMatch(w.word));
+  let count = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const match = patterns.find((p) => p.tokens.every((t, k) => tokens[i + k] === t));
+    if (match) {
+      count++;
+      totals.set(match.filler, (totals.get(match.filler) || 0) + 1);
+      i += match.tokens.length - 1;
+    }
+  }
+  return count;
+}
+
+function timedWords(turn: TimedTurn): TimedWord[] {
+  return (turn.words || []).filter(
+    (w) => Number.isFinite(w.start) && Number.isFinite(w.end) && w.end >= w.start
+  );
+}
+
+/**
+ * Measure the candidate's delivery from word timings.
+ * Returns null when the transcript has no timed candidate words (text chats,
+ * transcripts without word timings).
+ */
+export function analyzeSpeech(turns: TimedTurn[], language: SupportedLanguage): SpeechAnalytics | null {
+  const patterns = fillerPatterns(language);
+  const fillerTotals = new Map<string, number>();
+  const answers: AnswerSpeech[] = [];
+  const pauses: number[] = [];
+  const responseDelays: number[] = [];
+  const speaking = { agent: 0, user: 0 };
+  const interruptions = { byCandidate: 0, byInterviewer: 0 };
+  let previous: { role: TimedTurn['role']; endSec: number } | null = null;
+
+  turns.forEach((turn, index) => {
+    const words = timedWords(turn);
+    if (words.length === 0) return;
+
+    const startSec = words[0].start;
+    const endSec = Math.max(...words.map((w) => w.end));
+    speaking[turn.role] += endSec - startSec;
+
+    if (previous && previous.role !== turn.role) {
+      if (startSec < previous.endSec) {
+        interruptions[turn.role === 'user' ? 'byCandidate' : 'byInterviewer']++;
+      } else if (turn.role === 'user') {
+        responseDelays.push(startSec - previous.endSec);
+      }
+    }
+    previous = { role: turn.role, endSec };
+
+    if (turn.role !== 'user') return;
+
+    let longestPauseSec = 0;
+    for (let i = 1; i < words.length; i++) {
+      const gap = words[i].start - words[i - 1].end;
+      if (gap >= SPEECH_ANALYTICS_CONFIG.pauseMinSec) {
+        pauses.push(gap);
+        longestPauseSec = Math.max(longestPauseSec, gap);
+      }
+    }
+
+    const durationSec = endSec - startSec;
+    answers.push({
+      turn: index,
+      startSec: round1(startSec),
+      endSec: round1(endSec),
+      words: words.length,
+      wpm: words.length >= SPEECH_ANALYTICS_CONFIG.minPaceWords && durationSec > 0
+        ? Math.round(words.length / (durationSec / 60))
+        : null,
+      fillers: countFillers(words, patterns, fillerTotals),
+      longestPauseSec: round1(longestPauseSec),
+    });
+  });
+
+  if (answers.length === 0) {
+    return null;
+  }
+
+  const candidateWords = answers.reduce((sum, a) => sum + a.words, 0);
+  const paced = answers.filter((a) => a.wpm !== null);
+  const pacedWords = paced.reduce((sum, a) => sum + a.words, 0);
+  const pacedSec = paced.reduce((sum, a) => sum + (a.endSec - a.startSec), 0);
+  const wpmAverage = pacedSec > 0 ? Math.round(pacedWords / (pacedSec / 60)) : null;
+  const range = language === 'zh' || language === 'ja'
+    ? SPEECH_ANALYTICS_CONFIG.characterPaceRange
+    : SPEECH_ANALYTICS_CONFIG.paceRange;
+
+  const fillerCount = answers.reduce((sum, a) => sum + a.fillers, 0);
+  const per100Words = candidateWords > 0 ? round1((fillerCount / candidateWords) * 100) : 0;
+  const longest = answers.reduce((best, a) =>
+    a.endSec - a.startSec > best.endSec - best.startSec ? a : best
+  );
+  const totalSpeaking = speaking.user + speaking.agent;
+
+  return {
+    language,
+    candidateWords,
+    candidateSpeakingSec: round1(speaking.user),
+    interviewerSpeakingSec: round1(speaking.agent),
+    talkTimeRatio: totalSpeaking > 0 ? Math.round((speaking.user / totalSpeaking) * 100) / 100 : null,
+    wpmAverage,
+    pace: wpmAverage === null
+      ? null
+      : wpmAverage < range.min ? 'too_slow' : wpmAverage > range.max ? 'too_fast' : 'good',
+    fillerWords: {
+      count: fillerCount,
+      per100Words,
+      frequency: per100Words >= SPEECH_ANALYTICS_CONFIG.fillerHighAt
+        ? 'high'
+        : per100Words >= SPEECH_ANALYTICS_CONFIG.fillerModerateAt ? 'moderate' : 'low',
+      top: Array.from(fillerTotals, ([filler, count]) => ({ filler, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+    },
+    pauses: {
+      count: pauses.length,
+      longCount: pauses.filter((p) => p >= SPEECH_ANALYTICS_CONFIG.longPauseSec).length,
+      averageSec: pauses.length > 0 ? round1(pauses.reduce((sum, p) => sum + p, 0) / pauses.length) : null,
+      longestSec: round1(Math.max(0, ...pauses)),
+    },
+    responseDelay: {
+      averageSec: responseDelays.length > 0
+        ? round1(responseDelays.reduce((sum, d) => sum + d, 0) / responseDelays.length)
+        : null,
+      longestSec: responseDelays.length > 0 ? round1(Math.max(...responseDelays)) : null,
+    },
+    longestMonologue: {
+      turn: longest.turn,
+      startSec: longest.startSec,
+      durationSec: round1(longest.endSec - longest.startSec),
+      words: longest.words,
+    },
+    interruptions,
+    answers,
+  };
+}
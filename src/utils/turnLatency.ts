@@ -0,0 +1,163 @@
+/**
+ * Turn latency tracker
+ * Times each interviewer turn of a live call: from the Retell request that
+ * asked for a reply to the LLM's first and last token, plus the bytes sent
+ * back. The per-turn series is persisted on the InterviewSession so latency
+ * can be compared across models, languages and regions.
+ */
+
+export interface TurnLatency {
+  /** Interview time the Retell request arrived, excluding pauses */
+  atSec: number;
+  /** Retell response_id the reply was sent under */
+  responseId: number;
+  /** Request received -> first LLM token */
+  firstTokenMs: number;
+  /** Request received -> last LLM token */
+  lastTokenMs: number;
+  /** Response frames sent to Retell for this turn */
+  bytesSent: number;
+  model: string;
+}
+
+export interface TurnLatencyState {
+  turns: TurnLatency[];
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface TurnLatencySummary {
+  turns: number;
+  firstTokenMs: LatencyPercentiles | null;
+  lastTokenMs: LatencyPercentiles | null;
+}
+
+interface OpenTurn {
+  receivedAt: number;
+  atSec: number;
+  responseId: number;
+  firstTokenAt: number | null;
+  bytesSent: number;
+}
+
+// Long calls are capped so the stored series stays small
+const MAX_TURNS = 200;
+
+/**
+ * Nearest-rank percentile of unsorted values (null when there are none)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function latencyPercentiles(values: number[]): LatencyPercentiles | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return {
+    p50: percentile(values, 50)!,
+    p95: percentile(values, 95)!,
+    p99: percentile(values, 99)!,
+  };
+}
+
+export function summarizeTurnLatencies(turns: TurnLatency[]): TurnLatencySummary {
+  return {
+    turns: turns.length,
+    firstTokenMs: latencyPercentiles(turns.map((t) => t.firstTokenMs)),
+    lastTokenMs: latencyPercentiles(turns.map((t) => t.lastTokenMs)),
+  };
+}
+
+export class TurnLatencyTracker {
+  private turns: TurnLatency[] = [];
+  private open: OpenTurn | null = null;
+
+  /**
+   * A Retell request that may be answered by the LLM arrived. Replaces a turn
+   * that never reached the LLM (canned replies are not timed).
+   */
+  begin(responseId: number, atSec: number, now: number = Date.now()) {
+    this.open = { receivedAt: now, atSec, responseId, firstTokenAt: null, bytesSent: 0 };
+  }
+
+  /**
+   * LLM output arrived; the first call marks the first token
+   */
+  markToken(now: number = Date.now()) {
+    if (this.open && this.open.firstTokenAt === null) {
+      this.open.firstTokenAt = now;
+    }
+  }
+
+  addBytes(bytes: number) {
+    if (this.open) {
+      this.open.bytesSent += bytes;
+    }
+  }
+
+  /**
+   * The LLM finished the reply; returns the completed turn (null if none was timed)
+   */
+  complete(responseId: number, model: string, now: number = Date.now()): TurnLatency | null {
+    const open = this.open;
+    this.open = null;
+    if (!open || open.firstTokenAt === null) {
+      return null;
+    }
+
+    const turn: TurnLatency = {
+      atSec: open.atSec,
+      responseId,
+      firstTokenMs: open.firstTokenAt - open.receivedAt,
+      lastTokenMs: now - open.receivedAt,
+      bytesSent: open.bytesSent,
+      model,
+    };
+    this.turns.push(turn);
+    if (this.turns.length > MAX_TURNS) {
+      this.turns.shift();
+    }
+    return turn;
+  }
+
+  /**
+   * The reply failed or was replaced by a canned line
+   */
+  discard() {
+    this.open = null;
+  }
+
+  getTurns(): TurnLatency[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Mean request -> last token over the timed turns (InterviewSession.avgResponseLatency)
+   */
+  getAverageResponseMs(): number | null {
+    if (this.turns.length === 0) {
+      return null;
+    }
+    return this.turns.reduce((sum, t) => sum + t.lastTokenMs, 0) / this.turns.length;
+  }
+
+  toState(): TurnLatencyState {
+    return { turns: this.getTurns() };
+  }
+
+  static fromState(state: TurnLatencyState): TurnLatencyTracker {
+    const tracker = new TurnLatencyTracker();
+    tracker.turns = [...(state.turns || [])];
+    return tracker;
+  }
+}